@@ -17,7 +17,11 @@ import Properties from "@/pages/properties";
 import Rooms from "@/pages/rooms";
 import Bookings from "@/pages/bookings";
 import Guests from "@/pages/guests";
+import FormC from "@/pages/form-c";
+import GuestRegister from "@/pages/guest-register";
 import Kitchen from "@/pages/restaurant";
+import Tables from "@/pages/tables";
+import Inventory from "@/pages/inventory";
 import Billing from "@/pages/billing";
 import Analytics from "@/pages/analytics";
 import Settings from "@/pages/settings";
@@ -36,6 +40,8 @@ import FoodOrdersReport from "@/pages/food-orders-report";
 import MenuManagement from "@/pages/menu-management";
 import EnhancedMenu from "@/pages/enhanced-menu";
 import CustomerMenu from "@/pages/customer-menu";
+import TrackOrder from "@/pages/track-order";
+import PreCheckIn from "@/pages/pre-check-in";
 import BookingAnalytics from "@/pages/booking-analytics";
 import QRCodes from "@/pages/qr-codes";
 import Salaries from "@/pages/salaries";
@@ -61,6 +67,8 @@ function Router() {
       {/* Public Routes - No Auth Required */}
       <Route path="/menu" component={Menu} />
       <Route path="/customer-menu" component={CustomerMenu} />
+      <Route path="/track/:token" component={TrackOrder} />
+      <Route path="/pre-check-in/:bookingId/:key" component={PreCheckIn} />
       <Route path="/qr-codes" component={QRCodes} />
       
       {!isAuthenticated ? (
@@ -74,7 +82,11 @@ function Router() {
           <Route path="/active-bookings" component={ActiveBookings} />
           <Route path="/room-calendar" component={RoomCalendar} />
           <Route path="/guests" component={Guests} />
+          <Route path="/form-c" component={FormC} />
+          <Route path="/guest-register" component={GuestRegister} />
           <Route path="/restaurant" component={Kitchen} />
+          <Route path="/tables" component={Tables} />
+          <Route path="/inventory" component={Inventory} />
           <Route path="/kitchen" component={Kitchen} />
           <Route path="/quick-order" component={QuickOrder} />
           <Route path="/menu-management" component={MenuManagement} />
@@ -8,9 +8,13 @@ import { useToast } from "@/hooks/use-toast";
 interface IdVerificationUploadProps {
   onUploadComplete: (objectKey: string) => void;
   existingImageUrl?: string;
+  // Public pages get their upload URL from their own endpoint and hand the upload URL
+  // itself to onUploadComplete; the server makes the file private when the form is saved
+  uploadUrlEndpoint?: string;
+  hint?: string;
 }
 
-export function IdVerificationUpload({ onUploadComplete, existingImageUrl }: IdVerificationUploadProps) {
+export function IdVerificationUpload({ onUploadComplete, existingImageUrl, uploadUrlEndpoint, hint }: IdVerificationUploadProps) {
   const [uploading, setUploading] = useState(false);
   const [previewUrl, setPreviewUrl] = useState<string | null>(existingImageUrl || null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -33,7 +37,7 @@ export function IdVerificationUpload({ onUploadComplete, existingImageUrl }: IdV
 
     try {
       // Step 1: Get upload URL
-      const uploadResponse = await fetch('/api/objects/upload', {
+      const uploadResponse = await fetch(uploadUrlEndpoint ?? '/api/objects/upload', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({}),
@@ -58,6 +62,16 @@ export function IdVerificationUpload({ onUploadComplete, existingImageUrl }: IdV
         throw new Error('Failed to upload file');
       }
 
+      if (uploadUrlEndpoint) {
+        setPreviewUrl(URL.createObjectURL(file));
+        onUploadComplete(uploadURL);
+        toast({
+          title: "Success",
+          description: "ID proof uploaded successfully",
+        });
+        return;
+      }
+
       // Step 3: Set private ACL for ID proof
       const aclResponse = await fetch('/api/guest-id-proofs', {
         method: 'PUT',
@@ -175,7 +189,7 @@ export function IdVerificationUpload({ onUploadComplete, existingImageUrl }: IdV
       </div>
 
       <p className="text-xs text-muted-foreground">
-        Upload a photo of guest's ID proof (Aadhar, PAN, Passport, etc.)
+        {hint ?? "Upload a photo of guest's ID proof (Aadhar, PAN, Passport, etc.)"}
       </p>
     </div>
   );
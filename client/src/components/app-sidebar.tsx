@@ -27,6 +27,9 @@ import {
   DollarSign,
   Briefcase,
   ClockAlert,
+  LayoutGrid,
+  Package,
+  Globe,
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
@@ -56,12 +59,16 @@ const adminOperationsItems = [
   { title: "Active Bookings", url: "/active-bookings", icon: ClipboardCheck },
   { title: "Room Calendar", url: "/room-calendar", icon: CalendarDays },
   { title: "Guests", url: "/guests", icon: Users },
+  { title: "Form C", url: "/form-c", icon: Globe },
+  { title: "Guest Register", url: "/guest-register", icon: BookOpen },
   { title: "Enquiries", url: "/enquiries", icon: MessageSquare },
   { title: "Travel Agents", url: "/travel-agents", icon: Briefcase },
   { title: "Restaurant", url: "/restaurant", icon: UtensilsCrossed },
+  { title: "Tables", url: "/tables", icon: LayoutGrid },
   { title: "Kitchen", url: "/kitchen", icon: ChefHat },
   { title: "Quick Order", url: "/quick-order", icon: Phone },
   { title: "Menu Management", url: "/enhanced-menu", icon: MenuSquare },
+  { title: "Inventory", url: "/inventory", icon: Package },
   { title: "Food Orders Report", url: "/food-orders-report", icon: FileBarChart },
   { title: "Booking Analytics", url: "/booking-analytics", icon: BarChart3 },
   { title: "Add-ons", url: "/addons", icon: Plus },
@@ -86,12 +93,16 @@ const managerOperationsItems = [
   { title: "Bookings", url: "/bookings", icon: Calendar },
   { title: "Active Bookings", url: "/active-bookings", icon: ClipboardCheck },
   { title: "Room Calendar", url: "/room-calendar", icon: CalendarDays },
+  { title: "Form C", url: "/form-c", icon: Globe },
+  { title: "Guest Register", url: "/guest-register", icon: BookOpen },
   { title: "Enquiries", url: "/enquiries", icon: MessageSquare },
   { title: "Travel Agents", url: "/travel-agents", icon: Briefcase },
   { title: "Restaurant", url: "/restaurant", icon: UtensilsCrossed },
+  { title: "Tables", url: "/tables", icon: LayoutGrid },
   { title: "Kitchen", url: "/kitchen", icon: ChefHat },
   { title: "Quick Order", url: "/quick-order", icon: Phone },
   { title: "Menu Management", url: "/enhanced-menu", icon: MenuSquare },
+  { title: "Inventory", url: "/inventory", icon: Package },
   { title: "Food Orders Report", url: "/food-orders-report", icon: FileBarChart },
   { title: "QR Codes", url: "/qr-codes", icon: QrCode },
   { title: "Add-ons", url: "/addons", icon: Plus },
@@ -108,6 +119,7 @@ const staffMenuItems = [
   { title: "Rooms", url: "/rooms", icon: Hotel },
   { title: "Active Bookings", url: "/active-bookings", icon: ClipboardCheck },
   { title: "Room Calendar", url: "/room-calendar", icon: CalendarDays },
+  { title: "Tables", url: "/tables", icon: LayoutGrid },
   { title: "Kitchen", url: "/kitchen", icon: ChefHat },
   { title: "Quick Order", url: "/quick-order", icon: Phone },
   { title: "Menu Management", url: "/enhanced-menu", icon: MenuSquare },
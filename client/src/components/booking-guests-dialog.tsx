@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { IdVerificationUpload } from "@/components/IdVerificationUpload";
+import { Pencil, Plus, Trash2, UserCheck, UserX } from "lucide-react";
+import type { Booking, BookingGuest, Room } from "@shared/schema";
+
+interface CoGuestForm {
+  id: number | null;
+  fullName: string;
+  age: string;
+  gender: string;
+  nationality: string;
+  idProofType: string;
+  idProofNumber: string;
+  idProofImage: string | null;
+  roomId: number | null;
+}
+
+export const ID_PROOF_TYPES = ["Aadhaar", "Passport", "Driving Licence", "Voter ID", "PAN", "Other"];
+
+function bookingRoomIds(booking: Booking): number[] {
+  if (booking.roomIds && booking.roomIds.length > 0) return Array.from(new Set(booking.roomIds));
+  return booking.roomId ? [booking.roomId] : [];
+}
+
+export function BookingGuestsDialog({
+  booking,
+  rooms,
+  open,
+  onOpenChange,
+}: {
+  booking: Booking | null;
+  rooms: Room[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<CoGuestForm | null>(null);
+
+  const { data: coGuests, isLoading } = useQuery<BookingGuest[]>({
+    queryKey: ["/api/bookings", booking?.id, "guests"],
+    enabled: open && !!booking,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (coGuest: CoGuestForm) => {
+      const body = {
+        fullName: coGuest.fullName.trim(),
+        age: coGuest.age ? parseInt(coGuest.age) : null,
+        gender: coGuest.gender || null,
+        nationality: coGuest.nationality.trim() || null,
+        idProofType: coGuest.idProofType || null,
+        idProofNumber: coGuest.idProofNumber.trim() || null,
+        idProofImage: coGuest.idProofImage,
+        roomId: coGuest.roomId,
+      };
+      return coGuest.id === null
+        ? await apiRequest(`/api/bookings/${booking!.id}/guests`, "POST", body)
+        : await apiRequest(`/api/bookings/${booking!.id}/guests/${coGuest.id}`, "PUT", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings", booking?.id, "guests"] });
+      setForm(null);
+      toast({ title: "Co-guest saved" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/bookings/${booking!.id}/guests/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings", booking?.id, "guests"] });
+      toast({ title: "Co-guest removed" });
+    },
+    onError,
+  });
+
+  if (!booking) return null;
+
+  const roomIds = bookingRoomIds(booking);
+  const roomNumber = (id: number | null) => rooms.find(r => r.id === id)?.roomNumber ?? (id ? `#${id}` : "");
+  const registered = 1 + (coGuests?.length ?? 0);
+  const canAdd = registered < booking.numberOfGuests;
+
+  const newCoGuest = (): CoGuestForm => ({
+    id: null,
+    fullName: "",
+    age: "",
+    gender: "",
+    nationality: "",
+    idProofType: "",
+    idProofNumber: "",
+    idProofImage: null,
+    roomId: roomIds.length > 1 ? null : roomIds[0] ?? null,
+  });
+
+  const editCoGuest = (coGuest: BookingGuest) => {
+    setForm({
+      id: coGuest.id,
+      fullName: coGuest.fullName,
+      age: coGuest.age?.toString() ?? "",
+      gender: coGuest.gender ?? "",
+      nationality: coGuest.nationality ?? "",
+      idProofType: coGuest.idProofType ?? "",
+      idProofNumber: coGuest.idProofNumber ?? "",
+      idProofImage: coGuest.idProofImage,
+      roomId: coGuest.roomId,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) setForm(null); onOpenChange(next); }}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Guests on Booking #{booking.id}</DialogTitle>
+          <DialogDescription>
+            Register everyone staying besides the booking guest, with their ID proof. {registered} of {booking.numberOfGuests} registered.
+          </DialogDescription>
+        </DialogHeader>
+
+        {form ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="co-guest-name">Full Name *</Label>
+              <Input
+                id="co-guest-name"
+                value={form.fullName}
+                onChange={(e) => setForm({ ...form, fullName: e.target.value })}
+                data-testid="input-co-guest-name"
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="co-guest-age">Age</Label>
+                <Input
+                  id="co-guest-age"
+                  type="number"
+                  min="0"
+                  max="120"
+                  value={form.age}
+                  onChange={(e) => setForm({ ...form, age: e.target.value })}
+                  data-testid="input-co-guest-age"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Gender</Label>
+                <Select value={form.gender} onValueChange={(value) => setForm({ ...form, gender: value })}>
+                  <SelectTrigger data-testid="select-co-guest-gender">
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="male">Male</SelectItem>
+                    <SelectItem value="female">Female</SelectItem>
+                    <SelectItem value="other">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="co-guest-nationality">Nationality</Label>
+                <Input
+                  id="co-guest-nationality"
+                  placeholder="Indian"
+                  value={form.nationality}
+                  onChange={(e) => setForm({ ...form, nationality: e.target.value })}
+                  data-testid="input-co-guest-nationality"
+                />
+              </div>
+            </div>
+
+            {roomIds.length > 1 && (
+              <div className="space-y-2">
+                <Label>Room</Label>
+                <Select
+                  value={form.roomId?.toString() ?? ""}
+                  onValueChange={(value) => setForm({ ...form, roomId: parseInt(value) })}
+                >
+                  <SelectTrigger data-testid="select-co-guest-room">
+                    <SelectValue placeholder="Select room" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roomIds.map(id => (
+                      <SelectItem key={id} value={id.toString()}>Room {roomNumber(id)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>ID Proof Type</Label>
+                <Select value={form.idProofType} onValueChange={(value) => setForm({ ...form, idProofType: value })}>
+                  <SelectTrigger data-testid="select-co-guest-id-type">
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ID_PROOF_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="co-guest-id-number">ID Number</Label>
+                <Input
+                  id="co-guest-id-number"
+                  value={form.idProofNumber}
+                  onChange={(e) => setForm({ ...form, idProofNumber: e.target.value })}
+                  data-testid="input-co-guest-id-number"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>ID Proof</Label>
+              {form.idProofImage && (
+                <p className="text-xs text-muted-foreground">ID proof on file. Upload a new one to replace it.</p>
+              )}
+              <IdVerificationUpload onUploadComplete={(objectPath) => setForm(prev => prev && { ...prev, idProofImage: objectPath })} />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={!form.fullName.trim() || (roomIds.length > 1 && form.roomId === null) || saveMutation.isPending}
+                data-testid="button-save-co-guest"
+              >
+                Save Guest
+              </Button>
+            </div>
+          </div>
+        ) : isLoading ? (
+          <Skeleton className="h-32" />
+        ) : (
+          <div className="space-y-3">
+            {coGuests?.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No co-guests registered yet</p>
+            )}
+            {coGuests?.map(coGuest => (
+              <div key={coGuest.id} className="border rounded-md p-3 space-y-1" data-testid={`co-guest-${coGuest.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{coGuest.fullName}</span>
+                    {coGuest.idProofImage ? (
+                      <Badge variant="secondary" className="text-xs"><UserCheck className="h-3 w-3 mr-1" />ID on file</Badge>
+                    ) : (
+                      <Badge variant="destructive" className="text-xs"><UserX className="h-3 w-3 mr-1" />No ID</Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center">
+                    <Button size="icon" variant="ghost" onClick={() => editCoGuest(coGuest)} data-testid={`button-edit-co-guest-${coGuest.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(coGuest.id)}
+                      data-testid={`button-delete-co-guest-${coGuest.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {[
+                    coGuest.age !== null ? `${coGuest.age} yrs` : null,
+                    coGuest.gender,
+                    coGuest.nationality,
+                    coGuest.idProofType && `${coGuest.idProofType} ${coGuest.idProofNumber ?? ""}`.trim(),
+                    coGuest.roomId && `Room ${roomNumber(coGuest.roomId)}`,
+                  ].filter(Boolean).join(" • ")}
+                </p>
+              </div>
+            ))}
+            <Button onClick={() => setForm(newCoGuest())} disabled={!canAdd} data-testid="button-add-co-guest">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Guest
+            </Button>
+            {!canAdd && (
+              <p className="text-xs text-muted-foreground">
+                Everyone on this booking is registered. Edit the booking's number of guests to add more.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,41 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function daysOfWeekText(days: number[] | null | undefined): string {
+  if (!days || days.length === 0 || days.length === 7) return "Every day";
+  return [...days].sort().map(day => DAYS[day]).join(", ");
+}
+
+// null means every day; clearing every day or picking all seven both store null
+export function DaysOfWeekPicker({
+  value,
+  onChange,
+  testIdPrefix = "toggle-day",
+}: {
+  value: number[] | null;
+  onChange: (days: number[] | null) => void;
+  testIdPrefix?: string;
+}) {
+  const selected = value && value.length > 0 ? value : [0, 1, 2, 3, 4, 5, 6];
+
+  return (
+    <ToggleGroup
+      type="multiple"
+      variant="outline"
+      size="sm"
+      className="justify-start flex-wrap"
+      value={selected.map(String)}
+      onValueChange={(days) => {
+        const next = days.map(day => parseInt(day)).sort();
+        onChange(next.length === 0 || next.length === 7 ? null : next);
+      }}
+    >
+      {DAYS.map((label, day) => (
+        <ToggleGroupItem key={day} value={String(day)} className="px-2 text-xs" data-testid={`${testIdPrefix}-${day}`}>
+          {label}
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  );
+}
@@ -23,6 +23,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { type MenuItem, type MenuItemVariant, type MenuItemAddOn } from "@shared/schema";
+import { DaysOfWeekPicker } from "@/components/days-of-week-picker";
 
 const menuItemFormSchema = z.object({
   propertyId: z.number(),
@@ -37,6 +38,9 @@ const menuItemFormSchema = z.object({
   hasVariants: z.boolean().default(false),
   hasAddOns: z.boolean().default(false),
   displayOrder: z.number().int().min(0),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  daysOfWeek: z.array(z.number().int()).nullable().default(null),
   variants: z.array(z.object({
     variantName: z.string().min(1),
     actualPrice: z.string().min(1),
@@ -88,6 +92,9 @@ export function EnhancedMenuItemForm({
       hasVariants: false,
       hasAddOns: false,
       displayOrder: 0,
+      startTime: "",
+      endTime: "",
+      daysOfWeek: null,
       variants: [],
       addOns: [],
     },
@@ -139,6 +146,9 @@ export function EnhancedMenuItemForm({
             hasVariants: menuItem.hasVariants,
             hasAddOns: menuItem.hasAddOns,
             displayOrder: menuItem.displayOrder || 0,
+            startTime: menuItem.startTime || "",
+            endTime: menuItem.endTime || "",
+            daysOfWeek: menuItem.daysOfWeek ?? null,
             variants: variantsResponse.map((v: any) => ({
               variantName: v.variantName,
               actualPrice: v.actualPrice,
@@ -169,6 +179,9 @@ export function EnhancedMenuItemForm({
             hasVariants: menuItem.hasVariants,
             hasAddOns: menuItem.hasAddOns,
             displayOrder: menuItem.displayOrder || 0,
+            startTime: menuItem.startTime || "",
+            endTime: menuItem.endTime || "",
+            daysOfWeek: menuItem.daysOfWeek ?? null,
             variants: [],
             addOns: [],
           });
@@ -193,6 +206,9 @@ export function EnhancedMenuItemForm({
         hasVariants: false,
         hasAddOns: false,
         displayOrder: 0,
+        startTime: "",
+        endTime: "",
+        daysOfWeek: null,
         variants: [],
         addOns: [],
       });
@@ -212,6 +228,9 @@ export function EnhancedMenuItemForm({
         discountedPrice: data.discountedPrice === "" ? null : data.discountedPrice,
         description: data.description === "" ? null : data.description,
         imageUrl: data.imageUrl === "" ? null : data.imageUrl,
+        // A serving window needs both ends
+        startTime: data.startTime && data.endTime ? data.startTime : null,
+        endTime: data.startTime && data.endTime ? data.endTime : null,
         categoryId: data.categoryId === 0 ? null : data.categoryId,
         hasVariants: data.variants.length > 0,
         hasAddOns: data.addOns.length > 0,
@@ -302,6 +321,25 @@ export function EnhancedMenuItemForm({
             </Select>
           </div>
 
+          {/* Serving Window */}
+          <div>
+            <Label>Serving Hours (optional)</Label>
+            <div className="grid grid-cols-2 gap-4">
+              <Input type="time" {...form.register("startTime")} data-testid="input-item-start-time" />
+              <Input type="time" {...form.register("endTime")} data-testid="input-item-end-time" />
+            </div>
+            <div className="mt-2">
+              <DaysOfWeekPicker
+                value={form.watch("daysOfWeek")}
+                onChange={(days) => form.setValue("daysOfWeek", days)}
+                testIdPrefix="toggle-item-day"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Narrows the category's hours for this item; leave empty to follow the category
+            </p>
+          </div>
+
           {/* Display Order */}
           <div>
             <Label>Display Order</Label>
@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FORM_C_FIELD_LABELS, VISA_EXEMPT_NATIONALITIES, type ForeignerDetails, type Guest } from "@shared/schema";
+
+type DetailsForm = Record<keyof ForeignerDetails, string>;
+
+const FIELDS = Object.keys(FORM_C_FIELD_LABELS) as (keyof ForeignerDetails)[];
+
+const DATE_FIELDS: (keyof ForeignerDetails)[] = [
+  "dateOfBirth", "passportIssueDate", "passportExpiryDate", "visaIssueDate", "visaExpiryDate", "arrivedInIndiaOn",
+];
+
+const SECTIONS: { title: string; fields: (keyof ForeignerDetails)[] }[] = [
+  { title: "Passport", fields: ["passportNumber", "passportPlaceOfIssue", "passportIssueDate", "passportExpiryDate"] },
+  { title: "Visa", fields: ["visaNumber", "visaType", "visaPlaceOfIssue", "visaIssueDate", "visaExpiryDate"] },
+  { title: "Trip", fields: ["arrivedInIndiaOn", "arrivedFrom", "nextDestination", "purposeOfVisit"] },
+];
+
+const PLACEHOLDERS: Partial<Record<keyof ForeignerDetails, string>> = {
+  nationality: "e.g., British, German",
+  visaType: "e.g., Tourist, e-Visa, Business, OCI",
+  arrivedFrom: "e.g., Delhi, Kathmandu",
+  nextDestination: "e.g., Jaipur",
+  purposeOfVisit: "e.g., Tourism, Business",
+};
+
+// Same rule as the server: a nationality other than Indian needs Form C
+export function isForeignNational(guest: Pick<Guest, "nationality">): boolean {
+  const nationality = guest.nationality?.trim().toLowerCase();
+  return !!nationality && nationality !== "indian" && nationality !== "india";
+}
+
+function toForm(guest: Guest): DetailsForm {
+  return Object.fromEntries(FIELDS.map(field => [field, guest[field] ?? ""])) as DetailsForm;
+}
+
+export function ForeignerDetailsForm({
+  guest,
+  saveLabel = "Save Details",
+  onSaved,
+}: {
+  guest: Guest;
+  saveLabel?: string;
+  onSaved?: (guest: Guest) => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<DetailsForm>(() => toForm(guest));
+
+  useEffect(() => {
+    setForm(toForm(guest));
+  }, [guest]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (details: DetailsForm) => {
+      const response = await apiRequest(`/api/guests/${guest.id}/foreigner-details`, "PUT", {
+        ...details,
+        gender: details.gender || null,
+      });
+      return response.json();
+    },
+    onSuccess: (saved: Guest) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guests"] });
+      toast({ title: "Form C details saved" });
+      onSaved?.(saved);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const visaExempt = VISA_EXEMPT_NATIONALITIES.includes(form.nationality.trim().toLowerCase());
+
+  const field = (key: keyof ForeignerDetails) => (
+    <div key={key} className="space-y-2">
+      <Label htmlFor={`foreigner-${key}`}>{FORM_C_FIELD_LABELS[key]}</Label>
+      <Input
+        id={`foreigner-${key}`}
+        type={DATE_FIELDS.includes(key) ? "date" : "text"}
+        placeholder={PLACEHOLDERS[key]}
+        value={form[key]}
+        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+        data-testid={`input-foreigner-${key}`}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {field("nationality")}
+        {field("dateOfBirth")}
+        <div className="space-y-2">
+          <Label>{FORM_C_FIELD_LABELS.gender}</Label>
+          <Select value={form.gender} onValueChange={(value) => setForm({ ...form, gender: value })}>
+            <SelectTrigger data-testid="select-foreigner-gender">
+              <SelectValue placeholder="Select" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="male">Male</SelectItem>
+              <SelectItem value="female">Female</SelectItem>
+              <SelectItem value="other">Other</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="foreigner-address">{FORM_C_FIELD_LABELS.address}</Label>
+        <Textarea
+          id="foreigner-address"
+          value={form.address}
+          onChange={(e) => setForm({ ...form, address: e.target.value })}
+          data-testid="input-foreigner-address"
+        />
+      </div>
+
+      {SECTIONS.map(section => (
+        <div key={section.title} className="space-y-2">
+          <p className="text-sm font-medium">
+            {section.title}
+            {visaExempt && section.title !== "Trip" && (
+              <span className="ml-2 text-xs font-normal text-muted-foreground">Optional for Nepalese and Bhutanese citizens</span>
+            )}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {section.fields.map(field)}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => saveMutation.mutate(form)}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-foreigner-details"
+        >
+          {saveLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Merge, Users } from "lucide-react";
+import type { GuestDuplicateGroup } from "@shared/schema";
+
+function groupKey(group: GuestDuplicateGroup): string {
+  return group.guests.map(g => g.id).join("-");
+}
+
+export function GuestDuplicatesDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  // Guest kept for each group; defaults to the one with the most stays
+  const [survivors, setSurvivors] = useState<Record<string, number>>({});
+
+  const { data: groups, isLoading } = useQuery<GuestDuplicateGroup[]>({
+    queryKey: ["/api/guests/duplicates"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ survivorId, duplicateIds }: { survivorId: number; duplicateIds: number[] }) => {
+      const response = await apiRequest(`/api/guests/${survivorId}/merge`, "POST", { duplicateIds });
+      return response.json();
+    },
+    onSuccess: (result: { moved: { bookings: number; orders: number; bills: number } }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guests/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/guests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      toast({
+        title: "Guests merged",
+        description: `Moved ${result.moved.bookings} bookings, ${result.moved.orders} orders and ${result.moved.bills} bills.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Possible Duplicate Guests</DialogTitle>
+          <DialogDescription>
+            Pick the profile to keep. Bookings, orders and bills from the others move to it, and the others are deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-32" />
+            <Skeleton className="h-32" />
+          </div>
+        ) : !groups || groups.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-8 text-center text-muted-foreground">
+            <Users className="h-8 w-8" />
+            <p>No duplicate guests found</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groups.map(group => {
+              const key = groupKey(group);
+              const survivorId = survivors[key] ?? group.guests[0].id;
+              return (
+                <div key={key} className="rounded-md border p-4 space-y-3" data-testid={`group-duplicates-${key}`}>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={group.confidence === "exact" ? "default" : "secondary"}>
+                      {group.confidence === "exact" ? "Same person" : "Likely duplicate"}
+                    </Badge>
+                    {group.reasons.map(reason => (
+                      <span key={reason} className="text-xs text-muted-foreground">{reason}</span>
+                    ))}
+                  </div>
+                  <RadioGroup
+                    value={String(survivorId)}
+                    onValueChange={(value) => setSurvivors(prev => ({ ...prev, [key]: parseInt(value) }))}
+                  >
+                    {group.guests.map(guest => (
+                      <div key={guest.id} className="flex items-start gap-3">
+                        <RadioGroupItem value={String(guest.id)} id={`survivor-${guest.id}`} className="mt-1" />
+                        <Label htmlFor={`survivor-${guest.id}`} className="flex-1 font-normal">
+                          <span className="font-medium">{guest.fullName}</span>
+                          <span className="block text-xs text-muted-foreground">
+                            {[guest.phone, guest.email, guest.idProofNumber].filter(Boolean).join(" • ")}
+                            {" • "}{guest.totalStays} {guest.totalStays === 1 ? "stay" : "stays"}
+                          </span>
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      disabled={mergeMutation.isPending}
+                      onClick={() => mergeMutation.mutate({
+                        survivorId,
+                        duplicateIds: group.guests.map(g => g.id).filter(id => id !== survivorId),
+                      })}
+                      data-testid={`button-merge-${key}`}
+                    >
+                      <Merge className="h-4 w-4 mr-2" />
+                      Merge {group.guests.length - 1} into selected
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,281 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Mail, Phone, Star } from "lucide-react";
+import { ForeignerDetailsForm } from "@/components/foreigner-details-form";
+import { GUEST_PREFERENCE_LABELS, type GuestPreferences, type GuestProfile, type LoyaltyTier } from "@shared/schema";
+
+const PREFERENCE_PLACEHOLDERS: Record<keyof GuestPreferences, string> = {
+  roomType: "e.g., Deluxe with balcony",
+  bedType: "e.g., King, twin beds",
+  floor: "e.g., High floor, ground floor",
+  pillow: "e.g., Firm, feather-free",
+  dietary: "e.g., Jain, vegan",
+  allergies: "e.g., Peanuts, shellfish",
+  beverages: "e.g., Filter coffee, no sugar",
+  occasions: "e.g., Anniversary 14 Feb",
+};
+
+const PREFERENCE_KEYS = Object.keys(GUEST_PREFERENCE_LABELS) as (keyof GuestPreferences)[];
+
+function formatCurrency(amount: number | string): string {
+  return `₹${Number(amount).toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(date: string | Date | null): string {
+  return date ? format(new Date(date), "d MMM yyyy") : "—";
+}
+
+// Both thresholds must be met, so progress is the one the guest is furthest from
+function nextTierProgress(profile: GuestProfile, nextTier: LoyaltyTier): { percent: number; remaining: string } {
+  const minSpend = parseFloat(nextTier.minSpend);
+  const staysLeft = Math.max(0, nextTier.minStays - profile.stats.completedStays);
+  const spendLeft = Math.max(0, minSpend - profile.stats.lifetimeSpend);
+  const ratios = [
+    nextTier.minStays > 0 ? profile.stats.completedStays / nextTier.minStays : 1,
+    minSpend > 0 ? profile.stats.lifetimeSpend / minSpend : 1,
+  ];
+  const remaining = [
+    staysLeft > 0 ? `${staysLeft} more ${staysLeft === 1 ? "stay" : "stays"}` : null,
+    spendLeft > 0 ? `${formatCurrency(spendLeft)} more spend` : null,
+  ].filter(Boolean).join(" and ");
+  return { percent: Math.min(100, Math.round(Math.min(...ratios) * 100)), remaining };
+}
+
+export function GuestProfileDialog({
+  guestId,
+  open,
+  onOpenChange,
+}: {
+  guestId: number | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<GuestPreferences>({});
+
+  const { data: profile, isLoading } = useQuery<GuestProfile>({
+    queryKey: ["/api/guests", guestId, "profile"],
+    enabled: open && guestId !== null,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    setPreferences(profile?.guest.preferenceProfile || {});
+  }, [profile]);
+
+  const savePreferencesMutation = useMutation({
+    mutationFn: async (next: GuestPreferences) => {
+      const cleaned = Object.fromEntries(
+        Object.entries(next).map(([key, value]) => [key, value?.trim()]).filter(([, value]) => value)
+      );
+      return await apiRequest(`/api/guests/${guestId}`, "PATCH", {
+        preferenceProfile: Object.keys(cleaned).length > 0 ? cleaned : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guests", guestId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/guests"] });
+      toast({ title: "Preferences saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const progress = profile?.nextTier ? nextTierProgress(profile, profile.nextTier) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {profile?.guest.fullName ?? "Guest"}
+            {profile?.tier && (
+              <Badge data-testid="badge-guest-profile-tier">
+                <Star className="h-3 w-3 mr-1" />
+                {profile.tier.name}
+              </Badge>
+            )}
+          </DialogTitle>
+          {profile && (
+            <DialogDescription className="flex flex-wrap gap-4">
+              <span className="flex items-center gap-1"><Phone className="h-3 w-3" />{profile.guest.phone}</span>
+              {profile.guest.email && <span className="flex items-center gap-1"><Mail className="h-3 w-3" />{profile.guest.email}</span>}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {isLoading || !profile ? (
+          <div className="space-y-3">
+            <Skeleton className="h-24" />
+            <Skeleton className="h-48" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="rounded-md border p-3" data-testid="stat-guest-stays">
+                <p className="text-xs text-muted-foreground">Stays</p>
+                <p className="text-xl font-semibold">{profile.stats.completedStays}</p>
+                {profile.stats.upcomingStays > 0 && (
+                  <p className="text-xs text-muted-foreground">{profile.stats.upcomingStays} upcoming</p>
+                )}
+              </div>
+              <div className="rounded-md border p-3" data-testid="stat-guest-nights">
+                <p className="text-xs text-muted-foreground">Nights</p>
+                <p className="text-xl font-semibold">{profile.stats.nights}</p>
+              </div>
+              <div className="rounded-md border p-3" data-testid="stat-guest-spend">
+                <p className="text-xs text-muted-foreground">Lifetime Spend</p>
+                <p className="text-xl font-semibold">{formatCurrency(profile.stats.lifetimeSpend)}</p>
+              </div>
+              <div className="rounded-md border p-3" data-testid="stat-guest-adr">
+                <p className="text-xs text-muted-foreground">Avg. Nightly Rate</p>
+                <p className="text-xl font-semibold">
+                  {profile.stats.averageNightlyRate !== null ? formatCurrency(profile.stats.averageNightlyRate) : "—"}
+                </p>
+              </div>
+            </div>
+
+            {profile.tier?.benefits && (
+              <p className="text-sm"><span className="font-medium">{profile.tier.name} benefits:</span> {profile.tier.benefits}</p>
+            )}
+            {profile.nextTier && progress && (
+              <div className="space-y-1" data-testid="progress-next-tier">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Next: {profile.nextTier.name}</span>
+                  <span>{progress.remaining} to go</span>
+                </div>
+                <Progress value={progress.percent} />
+              </div>
+            )}
+
+            <Tabs defaultValue="preferences">
+              <TabsList>
+                <TabsTrigger value="preferences" data-testid="tab-guest-preferences">Preferences</TabsTrigger>
+                <TabsTrigger value="form-c" data-testid="tab-guest-form-c">Form C</TabsTrigger>
+                <TabsTrigger value="stays" data-testid="tab-guest-stays">Stays ({profile.bookings.length})</TabsTrigger>
+                <TabsTrigger value="bills" data-testid="tab-guest-bills">Bills ({profile.bills.length})</TabsTrigger>
+                <TabsTrigger value="orders" data-testid="tab-guest-orders">Orders ({profile.orders.length})</TabsTrigger>
+                <TabsTrigger value="messages" data-testid="tab-guest-messages">Messages ({profile.communications.length})</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="preferences" className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {PREFERENCE_KEYS.map(key => (
+                    <div key={key} className="space-y-2">
+                      <Label htmlFor={`guest-preference-${key}`}>{GUEST_PREFERENCE_LABELS[key]}</Label>
+                      <Input
+                        id={`guest-preference-${key}`}
+                        placeholder={PREFERENCE_PLACEHOLDERS[key]}
+                        maxLength={255}
+                        value={preferences[key] ?? ""}
+                        onChange={(e) => setPreferences({ ...preferences, [key]: e.target.value })}
+                        data-testid={`input-guest-preference-${key}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+                {profile.guest.preferences && (
+                  <div className="p-2 rounded-md bg-muted">
+                    <p className="text-xs font-medium mb-1">Notes:</p>
+                    <p className="text-xs text-muted-foreground whitespace-pre-line">{profile.guest.preferences}</p>
+                  </div>
+                )}
+                <div className="flex justify-end">
+                  <Button
+                    onClick={() => savePreferencesMutation.mutate(preferences)}
+                    disabled={savePreferencesMutation.isPending}
+                    data-testid="button-save-guest-preferences"
+                  >
+                    Save Preferences
+                  </Button>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="form-c">
+                <p className="text-sm text-muted-foreground mb-4">
+                  Passport, visa and arrival details reported to the FRRO for foreign nationals. Leave the nationality empty or "Indian" for Indian citizens.
+                </p>
+                <ForeignerDetailsForm guest={profile.guest} />
+              </TabsContent>
+
+              <TabsContent value="stays" className="space-y-2">
+                {profile.bookings.length === 0 && <p className="text-sm text-muted-foreground text-center py-4">No stays yet</p>}
+                {profile.bookings.map(booking => (
+                  <div key={booking.id} className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm" data-testid={`row-guest-stay-${booking.id}`}>
+                    <div>
+                      <p className="font-medium">
+                        {formatDate(booking.checkInDate)} – {formatDate(booking.checkOutDate)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {booking.propertyName ?? `Property #${booking.propertyId}`}
+                        {booking.roomNumbers.length > 0 && ` • Room ${booking.roomNumbers.join(", ")}`}
+                      </p>
+                    </div>
+                    <Badge variant="outline" className="capitalize">{booking.status}</Badge>
+                  </div>
+                ))}
+              </TabsContent>
+
+              <TabsContent value="bills" className="space-y-2">
+                {profile.bills.length === 0 && <p className="text-sm text-muted-foreground text-center py-4">No bills yet</p>}
+                {profile.bills.map(bill => (
+                  <div key={bill.id} className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm" data-testid={`row-guest-bill-${bill.id}`}>
+                    <div>
+                      <p className="font-medium">Bill #{bill.id} • {formatCurrency(bill.totalAmount)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(bill.createdAt)}
+                        {parseFloat(bill.balanceAmount) > 0 && ` • ${formatCurrency(bill.balanceAmount)} due`}
+                      </p>
+                    </div>
+                    <Badge variant={bill.paymentStatus === "paid" ? "default" : "secondary"} className="capitalize">{bill.paymentStatus}</Badge>
+                  </div>
+                ))}
+              </TabsContent>
+
+              <TabsContent value="orders" className="space-y-2">
+                {profile.orders.length === 0 && <p className="text-sm text-muted-foreground text-center py-4">No orders yet</p>}
+                {profile.orders.map(order => (
+                  <div key={order.id} className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm" data-testid={`row-guest-order-${order.id}`}>
+                    <div>
+                      <p className="font-medium">Order #{order.id} • {formatCurrency(order.totalAmount)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(order.createdAt)}
+                        {order.orderType && ` • ${order.orderType}`}
+                      </p>
+                    </div>
+                    <Badge variant="outline" className="capitalize">{order.status}</Badge>
+                  </div>
+                ))}
+              </TabsContent>
+
+              <TabsContent value="messages" className="space-y-2">
+                {profile.communications.length === 0 && <p className="text-sm text-muted-foreground text-center py-4">No messages yet</p>}
+                {profile.communications.map(message => (
+                  <div key={message.id} className="rounded-md border p-3 text-sm space-y-1" data-testid={`row-guest-message-${message.id}`}>
+                    <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                      <span className="uppercase">{message.messageType}</span>
+                      <span>{message.createdAt ? format(new Date(message.createdAt), "d MMM yyyy, h:mm a") : ""} • {message.status}</span>
+                    </div>
+                    <p className="whitespace-pre-line line-clamp-4">{message.messageContent}</p>
+                  </div>
+                ))}
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
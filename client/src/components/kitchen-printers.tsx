@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Plus, Printer, Trash2 } from "lucide-react";
+import { KITCHEN_STATIONS, type KitchenPrinter, type Property } from "@shared/schema";
+
+const emptyForm = { station: "kitchen", name: "", host: "", charsPerLine: "42" };
+
+export function KitchenPrintersCard() {
+  const { toast } = useToast();
+  const [propertyId, setPropertyId] = useState<number | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: properties = [] } = useQuery<Property[]>({
+    queryKey: ["/api/properties"],
+  });
+  const selectedPropertyId = propertyId ?? properties[0]?.id ?? null;
+
+  const { data: printers = [] } = useQuery<KitchenPrinter[]>({
+    queryKey: ["/api/kitchen-printers", selectedPropertyId],
+    queryFn: async () => {
+      const response = await fetch(`/api/kitchen-printers?propertyId=${selectedPropertyId}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch printers");
+      return response.json();
+    },
+    enabled: selectedPropertyId !== null,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/kitchen-printers", "POST", {
+        propertyId: selectedPropertyId,
+        station: form.station,
+        name: form.name.trim(),
+        host: form.host.trim(),
+        charsPerLine: parseInt(form.charsPerLine) || 42,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-printers"] });
+      setForm(emptyForm);
+      toast({ title: "Printer added" });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      return await apiRequest(`/api/kitchen-printers/${id}`, "PATCH", { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-printers"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/kitchen-printers/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-printers"] });
+      toast({ title: "Printer removed" });
+    },
+    onError,
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Printer className="h-5 w-5" />
+          Kitchen Printers
+        </CardTitle>
+        <CardDescription>
+          Network ESC/POS printers on port 9100, one per station. Stations without a printer use the kitchen printer.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {properties.length > 1 && (
+          <Select value={selectedPropertyId?.toString() ?? ""} onValueChange={(value) => setPropertyId(parseInt(value))}>
+            <SelectTrigger className="w-[220px]" data-testid="select-printer-property">
+              <SelectValue placeholder="Property" />
+            </SelectTrigger>
+            <SelectContent>
+              {properties.map(property => (
+                <SelectItem key={property.id} value={property.id.toString()}>{property.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="space-y-2">
+          {printers.length === 0 && (
+            <p className="text-sm text-muted-foreground">No printers yet. KOTs can still be printed from the browser.</p>
+          )}
+          {printers.map(printer => (
+            <div key={printer.id} className="flex items-center justify-between gap-2 border rounded-md p-2 text-sm" data-testid={`printer-${printer.id}`}>
+              <div>
+                <p className="font-medium">{printer.name} <span className="capitalize text-muted-foreground">• {printer.station}</span></p>
+                <p className="font-mono text-xs text-muted-foreground">{printer.host}:{printer.port} • {printer.charsPerLine} chars</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={printer.isActive}
+                  onCheckedChange={(checked) => updateMutation.mutate({ id: printer.id, isActive: checked })}
+                  data-testid={`switch-printer-active-${printer.id}`}
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => deleteMutation.mutate(printer.id)}
+                  data-testid={`button-delete-printer-${printer.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+          <div className="space-y-1">
+            <Label>Station</Label>
+            <Select value={form.station} onValueChange={(value) => setForm({ ...form, station: value })}>
+              <SelectTrigger data-testid="select-printer-station">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {KITCHEN_STATIONS.map(station => (
+                  <SelectItem key={station} value={station} className="capitalize">{station}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Name</Label>
+            <Input
+              placeholder="Tandoor Printer"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              data-testid="input-printer-name"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>IP Address</Label>
+            <Input
+              placeholder="192.168.1.50"
+              value={form.host}
+              onChange={(e) => setForm({ ...form, host: e.target.value })}
+              data-testid="input-printer-host"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Paper</Label>
+            <Select value={form.charsPerLine} onValueChange={(value) => setForm({ ...form, charsPerLine: value })}>
+              <SelectTrigger data-testid="select-printer-paper">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="42">80mm</SelectItem>
+                <SelectItem value="32">58mm</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!form.name.trim() || !form.host.trim() || selectedPropertyId === null || createMutation.isPending}
+            data-testid="button-add-printer"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
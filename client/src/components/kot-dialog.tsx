@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { Ban, Download, Monitor, Printer, Ticket } from "lucide-react";
+import type { Kot } from "@shared/schema";
+
+function printInBrowser(kot: Kot, text: string) {
+  const printWindow = window.open("", "_blank", "width=400,height=600");
+  if (!printWindow) return;
+  const escaped = text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  printWindow.document.write(
+    `<html><head><title>KOT #${kot.kotNumber}</title></head>` +
+    `<body style="margin:0"><pre style="font-family:monospace;font-size:12px">${escaped}</pre></body></html>`
+  );
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  printWindow.close();
+}
+
+export function KotDialog({
+  orderId,
+  open,
+  onOpenChange,
+}: {
+  orderId: number | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [voidingId, setVoidingId] = useState<number | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+
+  const { data: kots, isLoading } = useQuery<Kot[]>({
+    queryKey: ["/api/orders", orderId, "kots"],
+    enabled: open && orderId !== null,
+  });
+
+  const invalidateKots = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId, "kots"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/orders/${orderId}/kots`, "POST");
+      return response.json() as Promise<Kot[]>;
+    },
+    onSuccess: (created) => {
+      invalidateKots();
+      toast({
+        title: created.length > 0 ? "KOTs created" : "Nothing to send",
+        description: created.length > 0
+          ? created.map(k => `#${k.kotNumber} ${k.station}`).join(", ")
+          : "Every station already has an active KOT for this order",
+      });
+    },
+    onError,
+  });
+
+  const printMutation = useMutation({
+    mutationFn: async ({ kot, target }: { kot: Kot; target: "printer" | "browser" }) => {
+      const response = await apiRequest(`/api/kots/${kot.id}/print`, "POST", { target });
+      return response.json() as Promise<{ kot: Kot; text?: string }>;
+    },
+    onSuccess: ({ kot, text }) => {
+      invalidateKots();
+      if (text) {
+        printInBrowser(kot, text);
+      } else {
+        toast({ title: kot.printCount > 1 ? "KOT reprinted" : "KOT printed", description: `#${kot.kotNumber} sent to ${kot.station}` });
+      }
+    },
+    onError,
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      const response = await apiRequest(`/api/kots/${id}/void`, "POST", { reason });
+      return response.json() as Promise<{ kot: Kot; voidSlipPrinted: boolean }>;
+    },
+    onSuccess: ({ kot, voidSlipPrinted }) => {
+      invalidateKots();
+      setVoidingId(null);
+      setVoidReason("");
+      toast({
+        title: `KOT #${kot.kotNumber} voided`,
+        description: voidSlipPrinted ? `Void slip sent to ${kot.station}` : "Let the station know the ticket is cancelled",
+      });
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ticket className="h-5 w-5" />
+            KOTs for Order #{orderId}
+          </DialogTitle>
+          <DialogDescription>One ticket per kitchen station</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-32" />
+        ) : (
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {kots?.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No KOTs issued yet</p>
+            )}
+            {kots?.map((kot) => (
+              <div key={kot.id} className="border rounded-md p-3 space-y-2" data-testid={`kot-${kot.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">#{kot.kotNumber}</span>
+                    <Badge variant="outline" className="capitalize">{kot.station}</Badge>
+                    {kot.status === "voided" && <Badge variant="destructive">Voided</Badge>}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {kot.printCount === 0
+                      ? "Not printed"
+                      : `Printed ${kot.printCount}x${kot.lastPrintedAt ? `, last ${format(new Date(kot.lastPrintedAt), "HH:mm")}` : ""}`}
+                  </span>
+                </div>
+                <div className="text-sm">
+                  {kot.lines.map((line, idx) => (
+                    <p key={idx}>
+                      {line.quantity}x {line.name}{line.variantName ? ` (${line.variantName})` : ""}
+                      {line.modifiers && line.modifiers.length > 0 && <span> [{line.modifiers.join(", ")}]</span>}
+                      {line.addOns.length > 0 && <span className="text-muted-foreground"> + {line.addOns.join(", ")}</span>}
+                    </p>
+                  ))}
+                </div>
+                {kot.status === "voided" && kot.voidReason && (
+                  <p className="text-xs text-muted-foreground">Void reason: {kot.voidReason}</p>
+                )}
+                {kot.status === "active" && (
+                  voidingId === kot.id ? (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Reason for voiding"
+                        value={voidReason}
+                        onChange={(e) => setVoidReason(e.target.value)}
+                        data-testid={`input-void-reason-${kot.id}`}
+                      />
+                      <Button
+                        variant="destructive"
+                        onClick={() => voidMutation.mutate({ id: kot.id, reason: voidReason })}
+                        disabled={!voidReason.trim() || voidMutation.isPending}
+                        data-testid={`button-confirm-void-${kot.id}`}
+                      >
+                        Void
+                      </Button>
+                      <Button variant="outline" onClick={() => setVoidingId(null)}>Cancel</Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2 flex-wrap">
+                      <Button
+                        size="sm"
+                        onClick={() => printMutation.mutate({ kot, target: "printer" })}
+                        disabled={printMutation.isPending}
+                        data-testid={`button-print-kot-${kot.id}`}
+                      >
+                        <Printer className="h-4 w-4 mr-1" />
+                        {kot.printCount > 0 ? "Reprint" : "Print"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => printMutation.mutate({ kot, target: "browser" })}
+                        disabled={printMutation.isPending}
+                        data-testid={`button-browser-print-kot-${kot.id}`}
+                      >
+                        <Monitor className="h-4 w-4 mr-1" />
+                        Browser
+                      </Button>
+                      <Button size="sm" variant="outline" asChild>
+                        <a
+                          href={`/api/kots/${kot.id}/escpos`}
+                          download
+                          onClick={() => setTimeout(invalidateKots, 1000)}
+                          data-testid={`link-download-kot-${kot.id}`}
+                        >
+                          <Download className="h-4 w-4 mr-1" />
+                          ESC/POS
+                        </a>
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => { setVoidingId(kot.id); setVoidReason(""); }}
+                        data-testid={`button-void-kot-${kot.id}`}
+                      >
+                        <Ban className="h-4 w-4 mr-1" />
+                        Void
+                      </Button>
+                    </div>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          onClick={() => generateMutation.mutate()}
+          disabled={generateMutation.isPending || orderId === null}
+          data-testid="button-generate-kots"
+        >
+          <Ticket className="h-4 w-4 mr-2" />
+          {kots && kots.length > 0 ? "Issue Missing KOTs" : "Create KOTs"}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import type { LoyaltyTier } from "@shared/schema";
+
+interface TierForm {
+  id: number | null;
+  name: string;
+  minStays: string;
+  minSpend: string;
+  benefits: string;
+  isActive: boolean;
+}
+
+export function loyaltyThresholdText(tier: Pick<LoyaltyTier, "minStays" | "minSpend">): string {
+  const parts: string[] = [];
+  if (tier.minStays > 0) parts.push(`${tier.minStays}+ ${tier.minStays === 1 ? "stay" : "stays"}`);
+  if (parseFloat(tier.minSpend) > 0) parts.push(`₹${parseFloat(tier.minSpend).toLocaleString("en-IN")}+ spent`);
+  return parts.join(" and ");
+}
+
+export function LoyaltyTiersDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<TierForm | null>(null);
+
+  const { data: tiers, isLoading } = useQuery<LoyaltyTier[]>({
+    queryKey: ["/api/loyalty-tiers"],
+    enabled: open,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  // Tiers are worked out on read, so every guest's tier moves with the thresholds
+  const invalidateTiers = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/loyalty-tiers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/guests/loyalty"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/guests"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (tier: TierForm) => {
+      const body = {
+        name: tier.name.trim(),
+        minStays: parseInt(tier.minStays) || 0,
+        minSpend: parseFloat(tier.minSpend) || 0,
+        benefits: tier.benefits.trim() || null,
+        isActive: tier.isActive,
+      };
+      return tier.id === null
+        ? await apiRequest("/api/loyalty-tiers", "POST", body)
+        : await apiRequest(`/api/loyalty-tiers/${tier.id}`, "PUT", body);
+    },
+    onSuccess: () => {
+      invalidateTiers();
+      setForm(null);
+      toast({ title: "Loyalty tier saved" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/loyalty-tiers/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      invalidateTiers();
+      toast({ title: "Loyalty tier removed" });
+    },
+    onError,
+  });
+
+  const newTier = (): TierForm => ({
+    id: null,
+    name: "",
+    minStays: "",
+    minSpend: "",
+    benefits: "",
+    isActive: true,
+  });
+
+  const editTier = (tier: LoyaltyTier) => {
+    setForm({
+      id: tier.id,
+      name: tier.name,
+      minStays: tier.minStays > 0 ? tier.minStays.toString() : "",
+      minSpend: parseFloat(tier.minSpend) > 0 ? parseFloat(tier.minSpend).toString() : "",
+      benefits: tier.benefits || "",
+      isActive: tier.isActive,
+    });
+  };
+
+  const isComplete = form !== null && !!form.name.trim()
+    && ((parseInt(form.minStays) || 0) > 0 || (parseFloat(form.minSpend) || 0) > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) setForm(null); onOpenChange(next); }}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Loyalty Tiers</DialogTitle>
+          <DialogDescription>
+            Guests reach a tier once they meet both its completed stays and lifetime spend. Each guest is shown in the highest tier they qualify for.
+          </DialogDescription>
+        </DialogHeader>
+
+        {form ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="loyalty-tier-name">Name *</Label>
+              <Input
+                id="loyalty-tier-name"
+                placeholder="e.g., Silver, Gold"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                data-testid="input-loyalty-tier-name"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="loyalty-tier-stays">Completed Stays</Label>
+                <Input
+                  id="loyalty-tier-stays"
+                  type="number"
+                  min="0"
+                  placeholder="0"
+                  value={form.minStays}
+                  onChange={(e) => setForm({ ...form, minStays: e.target.value })}
+                  data-testid="input-loyalty-tier-stays"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="loyalty-tier-spend">Lifetime Spend (₹)</Label>
+                <Input
+                  id="loyalty-tier-spend"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="0"
+                  value={form.minSpend}
+                  onChange={(e) => setForm({ ...form, minSpend: e.target.value })}
+                  data-testid="input-loyalty-tier-spend"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">Set at least one threshold. Leave the other empty to ignore it.</p>
+
+            <div className="space-y-2">
+              <Label htmlFor="loyalty-tier-benefits">Benefits</Label>
+              <Textarea
+                id="loyalty-tier-benefits"
+                placeholder="e.g., Free breakfast, late checkout on request"
+                value={form.benefits}
+                onChange={(e) => setForm({ ...form, benefits: e.target.value })}
+                data-testid="input-loyalty-tier-benefits"
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+                data-testid="switch-loyalty-tier-active"
+              />
+              <Label>Active</Label>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={!isComplete || saveMutation.isPending}
+                data-testid="button-save-loyalty-tier"
+              >
+                Save Tier
+              </Button>
+            </div>
+          </div>
+        ) : isLoading ? (
+          <Skeleton className="h-32" />
+        ) : (
+          <div className="space-y-3">
+            {tiers?.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No loyalty tiers yet</p>
+            )}
+            {tiers?.map(tier => (
+              <div key={tier.id} className="border rounded-md p-3 space-y-1" data-testid={`loyalty-tier-${tier.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{tier.name}</span>
+                    {!tier.isActive && <Badge variant="secondary" className="text-xs">Paused</Badge>}
+                  </div>
+                  <div className="flex items-center">
+                    <Button size="icon" variant="ghost" onClick={() => editTier(tier)} data-testid={`button-edit-loyalty-tier-${tier.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(tier.id)}
+                      data-testid={`button-delete-loyalty-tier-${tier.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-sm text-muted-foreground">{loyaltyThresholdText(tier)}</p>
+                {tier.benefits && <p className="text-sm whitespace-pre-line">{tier.benefits}</p>}
+              </div>
+            ))}
+            <Button onClick={() => setForm(newTier())} data-testid="button-add-loyalty-tier">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Tier
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,392 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { DaysOfWeekPicker, daysOfWeekText } from "@/components/days-of-week-picker";
+import type { MenuCategory, MenuItem, MenuPriceRule } from "@shared/schema";
+
+type Scope = "menu" | "category" | "item";
+
+interface RuleForm {
+  id: number | null;
+  name: string;
+  propertyId: number | null;
+  scope: Scope;
+  categoryId: number | null;
+  menuItemId: number | null;
+  ruleType: string;
+  value: string;
+  startTime: string;
+  endTime: string;
+  daysOfWeek: number[] | null;
+  startDate: string;
+  endDate: string;
+  isActive: boolean;
+}
+
+const RULE_TYPE_LABELS: Record<string, string> = {
+  percent_off: "% off",
+  amount_off: "₹ off",
+  fixed_price: "Fixed price",
+};
+
+function ruleValueText(rule: MenuPriceRule): string {
+  if (rule.ruleType === "percent_off") return `${parseFloat(rule.value)}% off`;
+  if (rule.ruleType === "amount_off") return `₹${rule.value} off`;
+  return `₹${rule.value}`;
+}
+
+export function MenuPriceRulesDialog({
+  open,
+  onOpenChange,
+  properties,
+  categories,
+  menuItems,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  properties: any[];
+  categories: MenuCategory[];
+  menuItems: MenuItem[];
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<RuleForm | null>(null);
+
+  const { data: rules, isLoading } = useQuery<MenuPriceRule[]>({
+    queryKey: ["/api/menu-price-rules"],
+    enabled: open,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (rule: RuleForm) => {
+      const body = {
+        name: rule.name.trim(),
+        propertyId: rule.propertyId,
+        categoryId: rule.scope === "category" ? rule.categoryId : null,
+        menuItemId: rule.scope === "item" ? rule.menuItemId : null,
+        ruleType: rule.ruleType,
+        value: rule.value,
+        startTime: rule.startTime,
+        endTime: rule.endTime,
+        daysOfWeek: rule.daysOfWeek,
+        startDate: rule.startDate || null,
+        endDate: rule.endDate || null,
+        isActive: rule.isActive,
+      };
+      return rule.id === null
+        ? await apiRequest("/api/menu-price-rules", "POST", body)
+        : await apiRequest(`/api/menu-price-rules/${rule.id}`, "PUT", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/menu-price-rules"] });
+      setForm(null);
+      toast({ title: "Price rule saved" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/menu-price-rules/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/menu-price-rules"] });
+      toast({ title: "Price rule removed" });
+    },
+    onError,
+  });
+
+  const newRule = (): RuleForm => ({
+    id: null,
+    name: "Happy Hour",
+    propertyId: properties[0]?.id ?? null,
+    scope: "menu",
+    categoryId: null,
+    menuItemId: null,
+    ruleType: "percent_off",
+    value: "",
+    startTime: "17:00",
+    endTime: "19:00",
+    daysOfWeek: null,
+    startDate: "",
+    endDate: "",
+    isActive: true,
+  });
+
+  const editRule = (rule: MenuPriceRule) => {
+    setForm({
+      id: rule.id,
+      name: rule.name,
+      propertyId: rule.propertyId,
+      scope: rule.menuItemId !== null ? "item" : rule.categoryId !== null ? "category" : "menu",
+      categoryId: rule.categoryId,
+      menuItemId: rule.menuItemId,
+      ruleType: rule.ruleType,
+      value: rule.value,
+      startTime: rule.startTime,
+      endTime: rule.endTime,
+      daysOfWeek: rule.daysOfWeek,
+      startDate: rule.startDate || "",
+      endDate: rule.endDate || "",
+      isActive: rule.isActive,
+    });
+  };
+
+  const scopeText = (rule: MenuPriceRule): string => {
+    if (rule.menuItemId !== null) return menuItems.find(i => i.id === rule.menuItemId)?.name ?? `Item #${rule.menuItemId}`;
+    if (rule.categoryId !== null) return categories.find(c => c.id === rule.categoryId)?.name ?? `Category #${rule.categoryId}`;
+    return "Whole menu";
+  };
+
+  const inProperty = (propertyId: number | null) =>
+    form?.propertyId === null || propertyId === null || propertyId === form?.propertyId;
+
+  const isComplete = form !== null && !!form.name.trim() && parseFloat(form.value) > 0 && !!form.startTime && !!form.endTime
+    && (form.scope !== "category" || form.categoryId !== null)
+    && (form.scope !== "item" || form.menuItemId !== null);
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) setForm(null); onOpenChange(next); }}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Happy Hours & Timed Prices</DialogTitle>
+          <DialogDescription>
+            Prices that apply only at certain times, in each property's local time. If several rules cover an item, guests get the lowest price.
+          </DialogDescription>
+        </DialogHeader>
+
+        {form ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="price-rule-name">Name *</Label>
+              <Input
+                id="price-rule-name"
+                placeholder="e.g., Happy Hour, Breakfast Combo"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                data-testid="input-price-rule-name"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Property</Label>
+                <Select
+                  value={form.propertyId?.toString() ?? "0"}
+                  onValueChange={(val) => setForm({ ...form, propertyId: val === "0" ? null : parseInt(val) })}
+                >
+                  <SelectTrigger data-testid="select-price-rule-property">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">All Properties</SelectItem>
+                    {properties.map((prop) => (
+                      <SelectItem key={prop.id} value={prop.id.toString()}>{prop.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Applies To</Label>
+                <Select value={form.scope} onValueChange={(val) => setForm({ ...form, scope: val as Scope })}>
+                  <SelectTrigger data-testid="select-price-rule-scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="menu">Whole menu</SelectItem>
+                    <SelectItem value="category">A category</SelectItem>
+                    <SelectItem value="item">A single item</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {form.scope === "category" && (
+              <Select
+                value={form.categoryId?.toString() ?? ""}
+                onValueChange={(val) => setForm({ ...form, categoryId: parseInt(val) })}
+              >
+                <SelectTrigger data-testid="select-price-rule-category">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.filter(c => inProperty(c.propertyId)).map((cat) => (
+                    <SelectItem key={cat.id} value={cat.id.toString()}>{cat.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {form.scope === "item" && (
+              <Select
+                value={form.menuItemId?.toString() ?? ""}
+                onValueChange={(val) => setForm({ ...form, menuItemId: parseInt(val) })}
+              >
+                <SelectTrigger data-testid="select-price-rule-item">
+                  <SelectValue placeholder="Select item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {menuItems.filter(i => inProperty(i.propertyId)).map((item) => (
+                    <SelectItem key={item.id} value={item.id.toString()}>{item.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Price Change</Label>
+                <Select value={form.ruleType} onValueChange={(val) => setForm({ ...form, ruleType: val })}>
+                  <SelectTrigger data-testid="select-price-rule-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RULE_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="price-rule-value">{form.ruleType === "percent_off" ? "Percent" : "Amount (₹)"} *</Label>
+                <Input
+                  id="price-rule-value"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.value}
+                  onChange={(e) => setForm({ ...form, value: e.target.value })}
+                  data-testid="input-price-rule-value"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Input
+                  type="time"
+                  value={form.startTime}
+                  onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+                  data-testid="input-price-rule-start-time"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Until</Label>
+                <Input
+                  type="time"
+                  value={form.endTime}
+                  onChange={(e) => setForm({ ...form, endTime: e.target.value })}
+                  data-testid="input-price-rule-end-time"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Days</Label>
+              <DaysOfWeekPicker
+                value={form.daysOfWeek}
+                onChange={(daysOfWeek) => setForm({ ...form, daysOfWeek })}
+                testIdPrefix="toggle-price-rule-day"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Starts On (optional)</Label>
+                <Input
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                  data-testid="input-price-rule-start-date"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Ends On (optional)</Label>
+                <Input
+                  type="date"
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                  data-testid="input-price-rule-end-date"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+                data-testid="switch-price-rule-active"
+              />
+              <Label>Active</Label>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={!isComplete || saveMutation.isPending}
+                data-testid="button-save-price-rule"
+              >
+                Save Rule
+              </Button>
+            </div>
+          </div>
+        ) : isLoading ? (
+          <Skeleton className="h-32" />
+        ) : (
+          <div className="space-y-3">
+            {rules?.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No timed prices yet</p>
+            )}
+            {rules?.map(rule => (
+              <div key={rule.id} className="border rounded-md p-3 space-y-1" data-testid={`price-rule-${rule.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{rule.name}</span>
+                    <Badge variant="outline" className="text-xs">{ruleValueText(rule)}</Badge>
+                    {!rule.isActive && <Badge variant="secondary" className="text-xs">Paused</Badge>}
+                  </div>
+                  <div className="flex items-center">
+                    <Button size="icon" variant="ghost" onClick={() => editRule(rule)} data-testid={`button-edit-price-rule-${rule.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(rule.id)}
+                      data-testid={`button-delete-price-rule-${rule.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {scopeText(rule)} • {rule.startTime} - {rule.endTime} • {daysOfWeekText(rule.daysOfWeek)}
+                  {rule.propertyId !== null && ` • ${properties.find(p => p.id === rule.propertyId)?.name ?? `Property #${rule.propertyId}`}`}
+                </p>
+              </div>
+            ))}
+            <Button onClick={() => setForm(newRule())} data-testid="button-add-price-rule">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Timed Price
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Pencil, Plus, Trash2, X } from "lucide-react";
+import type { MenuItem, MenuItemModifierGroupWithOptions } from "@shared/schema";
+
+interface GroupForm {
+  id: number | null;
+  name: string;
+  minSelections: string;
+  maxSelections: string;
+  modifiers: { id?: number; name: string; price: string; isAvailable: boolean }[];
+}
+
+const newGroup = (): GroupForm => ({
+  id: null,
+  name: "",
+  minSelections: "1",
+  maxSelections: "1",
+  modifiers: [{ name: "", price: "0", isAvailable: true }],
+});
+
+function limitsText(group: MenuItemModifierGroupWithOptions): string {
+  if (group.minSelections === 0) return group.maxSelections === 1 ? "Optional" : `Optional, up to ${group.maxSelections}`;
+  if (group.minSelections === group.maxSelections) return `Required, choose ${group.minSelections}`;
+  return `Required, choose ${group.minSelections}-${group.maxSelections}`;
+}
+
+export function ModifierGroupsDialog({
+  item,
+  open,
+  onOpenChange,
+}: {
+  item: MenuItem;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<GroupForm | null>(null);
+
+  const { data: groups, isLoading } = useQuery<MenuItemModifierGroupWithOptions[]>({
+    queryKey: [`/api/menu-items/${item.id}/modifier-groups`],
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/menu-items/${item.id}/modifier-groups`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/menu-items"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (group: GroupForm) => {
+      const body = {
+        name: group.name.trim(),
+        minSelections: parseInt(group.minSelections) || 0,
+        maxSelections: parseInt(group.maxSelections) || 1,
+        displayOrder: group.id === null ? groups?.length ?? 0 : groups?.findIndex(g => g.id === group.id) ?? 0,
+        modifiers: group.modifiers
+          .filter(m => m.name.trim())
+          .map(m => ({ id: m.id, name: m.name.trim(), price: m.price || "0", isAvailable: m.isAvailable })),
+      };
+      return group.id === null
+        ? await apiRequest(`/api/menu-items/${item.id}/modifier-groups`, "POST", body)
+        : await apiRequest(`/api/menu-item-modifier-groups/${group.id}`, "PUT", body);
+    },
+    onSuccess: () => {
+      invalidate();
+      setForm(null);
+      toast({ title: "Choices saved" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/menu-item-modifier-groups/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Choice group removed" });
+    },
+    onError,
+  });
+
+  const editGroup = (group: MenuItemModifierGroupWithOptions) => {
+    setForm({
+      id: group.id,
+      name: group.name,
+      minSelections: group.minSelections.toString(),
+      maxSelections: group.maxSelections.toString(),
+      modifiers: group.modifiers.map(m => ({ id: m.id, name: m.name, price: m.price, isAvailable: m.isAvailable })),
+    });
+  };
+
+  const updateOption = (index: number, changes: Partial<GroupForm["modifiers"][number]>) => {
+    if (!form) return;
+    setForm({ ...form, modifiers: form.modifiers.map((m, i) => i === index ? { ...m, ...changes } : m) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) setForm(null); onOpenChange(next); }}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Choices for {item.name}</DialogTitle>
+          <DialogDescription>
+            Groups like "Choose your bread" or "Toppings". Guests and staff must pick within each group's limits.
+          </DialogDescription>
+        </DialogHeader>
+
+        {form ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="modifier-group-name">Group Name *</Label>
+              <Input
+                id="modifier-group-name"
+                placeholder="e.g., Choose your bread"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                data-testid="input-modifier-group-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="modifier-group-min">Minimum</Label>
+                <Input
+                  id="modifier-group-min"
+                  type="number"
+                  min="0"
+                  value={form.minSelections}
+                  onChange={(e) => setForm({ ...form, minSelections: e.target.value })}
+                  data-testid="input-modifier-group-min"
+                />
+                <p className="text-xs text-muted-foreground">0 makes the group optional</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="modifier-group-max">Maximum</Label>
+                <Input
+                  id="modifier-group-max"
+                  type="number"
+                  min="1"
+                  value={form.maxSelections}
+                  onChange={(e) => setForm({ ...form, maxSelections: e.target.value })}
+                  data-testid="input-modifier-group-max"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Options</Label>
+              {form.modifiers.map((modifier, index) => (
+                <div key={modifier.id ?? `new-${index}`} className="flex items-center gap-2">
+                  <Input
+                    placeholder="Option"
+                    value={modifier.name}
+                    onChange={(e) => updateOption(index, { name: e.target.value })}
+                    data-testid={`input-modifier-name-${index}`}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="w-24"
+                    placeholder="+₹"
+                    value={modifier.price}
+                    onChange={(e) => updateOption(index, { price: e.target.value })}
+                    data-testid={`input-modifier-price-${index}`}
+                  />
+                  <Switch
+                    checked={modifier.isAvailable}
+                    onCheckedChange={(checked) => updateOption(index, { isAvailable: checked })}
+                    data-testid={`switch-modifier-available-${index}`}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setForm({ ...form, modifiers: form.modifiers.filter((_, i) => i !== index) })}
+                    data-testid={`button-remove-modifier-${index}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setForm({ ...form, modifiers: [...form.modifiers, { name: "", price: "0", isAvailable: true }] })}
+                data-testid="button-add-modifier-option"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Option
+              </Button>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={!form.name.trim() || !form.modifiers.some(m => m.name.trim()) || saveMutation.isPending}
+                data-testid="button-save-modifier-group"
+              >
+                Save Group
+              </Button>
+            </div>
+          </div>
+        ) : isLoading ? (
+          <Skeleton className="h-32" />
+        ) : (
+          <div className="space-y-3">
+            {groups?.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No choice groups yet</p>
+            )}
+            {groups?.map(group => (
+              <div key={group.id} className="border rounded-md p-3 space-y-1" data-testid={`modifier-group-${group.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{group.name}</span>
+                    <Badge variant={group.minSelections > 0 ? "default" : "secondary"} className="text-xs">{limitsText(group)}</Badge>
+                  </div>
+                  <div className="flex items-center">
+                    <Button size="icon" variant="ghost" onClick={() => editGroup(group)} data-testid={`button-edit-modifier-group-${group.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(group.id)}
+                      data-testid={`button-delete-modifier-group-${group.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {group.modifiers
+                    .map(m => `${m.name}${parseFloat(m.price) > 0 ? ` (+₹${m.price})` : ""}${m.isAvailable ? "" : " - unavailable"}`)
+                    .join(", ")}
+                </p>
+              </div>
+            ))}
+            <Button onClick={() => setForm(newGroup())} data-testid="button-add-modifier-group">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Choice Group
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import type { MenuItemModifierGroupWithOptions } from "@shared/schema";
+
+function groupHint(group: MenuItemModifierGroupWithOptions): string {
+  if (group.maxSelections === 1) return group.minSelections > 0 ? "Required" : "Optional";
+  if (group.minSelections === 0) return `Optional • up to ${group.maxSelections}`;
+  if (group.minSelections === group.maxSelections) return `Required • choose ${group.minSelections}`;
+  return `Required • choose ${group.minSelections} to ${group.maxSelections}`;
+}
+
+// Same rules the server applies when pricing the order
+export function modifierSelectionIssues(groups: MenuItemModifierGroupWithOptions[], selected: number[]): string[] {
+  const issues: string[] = [];
+  for (const group of groups) {
+    const count = group.modifiers.filter(m => selected.includes(m.id)).length;
+    if (count < group.minSelections) {
+      issues.push(group.minSelections === 1 ? `Choose ${group.name.toLowerCase()}` : `Choose at least ${group.minSelections} of ${group.name.toLowerCase()}`);
+    } else if (count > group.maxSelections) {
+      issues.push(`Choose up to ${group.maxSelections} of ${group.name.toLowerCase()}`);
+    }
+  }
+  return issues;
+}
+
+// Per-unit price of the chosen modifiers
+export function modifierSelectionPrice(groups: MenuItemModifierGroupWithOptions[], selected: number[]): number {
+  return groups
+    .flatMap(group => group.modifiers)
+    .filter(m => selected.includes(m.id))
+    .reduce((sum, m) => sum + parseFloat(m.price), 0);
+}
+
+export function modifierSelectionNames(groups: MenuItemModifierGroupWithOptions[], selected: number[]): string[] {
+  return groups.flatMap(group => group.modifiers).filter(m => selected.includes(m.id)).map(m => m.name);
+}
+
+export function ModifierPicker({
+  groups,
+  selected,
+  onChange,
+}: {
+  groups: MenuItemModifierGroupWithOptions[];
+  selected: number[];
+  onChange: (selected: number[]) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      {groups.map(group => {
+        const optionIds = group.modifiers.map(m => m.id);
+        const chosen = selected.filter(id => optionIds.includes(id));
+        const others = selected.filter(id => !optionIds.includes(id));
+        const isMissing = chosen.length < group.minSelections;
+
+        return (
+          <div key={group.id} className="space-y-2" data-testid={`modifier-group-${group.id}`}>
+            <div className="flex items-center justify-between gap-2">
+              <Label className="text-base font-semibold">{group.name}</Label>
+              <Badge variant={isMissing ? "destructive" : "secondary"} className="text-xs">{groupHint(group)}</Badge>
+            </div>
+
+            {group.maxSelections === 1 ? (
+              <RadioGroup
+                value={chosen[0]?.toString() ?? ""}
+                onValueChange={(value) => onChange([...others, parseInt(value)])}
+              >
+                {group.modifiers.map(modifier => (
+                  <div key={modifier.id} className="flex items-center justify-between gap-2 border rounded-md p-2">
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem
+                        value={modifier.id.toString()}
+                        id={`modifier-${modifier.id}`}
+                        data-testid={`radio-modifier-${modifier.id}`}
+                      />
+                      <Label htmlFor={`modifier-${modifier.id}`} className="font-normal">{modifier.name}</Label>
+                    </div>
+                    {parseFloat(modifier.price) > 0 && <span className="text-sm font-semibold">+₹{modifier.price}</span>}
+                  </div>
+                ))}
+                {group.minSelections === 0 && chosen.length > 0 && (
+                  <button
+                    type="button"
+                    className="text-xs text-muted-foreground underline text-left"
+                    onClick={() => onChange(others)}
+                  >
+                    Clear
+                  </button>
+                )}
+              </RadioGroup>
+            ) : (
+              <div className="space-y-2">
+                {group.modifiers.map(modifier => {
+                  const isChecked = chosen.includes(modifier.id);
+                  return (
+                    <div key={modifier.id} className="flex items-center justify-between gap-2 border rounded-md p-2">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`modifier-${modifier.id}`}
+                          checked={isChecked}
+                          disabled={!isChecked && chosen.length >= group.maxSelections}
+                          onCheckedChange={(checked) => onChange(
+                            checked ? [...selected, modifier.id] : selected.filter(id => id !== modifier.id)
+                          )}
+                          data-testid={`checkbox-modifier-${modifier.id}`}
+                        />
+                        <Label htmlFor={`modifier-${modifier.id}`} className="font-normal">{modifier.name}</Label>
+                      </div>
+                      {parseFloat(modifier.price) > 0 && <span className="text-sm font-semibold">+₹{modifier.price}</span>}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
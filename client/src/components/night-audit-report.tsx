@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { MoonStar, RefreshCw } from "lucide-react";
+import type { DailyStat, Property } from "@shared/schema";
+
+function formatBusinessDate(value: string) {
+  return format(new Date(`${value}T00:00:00`), "dd MMM yyyy");
+}
+
+export function NightAuditReport({ properties }: { properties: Property[] }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [selectedProperty, setSelectedProperty] = useState<number | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const propertyId = selectedProperty ?? properties[0]?.id ?? null;
+  const canRunAudit = user?.role === "admin" || user?.role === "manager";
+
+  const { data: audits = [], isLoading } = useQuery<DailyStat[]>({
+    queryKey: ["/api/night-audit", propertyId],
+    queryFn: async () => {
+      const response = await fetch(`/api/night-audit?propertyId=${propertyId}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch night audits");
+      return response.json();
+    },
+    enabled: propertyId !== null,
+  });
+
+  const runAuditMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/night-audit/run", "POST", { propertyId });
+      return response.json() as Promise<DailyStat>;
+    },
+    onSuccess: (stat) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/night-audit", propertyId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      setSelectedDate(stat.businessDate);
+      toast({
+        title: "Night audit complete",
+        description: `${formatBusinessDate(stat.businessDate)}: ${stat.noShows} no-show(s), ${stat.overstays} overstay(s)`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const audit = audits.find(a => a.businessDate === selectedDate) ?? audits[0];
+
+  return (
+    <Card className="mb-8" data-testid="card-night-audit">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0 flex-wrap">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <MoonStar className="h-5 w-5 text-chart-2" />
+            Night Audit
+          </CardTitle>
+          <CardDescription>
+            {audit
+              ? `Business date ${formatBusinessDate(audit.businessDate)} • ${audit.auditedBy ? "run manually" : "scheduled"} at ${format(new Date(audit.auditedAt), "dd MMM, HH:mm")}`
+              : "No audit has been run for this property yet"}
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          {properties.length > 1 && (
+            <Select
+              value={propertyId?.toString() ?? ""}
+              onValueChange={(value) => {
+                setSelectedProperty(parseInt(value));
+                setSelectedDate(null);
+              }}
+            >
+              <SelectTrigger className="w-[180px]" data-testid="select-night-audit-property">
+                <SelectValue placeholder="Property" />
+              </SelectTrigger>
+              <SelectContent>
+                {properties.map(property => (
+                  <SelectItem key={property.id} value={property.id.toString()}>{property.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {audits.length > 1 && (
+            <Select value={audit?.businessDate ?? ""} onValueChange={setSelectedDate}>
+              <SelectTrigger className="w-[150px]" data-testid="select-night-audit-date">
+                <SelectValue placeholder="Date" />
+              </SelectTrigger>
+              <SelectContent>
+                {audits.map(a => (
+                  <SelectItem key={a.businessDate} value={a.businessDate}>{formatBusinessDate(a.businessDate)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {canRunAudit && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => runAuditMutation.mutate()}
+              disabled={propertyId === null || runAuditMutation.isPending}
+              data-testid="button-run-night-audit"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${runAuditMutation.isPending ? "animate-spin" : ""}`} />
+              Run for Yesterday
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32" />
+        ) : !audit ? (
+          <p className="text-sm text-muted-foreground">
+            The audit runs automatically every night and closes the previous business date.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Occupancy</p>
+                <p className="text-2xl font-bold font-mono" data-testid="text-audit-occupancy">{parseFloat(audit.occupancyRate)}%</p>
+                <p className="text-xs text-muted-foreground">{audit.roomsSold} of {audit.totalRooms} rooms</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Room Revenue</p>
+                <p className="text-2xl font-bold font-mono" data-testid="text-audit-revenue">₹{parseFloat(audit.roomRevenue).toLocaleString()}</p>
+                <p className="text-xs text-muted-foreground">{audit.report.postings.length} posting(s)</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">ADR</p>
+                <p className="text-2xl font-bold font-mono" data-testid="text-audit-adr">₹{parseFloat(audit.adr).toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">RevPAR</p>
+                <p className="text-2xl font-bold font-mono" data-testid="text-audit-revpar">₹{parseFloat(audit.revpar).toLocaleString()}</p>
+              </div>
+            </div>
+
+            <div className="flex gap-2 flex-wrap">
+              <Badge variant="secondary">Arrivals: {audit.arrivals}</Badge>
+              <Badge variant="secondary">Departures: {audit.departures}</Badge>
+              <Badge variant={audit.noShows > 0 ? "destructive" : "secondary"}>No-shows: {audit.noShows}</Badge>
+              <Badge variant={audit.overstays > 0 ? "destructive" : "secondary"}>Overstays: {audit.overstays}</Badge>
+            </div>
+
+            {audit.report.noShows.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold mb-2">No-shows</h4>
+                <div className="space-y-1">
+                  {audit.report.noShows.map(entry => (
+                    <div key={entry.bookingId} className="flex justify-between text-sm" data-testid={`audit-noshow-${entry.bookingId}`}>
+                      <span>#{entry.bookingId} {entry.guestName} (arrival {formatBusinessDate(entry.checkInDate)})</span>
+                      <span className="font-mono">
+                        Charge ₹{entry.charge.toFixed(2)}{entry.refund > 0 ? ` • Refund ₹${entry.refund.toFixed(2)}` : ""}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {audit.report.overstays.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Overstays</h4>
+                <div className="space-y-1">
+                  {audit.report.overstays.map(entry => (
+                    <div key={entry.bookingId} className="flex justify-between text-sm" data-testid={`audit-overstay-${entry.bookingId}`}>
+                      <span>#{entry.bookingId} {entry.guestName} • Room {entry.rooms}</span>
+                      <span className="text-destructive">
+                        Due out {formatBusinessDate(entry.checkOutDate)} ({entry.daysOverdue} day{entry.daysOverdue === 1 ? "" : "s"} over)
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {audit.report.errors.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold mb-2 text-destructive">Not processed</h4>
+                {audit.report.errors.map((error, i) => (
+                  <p key={i} className="text-sm text-muted-foreground">{error}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
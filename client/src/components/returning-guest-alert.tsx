@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Star } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import type { GuestBookingAlert, GuestDuplicateMatch } from "@shared/schema";
+
+// Shows the tier and saved preferences of a returning guest while their new booking is entered
+export function ReturningGuestAlert({ fullName, phone, email }: { fullName: string; phone: string; email?: string }) {
+  const [lookup, setLookup] = useState({ fullName, phone, email });
+
+  // Wait for typing to settle before looking the guest up
+  useEffect(() => {
+    const timer = setTimeout(() => setLookup({ fullName, phone, email }), 500);
+    return () => clearTimeout(timer);
+  }, [fullName, phone, email]);
+
+  const canLookUp = lookup.phone.replace(/\D/g, "").length >= 10 && lookup.fullName.trim().length > 0;
+
+  const { data: matches } = useQuery<GuestDuplicateMatch[]>({
+    queryKey: ["/api/guests/duplicates/check", lookup],
+    queryFn: async () => {
+      const response = await apiRequest("/api/guests/duplicates/check", "POST", lookup);
+      return response.json();
+    },
+    enabled: canLookUp,
+    staleTime: 60 * 1000,
+  });
+  const returningGuestId = matches?.find(match => match.confidence === "exact")?.guest.id;
+
+  const { data: alert } = useQuery<GuestBookingAlert>({
+    queryKey: ["/api/guests", returningGuestId, "booking-alert"],
+    enabled: canLookUp && !!returningGuestId,
+    staleTime: 60 * 1000,
+  });
+
+  if (!canLookUp || !returningGuestId || !alert) return null;
+  if (alert.completedStays === 0 && alert.preferences.length === 0 && !alert.notes) return null;
+
+  return (
+    <div className="rounded-md border border-primary/30 bg-background p-3 space-y-2 text-sm" data-testid="alert-returning-guest">
+      <div className="flex flex-wrap items-center gap-2 font-medium">
+        <Star className="h-4 w-4 text-primary" />
+        Returning guest: {alert.fullName}
+        {alert.tierName && <Badge data-testid="badge-returning-guest-tier">{alert.tierName}</Badge>}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {alert.completedStays} previous {alert.completedStays === 1 ? "stay" : "stays"}
+        {alert.lastStayAt && ` • last checked out ${format(new Date(alert.lastStayAt), "d MMM yyyy")}`}
+      </p>
+      {alert.tierBenefits && <p className="text-xs">Benefits: {alert.tierBenefits}</p>}
+      {alert.preferences.length > 0 && (
+        <ul className="list-disc pl-5 text-xs space-y-0.5">
+          {alert.preferences.map(preference => <li key={preference}>{preference}</li>)}
+        </ul>
+      )}
+      {alert.notes && <p className="text-xs text-muted-foreground whitespace-pre-line">{alert.notes}</p>}
+    </div>
+  );
+}
@@ -140,6 +140,28 @@ export function handleDomainEvent(event: DomainEvent) {
       queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
       break;
 
+    case 'inventory.low_stock':
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory/items'] });
+
+      toast({
+        title: "Low Stock",
+        description: `${event.data.name}: ${event.data.quantity} ${event.data.unit} left`,
+      });
+      break;
+
+    case 'inventory.out_of_stock':
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory/items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/menu-items'] });
+
+      toast({
+        title: `${event.data.name} Out of Stock`,
+        description: event.data.menuItems?.length > 0
+          ? `Taken off the menu: ${event.data.menuItems.map((item: { name: string }) => item.name).join(", ")}`
+          : "Restock soon",
+        variant: "destructive",
+      });
+      break;
+
     default:
       console.log('[EventHandler] Unhandled event type:', event.type);
   }
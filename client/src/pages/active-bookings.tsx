@@ -4,7 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Hotel, User, Calendar, IndianRupee, UtensilsCrossed, LogOut, Phone, Search, Plus, Trash2, AlertCircle, Coffee, FileText, Download, Eye } from "lucide-react";
+import { Hotel, User, Calendar, IndianRupee, UtensilsCrossed, LogOut, Phone, Search, Plus, Trash2, AlertCircle, Coffee, FileText, Download, Eye, ArrowRightLeft } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Input } from "@/components/ui/input";
 import { format } from "date-fns";
@@ -14,6 +14,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { useState } from "react";
+import type { Room } from "@shared/schema";
+
+type StayChange = "move-room" | "extend" | "shorten";
 
 interface ActiveBooking {
   id: number;
@@ -32,6 +35,8 @@ interface ActiveBooking {
     email: string | null;
     phone: string;
     idProofImage: string | null;
+    gstin: string | null;
+    companyName: string | null;
   };
   room: {
     id: number;
@@ -79,6 +84,23 @@ interface ActiveBooking {
   };
 }
 
+interface CheckoutPreview {
+  roomCharges: string;
+  subtotal: string;
+  gstRate: string;
+  gstAmount: string;
+  serviceChargeRate: string;
+  serviceChargeAmount: string;
+  totalAmount: string;
+  taxLines: Array<{
+    category: "room" | "food" | "extra";
+    component: "CGST" | "SGST" | "IGST";
+    rate: number;
+    taxableAmount: number;
+    taxAmount: number;
+  }>;
+}
+
 export default function ActiveBookings() {
   const { toast } = useToast();
   const [checkoutDialog, setCheckoutDialog] = useState<{ open: boolean; booking: ActiveBooking | null }>({
@@ -99,12 +121,37 @@ export default function ActiveBookings() {
     { name: "", amount: "" }
   ]);
   const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
+  const [guestGstin, setGuestGstin] = useState("");
+  const [guestCompanyName, setGuestCompanyName] = useState("");
+  const [stayDialog, setStayDialog] = useState<{ booking: ActiveBooking | null; change: StayChange }>({
+    booking: null,
+    change: "move-room",
+  });
+  const [moveFromRoomId, setMoveFromRoomId] = useState("");
+  const [moveToRoomId, setMoveToRoomId] = useState("");
+  const [stayDate, setStayDate] = useState("");
+  const [stayNightlyRate, setStayNightlyRate] = useState("");
+  const [stayNotes, setStayNotes] = useState("");
 
   const { data: activeBookings, isLoading } = useQuery<ActiveBooking[]>({
     queryKey: ["/api/bookings/active"],
     refetchInterval: 30000, // Auto-refresh every 30 seconds
   });
 
+  // Taxes come from the server's tax engine (property tax profile); manual charges are taxed as extras
+  const manualChargesTotal = manualCharges.reduce((sum, charge) => {
+    const amount = parseFloat(charge.amount);
+    return sum + (isNaN(amount) ? 0 : amount);
+  }, 0);
+  const { data: checkoutPreview } = useQuery<CheckoutPreview>({
+    queryKey: [
+      "/api/bookings",
+      checkoutDialog.booking?.id,
+      `checkout-preview?includeGst=${includeGst}&includeServiceCharge=${includeServiceCharge}&manualCharges=${manualChargesTotal}`,
+    ],
+    enabled: checkoutDialog.open && !!checkoutDialog.booking,
+  });
+
   // Query for all unmerged café orders
   const { data: cafeOrders, isLoading: isLoadingCafeOrders, refetch: refetchCafeOrders } = useQuery<any[]>({
     queryKey: ["/api/orders/unmerged-cafe"],
@@ -131,7 +178,7 @@ export default function ActiveBookings() {
   });
 
   const checkoutMutation = useMutation({
-    mutationFn: async ({ bookingId, paymentMethod, paymentStatus, dueDate, pendingReason, discountType, discountValue, discountAppliesTo, includeGst, includeServiceCharge, manualCharges }: { 
+    mutationFn: async ({ bookingId, paymentMethod, paymentStatus, dueDate, pendingReason, discountType, discountValue, discountAppliesTo, includeGst, includeServiceCharge, manualCharges, guestGstin, guestCompanyName }: { 
       bookingId: number; 
       paymentMethod?: string;
       paymentStatus: string;
@@ -143,6 +190,8 @@ export default function ActiveBookings() {
       includeGst: boolean;
       includeServiceCharge: boolean;
       manualCharges: Array<{ name: string; amount: string }>;
+      guestGstin?: string;
+      guestCompanyName?: string;
     }) => {
       return await apiRequest("/api/bookings/checkout", "POST", { 
         bookingId, 
@@ -156,6 +205,8 @@ export default function ActiveBookings() {
         includeGst,
         includeServiceCharge,
         manualCharges: manualCharges.filter(c => c.name && c.amount && parseFloat(c.amount) > 0),
+        guestGstin: guestGstin || null,
+        guestCompanyName: guestCompanyName || null,
       });
     },
     onSuccess: () => {
@@ -177,6 +228,8 @@ export default function ActiveBookings() {
       setIncludeGst(false); // Reset to false (0% default)
       setIncludeServiceCharge(false); // Reset to false (0% default)
       setManualCharges([{ name: "", amount: "" }]);
+      setGuestGstin("");
+      setGuestCompanyName("");
     },
     onError: (error: any) => {
       toast({
@@ -187,6 +240,51 @@ export default function ActiveBookings() {
     },
   });
 
+  const { data: allRooms = [] } = useQuery<Room[]>({
+    queryKey: ["/api/rooms"],
+    enabled: !!stayDialog.booking,
+  });
+
+  const openStayDialog = (booking: ActiveBooking) => {
+    const bookingRoomIds = booking.roomIds && booking.roomIds.length > 0 ? booking.roomIds : booking.room ? [booking.room.id] : [];
+    setStayDialog({ booking, change: "move-room" });
+    setMoveFromRoomId(bookingRoomIds.length === 1 ? bookingRoomIds[0].toString() : "");
+    setMoveToRoomId("");
+    setStayDate(format(new Date(), "yyyy-MM-dd"));
+    setStayNightlyRate("");
+    setStayNotes("");
+  };
+
+  const stayChangeMutation = useMutation({
+    mutationFn: async ({ bookingId, change }: { bookingId: number; change: StayChange }) => {
+      // Empty rate keeps the current rate for the moved / extra nights
+      const nightlyRate = stayNightlyRate ? parseFloat(stayNightlyRate) : undefined;
+      const body = change === "move-room"
+        ? { fromRoomId: moveFromRoomId ? parseInt(moveFromRoomId) : undefined, toRoomId: parseInt(moveToRoomId), moveDate: stayDate, nightlyRate, notes: stayNotes || null }
+        : change === "extend"
+          ? { checkOutDate: stayDate, nightlyRate, notes: stayNotes || null }
+          : { checkOutDate: stayDate };
+      return await apiRequest(`/api/bookings/${bookingId}/${change}`, "POST", body);
+    },
+    onSuccess: (_data, { change }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/active"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+      toast({
+        title: change === "move-room" ? "Room Changed" : change === "extend" ? "Stay Extended" : "Stay Shortened",
+        description: "Room charges now bill each part of the stay at its own room and rate",
+      });
+      setStayDialog({ booking: null, change: "move-room" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not change stay",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const mergeCafeOrdersMutation = useMutation({
     mutationFn: async ({ orderIds, bookingId }: { orderIds: number[]; bookingId: number }) => {
       return await apiRequest("/api/orders/merge-to-booking", "PATCH", { orderIds, bookingId });
@@ -196,6 +294,9 @@ export default function ActiveBookings() {
       await queryClient.refetchQueries({ queryKey: ["/api/bookings/active"] });
       queryClient.invalidateQueries({ queryKey: ["/api/orders/unmerged-cafe"] });
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      if (checkoutDialog.booking) {
+        queryClient.invalidateQueries({ queryKey: ["/api/bookings", checkoutDialog.booking.id] });
+      }
       
       // Update the checkout dialog with fresh booking data
       const updatedBookings = queryClient.getQueryData<ActiveBooking[]>(["/api/bookings/active"]);
@@ -258,6 +359,8 @@ export default function ActiveBookings() {
       includeGst,
       includeServiceCharge,
       manualCharges,
+      guestGstin: guestGstin.trim() || undefined,
+      guestCompanyName: guestCompanyName.trim() || undefined,
     });
   };
 
@@ -275,8 +378,7 @@ export default function ActiveBookings() {
   };
 
   // Calculate total amount with optional GST/Service Charge and manual charges
-  const calculateTotalWithCharges = (booking: ActiveBooking, includeGst: boolean, includeServiceCharge: boolean, charges: Array<{ name: string; amount: string }>) => {
-    // GST and Service Charge apply ONLY to ROOM charges, NOT to food or manual charges
+  const calculateTotalWithCharges = (booking: ActiveBooking, preview: CheckoutPreview | undefined, charges: Array<{ name: string; amount: string }>) => {
     const roomCharges = parseFloat(booking.charges.roomCharges);
     const foodCharges = parseFloat(booking.charges.foodCharges);
     const manualAmount = charges.reduce((sum, charge) => {
@@ -284,9 +386,9 @@ export default function ActiveBookings() {
       return sum + (isNaN(amount) ? 0 : amount);
     }, 0);
     
-    // Calculate GST and Service Charge amounts (on ROOM charges only)
-    const gstAmount = includeGst ? roomCharges * 0.05 : 0;
-    const serviceChargeAmount = includeServiceCharge ? roomCharges * 0.10 : 0;
+    // GST (room slab, F&B and extras) and service charge (room charges only) as computed by the server
+    const gstAmount = preview ? parseFloat(preview.gstAmount) : 0;
+    const serviceChargeAmount = preview ? parseFloat(preview.serviceChargeAmount) : 0;
     
     // Calculate subtotal and total
     const subtotal = roomCharges + foodCharges + manualAmount;
@@ -517,7 +619,16 @@ export default function ActiveBookings() {
                   </div>
                 )}
 
-                <div className="mt-auto pt-3">
+                <div className="mt-auto pt-3 space-y-2">
+                  <Button
+                    className="w-full"
+                    variant="outline"
+                    onClick={() => openStayDialog(booking)}
+                    data-testid={`button-change-stay-${booking.id}`}
+                  >
+                    <ArrowRightLeft className="h-4 w-4 mr-2" />
+                    Move Room / Change Dates
+                  </Button>
                   <Button
                     className="w-full"
                     variant="default"
@@ -665,8 +776,7 @@ export default function ActiveBookings() {
                 {(() => {
                   const breakdown = calculateTotalWithCharges(
                     checkoutDialog.booking, 
-                    includeGst, 
-                    includeServiceCharge,
+                    checkoutPreview,
                     manualCharges
                   );
                   const discountAmt = calculateDiscount(
@@ -687,14 +797,14 @@ export default function ActiveBookings() {
                       
                       {includeGst && breakdown.gstAmount > 0 && (
                         <div className="flex justify-between text-sm">
-                          <span className="text-muted-foreground">GST (5% on room charges only)</span>
+                          <span className="text-muted-foreground">GST (room, F&B and extras)</span>
                           <span className="font-medium" data-testid="text-gst-amount">+₹{breakdown.gstAmount.toFixed(2)}</span>
                         </div>
                       )}
                       
                       {includeServiceCharge && breakdown.serviceChargeAmount > 0 && (
                         <div className="flex justify-between text-sm">
-                          <span className="text-muted-foreground">Service Charge (10% on room charges only)</span>
+                          <span className="text-muted-foreground">Service Charge ({checkoutPreview ? parseFloat(checkoutPreview.serviceChargeRate) : 0}% on room charges only)</span>
                           <span className="font-medium" data-testid="text-service-charge-amount">+₹{breakdown.serviceChargeAmount.toFixed(2)}</span>
                         </div>
                       )}
@@ -952,7 +1062,7 @@ export default function ActiveBookings() {
                     data-testid="checkbox-include-gst"
                   />
                   <Label htmlFor="include-gst" className="cursor-pointer font-normal">
-                    Include GST (5%)
+                    Include GST (as per property tax profile)
                   </Label>
                 </div>
                 <div className="flex items-center space-x-2">
@@ -963,11 +1073,35 @@ export default function ActiveBookings() {
                     data-testid="checkbox-include-service-charge"
                   />
                   <Label htmlFor="include-service-charge" className="cursor-pointer font-normal">
-                    Include Service Charge (10%)
+                    Include Service Charge
                   </Label>
                 </div>
               </div>
 
+              <div className="space-y-2 pt-4 border-t">
+                <Label>B2B Invoice (Optional)</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    placeholder={checkoutDialog.booking.guest.gstin || "Guest GSTIN"}
+                    value={guestGstin}
+                    onChange={(e) => setGuestGstin(e.target.value.toUpperCase())}
+                    maxLength={15}
+                    data-testid="input-guest-gstin"
+                  />
+                  <Input
+                    placeholder={checkoutDialog.booking.guest.companyName || "Company name"}
+                    value={guestCompanyName}
+                    onChange={(e) => setGuestCompanyName(e.target.value)}
+                    data-testid="input-guest-company-name"
+                  />
+                </div>
+                {checkoutDialog.booking.guest.gstin && !guestGstin && (
+                  <p className="text-xs text-muted-foreground">
+                    Saved GSTIN {checkoutDialog.booking.guest.gstin} will be printed on the invoice.
+                  </p>
+                )}
+              </div>
+
               <div className="space-y-4 pt-4 border-t">
                 <div className="space-y-2">
                   <Label htmlFor="payment-status">Payment Status *</Label>
@@ -1055,6 +1189,144 @@ export default function ActiveBookings() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!stayDialog.booking} onOpenChange={(open) => !open && setStayDialog({ booking: null, change: "move-room" })}>
+        <DialogContent data-testid="dialog-change-stay">
+          <DialogHeader>
+            <DialogTitle>Change Stay</DialogTitle>
+          </DialogHeader>
+
+          {stayDialog.booking && (() => {
+            const booking = stayDialog.booking;
+            const bookingRooms = booking.rooms ?? (booking.room ? [booking.room] : []);
+            const bookingRoomIds = bookingRooms.map(r => r.id);
+            const propertyRooms = allRooms.filter(r => r.propertyId === booking.property.id && !bookingRoomIds.includes(r.id));
+            return (
+              <div className="space-y-4">
+                <div className="text-sm text-muted-foreground">
+                  {booking.guest.fullName} • {format(new Date(booking.checkInDate), "MMM dd")} to {format(new Date(booking.checkOutDate), "MMM dd, yyyy")}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Change</Label>
+                  <Select
+                    value={stayDialog.change}
+                    onValueChange={(value) => {
+                      setStayDialog({ booking, change: value as StayChange });
+                      setStayDate(value === "move-room" ? format(new Date(), "yyyy-MM-dd") : format(new Date(booking.checkOutDate), "yyyy-MM-dd"));
+                    }}
+                  >
+                    <SelectTrigger data-testid="select-stay-change">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="move-room">Move to another room</SelectItem>
+                      <SelectItem value="extend">Extend stay</SelectItem>
+                      <SelectItem value="shorten">Shorten stay (early departure)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {stayDialog.change === "move-room" && (
+                  <>
+                    {bookingRooms.length > 1 && (
+                      <div className="space-y-2">
+                        <Label>Move out of</Label>
+                        <Select value={moveFromRoomId} onValueChange={setMoveFromRoomId}>
+                          <SelectTrigger data-testid="select-move-from-room">
+                            <SelectValue placeholder="Select room" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {bookingRooms.map(room => (
+                              <SelectItem key={room.id} value={room.id.toString()}>Room {room.roomNumber}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label>Move to</Label>
+                      <Select value={moveToRoomId} onValueChange={setMoveToRoomId}>
+                        <SelectTrigger data-testid="select-move-to-room">
+                          <SelectValue placeholder="Select room" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {propertyRooms.map(room => (
+                            <SelectItem key={room.id} value={room.id.toString()}>
+                              Room {room.roomNumber} ({room.roomType || room.roomCategory}) - ₹{room.pricePerNight}/night
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="stay-date">
+                    {stayDialog.change === "move-room" ? "First night in the new room" : "New checkout date"}
+                  </Label>
+                  <Input
+                    id="stay-date"
+                    type="date"
+                    value={stayDate}
+                    onChange={(e) => setStayDate(e.target.value)}
+                    data-testid="input-stay-date"
+                  />
+                </div>
+
+                {stayDialog.change !== "shorten" && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="stay-rate">Rate per room per night (optional)</Label>
+                      <Input
+                        id="stay-rate"
+                        type="number"
+                        min="0"
+                        placeholder="Keep current rate"
+                        value={stayNightlyRate}
+                        onChange={(e) => setStayNightlyRate(e.target.value)}
+                        data-testid="input-stay-rate"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="stay-notes">Reason</Label>
+                      <Input
+                        id="stay-notes"
+                        placeholder={stayDialog.change === "move-room" ? "e.g., AC not working" : "e.g., Guest requested 2 more nights"}
+                        value={stayNotes}
+                        onChange={(e) => setStayNotes(e.target.value)}
+                        data-testid="input-stay-notes"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          })()}
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setStayDialog({ booking: null, change: "move-room" })}
+              disabled={stayChangeMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => stayDialog.booking && stayChangeMutation.mutate({ bookingId: stayDialog.booking.id, change: stayDialog.change })}
+              disabled={
+                stayChangeMutation.isPending ||
+                !stayDate ||
+                (stayDialog.change === "move-room" && (!moveToRoomId || !moveFromRoomId))
+              }
+              data-testid="button-confirm-stay-change"
+            >
+              {stayChangeMutation.isPending ? "Saving..." : "Save Change"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { useState, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Receipt, IndianRupee, CheckCircle, Clock, Merge, Eye, Printer, DollarSign } from "lucide-react";
+import { Receipt, IndianRupee, CheckCircle, Clock, Merge, Eye, Printer, DollarSign, Download } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
@@ -10,7 +10,7 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { type Bill, type Booking, type Guest, type Room, type Property, type Order } from "@shared/schema";
+import { type Bill, type Booking, type Guest, type Room, type Property, type Order, type BillTaxLine, type BillLineItem, type BillPayment } from "@shared/schema";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
@@ -39,8 +39,14 @@ interface BillDetails extends Bill {
   };
   orders: Order[];
   extraServices: ExtraService[];
+  taxLines: BillTaxLine[];
+  lineItems: BillLineItem[]; // Frozen at checkout; empty for older bills
+  payments: BillPayment[];
 }
 
+// Bills with money still to collect (nothing received yet, or part-paid)
+const isOutstanding = (bill: Bill) => bill.paymentStatus === "pending" || bill.paymentStatus === "partial";
+
 export default function Billing() {
   const { toast } = useToast();
   const [isMergeDialogOpen, setIsMergeDialogOpen] = useState(false);
@@ -77,6 +83,17 @@ export default function Billing() {
     staleTime: 0, // Always refetch to ensure latest data
   });
 
+  // Prefer the invoice lines frozen at checkout; older bills fall back to live orders/extras
+  const frozenLines = billDetails?.lineItems ?? [];
+  const isItemised = frozenLines.length > 0;
+  const foodLines = isItemised
+    ? frozenLines.filter(l => l.lineType === "food").map(l => ({ key: l.id, label: l.description, amount: l.amount }))
+    : (billDetails?.orders ?? []).map(o => ({ key: o.id, label: `Order #${o.id}`, amount: o.totalAmount }));
+  const extraLines = isItemised
+    ? frozenLines.filter(l => l.lineType === "extra_service").map(l => ({ key: l.id, label: l.description, amount: l.amount }))
+    : (billDetails?.extraServices ?? []).map(e => ({ key: e.id, label: e.serviceName, amount: e.amount }));
+  const adjustmentLines = frozenLines.filter(l => l.lineType === "credit" || l.lineType === "debit");
+
   const mergeBillsMutation = useMutation({
     mutationFn: async (data: { bookingIds: number[]; primaryBookingId: number }) => {
       return await apiRequest("/api/bills/merge", "POST", data);
@@ -189,17 +206,17 @@ export default function Billing() {
   const totalRevenue = bills?.filter(bill => bill.paymentStatus === "paid").reduce((sum, bill) => sum + parseFloat(bill.totalAmount), 0) || 0;
   
   // Pending Receivables = Money owed but not yet received
-  const pendingReceivables = bills?.filter(bill => bill.paymentStatus === "pending").reduce((sum, bill) => sum + parseFloat(bill.balanceAmount || bill.totalAmount), 0) || 0;
+  const pendingReceivables = bills?.filter(isOutstanding).reduce((sum, bill) => sum + parseFloat(bill.balanceAmount || bill.totalAmount), 0) || 0;
   
   const paidBills = bills?.filter((bill) => bill.paymentStatus === "paid").length || 0;
-  const pendingBills = bills?.filter((bill) => bill.paymentStatus === "pending").length || 0;
+  const pendingBills = bills?.filter(isOutstanding).length || 0;
 
   // Filter bills based on selected filters
   const filteredBills = bills?.filter(bill => {
     // Payment status filter
     let matchesPaymentFilter = true;
     if (paymentFilter === "paid") matchesPaymentFilter = bill.paymentStatus === "paid";
-    if (paymentFilter === "pending") matchesPaymentFilter = bill.paymentStatus === "pending";
+    if (paymentFilter === "pending") matchesPaymentFilter = isOutstanding(bill);
     
     // Agent filter - need to check the booking's travel agent
     let matchesAgentFilter = true;
@@ -431,7 +448,7 @@ export default function Billing() {
                 <div className="flex justify-between items-start">
                   <div>
                     <CardTitle className="flex items-center gap-2 flex-wrap">
-                      {(bill as any).guestName || `Invoice #${bill.id}`}
+                      {(bill as any).guestName || `Invoice ${bill.invoiceNumber || `#${bill.id}`}`}
                       <Badge className={paymentStatusColors[bill.paymentStatus as keyof typeof paymentStatusColors]}>
                         {bill.paymentStatus}
                       </Badge>
@@ -446,7 +463,7 @@ export default function Billing() {
                       })()}
                     </CardTitle>
                     <p className="text-sm text-muted-foreground mt-1">
-                      Created {format(new Date(bill.createdAt!), "PPP")} • Invoice #{bill.id}
+                      Created {format(new Date(bill.createdAt!), "PPP")} • Invoice {bill.invoiceNumber || `#${bill.id}`}
                     </p>
                   </div>
                   <div className="text-right">
@@ -499,7 +516,7 @@ export default function Billing() {
                   )}
                 </div>
                 <div className="flex justify-end gap-2">
-                  {bill.paymentStatus === "pending" && (
+                  {isOutstanding(bill) && (
                     <Button
                       variant="default"
                       size="sm"
@@ -557,7 +574,7 @@ export default function Billing() {
                   </p>
                 )}
                 <p className="text-sm text-muted-foreground mt-2">
-                  Invoice #{billDetails.id} • {format(new Date(billDetails.createdAt!), "PPP")}
+                  Invoice {billDetails.invoiceNumber || `#${billDetails.id}`} • {format(new Date(billDetails.invoiceDate || billDetails.createdAt!), "PPP")}
                 </p>
               </div>
 
@@ -571,6 +588,14 @@ export default function Billing() {
                     {billDetails.guest?.email && (
                       <p><span className="text-muted-foreground">Email:</span> {billDetails.guest.email}</p>
                     )}
+                    {billDetails.guestGstin && (
+                      <>
+                        {billDetails.guestCompanyName && (
+                          <p><span className="text-muted-foreground">Company:</span> {billDetails.guestCompanyName}</p>
+                        )}
+                        <p><span className="text-muted-foreground">GSTIN:</span> {billDetails.guestGstin}</p>
+                      </>
+                    )}
                   </div>
                 </div>
                 <div>
@@ -607,17 +632,17 @@ export default function Billing() {
                     <span className="font-mono font-semibold">₹{billDetails.roomCharges}</span>
                   </div>
                   
-                  {billDetails.orders && billDetails.orders.length > 0 && (
+                  {foodLines.length > 0 && (
                     <>
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Food & Beverage</span>
                         <span className="font-mono font-semibold">₹{billDetails.foodCharges}</span>
                       </div>
                       <div className="ml-4 space-y-1">
-                        {billDetails.orders.map((order: any) => (
-                          <div key={order.id} className="flex justify-between text-sm text-muted-foreground">
-                            <span>• Order #{order.id}</span>
-                            <span className="font-mono">₹{order.totalAmount}</span>
+                        {foodLines.map((line) => (
+                          <div key={line.key} className="flex justify-between text-sm text-muted-foreground">
+                            <span>• {line.label}</span>
+                            <span className="font-mono">₹{line.amount}</span>
                           </div>
                         ))}
                       </div>
@@ -630,12 +655,12 @@ export default function Billing() {
                         <span className="text-muted-foreground">Extra Services</span>
                         <span className="font-mono font-semibold">₹{billDetails.extraCharges}</span>
                       </div>
-                      {billDetails.extraServices && billDetails.extraServices.length > 0 && (
+                      {extraLines.length > 0 && (
                         <div className="ml-4 space-y-1">
-                          {billDetails.extraServices.map((extra: any) => (
-                            <div key={extra.id} className="flex justify-between text-sm text-muted-foreground">
-                              <span>• {extra.serviceName}</span>
-                              <span className="font-mono">₹{extra.amount}</span>
+                          {extraLines.map((line) => (
+                            <div key={line.key} className="flex justify-between text-sm text-muted-foreground">
+                              <span>• {line.label}</span>
+                              <span className="font-mono">₹{line.amount}</span>
                             </div>
                           ))}
                         </div>
@@ -657,6 +682,15 @@ export default function Billing() {
                     </div>
                   )}
 
+                  {billDetails.includeGst && billDetails.taxLines?.map((line) => (
+                    <div key={line.id} className="flex justify-between text-xs text-muted-foreground pl-4" data-testid={`text-tax-line-${line.id}`}>
+                      <span>
+                        {line.component} @ {parseFloat(line.rate)}% on {line.category === "room" ? "Room" : line.category === "food" ? "F&B" : "Extras"} (₹{line.taxableAmount})
+                      </span>
+                      <span className="font-mono">₹{line.taxAmount}</span>
+                    </div>
+                  ))}
+
                   {billDetails.includeServiceCharge && (
                     <div className="flex justify-between text-sm">
                       <span className="text-muted-foreground">Service Charge ({billDetails.serviceChargeRate}%)</span>
@@ -673,6 +707,17 @@ export default function Billing() {
                     </div>
                   )}
 
+                  {adjustmentLines.map((line) => (
+                    <div key={line.id} className="flex justify-between text-sm" data-testid={`text-bill-adjustment-${line.id}`}>
+                      <span className={line.lineType === "credit" ? "text-green-600" : "text-muted-foreground"}>
+                        {line.lineType === "credit" ? "Credit" : "Debit"}: {line.description}
+                      </span>
+                      <span className={`font-mono ${line.lineType === "credit" ? "text-green-600" : ""}`}>
+                        {parseFloat(line.amount) < 0 ? "-" : "+"}₹{Math.abs(parseFloat(line.amount)).toFixed(2)}
+                      </span>
+                    </div>
+                  ))}
+
                   <Separator className="border-t-2" />
 
                   <div className="flex justify-between text-lg font-bold">
@@ -681,16 +726,29 @@ export default function Billing() {
                   </div>
 
                   {parseFloat(billDetails.advancePaid || "0") > 0 && (
-                    <>
-                      <div className="flex justify-between text-sm">
-                        <span className="text-green-600">Advance Paid</span>
-                        <span className="font-mono text-green-600">-₹{billDetails.advancePaid}</span>
-                      </div>
-                      <div className="flex justify-between text-lg font-bold text-destructive">
-                        <span>Balance Due</span>
-                        <span className="font-mono">₹{billDetails.balanceAmount}</span>
-                      </div>
-                    </>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-green-600">Advance Paid</span>
+                      <span className="font-mono text-green-600">-₹{billDetails.advancePaid}</span>
+                    </div>
+                  )}
+
+                  {(billDetails.payments ?? []).map((payment) => (
+                    <div key={payment.id} className="flex justify-between text-sm" data-testid={`text-bill-payment-${payment.id}`}>
+                      <span className={payment.entryType === "refund" ? "text-muted-foreground" : "text-green-600"}>
+                        {payment.entryType === "refund" ? "Refund" : "Paid"} ({payment.paymentMethod}
+                        {payment.reference ? ` · ${payment.reference}` : ""}) · {format(new Date(payment.receivedAt), "dd MMM yyyy")}
+                      </span>
+                      <span className={`font-mono ${payment.entryType === "refund" ? "" : "text-green-600"}`}>
+                        {payment.entryType === "refund" ? "+" : "-"}₹{payment.amount}
+                      </span>
+                    </div>
+                  ))}
+
+                  {(parseFloat(billDetails.advancePaid || "0") > 0 || (billDetails.payments ?? []).length > 0) && (
+                    <div className="flex justify-between text-lg font-bold text-destructive">
+                      <span>Balance Due</span>
+                      <span className="font-mono">₹{billDetails.balanceAmount}</span>
+                    </div>
                   )}
                 </div>
               </div>
@@ -737,6 +795,16 @@ export default function Billing() {
                 >
                   Close
                 </Button>
+                <Button
+                  variant="outline"
+                  asChild
+                  data-testid="button-download-invoice-pdf"
+                >
+                  <a href={`/api/bills/${billDetails.id}/pdf`} download>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download PDF
+                  </a>
+                </Button>
                 <Button
                   onClick={handlePrint}
                   data-testid="button-print-bill"
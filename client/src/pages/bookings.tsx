@@ -1,8 +1,11 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Plus, Calendar, User, Hotel, Receipt, Search, Pencil, Upload, Trash2 } from "lucide-react";
+import { Plus, Calendar, User, Users, Hotel, Receipt, Search, Pencil, Upload, Trash2, Send } from "lucide-react";
 import { IdVerificationUpload } from "@/components/IdVerificationUpload";
+import { ReturningGuestAlert } from "@/components/returning-guest-alert";
+import { ForeignerDetailsForm, isForeignNational } from "@/components/foreigner-details-form";
+import { BookingGuestsDialog } from "@/components/booking-guests-dialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogDescription } from "@/components/ui/dialog";
@@ -29,6 +32,7 @@ const statusColors = {
   confirmed: "bg-chart-2 text-white",
   "checked-in": "bg-chart-5 text-white",
   "checked-out": "bg-muted text-muted-foreground",
+  "no-show": "bg-destructive/80 text-destructive-foreground",
   cancelled: "bg-destructive text-destructive-foreground",
 };
 
@@ -58,6 +62,9 @@ export default function Bookings() {
   const [checkinBookingId, setCheckinBookingId] = useState<number | null>(null);
   const [checkinDialogOpen, setCheckinDialogOpen] = useState(false);
   const [checkinIdProof, setCheckinIdProof] = useState<string | null>(null);
+  // Foreign guest whose Form C details are confirmed before check-in
+  const [formCBookingId, setFormCBookingId] = useState<number | null>(null);
+  const [coGuestsBookingId, setCoGuestsBookingId] = useState<number | null>(null);
   const [isAddAgentDialogOpen, setIsAddAgentDialogOpen] = useState(false);
   const [newAgentData, setNewAgentData] = useState({ name: "", contactPerson: "", phone: "", email: "" });
   const { toast} = useToast();
@@ -148,6 +155,7 @@ export default function Bookings() {
       travelAgentId: undefined as number | undefined,
       mealPlan: "EP",
       bedsBooked: undefined as number | undefined,
+      roomChargeLimit: null as string | null,
     },
   });
 
@@ -295,15 +303,52 @@ export default function Bookings() {
     },
   });
 
+  // WhatsApps the guest their pre-check-in link and copies it for sharing another way
+  const sendPreCheckInMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest(`/api/bookings/${id}/pre-check-in-link`, "POST");
+      return response.json() as Promise<{ url: string; sent: boolean; error?: string }>;
+    },
+    onSuccess: (result) => {
+      navigator.clipboard?.writeText(result.url).catch(() => {});
+      toast({
+        title: result.sent ? "Pre-check-in link sent" : "Pre-check-in link copied",
+        description: result.sent
+          ? "Sent to the guest on WhatsApp and copied to your clipboard"
+          : `Not sent on WhatsApp (${result.error}). Share the copied link with the guest.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateStatusMutation = useMutation({
     mutationFn: async ({ id, status }: { id: number; status: string }) => {
-      return await apiRequest(`/api/bookings/${id}/status`, "PATCH", { status });
+      const response = await apiRequest(`/api/bookings/${id}/status`, "PATCH", { status });
+      return response.json() as Promise<Booking & {
+        cancellation?: { quote: { totalCharge: number }; refund: { amount: string } | null };
+      }>;
     },
-    onSuccess: () => {
+    onSuccess: (booking) => {
       queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
       queryClient.invalidateQueries({ queryKey: ["/api/bookings/active"] });
       queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
       queryClient.invalidateQueries({ queryKey: ["/api/rooms/availability"] });
+      if (booking.cancellation) {
+        queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
+        const { quote, refund } = booking.cancellation;
+        const refunded = refund ? Math.abs(parseFloat(refund.amount)) : 0;
+        toast({
+          title: booking.status === "no-show" ? "Marked as no-show" : "Booking cancelled",
+          description: `${quote.totalCharge > 0 ? `Charge: ₹${quote.totalCharge.toFixed(2)}` : "No cancellation charge"}${refunded > 0 ? ` • Refund: ₹${refunded.toFixed(2)}` : ""}`,
+        });
+        return;
+      }
       toast({
         title: "Success",
         description: "Booking status updated",
@@ -333,8 +378,9 @@ export default function Bookings() {
         return;
       }
 
-      // Check if guest has ID proof
-      if (!guest.idProofImage) {
+      // Check if guest has ID proof; a pre-checked-in guest uploaded it online,
+      // so the desk goes straight to check-in and the server has the final say
+      if (!guest.idProofImage && !booking.preCheckedInAt) {
         // Show alert toast
         toast({
           title: "ID Proof Required",
@@ -347,15 +393,24 @@ export default function Bookings() {
         setCheckinDialogOpen(true);
         return;
       }
+
+      // Foreign nationals need their passport, visa and arrival details for Form C
+      if (isForeignNational(guest)) {
+        setFormCBookingId(booking.id);
+        return;
+      }
     }
 
     // Proceed with status change
     updateStatusMutation.mutate({
       id: booking.id,
-      status: newStatus as "pending" | "confirmed" | "checked-in" | "checked-out" | "cancelled"
+      status: newStatus as "pending" | "confirmed" | "checked-in" | "checked-out" | "cancelled" | "no-show"
     });
   };
 
+  const formCBooking = bookings?.find(b => b.id === formCBookingId);
+  const formCGuest = formCBooking ? guests?.find(g => g.id === formCBooking.guestId) : undefined;
+
   const deleteBookingMutation = useMutation({
     mutationFn: async (id: number) => {
       return await apiRequest(`/api/bookings/${id}`, "DELETE");
@@ -527,7 +582,8 @@ export default function Bookings() {
         address: null,
         preferences: null,
       };
-      const guestResponse = await apiRequest("/api/guests", "POST", guestData);
+      // Books returning guests on their existing profile instead of creating a duplicate
+      const guestResponse = await apiRequest("/api/guests?onDuplicate=reuse", "POST", guestData);
       const newGuest = await guestResponse.json();
       
       // Then create booking with the new guest
@@ -636,6 +692,7 @@ export default function Bookings() {
       travelAgentId: booking.travelAgentId || undefined,
       mealPlan: booking.mealPlan || "EP",
       bedsBooked: booking.bedsBooked || undefined,
+      roomChargeLimit: booking.roomChargeLimit,
     });
     setIsEditDialogOpen(true);
   };
@@ -841,6 +898,11 @@ export default function Bookings() {
                     data-testid="input-guest-email"
                     className="bg-background"
                   />
+                  <ReturningGuestAlert
+                    fullName={quickGuestData.fullName}
+                    phone={quickGuestData.phone}
+                    email={quickGuestData.email}
+                  />
                   <IdVerificationUpload
                     onUploadComplete={(objectKey) => {
                       setQuickGuestData({ ...quickGuestData, idProofImage: objectKey });
@@ -1440,6 +1502,16 @@ export default function Bookings() {
                           <Badge className={`${statusColors[booking.status as keyof typeof statusColors]} text-xs`} data-testid={`badge-status-${booking.id}`}>
                             {booking.status}
                           </Badge>
+                          {booking.preCheckedInAt && (booking.status === "pending" || booking.status === "confirmed") && (
+                            <div className="mt-1">
+                              <Badge variant="outline" className="text-xs whitespace-nowrap" data-testid={`badge-pre-checked-in-${booking.id}`}>
+                                Pre-checked-in
+                              </Badge>
+                              {booking.expectedArrivalTime && (
+                                <div className="text-xs text-muted-foreground">ETA {booking.expectedArrivalTime}</div>
+                              )}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="text-right">
                           <div className="flex items-center justify-end gap-2">
@@ -1456,6 +1528,7 @@ export default function Bookings() {
                                 <SelectItem value="checked-in">Checked In</SelectItem>
                                 <SelectItem value="checked-out">Checked Out</SelectItem>
                                 <SelectItem value="cancelled">Cancelled</SelectItem>
+                                <SelectItem value="no-show">No Show</SelectItem>
                               </SelectContent>
                             </Select>
                             <Button
@@ -1466,6 +1539,28 @@ export default function Bookings() {
                             >
                               <Pencil className="h-4 w-4" />
                             </Button>
+                            {(booking.status === "pending" || booking.status === "confirmed") && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => sendPreCheckInMutation.mutate(booking.id)}
+                                disabled={sendPreCheckInMutation.isPending}
+                                title="Send pre-check-in link"
+                                data-testid={`button-pre-check-in-link-${booking.id}`}
+                              >
+                                <Send className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {booking.numberOfGuests > 1 && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => setCoGuestsBookingId(booking.id)}
+                                data-testid={`button-co-guests-${booking.id}`}
+                              >
+                                <Users className="h-4 w-4" />
+                              </Button>
+                            )}
                             {booking.status === "checked-in" && (
                               <Button
                                 size="sm"
@@ -1959,6 +2054,30 @@ export default function Bookings() {
                   )}
                 />
               </div>
+              <FormField
+                control={editForm.control}
+                name="roomChargeLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Room Service Charge Limit (Optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="No limit"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value !== "" ? e.target.value : null)}
+                        data-testid="input-edit-booking-room-charge-limit"
+                      />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">
+                      Food orders guests place from their room stop at this total. Set 0 to stop room charging.
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={editForm.control}
@@ -2134,11 +2253,16 @@ export default function Bookings() {
                     // Invalidate guests query to refresh data
                     queryClient.invalidateQueries({ queryKey: ["/api/guests"] });
 
-                    // Now proceed with check-in
-                    updateStatusMutation.mutate({ 
-                      id: checkinBookingId, 
-                      status: "checked-in" 
-                    });
+                    // Now proceed with check-in, after Form C details for foreign guests
+                    const guest = guests?.find(g => g.id === booking.guestId);
+                    if (guest && isForeignNational(guest)) {
+                      setFormCBookingId(checkinBookingId);
+                    } else {
+                      updateStatusMutation.mutate({ 
+                        id: checkinBookingId, 
+                        status: "checked-in" 
+                      });
+                    }
                     
                     setCheckinDialogOpen(false);
                     setCheckinBookingId(null);
@@ -2160,6 +2284,35 @@ export default function Bookings() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <BookingGuestsDialog
+        booking={bookings?.find(b => b.id === coGuestsBookingId) ?? null}
+        rooms={rooms ?? []}
+        open={coGuestsBookingId !== null}
+        onOpenChange={(open) => { if (!open) setCoGuestsBookingId(null); }}
+      />
+
+      {/* Form C details for foreign guests, confirmed before check-in */}
+      <Dialog open={formCBookingId !== null} onOpenChange={(open) => { if (!open) setFormCBookingId(null); }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-checkin-form-c">
+          <DialogHeader>
+            <DialogTitle>Form C Details</DialogTitle>
+            <DialogDescription>
+              {formCGuest?.fullName ?? "This guest"} is a foreign national. Confirm their passport, visa and arrival details; Form C must be filed with the FRRO within 24 hours of check-in.
+            </DialogDescription>
+          </DialogHeader>
+          {formCBooking && formCGuest && (
+            <ForeignerDetailsForm
+              guest={formCGuest}
+              saveLabel="Save & Check In"
+              onSaved={() => {
+                updateStatusMutation.mutate({ id: formCBooking.id, status: "checked-in" });
+                setFormCBookingId(null);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -2211,6 +2364,20 @@ function CheckoutBillSummary({
     queryKey: ["/api/extra-services"],
   });
 
+  // Room charges and taxes from the server's rate and tax engines
+  const { data: preview } = useQuery<{
+    roomCharges: string;
+    foodCharges: string;
+    extraCharges: string;
+    subtotal: string;
+    gstAmount: string;
+    serviceChargeRate: string;
+    serviceChargeAmount: string;
+    totalAmount: string;
+  }>({
+    queryKey: ["/api/bookings", bookingId, `checkout-preview?includeGst=${includeGst}&includeServiceCharge=${includeServiceCharge}`],
+  });
+
   const checkoutMutation = useMutation({
     mutationFn: async (data: any) => {
       return await apiRequest("/api/bookings/checkout", "POST", data);
@@ -2255,36 +2422,22 @@ function CheckoutBillSummary({
   const checkOutDate = new Date(booking.checkOutDate);
   const nights = Math.ceil((checkOutDate.getTime() - checkInDate.getTime()) / (1000 * 60 * 60 * 24));
   
-  // Calculate room charges for group or single booking
-  const roomCharges = isGroupBooking
-    ? bookingRooms.reduce((total, room) => {
-        const pricePerNight = booking.customPrice ? parseFloat(booking.customPrice) / bookingRooms.length : parseFloat(room.pricePerNight);
-        return total + (pricePerNight * nights);
-      }, 0)
-    : (() => {
-        const room = bookingRooms[0];
-        const pricePerNight = booking.customPrice ? parseFloat(booking.customPrice) : (room ? parseFloat(room.pricePerNight) : 0);
-        return pricePerNight * nights;
-      })();
+  const roomCharges = preview ? parseFloat(preview.roomCharges) : 0;
   
-  // Calculate actual price per night for display (considering custom price)
+  // Average price per night for display (rate plan prices can vary by night)
   const displayPricePerNight = isGroupBooking
     ? 0 // For group bookings, don't show individual price per night
-    : booking.customPrice 
-      ? parseFloat(booking.customPrice)
-      : (bookingRooms[0] ? parseFloat(bookingRooms[0].pricePerNight) : 0);
-
-  const foodCharges = bookingOrders.reduce((sum, order) => sum + parseFloat(order.totalAmount || "0"), 0);
-  const extraCharges = bookingExtras.reduce((sum, extra) => sum + parseFloat(extra.amount || "0"), 0);
+    : nights > 0 ? roomCharges / nights : 0;
 
-  const subtotal = roomCharges + foodCharges + extraCharges;
+  const foodCharges = preview ? parseFloat(preview.foodCharges) : 0;
+  const extraCharges = preview ? parseFloat(preview.extraCharges) : 0;
+  const subtotal = preview ? parseFloat(preview.subtotal) : 0;
   
   // Only apply GST/Service Charge if checkboxes are checked (default OFF)
-  const gstRate = 5; // Changed from 18% to 5% to match active bookings
-  const gstAmount = includeGst ? (subtotal * gstRate) / 100 : 0;
-  const serviceChargeRate = 10;
-  const serviceChargeAmount = includeServiceCharge ? (subtotal * serviceChargeRate) / 100 : 0;
-  const totalAmount = subtotal + gstAmount + serviceChargeAmount;
+  const gstAmount = preview ? parseFloat(preview.gstAmount) : 0;
+  const serviceChargeRate = preview ? parseFloat(preview.serviceChargeRate) : 0;
+  const serviceChargeAmount = preview ? parseFloat(preview.serviceChargeAmount) : 0;
+  const totalAmount = preview ? parseFloat(preview.totalAmount) : 0;
 
   const advancePaid = parseFloat(booking.advanceAmount || "0");
   const balanceAmount = totalAmount - advancePaid;
@@ -2370,7 +2523,7 @@ function CheckoutBillSummary({
 
           {includeGst && (
             <div className="flex justify-between text-sm">
-              <span>GST ({gstRate}%)</span>
+              <span>GST (room, F&B and extras)</span>
               <span className="font-mono">₹{gstAmount.toFixed(2)}</span>
             </div>
           )}
@@ -2417,7 +2570,7 @@ function CheckoutBillSummary({
               data-testid="checkbox-include-gst"
             />
             <Label htmlFor="include-gst" className="cursor-pointer font-normal">
-              Include GST (5%)
+              Include GST (as per property tax profile)
             </Label>
           </div>
           <div className="flex items-center space-x-2">
@@ -2428,7 +2581,7 @@ function CheckoutBillSummary({
               data-testid="checkbox-include-service-charge"
             />
             <Label htmlFor="include-service-charge" className="cursor-pointer font-normal">
-              Include Service Charge (10%)
+              Include Service Charge
             </Label>
           </div>
         </div>
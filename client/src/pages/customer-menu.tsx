@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Search, ShoppingCart, X, Plus, Minus, ChevronRight } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
@@ -23,12 +24,31 @@ import {
   SheetFooter,
 } from "@/components/ui/sheet";
 import { useToast } from "@/hooks/use-toast";
-import { type MenuItem, type MenuCategory, type MenuItemVariant, type MenuItemAddOn } from "@shared/schema";
+import {
+  type MenuItem,
+  type MenuCategory,
+  type MenuItemVariant,
+  type MenuItemAddOn,
+  type MenuItemModifierGroupWithOptions,
+  type AppliedPriceRule,
+  type Order,
+} from "@shared/schema";
+import {
+  ModifierPicker,
+  modifierSelectionIssues,
+  modifierSelectionNames,
+  modifierSelectionPrice,
+} from "@/components/modifier-picker";
+
+// Public menu prices already include any happy hour running at the property
+type PublicMenuItem = MenuItem & { priceRule?: AppliedPriceRule | null };
 
 interface CartItem {
   menuItem: MenuItem;
   quantity: number;
   selectedVariant?: MenuItemVariant;
+  selectedModifierIds: number[];
+  selectedModifierNames: string[];
   selectedAddOns: Array<MenuItemAddOn & { quantity: number }>;
   totalPrice: number;
 }
@@ -42,11 +62,14 @@ export default function CustomerMenu() {
   const [selectedPropertyId, setSelectedPropertyId] = useState<number | null>(null);
   const [customerName, setCustomerName] = useState("");
   const [customerPhone, setCustomerPhone] = useState("");
+  const [notifyWhenReady, setNotifyWhenReady] = useState(true);
+  const [, navigate] = useLocation();
   const { toast } = useToast();
 
   // Selected item configuration
   const [selectedVariant, setSelectedVariant] = useState<MenuItemVariant | null>(null);
   const [selectedAddOns, setSelectedAddOns] = useState<Map<number, number>>(new Map());
+  const [selectedModifiers, setSelectedModifiers] = useState<number[]>([]);
   const [quantity, setQuantity] = useState(1);
 
   // Public fetcher (no auth headers)
@@ -58,19 +81,24 @@ export default function CustomerMenu() {
     return response.json();
   };
 
+  // Serving windows and happy hours follow the chosen property's local time
+  const menuScope = selectedPropertyId ? `?propertyId=${selectedPropertyId}` : "";
+
   const { data: categories, isLoading: categoriesLoading } = useQuery<MenuCategory[]>({
-    queryKey: ["/api/public/menu-categories"],
-    queryFn: () => publicFetch("/api/public/menu-categories"),
+    queryKey: ["/api/public/menu-categories", selectedPropertyId],
+    queryFn: () => publicFetch(`/api/public/menu-categories${menuScope}`),
+    refetchInterval: 5 * 60 * 1000,
   });
 
-  const { data: menuItems, isLoading: itemsLoading } = useQuery<MenuItem[]>({
-    queryKey: ["/api/public/menu"],
-    queryFn: () => publicFetch("/api/public/menu"),
+  const { data: menuItems, isLoading: itemsLoading } = useQuery<PublicMenuItem[]>({
+    queryKey: ["/api/public/menu", selectedPropertyId],
+    queryFn: () => publicFetch(`/api/public/menu${menuScope}`),
+    refetchInterval: 5 * 60 * 1000,
   });
 
   const { data: allVariants } = useQuery<MenuItemVariant[]>({
-    queryKey: selectedItem ? [`/api/public/menu-items/${selectedItem.id}/variants`] : [],
-    queryFn: () => publicFetch(`/api/public/menu-items/${selectedItem!.id}/variants`),
+    queryKey: selectedItem ? [`/api/public/menu-items/${selectedItem.id}/variants`, selectedPropertyId] : [],
+    queryFn: () => publicFetch(`/api/public/menu-items/${selectedItem!.id}/variants${menuScope}`),
     enabled: !!selectedItem,
   });
 
@@ -80,6 +108,13 @@ export default function CustomerMenu() {
     enabled: !!selectedItem,
   });
 
+  const { data: modifierGroups = [] } = useQuery<MenuItemModifierGroupWithOptions[]>({
+    queryKey: selectedItem ? [`/api/public/menu-items/${selectedItem.id}/modifier-groups`] : [],
+    queryFn: () => publicFetch(`/api/public/menu-items/${selectedItem!.id}/modifier-groups`),
+    enabled: !!selectedItem?.hasModifiers,
+  });
+  const modifierIssues = selectedItem?.hasModifiers ? modifierSelectionIssues(modifierGroups, selectedModifiers) : [];
+
   // Fetch properties for café orders
   const { data: properties } = useQuery<any[]>({
     queryKey: ["/api/public/properties"],
@@ -100,7 +135,7 @@ export default function CustomerMenu() {
       }
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (order: Order) => {
       toast({
         title: "Order Placed!",
         description: "Your order has been sent to the kitchen.",
@@ -110,6 +145,9 @@ export default function CustomerMenu() {
       setCustomerPhone("");
       setSelectedPropertyId(null);
       setShowCart(false);
+      if (order.trackingToken) {
+        navigate(`/track/${order.trackingToken}`);
+      }
     },
     onError: (error: Error) => {
       toast({
@@ -142,6 +180,7 @@ export default function CustomerMenu() {
     setQuantity(1);
     setSelectedVariant(null);
     setSelectedAddOns(new Map());
+    setSelectedModifiers([]);
   };
 
   const calculateItemPrice = () => {
@@ -150,8 +189,9 @@ export default function CustomerMenu() {
     if (selectedVariant) {
       basePrice = parseFloat(selectedVariant.discountedPrice || selectedVariant.actualPrice);
     } else if (selectedItem) {
-      basePrice = parseFloat(selectedItem.discountedPrice || selectedItem.actualPrice || selectedItem.price);
+      basePrice = parseFloat(selectedItem.discountedPrice || selectedItem.price);
     }
+    basePrice += modifierSelectionPrice(modifierGroups, selectedModifiers);
 
     let addOnsTotal = 0;
     selectedAddOns.forEach((qty, addOnId) => {
@@ -178,6 +218,8 @@ export default function CustomerMenu() {
       menuItem: selectedItem,
       quantity,
       selectedVariant: selectedVariant || undefined,
+      selectedModifierIds: selectedModifiers,
+      selectedModifierNames: modifierSelectionNames(modifierGroups, selectedModifiers),
       selectedAddOns: addOnsArray,
       totalPrice: calculateItemPrice(),
     };
@@ -187,6 +229,7 @@ export default function CustomerMenu() {
     setQuantity(1);
     setSelectedVariant(null);
     setSelectedAddOns(new Map());
+    setSelectedModifiers([]);
   };
 
   const toggleAddOn = (addOn: MenuItemAddOn) => {
@@ -239,14 +282,16 @@ export default function CustomerMenu() {
       propertyId: selectedPropertyId,
       customerName,
       customerPhone,
+      // The server prices each line from the menu; add-on quantities are per line
       items: cart.map(item => ({
         id: item.menuItem.id,
-        name: item.menuItem.name,
-        price: item.totalPrice / item.quantity,
+        variantId: item.selectedVariant?.id ?? null,
+        modifiers: item.selectedModifierIds,
+        addOns: item.selectedAddOns.map(addOn => ({ id: addOn.id, quantity: addOn.quantity * item.quantity })),
         quantity: item.quantity,
       })),
-      totalAmount: cartTotal.toFixed(2),
       specialInstructions: null,
+      notifyWhenReady,
     };
 
     orderMutation.mutate(orderData);
@@ -419,10 +464,15 @@ export default function CustomerMenu() {
                                 </span>
                               )}
                               <span className="text-sm font-bold">
-                                ₹{item.discountedPrice || item.actualPrice || item.price}
+                                ₹{item.discountedPrice || item.price}
                               </span>
                             </div>
                           )}
+                          {item.priceRule && (
+                            <Badge variant="secondary" className="text-xs" data-testid={`badge-price-rule-${item.id}`}>
+                              {item.priceRule.name} till {item.priceRule.endTime}
+                            </Badge>
+                          )}
                           <ChevronRight className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
                         </div>
                       </div>
@@ -485,6 +535,11 @@ export default function CustomerMenu() {
                   </div>
                 )}
 
+                {/* Modifier choices */}
+                {selectedItem.hasModifiers && modifierGroups.length > 0 && (
+                  <ModifierPicker groups={modifierGroups} selected={selectedModifiers} onChange={setSelectedModifiers} />
+                )}
+
                 {/* Add-Ons Section - Automatically visible */}
                 {allAddOns && allAddOns.length > 0 && (
                   <div className="space-y-3 border border-green-500 rounded-lg p-4 bg-green-50/50">
@@ -587,11 +642,14 @@ export default function CustomerMenu() {
                     <span>Total:</span>
                     <span>₹{calculateItemPrice().toFixed(2)}</span>
                   </div>
+                  {modifierIssues.length > 0 && (
+                    <p className="text-sm text-destructive" data-testid="text-modifier-issues">{modifierIssues.join(", ")}</p>
+                  )}
                   <Button
                     className="w-full"
                     size="lg"
                     onClick={handleAddToCart}
-                    disabled={allVariants && allVariants.length > 0 && !selectedVariant}
+                    disabled={(allVariants && allVariants.length > 0 && !selectedVariant) || modifierIssues.length > 0}
                     data-testid="button-add-to-cart"
                   >
                     Add to Cart
@@ -621,6 +679,11 @@ export default function CustomerMenu() {
                         {item.selectedVariant.variantName}
                       </p>
                     )}
+                    {item.selectedModifierNames.length > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        {item.selectedModifierNames.join(", ")}
+                      </p>
+                    )}
                     {item.selectedAddOns.length > 0 && (
                       <p className="text-xs text-green-600">
                         + {item.selectedAddOns.map((a) => `${a.addOnName} (${a.quantity})`).join(", ")}
@@ -687,6 +750,16 @@ export default function CustomerMenu() {
                   />
                 </div>
 
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="notify-ready" className="font-normal">WhatsApp me when my order is ready</Label>
+                  <Switch
+                    id="notify-ready"
+                    checked={notifyWhenReady}
+                    onCheckedChange={setNotifyWhenReady}
+                    data-testid="switch-notify-ready"
+                  />
+                </div>
+
                 <div className="flex justify-between text-xl font-bold pt-2">
                   <span>Total:</span>
                   <span>₹{cartTotal.toFixed(2)}</span>
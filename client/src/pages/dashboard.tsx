@@ -8,6 +8,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { format, isToday } from "date-fns";
 import type { Booking, Guest, Room, Property } from "@shared/schema";
+import { NightAuditReport } from "@/components/night-audit-report";
 
 interface Order {
   id: number;
@@ -31,6 +32,7 @@ const statusColors = {
   "checked-in": "bg-chart-5 text-white",
   "checked-out": "bg-muted text-muted-foreground",
   cancelled: "bg-destructive text-destructive-foreground",
+  "no-show": "bg-destructive/80 text-destructive-foreground",
 };
 
 const orderStatusColors = {
@@ -559,6 +561,8 @@ export default function Dashboard() {
           </CardContent>
         </Card>
       </div>
+
+      <NightAuditReport properties={properties ?? []} />
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, Pencil, Trash2, Upload, ChevronDown, ChevronUp, Search, ArrowUp, ArrowDown } from "lucide-react";
+import { Plus, Pencil, Trash2, Upload, ChevronDown, ChevronUp, Search, ArrowUp, ArrowDown, ListChecks, Clock } from "lucide-react";
 import {
   DndContext,
   closestCenter,
@@ -29,6 +29,9 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { EnhancedMenuItemForm } from "@/components/enhanced-menu-item-form";
+import { ModifierGroupsDialog } from "@/components/modifier-groups-dialog";
+import { DaysOfWeekPicker, daysOfWeekText } from "@/components/days-of-week-picker";
+import { MenuPriceRulesDialog } from "@/components/menu-price-rules-dialog";
 import { 
   type MenuCategory, 
   type MenuItem, 
@@ -37,7 +40,8 @@ import {
   insertMenuCategorySchema,
   insertMenuItemSchema,
   insertMenuItemVariantSchema,
-  insertMenuItemAddOnSchema
+  insertMenuItemAddOnSchema,
+  KITCHEN_STATIONS
 } from "@shared/schema";
 import {
   Dialog,
@@ -64,6 +68,7 @@ export default function EnhancedMenu() {
   const [searchQuery, setSearchQuery] = useState("");
   const [showCategoryForm, setShowCategoryForm] = useState(false);
   const [showItemForm, setShowItemForm] = useState(false);
+  const [showPriceRules, setShowPriceRules] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<MenuCategory | null>(null);
   const [selectedItem, setSelectedItem] = useState<MenuItem | null>(null);
   const [expandedItems, setExpandedItems] = useState<Set<number>>(new Set());
@@ -307,7 +312,7 @@ export default function EnhancedMenu() {
       </div>
 
       {/* Add Category Button */}
-      <div className="mb-6">
+      <div className="mb-6 flex flex-wrap gap-2">
         <Button
           onClick={() => {
             setSelectedCategory(null);
@@ -318,6 +323,10 @@ export default function EnhancedMenu() {
           <Plus className="h-4 w-4 mr-2" />
           Add New Category
         </Button>
+        <Button variant="outline" onClick={() => setShowPriceRules(true)} data-testid="button-price-rules">
+          <Clock className="h-4 w-4 mr-2" />
+          Happy Hours
+        </Button>
       </div>
 
       {/* Categories List */}
@@ -387,6 +396,14 @@ export default function EnhancedMenu() {
         defaultPropertyId={selectedProperty || properties?.[0]?.id}
       />
 
+      <MenuPriceRulesDialog
+        open={showPriceRules}
+        onOpenChange={setShowPriceRules}
+        properties={properties || []}
+        categories={categories || []}
+        menuItems={menuItems || []}
+      />
+
       {/* Item Form Dialog */}
       <EnhancedMenuItemForm
         open={showItemForm}
@@ -506,10 +523,14 @@ function CategorySection({
               {category.name}
               {!category.isActive && <Badge variant="secondary">Inactive</Badge>}
               <Badge variant="outline">{items.length} items</Badge>
+              {category.station !== "kitchen" && (
+                <Badge variant="outline" className="capitalize">{category.station}</Badge>
+              )}
             </CardTitle>
-            {category.startTime && category.endTime && (
+            {((category.startTime && category.endTime) || category.daysOfWeek) && (
               <p className="text-sm text-muted-foreground mt-1">
-                {category.startTime} - {category.endTime}
+                {category.startTime && category.endTime && `${category.startTime} - ${category.endTime}`}
+                {category.daysOfWeek && ` ${daysOfWeekText(category.daysOfWeek)}`}
               </p>
             )}
           </div>
@@ -597,6 +618,7 @@ function ItemCard({
   isLast?: boolean;
 }) {
   const { toast } = useToast();
+  const [showModifiers, setShowModifiers] = useState(false);
 
   const { data: variants } = useQuery<MenuItemVariant[]>({
     queryKey: [`/api/menu-items/${item.id}/variants`],
@@ -686,6 +708,16 @@ function ItemCard({
                     {addOns.length} Add-ons
                   </Badge>
                 )}
+                {item.hasModifiers && (
+                  <Badge variant="outline" className="text-xs">
+                    Choices
+                  </Badge>
+                )}
+                {((item.startTime && item.endTime) || item.daysOfWeek) && (
+                  <Badge variant="outline" className="text-xs">
+                    {item.startTime && item.endTime ? `${item.startTime} - ${item.endTime}` : daysOfWeekText(item.daysOfWeek)}
+                  </Badge>
+                )}
               </div>
             </div>
             <div className="flex items-center gap-2">
@@ -699,6 +731,9 @@ function ItemCard({
                   {item.isAvailable ? "Available" : "Hidden"}
                 </span>
               </div>
+              <Button size="sm" variant="ghost" onClick={() => setShowModifiers(true)} data-testid={`button-modifiers-item-${item.id}`}>
+                <ListChecks className="h-4 w-4" />
+              </Button>
               <Button size="sm" variant="ghost" onClick={onEdit} data-testid={`button-edit-item-${item.id}`}>
                 <Pencil className="h-4 w-4" />
               </Button>
@@ -752,6 +787,7 @@ function ItemCard({
           </CollapsibleContent>
         </CardContent>
       </Card>
+      <ModifierGroupsDialog item={item} open={showModifiers} onOpenChange={setShowModifiers} />
     </Collapsible>
   );
 }
@@ -776,6 +812,8 @@ function CategoryFormDialog({
     imageUrl: category?.imageUrl || "",
     startTime: category?.startTime || "",
     endTime: category?.endTime || "",
+    daysOfWeek: category?.daysOfWeek ?? null,
+    station: category?.station || "kitchen",
     displayOrder: category?.displayOrder || 0,
     isActive: category?.isActive ?? true,
   });
@@ -876,6 +914,35 @@ function CategoryFormDialog({
             </div>
           </div>
 
+          <div>
+            <Label>Days Served</Label>
+            <DaysOfWeekPicker
+              value={formData.daysOfWeek}
+              onChange={(daysOfWeek) => setFormData({ ...formData, daysOfWeek })}
+              testIdPrefix="toggle-category-day"
+            />
+          </div>
+
+          <div>
+            <Label>Kitchen Station</Label>
+            <Select
+              value={formData.station}
+              onValueChange={(val) => setFormData({ ...formData, station: val })}
+            >
+              <SelectTrigger data-testid="select-category-station">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {KITCHEN_STATIONS.map((station) => (
+                  <SelectItem key={station} value={station} className="capitalize">
+                    {station}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">KOTs for this category print at this station</p>
+          </div>
+
           <div className="flex items-center gap-2">
             <Switch
               checked={formData.isActive}
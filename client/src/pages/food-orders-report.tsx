@@ -13,6 +13,7 @@ import { format, subDays, startOfDay, endOfDay } from "date-fns";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
+import type { ItemSalesRow, KitchenPerformanceReport } from "@shared/schema";
 
 interface Order {
   id: number;
@@ -177,6 +178,28 @@ export default function FoodOrdersReport() {
         return isInDateRange && isValidStatus;
       });
 
+  const salesFrom = format(startDate, "yyyy-MM-dd");
+  const salesTo = format(endDate, "yyyy-MM-dd");
+  const { data: itemSales, isLoading: itemSalesLoading } = useQuery<ItemSalesRow[]>({
+    queryKey: ["/api/reports/item-sales", salesFrom, salesTo],
+    queryFn: async () => {
+      const response = await fetch(`/api/reports/item-sales?from=${salesFrom}&to=${salesTo}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch item sales");
+      return response.json();
+    },
+    enabled: !isCustomRangeIncomplete,
+  });
+
+  const { data: kitchenPerformance, isLoading: kitchenPerformanceLoading } = useQuery<KitchenPerformanceReport>({
+    queryKey: ["/api/reports/kitchen-performance", salesFrom, salesTo],
+    queryFn: async () => {
+      const response = await fetch(`/api/reports/kitchen-performance?from=${salesFrom}&to=${salesTo}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch kitchen performance");
+      return response.json();
+    },
+    enabled: !isCustomRangeIncomplete,
+  });
+
   const getGuestName = (order: Order) => {
     if (order.customerName) return order.customerName;
     if (order.guestId) {
@@ -374,6 +397,136 @@ export default function FoodOrdersReport() {
         </Card>
       </div>
 
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Item Sales</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {itemSalesLoading ? (
+            <Skeleton className="h-32" />
+          ) : !itemSales || itemSales.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No items sold in the selected date range</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Qty Sold</TableHead>
+                    <TableHead className="text-right">Orders</TableHead>
+                    <TableHead className="text-right">Revenue</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {itemSales.map((row) => (
+                    <TableRow
+                      key={`${row.menuItemId ?? row.itemName}-${row.variantId ?? "base"}`}
+                      data-testid={`row-item-sales-${row.menuItemId ?? "custom"}-${row.variantId ?? "base"}`}
+                    >
+                      <TableCell>
+                        {row.itemName}
+                        {row.variantName && <span className="text-muted-foreground"> ({row.variantName})</span>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{row.quantity}</TableCell>
+                      <TableCell className="text-right font-mono">{row.orderCount}</TableCell>
+                      <TableCell className="text-right font-mono">₹{row.revenue.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Kitchen Performance</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {kitchenPerformanceLoading ? (
+            <Skeleton className="h-32" />
+          ) : !kitchenPerformance || kitchenPerformance.summary.orders === 0 ? (
+            <p className="text-sm text-muted-foreground">No orders were prepared in the selected date range</p>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Avg. wait to start</p>
+                  <p className="text-xl font-bold font-mono" data-testid="text-avg-accept-minutes">{kitchenPerformance.summary.avgAcceptMinutes} min</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Avg. prep time</p>
+                  <p className="text-xl font-bold font-mono" data-testid="text-avg-prep-minutes">{kitchenPerformance.summary.avgPrepMinutes} min</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Late orders</p>
+                  <p className="text-xl font-bold font-mono" data-testid="text-late-orders">
+                    {kitchenPerformance.summary.lateOrders} / {kitchenPerformance.summary.orders}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">On time</p>
+                  <p className="text-xl font-bold font-mono" data-testid="text-on-time-rate">{kitchenPerformance.summary.onTimeRate}%</p>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Shift</TableHead>
+                      <TableHead className="text-right">Orders</TableHead>
+                      <TableHead className="text-right">Avg. Prep</TableHead>
+                      <TableHead className="text-right">Late</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {kitchenPerformance.byShift.map((row) => (
+                      <TableRow key={row.shift} data-testid={`row-kitchen-shift-${row.shift}`}>
+                        <TableCell>{row.shift}</TableCell>
+                        <TableCell className="text-right font-mono">{row.orders}</TableCell>
+                        <TableCell className="text-right font-mono">{row.avgPrepMinutes} min</TableCell>
+                        <TableCell className="text-right font-mono">{row.lateOrders}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Target</TableHead>
+                      <TableHead className="text-right">Orders</TableHead>
+                      <TableHead className="text-right">Avg. Prep</TableHead>
+                      <TableHead className="text-right">Late</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {kitchenPerformance.byItem.map((row) => (
+                      <TableRow key={row.menuItemId ?? row.itemName} data-testid={`row-kitchen-item-${row.menuItemId ?? "custom"}`}>
+                        <TableCell>{row.itemName}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {row.targetPrepMinutes !== null ? `${row.targetPrepMinutes} min` : "-"}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{row.orders}</TableCell>
+                        <TableCell className="text-right font-mono">{row.avgPrepMinutes} min</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {row.lateOrders > 0 ? <Badge variant="destructive">{row.lateOrders}</Badge> : 0}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Order Details</CardTitle>
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { AlertTriangle, CheckCircle, Clock, Download, Globe } from "lucide-react";
+import type { FormCRegistrationRow } from "@shared/schema";
+
+type StatusFilter = "pending" | "submitted" | "all";
+
+export default function FormC() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("pending");
+  const [selected, setSelected] = useState<FormCRegistrationRow | null>(null);
+  const [referenceNumber, setReferenceNumber] = useState("");
+
+  const query = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+  const { data: registrations = [], isLoading } = useQuery<FormCRegistrationRow[]>({
+    queryKey: [`/api/form-c${query}`],
+    staleTime: 0,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async ({ id, referenceNumber }: { id: number; referenceNumber: string }) => {
+      return apiRequest(`/api/form-c/${id}/submit`, "POST", { referenceNumber });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/form-c") });
+      toast({ title: "Form C marked as submitted" });
+      closeSubmitDialog();
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  const openSubmitDialog = (registration: FormCRegistrationRow) => {
+    setSelected(registration);
+    setReferenceNumber(registration.referenceNumber || "");
+  };
+
+  const closeSubmitDialog = () => {
+    setSelected(null);
+    setReferenceNumber("");
+  };
+
+  const overdueCount = registrations.filter(r => r.isOverdue).length;
+  const exportUrl = (kind: "csv" | "xml") =>
+    `/api/form-c?${statusFilter === "all" ? "" : `status=${statusFilter}&`}format=${kind}`;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">Form C Registrations</h1>
+          <p className="text-muted-foreground">
+            Foreign guests must be reported to the FRRO within 24 hours of check-in
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild data-testid="button-export-form-c-csv">
+            <a href={exportUrl("csv")} download>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+          <Button variant="outline" asChild data-testid="button-export-form-c-xml">
+            <a href={exportUrl("xml")} download>
+              <Download className="h-4 w-4 mr-2" />
+              Export XML
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle>Registrations</CardTitle>
+              <CardDescription>
+                {overdueCount > 0
+                  ? `${overdueCount} overdue ${overdueCount === 1 ? "registration" : "registrations"}`
+                  : "Created automatically when a foreign guest checks in"}
+              </CardDescription>
+            </div>
+            <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+              <TabsList>
+                <TabsTrigger value="pending" data-testid="tab-form-c-pending">Pending</TabsTrigger>
+                <TabsTrigger value="submitted" data-testid="tab-form-c-submitted">Submitted</TabsTrigger>
+                <TabsTrigger value="all" data-testid="tab-form-c-all">All</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading registrations...</div>
+          ) : registrations.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="text-no-form-c">
+              <CheckCircle className="h-12 w-12 mx-auto mb-2 text-green-500" />
+              <p className="text-lg font-medium">No registrations</p>
+              <p className="text-sm">{statusFilter === "pending" ? "Every foreign guest has been reported." : "Nothing to show yet."}</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Guest</TableHead>
+                    <TableHead>Passport / Visa</TableHead>
+                    <TableHead>Property</TableHead>
+                    <TableHead>Checked In</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {registrations.map((registration) => (
+                    <TableRow key={registration.id} data-testid={`row-form-c-${registration.id}`}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Globe className="h-4 w-4 text-muted-foreground" />
+                          <div>
+                            <div className="font-medium">{registration.details.fullName}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {registration.details.nationality} • Booking #{registration.bookingId}
+                            </div>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>{registration.details.passportNumber || "—"}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {[registration.details.visaType, registration.details.visaNumber].filter(Boolean).join(" ") || "No visa"}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{registration.propertyName}</TableCell>
+                      <TableCell className="text-sm">
+                        <div>{format(new Date(registration.checkedInAt), "dd MMM yyyy, HH:mm")}</div>
+                        {registration.status === "pending" && (
+                          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <Clock className="h-3 w-3" />
+                            Due {format(new Date(registration.dueAt), "dd MMM, HH:mm")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {registration.status === "submitted" ? (
+                          <div>
+                            <Badge variant="secondary" data-testid={`badge-form-c-status-${registration.id}`}>Submitted</Badge>
+                            <div className="text-xs text-muted-foreground mt-1">{registration.referenceNumber}</div>
+                          </div>
+                        ) : registration.isOverdue ? (
+                          <Badge variant="destructive" data-testid={`badge-form-c-status-${registration.id}`}>
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Overdue
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" data-testid={`badge-form-c-status-${registration.id}`}>Pending</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant={registration.status === "submitted" ? "outline" : "default"}
+                          onClick={() => openSubmitDialog(registration)}
+                          data-testid={`button-submit-form-c-${registration.id}`}
+                        >
+                          {registration.status === "submitted" ? "Edit Reference" : "Mark Submitted"}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => { if (!open) closeSubmitDialog(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Form C Submitted</DialogTitle>
+            <DialogDescription>
+              Record the acknowledgement number the FRRO issued for {selected?.details.fullName}'s Form C.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="form-c-reference">FRRO Reference Number *</Label>
+            <Input
+              id="form-c-reference"
+              value={referenceNumber}
+              onChange={(e) => setReferenceNumber(e.target.value)}
+              data-testid="input-form-c-reference"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeSubmitDialog}>Cancel</Button>
+            <Button
+              onClick={() => selected && submitMutation.mutate({ id: selected.id, referenceNumber: referenceNumber.trim() })}
+              disabled={!referenceNumber.trim() || submitMutation.isPending}
+              data-testid="button-confirm-form-c-submit"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { format } from "date-fns";
+import { Printer, Users } from "lucide-react";
+import type { GuestRegisterRow, Property } from "@shared/schema";
+
+export default function GuestRegister() {
+  const [propertyId, setPropertyId] = useState<string>("");
+  const [night, setNight] = useState<string>(format(new Date(), "yyyy-MM-dd"));
+
+  const { data: properties = [] } = useQuery<Property[]>({
+    queryKey: ["/api/properties"],
+  });
+
+  useEffect(() => {
+    if (!propertyId && properties.length > 0) setPropertyId(properties[0].id.toString());
+  }, [properties, propertyId]);
+
+  const { data: register = [], isLoading } = useQuery<GuestRegisterRow[]>({
+    queryKey: [`/api/reports/guest-register?propertyId=${propertyId}&date=${night}`],
+    enabled: !!propertyId && !!night,
+    staleTime: 0,
+  });
+
+  const missingIds = register.filter(row => !row.hasIdProof).length;
+  const propertyName = properties.find(p => p.id.toString() === propertyId)?.name;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">Guest Register</h1>
+          <p className="text-muted-foreground">Everyone staying in the property on a night, with their ID proof</p>
+        </div>
+        <Button variant="outline" onClick={() => window.print()} data-testid="button-print-register">
+          <Printer className="h-4 w-4 mr-2" />
+          Print
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div>
+              <CardTitle>{propertyName ?? "Register"} — night of {night ? format(new Date(`${night}T00:00:00`), "dd MMM yyyy") : ""}</CardTitle>
+              <CardDescription>
+                {register.length} {register.length === 1 ? "person" : "people"}
+                {missingIds > 0 && ` • ${missingIds} without ID proof`}
+              </CardDescription>
+            </div>
+            <div className="flex items-end gap-2">
+              <div className="space-y-1">
+                <Label>Property</Label>
+                <Select value={propertyId} onValueChange={setPropertyId}>
+                  <SelectTrigger className="w-[200px]" data-testid="select-register-property">
+                    <SelectValue placeholder="Select property" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {properties.map((property) => (
+                      <SelectItem key={property.id} value={property.id.toString()}>{property.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="register-night">Night of</Label>
+                <Input
+                  id="register-night"
+                  type="date"
+                  value={night}
+                  onChange={(e) => setNight(e.target.value)}
+                  data-testid="input-register-night"
+                />
+              </div>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-48" />
+          ) : register.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="text-register-empty">
+              <Users className="h-12 w-12 mx-auto mb-2" />
+              <p>No one checked in that night</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Room</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Age / Gender</TableHead>
+                    <TableHead>Nationality</TableHead>
+                    <TableHead>ID Proof</TableHead>
+                    <TableHead>Stay</TableHead>
+                    <TableHead>Contact</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {register.map((row) => (
+                    <TableRow
+                      key={`${row.bookingId}-${row.bookingGuestId ?? "primary"}`}
+                      data-testid={`row-register-${row.bookingId}-${row.bookingGuestId ?? "primary"}`}
+                    >
+                      <TableCell className="font-medium">{row.roomNumbers.join(", ") || "-"}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{row.fullName}</div>
+                        <div className="text-xs text-muted-foreground">
+                          Booking #{row.bookingId}{row.isPrimary ? " • Booked by" : ""}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm capitalize">
+                        {[row.age !== null ? `${row.age}` : null, row.gender].filter(Boolean).join(" / ") || "-"}
+                      </TableCell>
+                      <TableCell className="text-sm">{row.nationality || "Indian"}</TableCell>
+                      <TableCell className="text-sm">
+                        {row.idProofType || row.idProofNumber ? (
+                          <div>{[row.idProofType, row.idProofNumber].filter(Boolean).join(" ")}</div>
+                        ) : null}
+                        {row.hasIdProof ? (
+                          <Badge variant="secondary" className="text-xs">On file</Badge>
+                        ) : (
+                          <Badge variant="destructive" className="text-xs">Missing</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {format(new Date(row.checkInDate), "dd MMM")} – {format(new Date(row.checkOutDate), "dd MMM")}
+                      </TableCell>
+                      <TableCell className="text-sm">{row.phone || "-"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
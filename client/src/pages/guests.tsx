@@ -1,6 +1,6 @@
 import { useState, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, UserPlus, Phone, Mail, MapPin, Camera, Upload, X } from "lucide-react";
+import { Plus, UserPlus, Phone, Mail, MapPin, Camera, Upload, X, Users, AlertTriangle, Star, Award } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
@@ -11,14 +11,22 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { insertGuestSchema, type InsertGuest, type Guest } from "@shared/schema";
+import { insertGuestSchema, type InsertGuest, type Guest, type GuestDuplicateMatch, type GuestLoyaltySummary } from "@shared/schema";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { GuestDuplicatesDialog } from "@/components/guest-duplicates-dialog";
+import { GuestProfileDialog } from "@/components/guest-profile-dialog";
+import { LoyaltyTiersDialog } from "@/components/loyalty-tiers-dialog";
 
 export default function Guests() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [idProofPreview, setIdProofPreview] = useState<string | null>(null);
+  // Existing guests matching the new guest's details, shown before creating another profile
+  const [duplicateMatches, setDuplicateMatches] = useState<GuestDuplicateMatch[]>([]);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [isTiersOpen, setIsTiersOpen] = useState(false);
+  const [profileGuestId, setProfileGuestId] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -27,6 +35,11 @@ export default function Guests() {
     queryKey: ["/api/guests"],
   });
 
+  const { data: loyalty } = useQuery<GuestLoyaltySummary[]>({
+    queryKey: ["/api/guests/loyalty"],
+  });
+  const loyaltyByGuest = new Map((loyalty || []).map(summary => [summary.guestId, summary]));
+
   const form = useForm<InsertGuest>({
     resolver: zodResolver(insertGuestSchema),
     defaultValues: {
@@ -37,6 +50,7 @@ export default function Guests() {
       idProofNumber: undefined,
       idProofImage: undefined,
       address: undefined,
+      nationality: undefined,
       preferences: undefined,
     },
   });
@@ -63,7 +77,7 @@ export default function Guests() {
 
   const createMutation = useMutation({
     mutationFn: async (data: InsertGuest) => {
-      return await apiRequest("/api/guests", "POST", data);
+      return await apiRequest("/api/guests?onDuplicate=create", "POST", data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/guests"] });
@@ -72,6 +86,7 @@ export default function Guests() {
         description: "Guest added successfully",
       });
       setIsDialogOpen(false);
+      setDuplicateMatches([]);
       form.reset();
       clearIdProof();
     },
@@ -84,7 +99,20 @@ export default function Guests() {
     },
   });
 
-  const onSubmit = (data: InsertGuest) => {
+  const onSubmit = async (data: InsertGuest) => {
+    // Warn once about existing profiles; submitting again creates the guest anyway
+    if (duplicateMatches.length === 0) {
+      try {
+        const response = await apiRequest("/api/guests/duplicates/check", "POST", data);
+        const matches: GuestDuplicateMatch[] = await response.json();
+        if (matches.length > 0) {
+          setDuplicateMatches(matches);
+          return;
+        }
+      } catch (error) {
+        console.error("Duplicate check failed:", error);
+      }
+    }
     createMutation.mutate(data);
   };
 
@@ -108,200 +136,252 @@ export default function Guests() {
           <h1 className="text-3xl font-bold font-serif">Guests</h1>
           <p className="text-muted-foreground mt-1">Manage guest profiles and history</p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button data-testid="button-add-guest">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Guest
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>Add New Guest</DialogTitle>
-            </DialogHeader>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 pb-4">
-                <FormField
-                  control={form.control}
-                  name="fullName"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Full Name</FormLabel>
-                      <FormControl>
-                        <Input placeholder="John Doe" {...field} data-testid="input-guest-name" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <div className="grid grid-cols-2 gap-4">
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsTiersOpen(true)} data-testid="button-loyalty-tiers">
+            <Award className="h-4 w-4 mr-2" />
+            Loyalty Tiers
+          </Button>
+          <Button variant="outline" onClick={() => setIsDuplicatesOpen(true)} data-testid="button-find-duplicates">
+            <Users className="h-4 w-4 mr-2" />
+            Find Duplicates
+          </Button>
+          <Dialog
+            open={isDialogOpen}
+            onOpenChange={(open) => {
+              setIsDialogOpen(open);
+              if (!open) setDuplicateMatches([]);
+            }}
+          >
+            <DialogTrigger asChild>
+              <Button data-testid="button-add-guest">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Guest
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Add New Guest</DialogTitle>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 pb-4">
                   <FormField
                     control={form.control}
-                    name="email"
+                    name="fullName"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Email</FormLabel>
+                        <FormLabel>Full Name</FormLabel>
                         <FormControl>
-                          <Input type="email" placeholder="john@example.com" {...field} value={field.value || ""} data-testid="input-guest-email" />
+                          <Input placeholder="John Doe" {...field} data-testid="input-guest-name" />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email</FormLabel>
+                          <FormControl>
+                            <Input type="email" placeholder="john@example.com" {...field} value={field.value || ""} data-testid="input-guest-email" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="phone"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Phone</FormLabel>
+                          <FormControl>
+                            <Input placeholder="+91 98765 43210" {...field} data-testid="input-guest-phone" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="idProofType"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>ID Proof Type</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Passport, Aadhar, etc." {...field} value={field.value || ""} data-testid="input-guest-id-type" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="idProofNumber"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>ID Proof Number</FormLabel>
+                          <FormControl>
+                            <Input placeholder="ID number" {...field} value={field.value || ""} data-testid="input-guest-id-number" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
                   <FormField
                     control={form.control}
-                    name="phone"
+                    name="idProofImage"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Phone</FormLabel>
+                        <FormLabel>ID Proof Image (Optional)</FormLabel>
                         <FormControl>
-                          <Input placeholder="+91 98765 43210" {...field} data-testid="input-guest-phone" />
+                          <div className="space-y-3">
+                            <div className="flex gap-2 flex-wrap">
+                              <input
+                                ref={cameraInputRef}
+                                type="file"
+                                accept="image/*"
+                                capture="environment"
+                                onChange={handleFileCapture}
+                                className="hidden"
+                                data-testid="input-guest-id-camera"
+                              />
+                              <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept="image/*"
+                                onChange={handleFileCapture}
+                                className="hidden"
+                                data-testid="input-guest-id-upload"
+                              />
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => cameraInputRef.current?.click()}
+                                data-testid="button-capture-id"
+                              >
+                                <Camera className="h-4 w-4 mr-2" />
+                                Capture ID
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => fileInputRef.current?.click()}
+                                data-testid="button-upload-id"
+                              >
+                                <Upload className="h-4 w-4 mr-2" />
+                                Upload ID
+                              </Button>
+                              {idProofPreview && (
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={clearIdProof}
+                                  data-testid="button-clear-id"
+                                >
+                                  <X className="h-4 w-4 mr-2" />
+                                  Clear
+                                </Button>
+                              )}
+                            </div>
+                            {idProofPreview && (
+                              <div className="relative rounded-lg overflow-hidden border border-border">
+                                <img
+                                  src={idProofPreview}
+                                  alt="ID Proof Preview"
+                                  className="w-full h-auto max-h-48 object-contain bg-muted"
+                                  data-testid="image-id-preview"
+                                />
+                              </div>
+                            )}
+                          </div>
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-                </div>
-                <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
-                    name="idProofType"
+                    name="nationality"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>ID Proof Type</FormLabel>
+                        <FormLabel>Nationality</FormLabel>
                         <FormControl>
-                          <Input placeholder="Passport, Aadhar, etc." {...field} value={field.value || ""} data-testid="input-guest-id-type" />
+                          <Input placeholder="Indian" {...field} value={field.value || ""} data-testid="input-guest-nationality" />
                         </FormControl>
+                        <p className="text-xs text-muted-foreground">Foreign nationals need passport and visa details (Form C) before check-in</p>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
                   <FormField
                     control={form.control}
-                    name="idProofNumber"
+                    name="address"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>ID Proof Number</FormLabel>
+                        <FormLabel>Address</FormLabel>
                         <FormControl>
-                          <Input placeholder="ID number" {...field} value={field.value || ""} data-testid="input-guest-id-number" />
+                          <Textarea placeholder="Full address" {...field} value={field.value || ""} data-testid="input-guest-address" />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-                </div>
-                <FormField
-                  control={form.control}
-                  name="idProofImage"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>ID Proof Image (Optional)</FormLabel>
-                      <FormControl>
-                        <div className="space-y-3">
-                          <div className="flex gap-2 flex-wrap">
-                            <input
-                              ref={cameraInputRef}
-                              type="file"
-                              accept="image/*"
-                              capture="environment"
-                              onChange={handleFileCapture}
-                              className="hidden"
-                              data-testid="input-guest-id-camera"
-                            />
-                            <input
-                              ref={fileInputRef}
-                              type="file"
-                              accept="image/*"
-                              onChange={handleFileCapture}
-                              className="hidden"
-                              data-testid="input-guest-id-upload"
-                            />
-                            <Button
-                              type="button"
-                              variant="outline"
-                              size="sm"
-                              onClick={() => cameraInputRef.current?.click()}
-                              data-testid="button-capture-id"
-                            >
-                              <Camera className="h-4 w-4 mr-2" />
-                              Capture ID
-                            </Button>
-                            <Button
-                              type="button"
-                              variant="outline"
-                              size="sm"
-                              onClick={() => fileInputRef.current?.click()}
-                              data-testid="button-upload-id"
-                            >
-                              <Upload className="h-4 w-4 mr-2" />
-                              Upload ID
-                            </Button>
-                            {idProofPreview && (
-                              <Button
-                                type="button"
-                                variant="outline"
-                                size="sm"
-                                onClick={clearIdProof}
-                                data-testid="button-clear-id"
-                              >
-                                <X className="h-4 w-4 mr-2" />
-                                Clear
-                              </Button>
-                            )}
-                          </div>
-                          {idProofPreview && (
-                            <div className="relative rounded-lg overflow-hidden border border-border">
-                              <img
-                                src={idProofPreview}
-                                alt="ID Proof Preview"
-                                className="w-full h-auto max-h-48 object-contain bg-muted"
-                                data-testid="image-id-preview"
-                              />
-                            </div>
-                          )}
+                  <FormField
+                    control={form.control}
+                    name="preferences"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Preferences</FormLabel>
+                        <FormControl>
+                          <Textarea placeholder="Guest preferences (room type, dietary, etc.)" {...field} value={field.value || ""} data-testid="input-guest-preferences" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {duplicateMatches.length > 0 && (
+                    <div className="rounded-md border border-amber-500/50 bg-amber-500/10 p-3 space-y-2" data-testid="alert-guest-duplicates">
+                      <div className="flex items-center gap-2 text-sm font-medium">
+                        <AlertTriangle className="h-4 w-4 text-amber-600" />
+                        This guest may already exist
+                      </div>
+                      {duplicateMatches.slice(0, 5).map(match => (
+                        <div key={match.guest.id} className="text-sm">
+                          <span className="font-medium">{match.guest.fullName}</span>
+                          <span className="text-muted-foreground"> • {match.guest.phone} • {match.reasons.join(", ")}</span>
                         </div>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="address"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Address</FormLabel>
-                      <FormControl>
-                        <Textarea placeholder="Full address" {...field} value={field.value || ""} data-testid="input-guest-address" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="preferences"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Preferences</FormLabel>
-                      <FormControl>
-                        <Textarea placeholder="Guest preferences (room type, dietary, etc.)" {...field} value={field.value || ""} data-testid="input-guest-preferences" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
+                      ))}
+                    </div>
                   )}
-                />
-                <DialogFooter>
-                  <Button type="submit" disabled={createMutation.isPending} data-testid="button-submit-guest">
-                    {createMutation.isPending ? "Adding..." : "Add Guest"}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+                  <DialogFooter>
+                    <Button type="submit" disabled={createMutation.isPending} data-testid="button-submit-guest">
+                      {createMutation.isPending ? "Adding..." : duplicateMatches.length > 0 ? "Add Anyway" : "Add Guest"}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <GuestDuplicatesDialog open={isDuplicatesOpen} onOpenChange={setIsDuplicatesOpen} />
+      <LoyaltyTiersDialog open={isTiersOpen} onOpenChange={setIsTiersOpen} />
+      <GuestProfileDialog
+        guestId={profileGuestId}
+        open={profileGuestId !== null}
+        onOpenChange={(open) => { if (!open) setProfileGuestId(null); }}
+      />
+
       {!guests || guests.length === 0 ? (
         <Card className="p-12 text-center">
           <div className="flex flex-col items-center gap-4">
@@ -323,9 +403,15 @@ export default function Guests() {
               .join("")
               .toUpperCase()
               .slice(0, 2);
+            const summary = loyaltyByGuest.get(guest.id);
 
             return (
-              <Card key={guest.id} className="hover-elevate" data-testid={`card-guest-${guest.id}`}>
+              <Card
+                key={guest.id}
+                className="hover-elevate cursor-pointer"
+                onClick={() => setProfileGuestId(guest.id)}
+                data-testid={`card-guest-${guest.id}`}
+              >
                 <CardHeader>
                   <div className="flex items-center gap-3">
                     <Avatar className="h-12 w-12">
@@ -339,6 +425,17 @@ export default function Guests() {
                         <Badge variant="secondary" className="text-xs" data-testid={`badge-guest-stays-${guest.id}`}>
                           {guest.totalStays} {guest.totalStays === 1 ? "Stay" : "Stays"}
                         </Badge>
+                        {summary?.tierName && (
+                          <Badge className="text-xs" data-testid={`badge-guest-tier-${guest.id}`}>
+                            <Star className="h-3 w-3 mr-1" />
+                            {summary.tierName}
+                          </Badge>
+                        )}
+                        {summary && summary.lifetimeSpend > 0 && (
+                          <span className="text-xs text-muted-foreground" data-testid={`text-guest-spend-${guest.id}`}>
+                            ₹{summary.lifetimeSpend.toLocaleString("en-IN")}
+                          </span>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,676 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { ClipboardList, Package, Plus, ShoppingCart, Trash2 } from "lucide-react";
+import {
+  STOCK_UNITS,
+  type ExpenseCategory,
+  type MenuItem,
+  type MenuItemVariant,
+  type Property,
+  type StockItem,
+  type StockMovement,
+} from "@shared/schema";
+
+interface RecipeLine {
+  id: number;
+  variantId: number | null;
+  stockItemId: number;
+  quantity: string;
+  stockItemName: string;
+  unit: string;
+}
+
+const emptyItem = { name: "", unit: "kg", reorderLevel: "0" };
+const emptyPurchase = { quantity: "", unitCost: "", vendorName: "", paymentMethod: "cash", postToExpenses: true, expenseCategoryId: "" };
+const emptyAdjustment = { movementType: "adjustment" as "adjustment" | "wastage", quantity: "", notes: "" };
+
+function stockStatus(item: StockItem): { label: string; variant: "destructive" | "secondary" | "outline" } | null {
+  const quantity = parseFloat(item.currentQuantity);
+  if (quantity <= 0) return { label: "Out", variant: "destructive" };
+  if (quantity <= parseFloat(item.reorderLevel)) return { label: "Low", variant: "secondary" };
+  return null;
+}
+
+export default function Inventory() {
+  const { toast } = useToast();
+  const [selectedProperty, setSelectedProperty] = useState<number | null>(null);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [newItem, setNewItem] = useState(emptyItem);
+  const [purchaseItem, setPurchaseItem] = useState<StockItem | null>(null);
+  const [purchase, setPurchase] = useState(emptyPurchase);
+  const [adjustItem, setAdjustItem] = useState<StockItem | null>(null);
+  const [adjustment, setAdjustment] = useState(emptyAdjustment);
+  const [recipeMenuItemId, setRecipeMenuItemId] = useState<number | null>(null);
+  const [recipeVariant, setRecipeVariant] = useState("base");
+  const [recipeLines, setRecipeLines] = useState<{ stockItemId: string; quantity: string }[]>([]);
+
+  const { data: properties = [] } = useQuery<Property[]>({
+    queryKey: ["/api/properties"],
+  });
+  const propertyId = selectedProperty ?? properties[0]?.id ?? null;
+
+  const { data: items = [], isLoading } = useQuery<StockItem[]>({
+    queryKey: ["/api/inventory/items", propertyId],
+    queryFn: async () => {
+      const response = await fetch(`/api/inventory/items?propertyId=${propertyId}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch stock items");
+      return response.json();
+    },
+    enabled: propertyId !== null,
+  });
+
+  const { data: movements = [] } = useQuery<StockMovement[]>({
+    queryKey: ["/api/inventory/movements", propertyId],
+    queryFn: async () => {
+      const response = await fetch(`/api/inventory/movements?propertyId=${propertyId}&limit=50`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch stock movements");
+      return response.json();
+    },
+    enabled: propertyId !== null,
+  });
+
+  const { data: expenseCategories = [] } = useQuery<ExpenseCategory[]>({
+    queryKey: ["/api/expense-categories"],
+    enabled: purchaseItem !== null,
+  });
+
+  const { data: menuItems = [] } = useQuery<MenuItem[]>({
+    queryKey: ["/api/menu-items"],
+  });
+  const propertyMenuItems = menuItems.filter(item => item.propertyId === propertyId);
+
+  const { data: variants = [] } = useQuery<MenuItemVariant[]>({
+    queryKey: ["/api/menu-items", recipeMenuItemId, "variants"],
+    enabled: recipeMenuItemId !== null,
+  });
+
+  const { data: recipe = [] } = useQuery<RecipeLine[]>({
+    queryKey: ["/api/menu-items", recipeMenuItemId, "recipe"],
+    enabled: recipeMenuItemId !== null,
+  });
+
+  // Load the saved recipe for the selected item or variant into the editor
+  useEffect(() => {
+    const variantId = recipeVariant === "base" ? null : parseInt(recipeVariant);
+    setRecipeLines(
+      recipe
+        .filter(line => line.variantId === variantId)
+        .map(line => ({ stockItemId: line.stockItemId.toString(), quantity: parseFloat(line.quantity).toString() }))
+    );
+  }, [recipe, recipeVariant]);
+
+  const itemById = new Map(items.map(item => [item.id, item]));
+
+  const invalidateStock = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory/items"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory/movements"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/menu-items"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createItemMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/inventory/items", "POST", {
+        propertyId,
+        name: newItem.name.trim(),
+        unit: newItem.unit,
+        reorderLevel: newItem.reorderLevel || "0",
+      });
+    },
+    onSuccess: () => {
+      invalidateStock();
+      setIsAddOpen(false);
+      setNewItem(emptyItem);
+      toast({ title: "Stock item added" });
+    },
+    onError,
+  });
+
+  const updateItemMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Partial<Pick<StockItem, "isActive" | "reorderLevel">> }) => {
+      return await apiRequest(`/api/inventory/items/${id}`, "PATCH", data);
+    },
+    onSuccess: invalidateStock,
+    onError,
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/inventory/items/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      invalidateStock();
+      toast({ title: "Stock item deleted" });
+    },
+    onError,
+  });
+
+  const purchaseMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/inventory/purchases", "POST", {
+        stockItemId: purchaseItem!.id,
+        quantity: purchase.quantity,
+        unitCost: purchase.unitCost || 0,
+        vendorName: purchase.vendorName.trim() || undefined,
+        paymentMethod: purchase.paymentMethod,
+        postToExpenses: purchase.postToExpenses,
+        expenseCategoryId: purchase.expenseCategoryId ? parseInt(purchase.expenseCategoryId) : undefined,
+      });
+    },
+    onSuccess: () => {
+      invalidateStock();
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+      toast({ title: "Purchase recorded", description: `${purchase.quantity} ${purchaseItem!.unit} ${purchaseItem!.name}` });
+      setPurchaseItem(null);
+      setPurchase(emptyPurchase);
+    },
+    onError,
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/inventory/adjustments", "POST", {
+        stockItemId: adjustItem!.id,
+        movementType: adjustment.movementType,
+        quantity: adjustment.quantity,
+        notes: adjustment.notes.trim(),
+      });
+    },
+    onSuccess: () => {
+      invalidateStock();
+      toast({ title: adjustment.movementType === "wastage" ? "Wastage recorded" : "Stock adjusted" });
+      setAdjustItem(null);
+      setAdjustment(emptyAdjustment);
+    },
+    onError,
+  });
+
+  const saveRecipeMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/menu-items/${recipeMenuItemId}/recipe`, "PUT", {
+        variantId: recipeVariant === "base" ? null : parseInt(recipeVariant),
+        ingredients: recipeLines
+          .filter(line => line.stockItemId && line.quantity)
+          .map(line => ({ stockItemId: parseInt(line.stockItemId), quantity: line.quantity })),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/menu-items", recipeMenuItemId, "recipe"] });
+      toast({ title: "Recipe saved" });
+    },
+    onError,
+  });
+
+  return (
+    <div className="p-6 md:p-8 space-y-6">
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+            <Package className="h-7 w-7 text-primary" />
+            Inventory
+          </h1>
+          <p className="text-muted-foreground">Kitchen stock, purchases and recipes. Delivered orders use up their ingredients.</p>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          {properties.length > 1 && (
+            <Select
+              value={propertyId?.toString() ?? ""}
+              onValueChange={(value) => { setSelectedProperty(parseInt(value)); setRecipeMenuItemId(null); }}
+            >
+              <SelectTrigger className="w-[200px]" data-testid="select-inventory-property">
+                <SelectValue placeholder="Property" />
+              </SelectTrigger>
+              <SelectContent>
+                {properties.map(property => (
+                  <SelectItem key={property.id} value={property.id.toString()}>{property.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button onClick={() => setIsAddOpen(true)} disabled={propertyId === null} data-testid="button-add-stock-item">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Stock Item
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Stock</CardTitle>
+          <CardDescription>Menu items go off the menu when an ingredient runs out, and come back when it's restocked</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-40" />
+          ) : items.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No stock items yet</p>
+          ) : (
+            <div className="space-y-2">
+              {items.map(item => {
+                const status = stockStatus(item);
+                return (
+                  <div
+                    key={item.id}
+                    className={`flex items-center justify-between gap-3 border rounded-md p-3 flex-wrap ${item.isActive ? "" : "opacity-60"}`}
+                    data-testid={`stock-item-${item.id}`}
+                  >
+                    <div className="min-w-[160px]">
+                      <p className="font-medium flex items-center gap-2">
+                        {item.name}
+                        {status && <Badge variant={status.variant}>{status.label}</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Reorder at {parseFloat(item.reorderLevel)} {item.unit}
+                        {item.costPerUnit ? ` • ₹${parseFloat(item.costPerUnit).toFixed(2)}/${item.unit}` : ""}
+                      </p>
+                    </div>
+                    <p className="font-mono font-semibold" data-testid={`text-stock-quantity-${item.id}`}>
+                      {parseFloat(item.currentQuantity)} {item.unit}
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <Button size="sm" onClick={() => setPurchaseItem(item)} data-testid={`button-purchase-${item.id}`}>
+                        <ShoppingCart className="h-4 w-4 mr-1" />
+                        Purchase
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setAdjustItem(item)} data-testid={`button-adjust-${item.id}`}>
+                        <ClipboardList className="h-4 w-4 mr-1" />
+                        Adjust
+                      </Button>
+                      <Switch
+                        checked={item.isActive}
+                        onCheckedChange={(checked) => updateItemMutation.mutate({ id: item.id, data: { isActive: checked } })}
+                        data-testid={`switch-stock-active-${item.id}`}
+                      />
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteItemMutation.mutate(item.id)}
+                        data-testid={`button-delete-stock-${item.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Recipes</CardTitle>
+            <CardDescription>Ingredients used per portion. A variant recipe replaces the base recipe.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={recipeMenuItemId?.toString() ?? ""}
+                onValueChange={(value) => { setRecipeMenuItemId(parseInt(value)); setRecipeVariant("base"); }}
+              >
+                <SelectTrigger data-testid="select-recipe-menu-item">
+                  <SelectValue placeholder="Menu item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {propertyMenuItems.map(menuItem => (
+                    <SelectItem key={menuItem.id} value={menuItem.id.toString()}>{menuItem.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={recipeVariant} onValueChange={setRecipeVariant} disabled={recipeMenuItemId === null}>
+                <SelectTrigger data-testid="select-recipe-variant">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="base">Base recipe</SelectItem>
+                  {variants.map(variant => (
+                    <SelectItem key={variant.id} value={variant.id.toString()}>{variant.variantName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {recipeMenuItemId !== null && (
+              <>
+                {recipeLines.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No ingredients. Orders for this item won't change stock.</p>
+                )}
+                {recipeLines.map((line, idx) => (
+                  <div key={idx} className="flex gap-2 items-center">
+                    <Select
+                      value={line.stockItemId}
+                      onValueChange={(value) => setRecipeLines(recipeLines.map((l, i) => i === idx ? { ...l, stockItemId: value } : l))}
+                    >
+                      <SelectTrigger data-testid={`select-recipe-stock-${idx}`}>
+                        <SelectValue placeholder="Ingredient" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {items.map(item => (
+                          <SelectItem key={item.id} value={item.id.toString()}>{item.name} ({item.unit})</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      className="w-28"
+                      placeholder="Qty"
+                      value={line.quantity}
+                      onChange={(e) => setRecipeLines(recipeLines.map((l, i) => i === idx ? { ...l, quantity: e.target.value } : l))}
+                      data-testid={`input-recipe-quantity-${idx}`}
+                    />
+                    <span className="text-xs text-muted-foreground w-8">{itemById.get(parseInt(line.stockItemId))?.unit}</span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setRecipeLines(recipeLines.filter((_, i) => i !== idx))}
+                      data-testid={`button-remove-recipe-line-${idx}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => setRecipeLines([...recipeLines, { stockItemId: "", quantity: "" }])}
+                    data-testid="button-add-recipe-line"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Ingredient
+                  </Button>
+                  <Button
+                    onClick={() => saveRecipeMutation.mutate()}
+                    disabled={saveRecipeMutation.isPending}
+                    data-testid="button-save-recipe"
+                  >
+                    Save Recipe
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Recent Movements</CardTitle>
+            <CardDescription>Last 50 stock changes</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {movements.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No stock movements yet</p>
+            ) : (
+              <div className="space-y-1 max-h-[420px] overflow-y-auto text-sm">
+                {movements.map(movement => {
+                  const item = itemById.get(movement.stockItemId);
+                  const quantity = parseFloat(movement.quantity);
+                  return (
+                    <div key={movement.id} className="flex items-center justify-between gap-2 border-b py-1" data-testid={`movement-${movement.id}`}>
+                      <div>
+                        <p>
+                          {item?.name ?? `Item #${movement.stockItemId}`}{" "}
+                          <Badge variant="outline" className="capitalize">{movement.movementType}</Badge>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {movement.createdAt ? format(new Date(movement.createdAt), "dd MMM, HH:mm") : ""}
+                          {movement.orderId ? ` • Order #${movement.orderId}` : ""}
+                          {movement.vendorName ? ` • ${movement.vendorName}` : ""}
+                          {movement.notes && !movement.orderId ? ` • ${movement.notes}` : ""}
+                        </p>
+                      </div>
+                      <div className="text-right font-mono">
+                        <p className={quantity < 0 ? "text-destructive" : "text-green-600"}>
+                          {quantity > 0 ? "+" : ""}{quantity} {item?.unit}
+                        </p>
+                        <p className="text-xs text-muted-foreground">= {parseFloat(movement.balanceAfter)}</p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Add stock item */}
+      <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Stock Item</DialogTitle>
+            <DialogDescription>Record a purchase to bring in opening stock</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="stock-name">Name *</Label>
+              <Input
+                id="stock-name"
+                placeholder="e.g., Paneer"
+                value={newItem.name}
+                onChange={(e) => setNewItem({ ...newItem, name: e.target.value })}
+                data-testid="input-stock-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Unit</Label>
+                <Select value={newItem.unit} onValueChange={(value) => setNewItem({ ...newItem, unit: value })}>
+                  <SelectTrigger data-testid="select-stock-unit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STOCK_UNITS.map(unit => (
+                      <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="stock-reorder">Reorder Level</Label>
+                <Input
+                  id="stock-reorder"
+                  type="number"
+                  min="0"
+                  value={newItem.reorderLevel}
+                  onChange={(e) => setNewItem({ ...newItem, reorderLevel: e.target.value })}
+                  data-testid="input-stock-reorder"
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAddOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createItemMutation.mutate()}
+              disabled={!newItem.name.trim() || createItemMutation.isPending}
+              data-testid="button-save-stock-item"
+            >
+              Add Item
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Purchase */}
+      <Dialog open={purchaseItem !== null} onOpenChange={(open) => { if (!open) { setPurchaseItem(null); setPurchase(emptyPurchase); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Purchase {purchaseItem?.name}</DialogTitle>
+            <DialogDescription>
+              In stock: {purchaseItem ? parseFloat(purchaseItem.currentQuantity) : 0} {purchaseItem?.unit}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="purchase-quantity">Quantity ({purchaseItem?.unit}) *</Label>
+                <Input
+                  id="purchase-quantity"
+                  type="number"
+                  min="0"
+                  step="0.001"
+                  value={purchase.quantity}
+                  onChange={(e) => setPurchase({ ...purchase, quantity: e.target.value })}
+                  data-testid="input-purchase-quantity"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="purchase-cost">Cost per {purchaseItem?.unit} (₹)</Label>
+                <Input
+                  id="purchase-cost"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={purchase.unitCost}
+                  onChange={(e) => setPurchase({ ...purchase, unitCost: e.target.value })}
+                  data-testid="input-purchase-cost"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="purchase-vendor">Vendor</Label>
+              <Input
+                id="purchase-vendor"
+                value={purchase.vendorName}
+                onChange={(e) => setPurchase({ ...purchase, vendorName: e.target.value })}
+                data-testid="input-purchase-vendor"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={purchase.postToExpenses}
+                onCheckedChange={(checked) => setPurchase({ ...purchase, postToExpenses: checked })}
+                data-testid="switch-purchase-expense"
+              />
+              <Label>Add to property expenses</Label>
+            </div>
+            {purchase.postToExpenses && (
+              <div className="grid grid-cols-2 gap-4">
+                <Select
+                  value={purchase.expenseCategoryId}
+                  onValueChange={(value) => setPurchase({ ...purchase, expenseCategoryId: value })}
+                >
+                  <SelectTrigger data-testid="select-purchase-category">
+                    <SelectValue placeholder="Groceries" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expenseCategories
+                      .filter(category => category.propertyId === null || category.propertyId === propertyId)
+                      .map(category => (
+                        <SelectItem key={category.id} value={category.id.toString()}>{category.name}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Select value={purchase.paymentMethod} onValueChange={(value) => setPurchase({ ...purchase, paymentMethod: value })}>
+                  <SelectTrigger data-testid="select-purchase-payment">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cash">Cash</SelectItem>
+                    <SelectItem value="upi">UPI</SelectItem>
+                    <SelectItem value="card">Card</SelectItem>
+                    <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {purchase.quantity && purchase.unitCost && (
+              <p className="text-sm font-medium">
+                Total: ₹{(parseFloat(purchase.quantity) * parseFloat(purchase.unitCost)).toFixed(2)}
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setPurchaseItem(null); setPurchase(emptyPurchase); }}>Cancel</Button>
+            <Button
+              onClick={() => purchaseMutation.mutate()}
+              disabled={!(parseFloat(purchase.quantity) > 0) || purchaseMutation.isPending}
+              data-testid="button-save-purchase"
+            >
+              Record Purchase
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Adjust */}
+      <Dialog open={adjustItem !== null} onOpenChange={(open) => { if (!open) { setAdjustItem(null); setAdjustment(emptyAdjustment); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust {adjustItem?.name}</DialogTitle>
+            <DialogDescription>
+              In stock: {adjustItem ? parseFloat(adjustItem.currentQuantity) : 0} {adjustItem?.unit}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Select
+              value={adjustment.movementType}
+              onValueChange={(value) => setAdjustment({ ...adjustment, movementType: value as "adjustment" | "wastage" })}
+            >
+              <SelectTrigger data-testid="select-adjustment-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="adjustment">Stock count</SelectItem>
+                <SelectItem value="wastage">Wastage</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-quantity">
+                {adjustment.movementType === "adjustment" ? "Counted quantity" : "Quantity wasted"} ({adjustItem?.unit}) *
+              </Label>
+              <Input
+                id="adjustment-quantity"
+                type="number"
+                min="0"
+                step="0.001"
+                value={adjustment.quantity}
+                onChange={(e) => setAdjustment({ ...adjustment, quantity: e.target.value })}
+                data-testid="input-adjustment-quantity"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-notes">Note *</Label>
+              <Input
+                id="adjustment-notes"
+                placeholder={adjustment.movementType === "adjustment" ? "e.g., Weekly stock take" : "e.g., Spoiled"}
+                value={adjustment.notes}
+                onChange={(e) => setAdjustment({ ...adjustment, notes: e.target.value })}
+                data-testid="input-adjustment-notes"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setAdjustItem(null); setAdjustment(emptyAdjustment); }}>Cancel</Button>
+            <Button
+              onClick={() => adjustMutation.mutate()}
+              disabled={adjustment.quantity === "" || !adjustment.notes.trim() || adjustMutation.isPending}
+              data-testid="button-save-adjustment"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { ShoppingCart, Plus, Minus, X, Check, UtensilsCrossed, Clock, Search, XCircle } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -10,8 +11,10 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { Toaster } from "@/components/ui/toaster";
 import { apiRequest } from "@/lib/queryClient";
-import { type MenuItem, type MenuCategory } from "@shared/schema";
+import { type MenuItem, type MenuCategory, type MenuItemModifierGroupWithOptions, type AppliedPriceRule, type Order } from "@shared/schema";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ModifierPicker, modifierSelectionIssues } from "@/components/modifier-picker";
 import {
   Sheet,
   SheetContent,
@@ -28,6 +31,15 @@ interface CartAddOn {
   quantity: number;
 }
 
+// Public menu prices already include any happy hour running at the property
+type PublicMenuItem = MenuItem & { priceRule?: AppliedPriceRule | null };
+
+interface CartModifier {
+  id: number;
+  name: string;
+  price: number; // Per unit
+}
+
 interface CartItem extends MenuItem {
   quantity: number;
   cartId: string;
@@ -37,58 +49,77 @@ interface CartItem extends MenuItem {
     actualPrice: string;
     discountedPrice: string | null;
   } | null;
+  cartModifiers?: CartModifier[];
   cartAddOns?: CartAddOn[];
 }
 
 export default function Menu() {
   const [cart, setCart] = useState<CartItem[]>([]);
-  const [orderType, setOrderType] = useState<"room" | "restaurant">("restaurant");
+  const [orderType, setOrderType] = useState<"room" | "restaurant" | "table">("restaurant");
   const [roomNumber, setRoomNumber] = useState("");
+  const [roomKey, setRoomKey] = useState("");
+  const [guestLastName, setGuestLastName] = useState("");
+  const [tableNumber, setTableNumber] = useState("");
   const [propertyId, setPropertyId] = useState<string>("");
   const [customerName, setCustomerName] = useState("");
   const [customerPhone, setCustomerPhone] = useState("");
   const [specialInstructions, setSpecialInstructions] = useState("");
+  const [notifyWhenReady, setNotifyWhenReady] = useState(true);
+  const [, navigate] = useLocation();
   const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
   const [selectedItem, setSelectedItem] = useState<MenuItem | null>(null);
   const [selectedVariant, setSelectedVariant] = useState<{id: number; variantName: string; actualPrice: string; discountedPrice: string | null} | null>(null);
   const [selectedAddOns, setSelectedAddOns] = useState<{ id: number; name: string; price: string; quantity: number; }[]>([]);
+  const [selectedModifiers, setSelectedModifiers] = useState<number[]>([]);
   const [isAddOnsSheetOpen, setIsAddOnsSheetOpen] = useState(false);
   const [selectedCategoryId, setSelectedCategoryId] = useState<number | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const { toast } = useToast();
   
-  // Detect order type, property, and room from URL query params
+  // Detect order type, property, room and table from URL query params
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const type = params.get("type");
     const room = params.get("room");
+    const table = params.get("table");
     const property = params.get("property");
+    const key = params.get("key");
     
-    if (type === "room" || type === "restaurant") {
+    if (type === "room" || type === "restaurant" || type === "table") {
       setOrderType(type);
     }
     
     // Auto-fill room number and property ID if provided in URL (from QR code)
     if (room && type === "room") {
       setRoomNumber(room);
+      setRoomKey(key || "");
+    }
+
+    if (table && type === "table") {
+      setTableNumber(table);
     }
     
-    if (property && type === "room") {
+    if (property && (type === "room" || type === "table")) {
       setPropertyId(property);
     }
   }, []);
 
+  // Serving windows and happy hours follow the property's local time
+  const menuScope = propertyId ? `?propertyId=${propertyId}` : "";
+
   const { data: menuCategories, isLoading: categoriesLoading } = useQuery<MenuCategory[]>({
-    queryKey: ["/api/public/menu-categories"],
+    queryKey: [`/api/public/menu-categories${menuScope}`],
+    refetchInterval: 5 * 60 * 1000,
   });
 
-  const { data: menuItems, isLoading: itemsLoading } = useQuery<MenuItem[]>({
-    queryKey: ["/api/public/menu"],
+  const { data: menuItems, isLoading: itemsLoading } = useQuery<PublicMenuItem[]>({
+    queryKey: [`/api/public/menu${menuScope}`],
+    refetchInterval: 5 * 60 * 1000,
   });
 
   // Fetch variants for selected item
   const { data: variants } = useQuery<{ id: number; menuItemId: number; variantName: string; actualPrice: string; discountedPrice: string | null; }[]>({
-    queryKey: [`/api/public/menu-items/${selectedItem?.id}/variants`],
+    queryKey: [`/api/public/menu-items/${selectedItem?.id}/variants${menuScope}`],
     enabled: !!selectedItem,
   });
 
@@ -98,23 +129,39 @@ export default function Menu() {
     enabled: !!selectedItem,
   });
 
+  // Fetch modifier groups for selected item
+  const { data: modifierGroups = [] } = useQuery<MenuItemModifierGroupWithOptions[]>({
+    queryKey: [`/api/public/menu-items/${selectedItem?.id}/modifier-groups`],
+    enabled: !!selectedItem?.hasModifiers,
+  });
+  const modifierIssues = selectedItem?.hasModifiers ? modifierSelectionIssues(modifierGroups, selectedModifiers) : [];
+  const chosenModifiers: CartModifier[] = modifierGroups
+    .flatMap(group => group.modifiers)
+    .filter(m => selectedModifiers.includes(m.id))
+    .map(m => ({ id: m.id, name: m.name, price: parseFloat(m.price) }));
+
   const isLoading = categoriesLoading || itemsLoading;
 
   const orderMutation = useMutation({
-    mutationFn: async (orderData: any) => {
-      return await apiRequest("/api/public/orders", "POST", orderData);
+    mutationFn: async (orderData: any): Promise<Order> => {
+      const response = await apiRequest("/api/public/orders", "POST", orderData);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (order) => {
       toast({
         title: "Order Placed!",
         description: "Your order has been sent to the kitchen.",
       });
       setCart([]);
       setRoomNumber("");
+      setGuestLastName("");
       setCustomerName("");
       setCustomerPhone("");
       setSpecialInstructions("");
       setIsCheckoutOpen(false);
+      if (order.trackingToken) {
+        navigate(`/track/${order.trackingToken}`);
+      }
     },
     onError: (error: Error) => {
       toast({
@@ -129,6 +176,7 @@ export default function Menu() {
     setSelectedItem(item);
     setSelectedVariant(null);
     setSelectedAddOns([]);
+    setSelectedModifiers([]);
     setIsAddOnsSheetOpen(true);
   };
 
@@ -162,6 +210,7 @@ export default function Menu() {
       cartId,
       quantity: 1,
       selectedVariant: selectedVariant,
+      cartModifiers: chosenModifiers.length > 0 ? chosenModifiers : undefined,
       cartAddOns: selectedAddOns.length > 0 ? [...selectedAddOns] : undefined
     };
     
@@ -176,11 +225,12 @@ export default function Menu() {
     setSelectedItem(null);
     setSelectedVariant(null);
     setSelectedAddOns([]);
+    setSelectedModifiers([]);
   };
 
   const addToCart = (item: MenuItem) => {
-    // Check if item has variants or add-ons
-    if (item.hasVariants || item.hasAddOns) {
+    // Check if item has variants, modifiers or add-ons
+    if (item.hasVariants || item.hasModifiers || item.hasAddOns) {
       openAddOnsSheet(item);
     } else {
       // Directly add to cart if no variants or add-ons
@@ -227,9 +277,10 @@ export default function Menu() {
   const calculateTotal = () => {
     return cart.reduce((sum, item) => {
       // Base price (variant or regular price)
-      const basePrice = item.selectedVariant 
+      const basePrice = (item.selectedVariant 
         ? parseFloat(item.selectedVariant.discountedPrice || item.selectedVariant.actualPrice)
-        : parseFloat(item.price as string);
+        : parseFloat((item.discountedPrice || item.price) as string))
+        + (item.cartModifiers?.reduce((modifierSum, m) => modifierSum + m.price, 0) ?? 0);
       
       // Add-ons total
       const addOnsTotal = item.cartAddOns
@@ -251,6 +302,24 @@ export default function Menu() {
       });
       return;
     }
+
+    if (orderType === "room" && !roomKey && !guestLastName) {
+      toast({
+        title: "Last Name Required",
+        description: "Please enter the last name on your booking",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    if (orderType === "table" && (!tableNumber || !propertyId)) {
+      toast({
+        title: "Table Not Found",
+        description: "Please scan the QR code on your table again",
+        variant: "destructive",
+      });
+      return;
+    }
     
     if (orderType === "restaurant" && (!customerName || !customerPhone)) {
       toast({
@@ -264,37 +333,28 @@ export default function Menu() {
     const orderData: any = {
       orderType,
       orderSource: "guest",
-      items: cart.map((item) => {
-        const basePrice = item.selectedVariant 
-          ? parseFloat(item.selectedVariant.discountedPrice || item.selectedVariant.actualPrice)
-          : parseFloat(item.price as string);
-        
-        const variantText = item.selectedVariant ? ` (${item.selectedVariant.variantName})` : '';
-        const addOnsText = item.cartAddOns && item.cartAddOns.length > 0
-          ? ` + ${item.cartAddOns.map(a => `${a.quantity}x ${a.name}`).join(', ')}`
-          : '';
-        
-        const addOnsTotal = item.cartAddOns
-          ? item.cartAddOns.reduce((sum, addOn) => 
-              sum + (parseFloat(addOn.price) * addOn.quantity), 0)
-          : 0;
-        
-        const totalPrice = (basePrice * item.quantity) + addOnsTotal;
-        
-        return {
-          id: item.id,
-          name: item.name + variantText + addOnsText,
-          price: (totalPrice / item.quantity).toFixed(2),
-          quantity: item.quantity,
-        };
-      }),
-      totalAmount: calculateTotal().toFixed(2),
+      // The server prices each line from the menu
+      items: cart.map((item) => ({
+        id: item.id,
+        variantId: item.selectedVariant?.id ?? null,
+        modifiers: item.cartModifiers?.map((m) => m.id) ?? [],
+        addOns: item.cartAddOns?.map((addOn) => ({ id: addOn.id, quantity: addOn.quantity })) ?? [],
+        quantity: item.quantity,
+      })),
       specialInstructions: specialInstructions || null,
+      notifyWhenReady,
     };
     
     if (orderType === "room") {
       orderData.roomId = roomNumber;
       orderData.propertyId = propertyId;
+      orderData.roomKey = roomKey || null;
+      orderData.guestLastName = guestLastName || null;
+    } else if (orderType === "table") {
+      orderData.tableNumber = tableNumber;
+      orderData.propertyId = propertyId;
+      orderData.customerName = customerName || null;
+      orderData.customerPhone = customerPhone || null;
     } else {
       orderData.customerName = customerName;
       orderData.customerPhone = customerPhone;
@@ -312,7 +372,7 @@ export default function Menu() {
 
   // Helper function to check if item has variants or add-ons
   const isComplexItem = (item: MenuItem) => {
-    return item.hasVariants || item.hasAddOns;
+    return item.hasVariants || item.hasModifiers || item.hasAddOns;
   };
 
   // Filter items by search term (name + description)
@@ -361,7 +421,11 @@ export default function Menu() {
                 {orderType === "room" ? "Room Service Menu" : "Café Menu"}
               </h1>
               <p className="text-sm text-muted-foreground mt-1">
-                {orderType === "room" ? "Order directly to your room" : "Order from our café"}
+                {orderType === "room"
+                  ? "Order directly to your room"
+                  : orderType === "table"
+                  ? `Ordering for Table ${tableNumber}`
+                  : "Order from our café"}
               </p>
             </div>
             <Sheet open={isCheckoutOpen} onOpenChange={setIsCheckoutOpen}>
@@ -387,9 +451,10 @@ export default function Menu() {
                   ) : (
                     <>
                       {cart.map((item) => {
-                        const basePrice = item.selectedVariant 
+                        const basePrice = (item.selectedVariant 
                           ? parseFloat(item.selectedVariant.discountedPrice || item.selectedVariant.actualPrice)
-                          : parseFloat(item.price as string);
+                          : parseFloat((item.discountedPrice || item.price) as string))
+                          + (item.cartModifiers?.reduce((sum, m) => sum + m.price, 0) ?? 0);
                         
                         return (
                           <div key={item.cartId} className="p-3 border rounded-lg space-y-3">
@@ -404,6 +469,9 @@ export default function Menu() {
                                     </span>
                                   )}
                                 </p>
+                                {item.cartModifiers && item.cartModifiers.length > 0 && (
+                                  <p className="text-xs text-muted-foreground">{item.cartModifiers.map((m) => m.name).join(", ")}</p>
+                                )}
                                 <p className="text-sm text-muted-foreground font-mono">₹{basePrice.toFixed(2)} each</p>
                               </div>
                               <div className="flex items-center gap-2 flex-shrink-0">
@@ -506,11 +574,27 @@ export default function Menu() {
                                 <p className="text-xs text-muted-foreground">Room number auto-filled from QR code</p>
                               )}
                             </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="guest-last-name">{roomKey ? "Last Name on Booking (Optional)" : "Last Name on Booking *"}</Label>
+                              <Input
+                                id="guest-last-name"
+                                placeholder="As on your booking"
+                                value={guestLastName}
+                                onChange={(e) => setGuestLastName(e.target.value)}
+                                data-testid="input-guest-last-name"
+                              />
+                              <p className="text-xs text-muted-foreground">Orders are charged to your room bill</p>
+                            </div>
                           </>
                         ) : (
                           <>
+                            {orderType === "table" && (
+                              <p className="text-sm text-muted-foreground" data-testid="text-table-number">
+                                Table {tableNumber} • Orders are added to your table's bill
+                              </p>
+                            )}
                             <div className="space-y-2">
-                              <Label htmlFor="customer-name">Name *</Label>
+                              <Label htmlFor="customer-name">{orderType === "table" ? "Name (Optional)" : "Name *"}</Label>
                               <Input
                                 id="customer-name"
                                 placeholder="Enter your name"
@@ -520,7 +604,7 @@ export default function Menu() {
                               />
                             </div>
                             <div className="space-y-2">
-                              <Label htmlFor="customer-phone">Phone Number *</Label>
+                              <Label htmlFor="customer-phone">{orderType === "table" ? "Phone Number (Optional)" : "Phone Number *"}</Label>
                               <Input
                                 id="customer-phone"
                                 type="tel"
@@ -542,6 +626,15 @@ export default function Menu() {
                             data-testid="input-special-instructions"
                           />
                         </div>
+                        <div className="flex items-center justify-between gap-2">
+                          <Label htmlFor="notify-ready" className="font-normal">WhatsApp me when my order is ready</Label>
+                          <Switch
+                            id="notify-ready"
+                            checked={notifyWhenReady}
+                            onCheckedChange={setNotifyWhenReady}
+                            data-testid="switch-notify-ready"
+                          />
+                        </div>
                       </div>
 
                       <div className="border-t pt-4">
@@ -553,7 +646,14 @@ export default function Menu() {
                           className="w-full"
                           size="lg"
                           onClick={handleCheckout}
-                          disabled={orderMutation.isPending || (orderType === "room" ? !roomNumber : (!customerName || !customerPhone))}
+                          disabled={
+                            orderMutation.isPending ||
+                            (orderType === "room"
+                              ? (!roomNumber || (!roomKey && !guestLastName))
+                              : orderType === "table"
+                              ? !tableNumber
+                              : (!customerName || !customerPhone))
+                          }
                           data-testid="button-place-order"
                         >
                           <Check className="h-5 w-5 mr-2" />
@@ -666,8 +766,13 @@ export default function Menu() {
                             {item.foodType === "non-veg" ? "🔴" : "🟢"}
                           </span>
                           <h3 className="font-semibold text-sm leading-tight flex-1 min-w-0">{item.name}</h3>
-                          <Badge variant="secondary" className="font-mono text-xs px-1.5 py-0 h-5 flex-shrink-0">₹{item.price}</Badge>
+                          <Badge variant="secondary" className="font-mono text-xs px-1.5 py-0 h-5 flex-shrink-0">₹{item.discountedPrice || item.price}</Badge>
                         </div>
+                        {item.priceRule && (
+                          <p className="text-xs text-primary font-medium mb-1" data-testid={`text-price-rule-${item.id}`}>
+                            {item.priceRule.name} till {item.priceRule.endTime}
+                          </p>
+                        )}
                         {item.description && (
                           <p className="text-xs text-muted-foreground line-clamp-1 mb-1">{item.description}</p>
                         )}
@@ -766,7 +871,7 @@ export default function Menu() {
             {/* Base Item Price */}
             <div className="flex items-center justify-between pb-4 border-b">
               <span className="font-medium">Base Price</span>
-              <span className="font-mono text-lg">₹{selectedItem?.price}</span>
+              <span className="font-mono text-lg">₹{selectedItem?.discountedPrice || selectedItem?.price}</span>
             </div>
 
             {/* Variants Selection */}
@@ -813,6 +918,11 @@ export default function Menu() {
               </div>
             )}
 
+            {/* Modifier choices */}
+            {selectedItem?.hasModifiers && modifierGroups.length > 0 && (
+              <ModifierPicker groups={modifierGroups} selected={selectedModifiers} onChange={setSelectedModifiers} />
+            )}
+
             {/* Add-Ons List */}
             {addOns && addOns.length > 0 ? (
               <div className="space-y-4">
@@ -875,8 +985,14 @@ export default function Menu() {
             <div className="pt-4 border-t">
               <div className="flex items-center justify-between mb-2">
                 <span className="text-sm">Base Price</span>
-                <span className="font-mono">₹{selectedItem?.price || "0"}</span>
+                <span className="font-mono">₹{selectedItem?.discountedPrice || selectedItem?.price || "0"}</span>
               </div>
+              {chosenModifiers.map(modifier => (
+                <div key={modifier.id} className="flex items-center justify-between mb-2 text-sm">
+                  <span className="text-muted-foreground">{modifier.name}</span>
+                  <span className="font-mono">₹{modifier.price.toFixed(2)}</span>
+                </div>
+              ))}
               {selectedAddOns.length > 0 && (
                 <>
                   {selectedAddOns.map(addOn => (
@@ -892,6 +1008,7 @@ export default function Menu() {
                 <span className="font-mono text-lg font-semibold">
                   ₹{selectedItem ? (
                     parseFloat(selectedItem.price as string) + 
+                    chosenModifiers.reduce((sum, m) => sum + m.price, 0) +
                     selectedAddOns.reduce((sum, a) => sum + (parseFloat(a.price) * a.quantity), 0)
                   ).toFixed(2) : "0.00"}
                 </span>
@@ -903,13 +1020,15 @@ export default function Menu() {
               className="w-full" 
               size="lg" 
               onClick={addToCartWithAddOns}
-              disabled={variants && variants.length > 0 && !selectedVariant}
+              disabled={(variants && variants.length > 0 && !selectedVariant) || modifierIssues.length > 0}
               data-testid="button-confirm-add-to-cart"
             >
               <ShoppingCart className="h-5 w-5 mr-2" />
               {variants && variants.length > 0 && !selectedVariant 
                 ? "Select a variant first" 
-                : "Add to Cart"
+                : modifierIssues.length > 0
+                  ? modifierIssues[0]
+                  : "Add to Cart"
               }
             </Button>
           </div>
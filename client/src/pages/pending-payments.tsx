@@ -27,6 +27,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { format, isAfter, parseISO, isBefore } from "date-fns";
@@ -42,6 +43,7 @@ interface PendingBill {
   travelAgentId: number | null;
   totalAmount: string;
   balanceAmount: string;
+  paymentStatus: string; // "pending" or "partial" (some instalments received)
   dueDate: string | null;
   pendingReason: string | null;
   createdAt: string;
@@ -51,38 +53,62 @@ export default function PendingPayments() {
   const { toast } = useToast();
   const [selectedBill, setSelectedBill] = useState<PendingBill | null>(null);
   const [paymentMethod, setPaymentMethod] = useState<string>("");
+  const [paymentAmount, setPaymentAmount] = useState<string>("");
+  const [paymentReference, setPaymentReference] = useState<string>("");
   const [filterAgent, setFilterAgent] = useState<string>("all");
 
   const { data: pendingBills = [], isLoading } = useQuery<PendingBill[]>({
     queryKey: ["/api/bills/pending"],
   });
 
-  const markAsPaidMutation = useMutation({
-    mutationFn: async ({ billId, paymentMethod }: { billId: number; paymentMethod: string }) => {
-      return apiRequest("POST", `/api/bills/${billId}/mark-paid`, { paymentMethod });
+  const recordPaymentMutation = useMutation({
+    mutationFn: async ({ billId, ...payment }: { billId: number; amount: number; paymentMethod: string; reference: string | null }) => {
+      return apiRequest(`/api/bills/${billId}/payments`, "POST", payment);
     },
-    onSuccess: () => {
+    onSuccess: (_data, variables) => {
       queryClient.invalidateQueries({ queryKey: ["/api/bills/pending"] });
       queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
+      const settled = selectedBill && variables.amount >= parseFloat(selectedBill.balanceAmount);
       toast({
         title: "Payment Recorded",
-        description: "Bill has been marked as paid successfully.",
+        description: settled
+          ? "Bill has been fully paid."
+          : `₹${variables.amount.toFixed(2)} recorded. The remaining balance stays pending.`,
       });
-      setSelectedBill(null);
-      setPaymentMethod("");
+      closePaymentDialog();
     },
     onError: (error: any) => {
       toast({
         variant: "destructive",
         title: "Error",
-        description: error.message || "Failed to mark bill as paid",
+        description: error.message || "Failed to record payment",
       });
     },
   });
 
-  const handleMarkAsPaid = () => {
-    if (!selectedBill || !paymentMethod) return;
-    markAsPaidMutation.mutate({ billId: selectedBill.id, paymentMethod });
+  const openPaymentDialog = (bill: PendingBill) => {
+    setSelectedBill(bill);
+    setPaymentAmount(parseFloat(bill.balanceAmount).toFixed(2));
+  };
+
+  const closePaymentDialog = () => {
+    setSelectedBill(null);
+    setPaymentMethod("");
+    setPaymentAmount("");
+    setPaymentReference("");
+  };
+
+  const amountToRecord = parseFloat(paymentAmount);
+  const isValidAmount = !!selectedBill && amountToRecord > 0 && amountToRecord <= parseFloat(selectedBill.balanceAmount);
+
+  const handleRecordPayment = () => {
+    if (!selectedBill || !paymentMethod || !isValidAmount) return;
+    recordPaymentMutation.mutate({
+      billId: selectedBill.id,
+      amount: amountToRecord,
+      paymentMethod,
+      reference: paymentReference.trim() || null,
+    });
   };
 
   // Calculate summary statistics
@@ -288,6 +314,10 @@ export default function PendingPayments() {
                             <AlertTriangle className="h-3 w-3 mr-1" />
                             Overdue
                           </Badge>
+                        ) : bill.paymentStatus === "partial" ? (
+                          <Badge variant="outline" data-testid={`badge-status-${bill.id}`}>
+                            Partially Paid
+                          </Badge>
                         ) : (
                           <Badge variant="secondary" data-testid={`badge-status-${bill.id}`}>
                             Pending
@@ -297,10 +327,10 @@ export default function PendingPayments() {
                       <TableCell className="text-right">
                         <Button
                           size="sm"
-                          onClick={() => setSelectedBill(bill)}
-                          data-testid={`button-mark-paid-${bill.id}`}
+                          onClick={() => openPaymentDialog(bill)}
+                          data-testid={`button-record-payment-${bill.id}`}
                         >
-                          Mark as Paid
+                          Record Payment
                         </Button>
                       </TableCell>
                     </TableRow>
@@ -351,13 +381,13 @@ export default function PendingPayments() {
         </Card>
       )}
 
-      {/* Mark as Paid Dialog */}
-      <Dialog open={!!selectedBill} onOpenChange={(open) => !open && setSelectedBill(null)}>
-        <DialogContent data-testid="dialog-mark-paid">
+      {/* Record Payment Dialog */}
+      <Dialog open={!!selectedBill} onOpenChange={(open) => !open && closePaymentDialog()}>
+        <DialogContent data-testid="dialog-record-payment">
           <DialogHeader>
-            <DialogTitle>Mark Payment as Received</DialogTitle>
+            <DialogTitle>Record Payment</DialogTitle>
             <DialogDescription>
-              Record payment received from {selectedBill?.guestName}
+              Record a full or part payment received from {selectedBill?.guestName}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
@@ -371,6 +401,23 @@ export default function PendingPayments() {
                 <div className="font-medium">₹{selectedBill?.balanceAmount}</div>
               </div>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-amount">Amount Received *</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={paymentAmount}
+                onChange={(e) => setPaymentAmount(e.target.value)}
+                data-testid="input-payment-amount"
+              />
+              {paymentAmount && !isValidAmount && (
+                <p className="text-xs text-destructive">
+                  Enter an amount between ₹0.01 and ₹{selectedBill?.balanceAmount}
+                </p>
+              )}
+            </div>
             <div className="space-y-2">
               <Label htmlFor="payment-method">Payment Method *</Label>
               <Select value={paymentMethod} onValueChange={setPaymentMethod}>
@@ -386,24 +433,31 @@ export default function PendingPayments() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-reference">Reference</Label>
+              <Input
+                id="payment-reference"
+                placeholder="UPI transaction ID, cheque number..."
+                value={paymentReference}
+                onChange={(e) => setPaymentReference(e.target.value)}
+                data-testid="input-payment-reference"
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button
               variant="outline"
-              onClick={() => {
-                setSelectedBill(null);
-                setPaymentMethod("");
-              }}
-              data-testid="button-cancel-mark-paid"
+              onClick={closePaymentDialog}
+              data-testid="button-cancel-record-payment"
             >
               Cancel
             </Button>
             <Button
-              onClick={handleMarkAsPaid}
-              disabled={!paymentMethod || markAsPaidMutation.isPending}
-              data-testid="button-confirm-mark-paid"
+              onClick={handleRecordPayment}
+              disabled={!paymentMethod || !isValidAmount || recordPaymentMutation.isPending}
+              data-testid="button-confirm-record-payment"
             >
-              {markAsPaidMutation.isPending ? "Recording..." : "Confirm Payment"}
+              {recordPaymentMutation.isPending ? "Recording..." : "Confirm Payment"}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -0,0 +1,299 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { format } from "date-fns";
+import { CheckCircle, Hotel, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { IdVerificationUpload } from "@/components/IdVerificationUpload";
+import { ID_PROOF_TYPES } from "@/components/booking-guests-dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { PublicPreCheckIn } from "@shared/schema";
+
+interface PreCheckInForm {
+  fullName: string;
+  email: string;
+  address: string;
+  nationality: string;
+  idProofType: string;
+  idProofNumber: string;
+  idProofUrl: string | null;
+  expectedArrivalTime: string;
+  acceptHouseRules: boolean;
+}
+
+function toForm(booking: PublicPreCheckIn): PreCheckInForm {
+  return {
+    fullName: booking.guest.fullName,
+    email: booking.guest.email ?? "",
+    address: booking.guest.address ?? "",
+    nationality: booking.guest.nationality ?? "",
+    idProofType: booking.guest.idProofType ?? "",
+    idProofNumber: booking.guest.idProofNumber ?? "",
+    idProofUrl: null,
+    expectedArrivalTime: booking.expectedArrivalTime ?? "14:00",
+    acceptHouseRules: false,
+  };
+}
+
+export default function PreCheckIn() {
+  const { bookingId, key } = useParams<{ bookingId: string; key: string }>();
+  const { toast } = useToast();
+  const [booking, setBooking] = useState<PublicPreCheckIn | null>(null);
+  const [form, setForm] = useState<PreCheckInForm | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const endpoint = `/api/public/pre-check-in/${bookingId}/${key}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(endpoint)
+      .then(async (response) => {
+        if (cancelled) return;
+        if (!response.ok) {
+          setNotFound(true);
+          return;
+        }
+        const current: PublicPreCheckIn = await response.json();
+        setBooking(current);
+        setForm(toForm(current));
+      })
+      .catch(() => {
+        if (!cancelled) setNotFound(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [endpoint]);
+
+  const handleSubmit = async () => {
+    if (!form) return;
+    setSubmitting(true);
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.errors?.[0]?.message || body.message || "Could not save your details");
+      }
+      setBooking(body);
+      setForm(toForm(body));
+      setEditing(false);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (notFound) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md w-full p-8 text-center">
+          <XCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h1 className="text-xl font-semibold">Booking not found</h1>
+          <p className="text-muted-foreground mt-2">Check the link you were sent, or contact the property for help.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!booking || !form) {
+    return (
+      <div className="min-h-screen p-4 max-w-md mx-auto space-y-4">
+        <Skeleton className="h-24" />
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  const stay = `${format(new Date(booking.checkInDate), "dd MMM yyyy")} – ${format(new Date(booking.checkOutDate), "dd MMM yyyy")}`;
+  const needsIdUpload = !booking.guest.hasIdProof && !form.idProofUrl;
+  const canSubmit = !!form.fullName.trim() && !!form.idProofType && !!form.idProofNumber.trim()
+    && !needsIdUpload && !!form.expectedArrivalTime && form.acceptHouseRules && !submitting;
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <div className="flex items-center gap-3 pt-2">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+            <Hotel className="h-5 w-5" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold" data-testid="text-pre-check-in-title">{booking.propertyName ?? "Pre-check-in"}</h1>
+            <p className="text-sm text-muted-foreground">Booking #{booking.bookingNumber} • {stay}</p>
+          </div>
+        </div>
+
+        {!booking.isOpen ? (
+          <Card>
+            <CardContent className="p-6 text-center space-y-3">
+              <CheckCircle className="h-12 w-12 mx-auto text-muted-foreground" />
+              <p className="font-semibold" data-testid="text-pre-check-in-closed">Online pre-check-in is closed for this booking</p>
+              <p className="text-sm text-muted-foreground">Please see the front desk if anything needs changing.</p>
+            </CardContent>
+          </Card>
+        ) : booking.preCheckedInAt && !editing ? (
+          <Card>
+            <CardContent className="p-6 text-center space-y-3">
+              <CheckCircle className="h-12 w-12 mx-auto text-green-500" />
+              <p className="font-semibold" data-testid="text-pre-checked-in">You're pre-checked-in</p>
+              <p className="text-sm text-muted-foreground">
+                We'll expect you on {format(new Date(booking.checkInDate), "dd MMM")}
+                {booking.expectedArrivalTime ? ` around ${booking.expectedArrivalTime}` : ""}. Just show your ID at the front desk to collect your key.
+              </p>
+              <Button variant="outline" onClick={() => setEditing(true)} data-testid="button-edit-pre-check-in">
+                Update my details
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Your details</CardTitle>
+                <CardDescription>Check in online now and skip the paperwork at the front desk</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="pre-check-in-name">Full Name *</Label>
+                  <Input
+                    id="pre-check-in-name"
+                    value={form.fullName}
+                    onChange={(e) => setForm({ ...form, fullName: e.target.value })}
+                    data-testid="input-pre-check-in-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pre-check-in-email">Email</Label>
+                  <Input
+                    id="pre-check-in-email"
+                    type="email"
+                    value={form.email}
+                    onChange={(e) => setForm({ ...form, email: e.target.value })}
+                    data-testid="input-pre-check-in-email"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pre-check-in-address">Address</Label>
+                  <Textarea
+                    id="pre-check-in-address"
+                    value={form.address}
+                    onChange={(e) => setForm({ ...form, address: e.target.value })}
+                    data-testid="input-pre-check-in-address"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pre-check-in-nationality">Nationality</Label>
+                  <Input
+                    id="pre-check-in-nationality"
+                    placeholder="Indian"
+                    value={form.nationality}
+                    onChange={(e) => setForm({ ...form, nationality: e.target.value })}
+                    data-testid="input-pre-check-in-nationality"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">ID proof</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Type *</Label>
+                    <Select value={form.idProofType} onValueChange={(value) => setForm({ ...form, idProofType: value })}>
+                      <SelectTrigger data-testid="select-pre-check-in-id-type">
+                        <SelectValue placeholder="Select" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ID_PROOF_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="pre-check-in-id-number">Number *</Label>
+                    <Input
+                      id="pre-check-in-id-number"
+                      value={form.idProofNumber}
+                      onChange={(e) => setForm({ ...form, idProofNumber: e.target.value })}
+                      data-testid="input-pre-check-in-id-number"
+                    />
+                  </div>
+                </div>
+                {booking.guest.hasIdProof && !form.idProofUrl && (
+                  <p className="text-xs text-muted-foreground">We already have your ID proof. Upload a new one only if it has changed.</p>
+                )}
+                <IdVerificationUpload
+                  uploadUrlEndpoint={`${endpoint}/upload`}
+                  hint="A clear photo of the ID you'll show at check-in. Only our front desk can see it."
+                  onUploadComplete={(uploadURL) => setForm(prev => prev && { ...prev, idProofUrl: uploadURL })}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Arrival</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="pre-check-in-eta">Expected arrival time *</Label>
+                  <Input
+                    id="pre-check-in-eta"
+                    type="time"
+                    value={form.expectedArrivalTime}
+                    onChange={(e) => setForm({ ...form, expectedArrivalTime: e.target.value })}
+                    data-testid="input-pre-check-in-eta"
+                  />
+                </div>
+                {booking.houseRules && (
+                  <div className="space-y-2">
+                    <Label>House rules</Label>
+                    <div className="max-h-48 overflow-y-auto rounded-md border p-3 text-sm whitespace-pre-line" data-testid="text-house-rules">
+                      {booking.houseRules}
+                    </div>
+                  </div>
+                )}
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="pre-check-in-accept"
+                    checked={form.acceptHouseRules}
+                    onCheckedChange={(checked) => setForm({ ...form, acceptHouseRules: checked === true })}
+                    data-testid="checkbox-accept-house-rules"
+                  />
+                  <Label htmlFor="pre-check-in-accept" className="text-sm font-normal leading-snug">
+                    I accept the house rules and confirm these details are correct
+                  </Label>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Button className="w-full" onClick={handleSubmit} disabled={!canSubmit} data-testid="button-submit-pre-check-in">
+              {submitting ? "Saving..." : "Complete Pre-check-in"}
+            </Button>
+            {editing && (
+              <Button variant="ghost" className="w-full" onClick={() => { setForm(toForm(booking)); setEditing(false); }}>
+                Cancel
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, MapPin, Phone, Mail, Edit, Trash2 } from "lucide-react";
+import { Plus, MapPin, Phone, Mail, Edit, Trash2, ScrollText } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
@@ -19,6 +19,8 @@ import { Badge } from "@/components/ui/badge";
 export default function Properties() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingProperty, setEditingProperty] = useState<Property | null>(null);
+  const [houseRulesProperty, setHouseRulesProperty] = useState<Property | null>(null);
+  const [houseRules, setHouseRules] = useState("");
   const { toast } = useToast();
 
   const { data: properties, isLoading } = useQuery<Property[]>({
@@ -34,6 +36,7 @@ export default function Properties() {
       totalRooms: 0,
       contactEmail: "",
       contactPhone: "",
+      timezone: "Asia/Kolkata",
       isActive: true,
     },
   });
@@ -80,6 +83,32 @@ export default function Properties() {
     },
   });
 
+  const houseRulesMutation = useMutation({
+    mutationFn: async ({ id, houseRules }: { id: number; houseRules: string | null }) => {
+      return await apiRequest(`/api/properties/${id}`, "PATCH", { houseRules });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+      setHouseRulesProperty(null);
+      toast({
+        title: "Success",
+        description: "House rules saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openHouseRules = (property: Property) => {
+    setHouseRulesProperty(property);
+    setHouseRules(property.houseRules || "");
+  };
+
   const onSubmit = (data: InsertProperty) => {
     createMutation.mutate(data);
   };
@@ -182,6 +211,20 @@ export default function Properties() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="timezone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Time Zone</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Asia/Kolkata" {...field} data-testid="input-property-timezone" />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">Menu hours and happy hours follow this zone</p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -252,6 +295,14 @@ export default function Properties() {
                     </CardDescription>
                   </div>
                   <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => openHouseRules(property)}
+                      data-testid={`button-house-rules-${property.id}`}
+                    >
+                      <ScrollText className="h-4 w-4" />
+                    </Button>
                     <Button
                       size="icon"
                       variant="ghost"
@@ -286,6 +337,35 @@ export default function Properties() {
           ))}
         </div>
       )}
+
+      <Dialog open={houseRulesProperty !== null} onOpenChange={(open) => { if (!open) setHouseRulesProperty(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>House Rules - {houseRulesProperty?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="house-rules">Guests accept these when they pre-check-in online</Label>
+            <Textarea
+              id="house-rules"
+              rows={10}
+              placeholder={"Check-in from 2 PM, checkout by 11 AM\nNo smoking in rooms\nQuiet hours 10 PM - 7 AM"}
+              value={houseRules}
+              onChange={(e) => setHouseRules(e.target.value)}
+              data-testid="input-house-rules"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setHouseRulesProperty(null)}>Cancel</Button>
+            <Button
+              onClick={() => houseRulesProperty && houseRulesMutation.mutate({ id: houseRulesProperty.id, houseRules: houseRules.trim() || null })}
+              disabled={houseRulesMutation.isPending}
+              data-testid="button-save-house-rules"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
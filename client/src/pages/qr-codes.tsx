@@ -7,14 +7,17 @@ import { useQuery } from "@tanstack/react-query";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import QRCodeGenerator from "qrcode";
-import type { Property, Room } from "@shared/schema";
+import type { DiningTable, Property, Room } from "@shared/schema";
 
 export default function QRCodes() {
   const { toast } = useToast();
   const [selectedPropertyId, setSelectedPropertyId] = useState<string>("");
   const [selectedRoomId, setSelectedRoomId] = useState<string>("");
+  const [selectedTablePropertyId, setSelectedTablePropertyId] = useState<string>("");
+  const [selectedTableId, setSelectedTableId] = useState<string>("");
   
   const roomQRRef = useRef<HTMLCanvasElement>(null);
+  const tableQRRef = useRef<HTMLCanvasElement>(null);
   const cafeQRRef = useRef<HTMLCanvasElement>(null);
   
   // Fetch properties and rooms
@@ -25,6 +28,10 @@ export default function QRCodes() {
   const { data: allRooms } = useQuery<Room[]>({
     queryKey: ["/api/rooms"],
   });
+
+  const { data: allTables } = useQuery<DiningTable[]>({
+    queryKey: ["/api/tables"],
+  });
   
   // Filter rooms by selected property
   const filteredRooms = allRooms?.filter(
@@ -32,14 +39,25 @@ export default function QRCodes() {
   ) || [];
   
   const selectedRoom = allRooms?.find(r => r.id === parseInt(selectedRoomId));
+  // Signed per room, so guests can only order to the room they scanned
+  const { data: roomQrKey } = useQuery<{ key: string }>({
+    queryKey: ["/api/rooms", selectedRoomId, "qr-key"],
+    enabled: !!selectedRoomId,
+  });
   const selectedProperty = properties?.find(p => p.id === parseInt(selectedPropertyId));
+
+  const filteredTables = allTables?.filter(
+    table => table.isActive && table.propertyId === parseInt(selectedTablePropertyId)
+  ) || [];
+  const selectedTable = allTables?.find(t => t.id === parseInt(selectedTableId));
+  const selectedTableProperty = properties?.find(p => p.id === parseInt(selectedTablePropertyId));
   
   // Generate Room-Specific QR Code when property and room are selected
   useEffect(() => {
-    if (!selectedPropertyId || !selectedRoomId || !selectedRoom) return;
+    if (!selectedPropertyId || !selectedRoomId || !selectedRoom || !roomQrKey) return;
     
     const baseUrl = window.location.origin;
-    const roomOrderUrl = `${baseUrl}/menu?type=room&property=${selectedPropertyId}&room=${selectedRoom.roomNumber}`;
+    const roomOrderUrl = `${baseUrl}/menu?type=room&property=${selectedPropertyId}&room=${selectedRoom.roomNumber}&key=${roomQrKey.key}`;
     
     if (roomQRRef.current) {
       QRCodeGenerator.toCanvas(
@@ -58,7 +76,33 @@ export default function QRCodes() {
         }
       );
     }
-  }, [selectedPropertyId, selectedRoomId, selectedRoom]);
+  }, [selectedPropertyId, selectedRoomId, selectedRoom, roomQrKey]);
+  
+  // Generate Table QR Code when property and table are selected
+  useEffect(() => {
+    if (!selectedTablePropertyId || !selectedTable) return;
+    
+    const baseUrl = window.location.origin;
+    const tableOrderUrl = `${baseUrl}/menu?type=table&property=${selectedTablePropertyId}&table=${encodeURIComponent(selectedTable.tableNumber)}`;
+    
+    if (tableQRRef.current) {
+      QRCodeGenerator.toCanvas(
+        tableQRRef.current,
+        tableOrderUrl,
+        {
+          width: 300,
+          margin: 2,
+          color: {
+            dark: '#000000',
+            light: '#FFFFFF'
+          }
+        },
+        (error) => {
+          if (error) console.error('Table QR generation error:', error);
+        }
+      );
+    }
+  }, [selectedTablePropertyId, selectedTable]);
   
   // Generate Café QR Code on mount
   useEffect(() => {
@@ -84,7 +128,7 @@ export default function QRCodes() {
     }
   }, []);
   
-  const downloadQRCode = (canvasRef: React.RefObject<HTMLCanvasElement>, filename: string, roomInfo?: { propertyName: string; roomNumber: string }) => {
+  const downloadQRCode = (canvasRef: React.RefObject<HTMLCanvasElement>, filename: string, roomInfo?: { propertyName: string; label: string }) => {
     if (!canvasRef.current) return;
     
     // Create a new canvas with room number text
@@ -115,9 +159,9 @@ export default function QRCodes() {
       ctx.font = 'bold 24px Arial';
       ctx.fillText(roomInfo.propertyName, newCanvas.width / 2, originalCanvas.height + padding + 40);
       
-      // Room number (larger and more prominent)
+      // Room / table number (larger and more prominent)
       ctx.font = 'bold 32px Arial';
-      ctx.fillText(`Room ${roomInfo.roomNumber}`, newCanvas.width / 2, originalCanvas.height + padding + 75);
+      ctx.fillText(roomInfo.label, newCanvas.width / 2, originalCanvas.height + padding + 75);
     }
     
     // Download the new canvas
@@ -145,7 +189,7 @@ export default function QRCodes() {
       <div className="mb-8">
         <h1 className="text-3xl font-bold mb-2">QR Codes</h1>
         <p className="text-muted-foreground">
-          Generate room-specific QR codes for guest ordering. Each room gets its own unique QR code.
+          Generate room and table QR codes for guest ordering. Each room and table gets its own unique QR code.
         </p>
       </div>
 
@@ -220,7 +264,7 @@ export default function QRCodes() {
                   onClick={() => downloadQRCode(
                     roomQRRef, 
                     `${selectedProperty?.name.replace(/\s+/g, '-')}-Room-${selectedRoom.roomNumber}-QR.png`,
-                    { propertyName: selectedProperty?.name || '', roomNumber: selectedRoom.roomNumber }
+                    { propertyName: selectedProperty?.name || '', label: `Room ${selectedRoom.roomNumber}` }
                   )}
                   data-testid="button-download-room-qr"
                 >
@@ -245,6 +289,98 @@ export default function QRCodes() {
           </CardContent>
         </Card>
 
+        {/* Table QR Code Generator */}
+        <Card data-testid="card-table-qr">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <QrCode className="h-5 w-5 text-primary" />
+              <CardTitle>Table QR Code</CardTitle>
+            </div>
+            <CardDescription>
+              Dine-in QR code that adds orders to the table's running tab
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="table-property-select">Property</Label>
+              <Select
+                value={selectedTablePropertyId}
+                onValueChange={(value) => {
+                  setSelectedTablePropertyId(value);
+                  setSelectedTableId("");
+                }}
+              >
+                <SelectTrigger id="table-property-select" data-testid="select-table-property">
+                  <SelectValue placeholder="Select a property" />
+                </SelectTrigger>
+                <SelectContent>
+                  {properties?.map((property) => (
+                    <SelectItem key={property.id} value={property.id.toString()}>
+                      {property.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="table-select">Table</Label>
+              <Select
+                value={selectedTableId}
+                onValueChange={setSelectedTableId}
+                disabled={!selectedTablePropertyId}
+              >
+                <SelectTrigger id="table-select" data-testid="select-table">
+                  <SelectValue placeholder={filteredTables.length === 0 && selectedTablePropertyId ? "No tables - add them on the Tables page" : "Select a table"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {filteredTables.map((table) => (
+                    <SelectItem key={table.id} value={table.id.toString()}>
+                      Table {table.tableNumber}{table.area ? ` - ${table.area}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selectedTablePropertyId && selectedTable ? (
+              <>
+                <div className="flex justify-center bg-white p-4 rounded-lg border">
+                  <canvas ref={tableQRRef} data-testid="canvas-table-qr" />
+                </div>
+                <div className="text-sm text-center font-medium">
+                  {selectedTableProperty?.name} - Table {selectedTable.tableNumber}
+                </div>
+                <Button
+                  className="w-full"
+                  onClick={() => downloadQRCode(
+                    tableQRRef,
+                    `${selectedTableProperty?.name.replace(/\s+/g, '-')}-Table-${selectedTable.tableNumber.replace(/\s+/g, '-')}-QR.png`,
+                    { propertyName: selectedTableProperty?.name || '', label: `Table ${selectedTable.tableNumber}` }
+                  )}
+                  data-testid="button-download-table-qr"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download QR Code
+                </Button>
+              </>
+            ) : (
+              <div className="flex items-center justify-center h-[300px] bg-muted rounded-lg border-2 border-dashed">
+                <p className="text-muted-foreground text-sm">
+                  Select property and table to generate QR code
+                </p>
+              </div>
+            )}
+
+            <div className="text-xs text-muted-foreground space-y-1 pt-2 border-t">
+              <p><strong>How it works:</strong></p>
+              <p>• Place the QR code on that table</p>
+              <p>• Guest scans → table is auto-filled, name and phone optional</p>
+              <p>• Orders add up on the table's tab until it is settled</p>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Café/Restaurant QR Code */}
         <Card data-testid="card-cafe-qr">
           <CardHeader>
@@ -292,6 +428,15 @@ export default function QRCodes() {
               <li>Orders automatically link to their room bill</li>
             </ol>
           </div>
+          <div>
+            <h4 className="font-semibold mb-1">Table QR Codes:</h4>
+            <ol className="list-decimal list-inside space-y-1 text-muted-foreground">
+              <li>Add your tables on the Tables page</li>
+              <li>Select property and table above and download the QR code</li>
+              <li>Orders from the table accumulate on its open tab</li>
+              <li>Settle the tab at the table, or merge it into an in-house guest's room bill</li>
+            </ol>
+          </div>
           <div>
             <h4 className="font-semibold mb-1">Café QR Code:</h4>
             <ol className="list-decimal list-inside space-y-1 text-muted-foreground">
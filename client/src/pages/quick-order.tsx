@@ -8,11 +8,22 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { type MenuItem, type Room } from "@shared/schema";
+import { type MenuItem, type MenuItemModifierGroupWithOptions, type Room } from "@shared/schema";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  ModifierPicker,
+  modifierSelectionIssues,
+  modifierSelectionNames,
+  modifierSelectionPrice,
+} from "@/components/modifier-picker";
 
 interface CartItem extends MenuItem {
+  lineKey: string; // Item id plus its modifier choices, so each combination is its own line
+  modifierIds: number[];
+  modifierNames: string[];
+  unitPrice: number; // Price plus modifiers
   quantity: number;
 }
 
@@ -29,6 +40,8 @@ export default function QuickOrder() {
   const [cart, setCart] = useState<CartItem[]>([]);
   const [specialInstructions, setSpecialInstructions] = useState("");
   const [searchTerm, setSearchTerm] = useState("");
+  const [modifierItem, setModifierItem] = useState<MenuItem | null>(null);
+  const [modifierSelection, setModifierSelection] = useState<number[]>([]);
   const { toast} = useToast();
 
   const { data: menuItems, isLoading: menuLoading } = useQuery<MenuItem[]>({
@@ -43,6 +56,11 @@ export default function QuickOrder() {
     queryKey: ["/api/rooms/checked-in-guests"],
   });
 
+  const { data: modifierGroups = [], isLoading: modifiersLoading } = useQuery<MenuItemModifierGroupWithOptions[]>({
+    queryKey: ["/api/menu-items", modifierItem?.id, "modifier-groups"],
+    enabled: modifierItem !== null,
+  });
+
   const orderMutation = useMutation({
     mutationFn: async (orderData: any) => {
       return await apiRequest("/api/orders", "POST", orderData);
@@ -72,36 +90,69 @@ export default function QuickOrder() {
     },
   });
 
-  const addToCart = (item: MenuItem) => {
-    const existing = cart.find((i) => i.id === item.id);
+  const addToCart = (item: MenuItem, modifierIds: number[] = [], modifierNames: string[] = [], modifiersPrice = 0) => {
+    const lineKey = [item.id, ...[...modifierIds].sort((a, b) => a - b)].join(":");
+    const existing = cart.find((i) => i.lineKey === lineKey);
     if (existing) {
-      setCart(cart.map((i) => (i.id === item.id ? { ...i, quantity: i.quantity + 1 } : i)));
+      setCart(cart.map((i) => (i.lineKey === lineKey ? { ...i, quantity: i.quantity + 1 } : i)));
     } else {
-      setCart([...cart, { ...item, quantity: 1 }]);
+      setCart([...cart, {
+        ...item,
+        lineKey,
+        modifierIds,
+        modifierNames,
+        unitPrice: parseFloat(item.price as string) + modifiersPrice,
+        quantity: 1,
+      }]);
+    }
+  };
+
+  const openModifiers = (item: MenuItem) => {
+    setModifierItem(item);
+    setModifierSelection([]);
+  };
+
+  const addWithModifiers = () => {
+    if (!modifierItem) return;
+    const issues = modifierSelectionIssues(modifierGroups, modifierSelection);
+    if (issues.length > 0) {
+      toast({
+        title: "Choices Required",
+        description: issues.join(", "),
+        variant: "destructive",
+      });
+      return;
     }
+    addToCart(
+      modifierItem,
+      modifierSelection,
+      modifierSelectionNames(modifierGroups, modifierSelection),
+      modifierSelectionPrice(modifierGroups, modifierSelection)
+    );
+    setModifierItem(null);
+    setModifierSelection([]);
   };
 
-  const updateQuantity = (id: number, change: number) => {
+  const updateQuantity = (lineKey: string, change: number) => {
     setCart((prev) => {
       const updated = prev.map((item) =>
-        item.id === id ? { ...item, quantity: Math.max(0, item.quantity + change) } : item
+        item.lineKey === lineKey ? { ...item, quantity: Math.max(0, item.quantity + change) } : item
       );
       return updated.filter((item) => item.quantity > 0);
     });
   };
 
-  const removeFromCart = (id: number) => {
-    setCart(cart.filter((item) => item.id !== id));
+  const removeFromCart = (lineKey: string) => {
+    setCart(cart.filter((item) => item.lineKey !== lineKey));
   };
 
   const calculateTotal = () => {
-    return cart.reduce((sum, item) => sum + parseFloat(item.price as string) * item.quantity, 0);
+    return cart.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
   };
 
-  // Helper to get item quantity in cart
+  // Helper to get item quantity in cart, across all of its modifier combinations
   const getItemQuantityInCart = (itemId: number) => {
-    const item = cart.find((i) => i.id === itemId);
-    return item ? item.quantity : 0;
+    return cart.filter((i) => i.id === itemId).reduce((sum, i) => sum + i.quantity, 0);
   };
 
   // Filter menu items by search term
@@ -179,11 +230,13 @@ export default function QuickOrder() {
     }
 
     const orderData: any = {
+      // Modifier choices are checked and priced again on the server
       items: cart.map((item) => ({
         id: item.id,
         name: item.name,
         price: item.price,
         quantity: item.quantity,
+        ...(item.modifierIds.length > 0 ? { modifiers: item.modifierIds } : {}),
       })),
       totalAmount: calculateTotal().toFixed(2),
       specialInstructions: specialInstructions || null,
@@ -522,38 +575,53 @@ export default function QuickOrder() {
                                 <p className="font-medium">{item.name}</p>
                                 <p className="text-sm text-muted-foreground">₹{item.price}</p>
                               </div>
-                              <div className="flex items-center gap-1 flex-shrink-0">
-                                <Button
-                                  size="icon"
-                                  variant="outline"
-                                  className="h-8 w-8"
-                                  onClick={() => {
-                                    if (quantity > 0) {
-                                      updateQuantity(item.id, -1);
-                                    }
-                                  }}
-                                  disabled={quantity === 0}
-                                  data-testid={`button-quick-decrease-${item.id}`}
-                                >
-                                  <Minus className="h-4 w-4" />
-                                </Button>
-                                <span className="w-8 text-center font-mono text-sm">{quantity}</span>
-                                <Button
-                                  size="icon"
-                                  variant="outline"
-                                  className="h-8 w-8"
-                                  onClick={() => {
-                                    if (quantity > 0) {
-                                      updateQuantity(item.id, 1);
-                                    } else {
-                                      addToCart(item);
-                                    }
-                                  }}
-                                  data-testid={`button-quick-increase-${item.id}`}
-                                >
-                                  <Plus className="h-4 w-4" />
-                                </Button>
-                              </div>
+                              {item.hasModifiers ? (
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                  {quantity > 0 && <span className="font-mono text-sm">{quantity}</span>}
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => openModifiers(item)}
+                                    data-testid={`button-quick-choose-${item.id}`}
+                                  >
+                                    <Plus className="h-4 w-4 mr-1" />
+                                    Choose
+                                  </Button>
+                                </div>
+                              ) : (
+                                <div className="flex items-center gap-1 flex-shrink-0">
+                                  <Button
+                                    size="icon"
+                                    variant="outline"
+                                    className="h-8 w-8"
+                                    onClick={() => {
+                                      if (quantity > 0) {
+                                        updateQuantity(String(item.id), -1);
+                                      }
+                                    }}
+                                    disabled={quantity === 0}
+                                    data-testid={`button-quick-decrease-${item.id}`}
+                                  >
+                                    <Minus className="h-4 w-4" />
+                                  </Button>
+                                  <span className="w-8 text-center font-mono text-sm">{quantity}</span>
+                                  <Button
+                                    size="icon"
+                                    variant="outline"
+                                    className="h-8 w-8"
+                                    onClick={() => {
+                                      if (quantity > 0) {
+                                        updateQuantity(String(item.id), 1);
+                                      } else {
+                                        addToCart(item);
+                                      }
+                                    }}
+                                    data-testid={`button-quick-increase-${item.id}`}
+                                  >
+                                    <Plus className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              )}
                             </div>
                           );
                         })}
@@ -656,18 +724,21 @@ export default function QuickOrder() {
                   ) : (
                     <div className="space-y-2 max-h-64 overflow-y-auto">
                       {cart.map((item) => (
-                        <div key={item.id} className="flex items-center gap-2 text-sm">
+                        <div key={item.lineKey} className="flex items-center gap-2 text-sm">
                           <div className="flex-1">
                             <p className="font-medium">{item.name}</p>
-                            <p className="text-muted-foreground">₹{item.price}</p>
+                            {item.modifierNames.length > 0 && (
+                              <p className="text-xs text-muted-foreground">{item.modifierNames.join(", ")}</p>
+                            )}
+                            <p className="text-muted-foreground">₹{item.unitPrice.toFixed(2)}</p>
                           </div>
                           <div className="flex items-center gap-1">
                             <Button
                               size="icon"
                               variant="outline"
                               className="h-7 w-7"
-                              onClick={() => updateQuantity(item.id, -1)}
-                              data-testid={`button-quick-decrease-${item.id}`}
+                              onClick={() => updateQuantity(item.lineKey, -1)}
+                              data-testid={`button-cart-decrease-${item.lineKey}`}
                             >
                               <Minus className="h-3 w-3" />
                             </Button>
@@ -676,8 +747,8 @@ export default function QuickOrder() {
                               size="icon"
                               variant="outline"
                               className="h-7 w-7"
-                              onClick={() => updateQuantity(item.id, 1)}
-                              data-testid={`button-quick-increase-${item.id}`}
+                              onClick={() => updateQuantity(item.lineKey, 1)}
+                              data-testid={`button-cart-increase-${item.lineKey}`}
                             >
                               <Plus className="h-3 w-3" />
                             </Button>
@@ -685,8 +756,8 @@ export default function QuickOrder() {
                               size="icon"
                               variant="ghost"
                               className="h-7 w-7"
-                              onClick={() => removeFromCart(item.id)}
-                              data-testid={`button-quick-remove-${item.id}`}
+                              onClick={() => removeFromCart(item.lineKey)}
+                              data-testid={`button-quick-remove-${item.lineKey}`}
                             >
                               <X className="h-3 w-3" />
                             </Button>
@@ -745,6 +816,31 @@ export default function QuickOrder() {
           </div>
         </div>
       )}
+
+      {/* Modifier choices */}
+      <Dialog open={modifierItem !== null} onOpenChange={(open) => !open && setModifierItem(null)}>
+        <DialogContent className="max-w-md max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{modifierItem?.name}</DialogTitle>
+            <DialogDescription>₹{modifierItem?.price} + choices</DialogDescription>
+          </DialogHeader>
+          {modifiersLoading ? (
+            <Skeleton className="h-32" />
+          ) : (
+            <ModifierPicker groups={modifierGroups} selected={modifierSelection} onChange={setModifierSelection} />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setModifierItem(null)}>Cancel</Button>
+            <Button
+              onClick={addWithModifiers}
+              disabled={modifiersLoading || modifierSelectionIssues(modifierGroups, modifierSelection).length > 0}
+              data-testid="button-add-with-modifiers"
+            >
+              Add ₹{(parseFloat(modifierItem?.price ?? "0") + modifierSelectionPrice(modifierGroups, modifierSelection)).toFixed(2)}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
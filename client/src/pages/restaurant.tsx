@@ -1,5 +1,5 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { ChefHat, Clock, CheckCircle, User, Phone, Bell, BellOff, Settings, Edit, Trash2, Plus, X } from "lucide-react";
+import { ChefHat, Clock, CheckCircle, User, Phone, Bell, BellOff, Settings, Edit, Trash2, Plus, X, Ticket } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
@@ -17,6 +17,9 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { KotDialog } from "@/components/kot-dialog";
+import { KitchenPrintersCard } from "@/components/kitchen-printers";
+import { useAuth } from "@/hooks/useAuth";
 
 const statusColors = {
   pending: "bg-amber-500 text-white",
@@ -24,8 +27,17 @@ const statusColors = {
   ready: "bg-chart-5 text-white",
   delivered: "bg-muted text-muted-foreground",
   rejected: "bg-destructive text-destructive-foreground",
+  cancelled: "bg-destructive text-destructive-foreground",
 };
 
+// Minutes since the kitchen started the order, against the slowest item's preparation time
+function prepTiming(order: any, now: number): { elapsed: number; target: number | null; late: boolean } | null {
+  if (order.status !== "preparing" || !order.preparingAt) return null;
+  const elapsed = Math.floor((now - new Date(order.preparingAt).getTime()) / 60000);
+  const target = order.targetPrepMinutes ?? null;
+  return { elapsed, target, late: target !== null && elapsed > target };
+}
+
 export default function Kitchen() {
   const { toast } = useToast();
   const { 
@@ -47,6 +59,10 @@ export default function Kitchen() {
     order: null,
   });
   const [editedItems, setEditedItems] = useState<Array<{ name: string; quantity: number; price: string }>>([]);
+  const [kotOrderId, setKotOrderId] = useState<number | null>(null);
+  const [reasonDialog, setReasonDialog] = useState<{ order: any; status: "rejected" | "cancelled" } | null>(null);
+  const [statusReason, setStatusReason] = useState("");
+  const { user } = useAuth();
 
   const { data: orders, isLoading } = useQuery<any[]>({
     queryKey: ["/api/orders"],
@@ -80,10 +96,12 @@ export default function Kitchen() {
   }, [orders, playNotification, toast]);
 
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: number; status: string }) => {
-      return await apiRequest(`/api/orders/${id}/status`, "PATCH", { status });
+    mutationFn: async ({ id, status, reason }: { id: number; status: string; reason?: string }) => {
+      return await apiRequest(`/api/orders/${id}/status`, "PATCH", { status, reason });
     },
     onSuccess: () => {
+      setReasonDialog(null);
+      setStatusReason("");
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/bookings/active"] });
       toast({
@@ -165,7 +183,7 @@ export default function Kitchen() {
   const allActiveOrders = orders?.filter((order) => order.status !== "delivered" && order.status !== "cancelled" && order.status !== "rejected") || [];
   const pendingOrders = orders?.filter((order) => order.status === "pending") || [];
   const completedOrders = orders?.filter((order) => order.status === "delivered") || [];
-  const rejectedOrders = orders?.filter((order) => order.status === "rejected") || [];
+  const rejectedOrders = orders?.filter((order) => order.status === "rejected" || order.status === "cancelled") || [];
   
   // Calculate counts for badges
   const orderCounts = {
@@ -215,7 +233,8 @@ export default function Kitchen() {
     const roomNumber = order.roomNumber;
     
     // Only show room number if the room has an active checked-in booking
-    const showRoomNumber = orderType !== "restaurant" && hasCheckedInBooking && roomNumber;
+    const showRoomNumber = orderType !== "restaurant" && orderType !== "table" && hasCheckedInBooking && roomNumber;
+    const timing = prepTiming(order, Date.now());
     
     return (
       <Card key={order.id} className="hover-elevate" data-testid={`card-order-${order.id}`}>
@@ -226,6 +245,8 @@ export default function Kitchen() {
                 <CardTitle className="text-lg" data-testid={`text-order-room-${order.id}`}>
                   {orderType === "restaurant" ? (
                     customerName || "Restaurant"
+                  ) : orderType === "table" && order.tableNumber ? (
+                    `Table ${order.tableNumber}${customerName ? ` - ${customerName}` : ""}`
                   ) : showRoomNumber ? (
                     `Room ${roomNumber}${customerName ? ` - ${customerName}` : ""}`
                   ) : customerName ? (
@@ -244,6 +265,9 @@ export default function Kitchen() {
                 {orderType === "restaurant" && (
                   <Badge variant="secondary" className="text-xs">Restaurant</Badge>
                 )}
+                {orderType === "table" && (
+                  <Badge variant="secondary" className="text-xs">Dine-in</Badge>
+                )}
               </div>
               {customerPhone && (
                 <p className="text-xs text-muted-foreground mt-1">
@@ -253,6 +277,19 @@ export default function Kitchen() {
               <p className="text-xs text-muted-foreground mt-1">
                 {format(new Date(order.createdAt!), "PPp")}
               </p>
+              {timing && (
+                <p
+                  className={`text-xs mt-1 font-medium ${timing.late ? "text-destructive" : "text-muted-foreground"}`}
+                  data-testid={`text-prep-timer-${order.id}`}
+                >
+                  <Clock className="h-3 w-3 inline mr-1" />
+                  {timing.elapsed} min{timing.target !== null ? ` of ${timing.target}` : ""}
+                  {timing.late && " - running late"}
+                </p>
+              )}
+              {order.statusReason && (order.status === "rejected" || order.status === "cancelled") && (
+                <p className="text-xs text-destructive mt-1">Reason: {order.statusReason}</p>
+              )}
             </div>
             <Badge className={statusColors[order.status as keyof typeof statusColors]} data-testid={`badge-order-status-${order.id}`}>
               {order.status}
@@ -296,11 +333,20 @@ export default function Kitchen() {
               >
                 <Edit className="h-4 w-4" />
               </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setKotOrderId(order.id)}
+                data-testid={`button-kot-order-${order.id}`}
+                title="Kitchen order tickets"
+              >
+                <Ticket className="h-4 w-4" />
+              </Button>
               {order.status === "pending" && (
                 <>
                   <Button
                     variant="destructive"
-                    onClick={() => updateStatusMutation.mutate({ id: order.id, status: "rejected" })}
+                    onClick={() => setReasonDialog({ order, status: "rejected" })}
                     disabled={updateStatusMutation.isPending}
                     data-testid={`button-reject-order-${order.id}`}
                   >
@@ -318,6 +364,18 @@ export default function Kitchen() {
                   </Button>
                 </>
               )}
+              {(order.status === "preparing" || order.status === "ready") && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setReasonDialog({ order, status: "cancelled" })}
+                  disabled={updateStatusMutation.isPending}
+                  data-testid={`button-cancel-order-${order.id}`}
+                  title="Cancel order"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
               {order.status === "preparing" && (
                 <Button
                   className="flex-1"
@@ -442,6 +500,8 @@ export default function Kitchen() {
         </Card>
       )}
 
+      {showSettings && (user?.role === "admin" || user?.role === "manager") && <KitchenPrintersCard />}
+
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
         <TabsList className="mb-6">
           <TabsTrigger value="active" data-testid="tab-active-orders">
@@ -454,7 +514,7 @@ export default function Kitchen() {
             Completed <Badge variant="secondary" className="ml-2">{orderCounts.completed}</Badge>
           </TabsTrigger>
           <TabsTrigger value="rejected" data-testid="tab-rejected-orders">
-            Rejected <Badge variant="secondary" className="ml-2">{orderCounts.rejected}</Badge>
+            Rejected / Cancelled <Badge variant="secondary" className="ml-2">{orderCounts.rejected}</Badge>
           </TabsTrigger>
         </TabsList>
 
@@ -637,6 +697,49 @@ export default function Kitchen() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={reasonDialog !== null} onOpenChange={(open) => { if (!open) { setReasonDialog(null); setStatusReason(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reasonDialog?.status === "rejected" ? "Reject" : "Cancel"} Order #{reasonDialog?.order.id}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="status-reason">Reason *</Label>
+            <Input
+              id="status-reason"
+              placeholder={reasonDialog?.status === "rejected" ? "e.g., Item out of stock" : "e.g., Guest changed their mind"}
+              value={statusReason}
+              onChange={(e) => setStatusReason(e.target.value)}
+              data-testid="input-status-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setReasonDialog(null); setStatusReason(""); }}>
+              Back
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => reasonDialog && updateStatusMutation.mutate({
+                id: reasonDialog.order.id,
+                status: reasonDialog.status,
+                reason: statusReason.trim(),
+              })}
+              disabled={!statusReason.trim() || updateStatusMutation.isPending}
+              data-testid="button-confirm-status-reason"
+            >
+              {reasonDialog?.status === "rejected" ? "Reject Order" : "Cancel Order"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <KotDialog
+        orderId={kotOrderId}
+        open={kotOrderId !== null}
+        onOpenChange={(open) => !open && setKotOrderId(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,454 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { LayoutGrid, Plus, Receipt, Trash2 } from "lucide-react";
+import type { DiningTable, Order, Property, TableTab } from "@shared/schema";
+
+interface TabListEntry extends TableTab {
+  tableNumber: string;
+  orderCount: number;
+  runningTotal: number;
+}
+
+interface TabSummary {
+  tab: TableTab;
+  table: DiningTable;
+  orders: Order[];
+  subtotal: number;
+  gstAmount: number;
+  total: number;
+}
+
+interface ActiveBooking {
+  id: number;
+  guest: { fullName: string };
+  room?: { roomNumber: string } | null;
+}
+
+export default function Tables() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = user?.role === "admin" || user?.role === "manager";
+  const [selectedProperty, setSelectedProperty] = useState<number | null>(null);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [newTable, setNewTable] = useState({ tableNumber: "", seats: "4", area: "" });
+  const [openTabId, setOpenTabId] = useState<number | null>(null);
+  const [includeGst, setIncludeGst] = useState(true);
+  const [paymentMethod, setPaymentMethod] = useState("cash");
+  const [mergeBookingId, setMergeBookingId] = useState("");
+
+  const { data: properties = [] } = useQuery<Property[]>({
+    queryKey: ["/api/properties"],
+  });
+  const propertyId = selectedProperty ?? properties[0]?.id ?? null;
+
+  const { data: tables = [], isLoading: tablesLoading } = useQuery<DiningTable[]>({
+    queryKey: ["/api/tables", propertyId],
+    queryFn: async () => {
+      const response = await fetch(`/api/tables?propertyId=${propertyId}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch tables");
+      return response.json();
+    },
+    enabled: propertyId !== null,
+  });
+
+  const { data: openTabs = [] } = useQuery<TabListEntry[]>({
+    queryKey: ["/api/table-tabs", propertyId, "open"],
+    queryFn: async () => {
+      const response = await fetch(`/api/table-tabs?propertyId=${propertyId}&status=open`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch tabs");
+      return response.json();
+    },
+    enabled: propertyId !== null,
+    refetchInterval: 30000,
+  });
+
+  const { data: tabSummary, isLoading: summaryLoading } = useQuery<TabSummary>({
+    queryKey: ["/api/table-tabs", openTabId, includeGst],
+    queryFn: async () => {
+      const response = await fetch(`/api/table-tabs/${openTabId}?includeGst=${includeGst}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch tab");
+      return response.json();
+    },
+    enabled: openTabId !== null,
+  });
+
+  const { data: activeBookings = [] } = useQuery<ActiveBooking[]>({
+    queryKey: ["/api/bookings/active"],
+    enabled: openTabId !== null,
+  });
+
+  const invalidateTabs = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/table-tabs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+  };
+
+  const closeTabDialog = () => {
+    setOpenTabId(null);
+    setIncludeGst(true);
+    setPaymentMethod("cash");
+    setMergeBookingId("");
+  };
+
+  const createTableMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/tables", "POST", {
+        propertyId,
+        tableNumber: newTable.tableNumber.trim(),
+        seats: parseInt(newTable.seats) || 4,
+        area: newTable.area.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
+      setIsAddOpen(false);
+      setNewTable({ tableNumber: "", seats: "4", area: "" });
+      toast({ title: "Table added" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateTableMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      return await apiRequest(`/api/tables/${id}`, "PATCH", { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteTableMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/tables/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
+      toast({ title: "Table deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const settleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/table-tabs/${openTabId}/settle`, "POST", { paymentMethod, includeGst });
+      return response.json() as Promise<TabSummary>;
+    },
+    onSuccess: (summary) => {
+      invalidateTabs();
+      closeTabDialog();
+      toast({
+        title: "Tab settled",
+        description: `Table ${summary.table.tableNumber}: ₹${summary.total.toFixed(2)} by ${paymentMethod}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/table-tabs/${openTabId}/merge-to-booking`, "POST", {
+        bookingId: parseInt(mergeBookingId),
+      });
+      return response.json() as Promise<TabSummary>;
+    },
+    onSuccess: (summary) => {
+      invalidateTabs();
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/active"] });
+      closeTabDialog();
+      toast({
+        title: "Tab merged",
+        description: `Table ${summary.table.tableNumber} orders added to booking #${summary.tab.bookingId}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const tabByTable = new Map(openTabs.map(tab => [tab.tableId, tab]));
+
+  return (
+    <div className="p-6 md:p-8">
+      <div className="flex items-start justify-between gap-4 flex-wrap mb-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+            <LayoutGrid className="h-7 w-7 text-primary" />
+            Tables
+          </h1>
+          <p className="text-muted-foreground">Dine-in tables and their open tabs</p>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          {properties.length > 1 && (
+            <Select value={propertyId?.toString() ?? ""} onValueChange={(value) => setSelectedProperty(parseInt(value))}>
+              <SelectTrigger className="w-[200px]" data-testid="select-tables-property">
+                <SelectValue placeholder="Property" />
+              </SelectTrigger>
+              <SelectContent>
+                {properties.map(property => (
+                  <SelectItem key={property.id} value={property.id.toString()}>{property.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {canManage && (
+            <Button onClick={() => setIsAddOpen(true)} disabled={propertyId === null} data-testid="button-add-table">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Table
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {tablesLoading ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[...Array(4)].map((_, i) => <Skeleton key={i} className="h-36" />)}
+        </div>
+      ) : tables.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No tables yet. Add your café tables to generate table QR codes.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          {tables.map(table => {
+            const tab = tabByTable.get(table.id);
+            return (
+              <Card key={table.id} className={table.isActive ? "" : "opacity-60"} data-testid={`card-table-${table.id}`}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-lg">Table {table.tableNumber}</CardTitle>
+                    {tab ? (
+                      <Badge variant="default">Open tab</Badge>
+                    ) : (
+                      <Badge variant="secondary">{table.isActive ? "Free" : "Inactive"}</Badge>
+                    )}
+                  </div>
+                  <CardDescription>
+                    {table.seats} seats{table.area ? ` • ${table.area}` : ""}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {tab && (
+                    <div className="text-sm">
+                      <p className="font-mono font-semibold" data-testid={`text-tab-total-${table.id}`}>₹{tab.runningTotal.toFixed(2)}</p>
+                      <p className="text-muted-foreground">
+                        {tab.orderCount} order{tab.orderCount === 1 ? "" : "s"} • since {tab.openedAt ? format(new Date(tab.openedAt), "HH:mm") : "-"}
+                      </p>
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2 flex-wrap">
+                    {tab && (
+                      <Button size="sm" onClick={() => setOpenTabId(tab.id)} data-testid={`button-view-tab-${table.id}`}>
+                        <Receipt className="h-4 w-4 mr-1" />
+                        View Bill
+                      </Button>
+                    )}
+                    {canManage && (
+                      <>
+                        <div className="flex items-center gap-1">
+                          <Switch
+                            checked={table.isActive}
+                            onCheckedChange={(checked) => updateTableMutation.mutate({ id: table.id, isActive: checked })}
+                            data-testid={`switch-table-active-${table.id}`}
+                          />
+                          <span className="text-xs text-muted-foreground">Active</span>
+                        </div>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => deleteTableMutation.mutate(table.id)}
+                          disabled={!!tab}
+                          data-testid={`button-delete-table-${table.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Add table */}
+      <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Table</DialogTitle>
+            <DialogDescription>The table number is printed under its QR code</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="table-number">Table Number *</Label>
+              <Input
+                id="table-number"
+                placeholder="e.g., T1"
+                value={newTable.tableNumber}
+                onChange={(e) => setNewTable({ ...newTable, tableNumber: e.target.value })}
+                data-testid="input-table-number"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="table-seats">Seats</Label>
+                <Input
+                  id="table-seats"
+                  type="number"
+                  min="1"
+                  value={newTable.seats}
+                  onChange={(e) => setNewTable({ ...newTable, seats: e.target.value })}
+                  data-testid="input-table-seats"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="table-area">Area</Label>
+                <Input
+                  id="table-area"
+                  placeholder="e.g., Terrace"
+                  value={newTable.area}
+                  onChange={(e) => setNewTable({ ...newTable, area: e.target.value })}
+                  data-testid="input-table-area"
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAddOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createTableMutation.mutate()}
+              disabled={!newTable.tableNumber.trim() || createTableMutation.isPending}
+              data-testid="button-save-table"
+            >
+              Add Table
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Table bill */}
+      <Dialog open={openTabId !== null} onOpenChange={(open) => !open && closeTabDialog()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Table {tabSummary?.table.tableNumber} Bill</DialogTitle>
+            <DialogDescription>
+              {tabSummary?.tab.customerName ? `${tabSummary.tab.customerName} • ` : ""}
+              Opened {tabSummary?.tab.openedAt ? format(new Date(tabSummary.tab.openedAt), "dd MMM, HH:mm") : ""}
+            </DialogDescription>
+          </DialogHeader>
+          {summaryLoading || !tabSummary ? (
+            <Skeleton className="h-40" />
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {tabSummary.orders.map(order => (
+                  <div key={order.id} className="text-sm border rounded-md p-2" data-testid={`tab-order-${order.id}`}>
+                    <div className="flex justify-between font-medium">
+                      <span>Order #{order.id} • {format(new Date(order.createdAt!), "HH:mm")}</span>
+                      <span className={`font-mono ${order.status === "rejected" || order.status === "cancelled" ? "line-through text-muted-foreground" : ""}`}>
+                        ₹{parseFloat(order.totalAmount).toFixed(2)}
+                      </span>
+                    </div>
+                    <p className="text-muted-foreground">
+                      {Array.isArray(order.items) && (order.items as any[]).map(item => `${item.quantity}x ${item.name}`).join(", ")}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="border-t pt-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>Subtotal</span>
+                  <span className="font-mono">₹{tabSummary.subtotal.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="flex items-center gap-2">
+                    <Switch checked={includeGst} onCheckedChange={setIncludeGst} data-testid="switch-tab-gst" />
+                    GST
+                  </span>
+                  <span className="font-mono">₹{tabSummary.gstAmount.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-base font-bold">
+                  <span>Total</span>
+                  <span className="font-mono" data-testid="text-tab-total">₹{tabSummary.total.toFixed(2)}</span>
+                </div>
+              </div>
+
+              <div className="border-t pt-3 space-y-2">
+                <Label>Settle at table</Label>
+                <div className="flex gap-2">
+                  <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                    <SelectTrigger data-testid="select-tab-payment-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="cash">Cash</SelectItem>
+                      <SelectItem value="card">Card</SelectItem>
+                      <SelectItem value="upi">UPI</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={() => settleMutation.mutate()}
+                    disabled={settleMutation.isPending}
+                    data-testid="button-settle-tab"
+                  >
+                    Settle ₹{tabSummary.total.toFixed(2)}
+                  </Button>
+                </div>
+              </div>
+
+              <div className="border-t pt-3 space-y-2">
+                <Label>Or add to a room bill (GST is charged at checkout)</Label>
+                <div className="flex gap-2">
+                  <Select value={mergeBookingId} onValueChange={setMergeBookingId}>
+                    <SelectTrigger data-testid="select-tab-merge-booking">
+                      <SelectValue placeholder={activeBookings.length === 0 ? "No checked-in guests" : "Select guest"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeBookings.map(booking => (
+                        <SelectItem key={booking.id} value={booking.id.toString()}>
+                          {booking.guest.fullName}{booking.room ? ` - Room ${booking.room.roomNumber}` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    onClick={() => mergeMutation.mutate()}
+                    disabled={!mergeBookingId || mergeMutation.isPending}
+                    data-testid="button-merge-tab"
+                  >
+                    Merge
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
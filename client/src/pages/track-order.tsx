@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { format } from "date-fns";
+import { Check, ChefHat, Clock, PackageCheck, UtensilsCrossed, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { PublicOrderStatus } from "@shared/schema";
+
+const STEPS = [
+  { status: "pending", label: "Order received", icon: Clock, at: (o: PublicOrderStatus) => o.createdAt },
+  { status: "preparing", label: "Being prepared", icon: ChefHat, at: (o: PublicOrderStatus) => o.preparingAt },
+  { status: "ready", label: "Ready", icon: PackageCheck, at: (o: PublicOrderStatus) => o.readyAt },
+  { status: "delivered", label: "Served", icon: Check, at: (o: PublicOrderStatus) => o.deliveredAt },
+];
+
+const FINAL_STATUSES = ["delivered", "rejected", "cancelled"];
+
+function headline(order: PublicOrderStatus): string {
+  switch (order.status) {
+    case "pending":
+      return "Waiting for the kitchen to accept your order";
+    case "preparing":
+      return order.targetPrepMinutes
+        ? `Your food is being prepared - about ${order.targetPrepMinutes} min`
+        : "Your food is being prepared";
+    case "ready":
+      return order.location ? `Your order is ready and on its way to ${order.location}` : "Your order is ready to collect";
+    case "delivered":
+      return "Enjoy your meal!";
+    case "rejected":
+      return "Sorry, the kitchen couldn't take this order";
+    default:
+      return "This order was cancelled";
+  }
+}
+
+export default function TrackOrder() {
+  const { token } = useParams<{ token: string }>();
+  const [order, setOrder] = useState<PublicOrderStatus | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  // The stream sends the current status first, then every change
+  useEffect(() => {
+    let eventSource: EventSource | null = null;
+    let cancelled = false;
+
+    fetch(`/api/public/orders/track/${token}`)
+      .then(async (response) => {
+        if (cancelled) return;
+        if (!response.ok) {
+          setNotFound(true);
+          return;
+        }
+        const current: PublicOrderStatus = await response.json();
+        setOrder(current);
+        if (FINAL_STATUSES.includes(current.status)) return;
+
+        eventSource = new EventSource(`/api/public/orders/track/${token}/stream`);
+        eventSource.onmessage = (event) => {
+          try {
+            const next: PublicOrderStatus = JSON.parse(event.data);
+            setOrder(next);
+            if (FINAL_STATUSES.includes(next.status)) {
+              eventSource?.close();
+            }
+          } catch (error) {
+            console.error("[TrackOrder] Failed to parse status:", error);
+          }
+        };
+      })
+      .catch(() => {
+        if (!cancelled) setNotFound(true);
+      });
+
+    return () => {
+      cancelled = true;
+      eventSource?.close();
+    };
+  }, [token]);
+
+  if (notFound) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md w-full p-8 text-center">
+          <XCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h1 className="text-xl font-semibold">Order not found</h1>
+          <p className="text-muted-foreground mt-2">Check the link you were given, or ask our staff for help.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen p-4 max-w-md mx-auto space-y-4">
+        <Skeleton className="h-24" />
+        <Skeleton className="h-64" />
+      </div>
+    );
+  }
+
+  const isStopped = order.status === "rejected" || order.status === "cancelled";
+  const currentStep = STEPS.findIndex(step => step.status === order.status);
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <div className="flex items-center gap-3 pt-2">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+            <UtensilsCrossed className="h-5 w-5" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold" data-testid="text-order-number">Order #{order.orderNumber}</h1>
+            <p className="text-sm text-muted-foreground">
+              {[order.propertyName, order.location].filter(Boolean).join(" • ")}
+            </p>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            <p className="font-semibold" data-testid="text-order-headline">{headline(order)}</p>
+            {isStopped ? (
+              <div className="flex items-start gap-2 text-destructive">
+                <XCircle className="h-5 w-5 flex-shrink-0" />
+                <span className="text-sm">{order.statusReason || "Please ask our staff for details."}</span>
+              </div>
+            ) : (
+              <ol className="space-y-3">
+                {STEPS.map((step, index) => {
+                  const Icon = step.icon;
+                  const isDone = index <= currentStep;
+                  const at = step.at(order);
+                  return (
+                    <li key={step.status} className="flex items-center gap-3" data-testid={`step-${step.status}`}>
+                      <div className={`flex h-8 w-8 items-center justify-center rounded-full ${isDone ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"}`}>
+                        <Icon className="h-4 w-4" />
+                      </div>
+                      <span className={`flex-1 ${index === currentStep ? "font-semibold" : isDone ? "" : "text-muted-foreground"}`}>
+                        {step.label}
+                      </span>
+                      {isDone && at && <span className="text-xs text-muted-foreground">{format(new Date(at), "h:mm a")}</span>}
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+            {order.notifyWhenReady && !FINAL_STATUSES.includes(order.status) && order.status !== "ready" && (
+              <p className="text-xs text-muted-foreground">We'll message you on WhatsApp when it's ready.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Your order</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {order.items.map((item, index) => (
+              <div key={index} className="flex items-center justify-between text-sm">
+                <span className={item.cancelled ? "line-through text-muted-foreground" : ""}>
+                  {item.quantity}x {item.name}
+                </span>
+                {item.cancelled && <Badge variant="secondary" className="text-xs">Cancelled</Badge>}
+              </div>
+            ))}
+            <div className="flex items-center justify-between border-t pt-2 font-semibold">
+              <span>Total</span>
+              <span>₹{order.totalAmount}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        <p className="text-xs text-center text-muted-foreground">Keep this page open - it updates by itself.</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { db } from '../server/db';
+import * as schema from '../shared/schema';
+import { replaceOrderItems } from '../server/orderItems';
+import { asc, notExists, eq } from 'drizzle-orm';
+
+// Orders created before order_items existed only have their lines in orders.items
+async function backfillOrderItems() {
+  console.log('🔄 Backfilling order line items...\n');
+
+  try {
+    const pending = await db
+      .select()
+      .from(schema.orders)
+      .where(notExists(
+        db.select({ id: schema.orderItems.id }).from(schema.orderItems).where(eq(schema.orderItems.orderId, schema.orders.id))
+      ))
+      .orderBy(asc(schema.orders.id));
+
+    if (pending.length === 0) {
+      console.log('✅ All orders already have line items');
+      process.exit(0);
+    }
+
+    let failed = 0;
+    for (const order of pending) {
+      try {
+        await db.transaction(async (tx) => {
+          await replaceOrderItems(tx, order);
+        });
+      } catch (error: any) {
+        failed++;
+        console.log(`  ❌ Order #${order.id}: Failed (${error.message})`);
+      }
+    }
+
+    console.log(`\n✅ Backfilled ${pending.length - failed} of ${pending.length} orders`);
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error: any) {
+    console.error('❌ Backfill failed:', error.message);
+    process.exit(1);
+  }
+}
+
+backfillOrderItems();
@@ -19,21 +19,51 @@ async function backupDatabase() {
     const tables = [
       { name: 'users', query: db.select().from(schema.users) },
       { name: 'properties', query: db.select().from(schema.properties) },
+      { name: 'roomTypes', query: db.select().from(schema.roomTypes) },
       { name: 'rooms', query: db.select().from(schema.rooms) },
+      { name: 'ratePlans', query: db.select().from(schema.ratePlans) },
+      { name: 'ratePlanRates', query: db.select().from(schema.ratePlanRates) },
+      { name: 'cancellationPolicies', query: db.select().from(schema.cancellationPolicies) },
       { name: 'guests', query: db.select().from(schema.guests) },
+      { name: 'loyaltyTiers', query: db.select().from(schema.loyaltyTiers) },
       { name: 'travelAgents', query: db.select().from(schema.travelAgents) },
       { name: 'bookings', query: db.select().from(schema.bookings) },
+      { name: 'staySegments', query: db.select().from(schema.staySegments) },
+      { name: 'bookingGuests', query: db.select().from(schema.bookingGuests) },
       { name: 'enquiries', query: db.select().from(schema.enquiries) },
       { name: 'bills', query: db.select().from(schema.bills) },
+      { name: 'billTaxLines', query: db.select().from(schema.billTaxLines) },
+      { name: 'billLineItems', query: db.select().from(schema.billLineItems) },
+      { name: 'billPayments', query: db.select().from(schema.billPayments) },
+      { name: 'deposits', query: db.select().from(schema.deposits) },
+      { name: 'dailyStats', query: db.select().from(schema.dailyStats) },
+      { name: 'invoiceSequences', query: db.select().from(schema.invoiceSequences) },
+      { name: 'taxProfiles', query: db.select().from(schema.taxProfiles) },
+      { name: 'taxSlabs', query: db.select().from(schema.taxSlabs) },
       { name: 'menuItems', query: db.select().from(schema.menuItems) },
+      { name: 'menuItemVariants', query: db.select().from(schema.menuItemVariants) },
+      { name: 'menuItemModifierGroups', query: db.select().from(schema.menuItemModifierGroups) },
+      { name: 'menuItemModifiers', query: db.select().from(schema.menuItemModifiers) },
+      { name: 'menuPriceRules', query: db.select().from(schema.menuPriceRules) },
+      { name: 'diningTables', query: db.select().from(schema.diningTables) },
+      { name: 'tableTabs', query: db.select().from(schema.tableTabs) },
       { name: 'orders', query: db.select().from(schema.orders) },
+      { name: 'orderItems', query: db.select().from(schema.orderItems) },
+      { name: 'orderStatusHistory', query: db.select().from(schema.orderStatusHistory) },
+      { name: 'kitchenPrinters', query: db.select().from(schema.kitchenPrinters) },
+      { name: 'kotSequences', query: db.select().from(schema.kotSequences) },
+      { name: 'kots', query: db.select().from(schema.kots) },
       { name: 'extraServices', query: db.select().from(schema.extraServices) },
       { name: 'messageTemplates', query: db.select().from(schema.messageTemplates) },
       { name: 'communications', query: db.select().from(schema.communications) },
+      { name: 'formCRegistrations', query: db.select().from(schema.formCRegistrations) },
       { name: 'propertyLeases', query: db.select().from(schema.propertyLeases) },
       { name: 'leasePayments', query: db.select().from(schema.leasePayments) },
       { name: 'expenseCategories', query: db.select().from(schema.expenseCategories) },
       { name: 'propertyExpenses', query: db.select().from(schema.propertyExpenses) },
+      { name: 'stockItems', query: db.select().from(schema.stockItems) },
+      { name: 'recipeIngredients', query: db.select().from(schema.recipeIngredients) },
+      { name: 'stockMovements', query: db.select().from(schema.stockMovements) },
       { name: 'bankTransactions', query: db.select().from(schema.bankTransactions) },
       { name: 'auditLog', query: db.select().from(schema.auditLog) },
       { name: 'staffSalaries', query: db.select().from(schema.staffSalaries) },
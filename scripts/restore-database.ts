@@ -23,20 +23,50 @@ async function restoreDatabase(backupFile: string) {
       { name: 'users', table: schema.users },
       { name: 'properties', table: schema.properties },
       { name: 'expenseCategories', table: schema.expenseCategories },
+      { name: 'roomTypes', table: schema.roomTypes },
       { name: 'rooms', table: schema.rooms },
+      { name: 'ratePlans', table: schema.ratePlans },
+      { name: 'ratePlanRates', table: schema.ratePlanRates },
+      { name: 'cancellationPolicies', table: schema.cancellationPolicies },
       { name: 'guests', table: schema.guests },
+      { name: 'loyaltyTiers', table: schema.loyaltyTiers },
       { name: 'travelAgents', table: schema.travelAgents },
       { name: 'bookings', table: schema.bookings },
+      { name: 'staySegments', table: schema.staySegments },
+      { name: 'bookingGuests', table: schema.bookingGuests },
       { name: 'enquiries', table: schema.enquiries },
       { name: 'bills', table: schema.bills },
+      { name: 'billTaxLines', table: schema.billTaxLines },
+      { name: 'billLineItems', table: schema.billLineItems },
+      { name: 'billPayments', table: schema.billPayments },
+      { name: 'deposits', table: schema.deposits },
+      { name: 'dailyStats', table: schema.dailyStats },
+      { name: 'invoiceSequences', table: schema.invoiceSequences },
+      { name: 'taxProfiles', table: schema.taxProfiles },
+      { name: 'taxSlabs', table: schema.taxSlabs },
       { name: 'menuItems', table: schema.menuItems },
+      { name: 'menuItemVariants', table: schema.menuItemVariants },
+      { name: 'menuItemModifierGroups', table: schema.menuItemModifierGroups },
+      { name: 'menuItemModifiers', table: schema.menuItemModifiers },
+      { name: 'menuPriceRules', table: schema.menuPriceRules },
+      { name: 'diningTables', table: schema.diningTables },
+      { name: 'tableTabs', table: schema.tableTabs },
       { name: 'orders', table: schema.orders },
+      { name: 'orderItems', table: schema.orderItems },
+      { name: 'orderStatusHistory', table: schema.orderStatusHistory },
+      { name: 'kitchenPrinters', table: schema.kitchenPrinters },
+      { name: 'kotSequences', table: schema.kotSequences },
+      { name: 'kots', table: schema.kots },
       { name: 'extraServices', table: schema.extraServices },
       { name: 'messageTemplates', table: schema.messageTemplates },
       { name: 'communications', table: schema.communications },
+      { name: 'formCRegistrations', table: schema.formCRegistrations },
       { name: 'propertyLeases', table: schema.propertyLeases },
       { name: 'leasePayments', table: schema.leasePayments },
       { name: 'propertyExpenses', table: schema.propertyExpenses },
+      { name: 'stockItems', table: schema.stockItems },
+      { name: 'recipeIngredients', table: schema.recipeIngredients },
+      { name: 'stockMovements', table: schema.stockMovements },
       { name: 'bankTransactions', table: schema.bankTransactions },
       { name: 'staffSalaries', table: schema.staffSalaries },
       { name: 'salaryAdvances', table: schema.salaryAdvances },
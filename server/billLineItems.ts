@@ -0,0 +1,123 @@
+import type { ExtraService, InsertBillLineItem, Order } from "@shared/schema";
+import { format } from "date-fns";
+import type { NightlyRate } from "./stayPricing";
+import type { BillTaxes } from "./taxCalculation";
+
+export type BillLineType =
+  | "room_night"
+  | "food"
+  | "extra_service"
+  | "service_charge"
+  | "tax"
+  | "discount"
+  | "credit"
+  | "debit"
+  | "cancellation_fee";
+
+export type NewBillLineItem = Omit<InsertBillLineItem, "billId">;
+
+export class CheckoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CheckoutError";
+    Object.setPrototypeOf(this, CheckoutError.prototype);
+  }
+}
+
+export interface CheckoutLineItemsInput {
+  nightlyRates: NightlyRate[];
+  roomNumbers: Map<number, string>;
+  orders: Order[]; // Billable (non-rejected) orders
+  extraServices: ExtraService[];
+  taxes: BillTaxes;
+  discountAmount: number;
+  discountLabel?: string;
+}
+
+const TAX_CATEGORY_LABELS = { room: "Room", food: "F&B", extra: "Extras" } as const;
+
+function describeOrder(order: Order): string {
+  const items = Array.isArray(order.items) ? (order.items as any[]) : [];
+  const summary = items
+    .filter(item => item && item.name)
+    .map(item => `${item.quantity || 1}x ${item.name}`)
+    .join(", ");
+  return summary ? `Order #${order.id}: ${summary}` : `Order #${order.id}`;
+}
+
+/**
+ * Itemise a bill at checkout so the invoice no longer depends on live orders
+ * and extra services. Amounts are signed: discounts are negative.
+ */
+export function buildCheckoutLineItems(input: CheckoutLineItemsInput): NewBillLineItem[] {
+  const lines: NewBillLineItem[] = [];
+
+  for (const night of input.nightlyRates) {
+    const roomNumber = input.roomNumbers.get(night.roomId) || String(night.roomId);
+    lines.push({
+      lineType: "room_night",
+      description: `Room ${roomNumber} - ${format(new Date(`${night.date}T00:00:00`), "dd MMM yyyy")}`,
+      referenceId: night.roomId,
+      serviceDate: night.date,
+      quantity: 1,
+      unitPrice: night.total.toFixed(2),
+      amount: night.total.toFixed(2),
+    });
+  }
+
+  for (const order of input.orders) {
+    lines.push({
+      lineType: "food",
+      description: describeOrder(order),
+      referenceId: order.id,
+      serviceDate: order.createdAt ? format(new Date(order.createdAt), "yyyy-MM-dd") : null,
+      quantity: 1,
+      unitPrice: parseFloat(order.totalAmount || "0").toFixed(2),
+      amount: parseFloat(order.totalAmount || "0").toFixed(2),
+    });
+  }
+
+  for (const extra of input.extraServices) {
+    lines.push({
+      lineType: "extra_service",
+      description: extra.serviceName,
+      referenceId: extra.id,
+      serviceDate: format(new Date(extra.serviceDate), "yyyy-MM-dd"),
+      quantity: 1,
+      unitPrice: parseFloat(extra.amount || "0").toFixed(2),
+      amount: parseFloat(extra.amount || "0").toFixed(2),
+    });
+  }
+
+  if (input.taxes.serviceChargeAmount > 0) {
+    lines.push({
+      lineType: "service_charge",
+      description: `Service Charge @ ${input.taxes.serviceChargeRate}% on room charges`,
+      quantity: 1,
+      unitPrice: input.taxes.serviceChargeAmount.toFixed(2),
+      amount: input.taxes.serviceChargeAmount.toFixed(2),
+    });
+  }
+
+  for (const tax of input.taxes.lines) {
+    lines.push({
+      lineType: "tax",
+      description: `${tax.component} @ ${tax.rate}% on ${TAX_CATEGORY_LABELS[tax.category]} (₹${tax.taxableAmount.toFixed(2)})`,
+      quantity: 1,
+      unitPrice: tax.taxAmount.toFixed(2),
+      amount: tax.taxAmount.toFixed(2),
+    });
+  }
+
+  if (input.discountAmount > 0) {
+    lines.push({
+      lineType: "discount",
+      description: input.discountLabel || "Discount",
+      quantity: 1,
+      unitPrice: (-input.discountAmount).toFixed(2),
+      amount: (-input.discountAmount).toFixed(2),
+    });
+  }
+
+  return lines;
+}
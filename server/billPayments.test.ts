@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Bill, BillPayment } from "@shared/schema";
+import { assertWithinBalance, assertWithinHeld, BillPaymentError, summarizeBillPayments } from "./billPayments";
+
+const bill = { totalAmount: "1000.00", advancePaid: "200.00", paymentStatus: "pending", paymentMethod: null, paidAt: null } as Bill;
+
+function entry(entryType: string, amount: string, paymentMethod = "Cash"): BillPayment {
+  return { entryType, amount, paymentMethod, receivedAt: new Date("2026-01-01T10:00:00Z") } as BillPayment;
+}
+
+test("balance is the total less the advance and net payments", () => {
+  const summary = summarizeBillPayments(bill, [entry("payment", "500.00"), entry("refund", "100.00")]);
+  assert.equal(summary.netPaid, 400);
+  assert.equal(summary.balanceAmount, 400);
+  assert.equal(summary.paymentStatus, "partial");
+});
+
+test("a bill paid in full by several methods is paid by Split", () => {
+  const summary = summarizeBillPayments(bill, [entry("payment", "300.00", "Cash"), entry("payment", "500.00", "UPI")]);
+  assert.equal(summary.balanceAmount, 0);
+  assert.equal(summary.paymentStatus, "paid");
+  assert.equal(summary.paymentMethod, "Split");
+});
+
+test("payments may not exceed the balance due", () => {
+  const summary = summarizeBillPayments(bill, [entry("payment", "500.00")]);
+  assert.doesNotThrow(() => assertWithinBalance(summary, "payment", 300));
+  assert.throws(() => assertWithinBalance(summary, "payment", 300.01), BillPaymentError);
+});
+
+test("refunds may not exceed what was received", () => {
+  const summary = summarizeBillPayments(bill, [entry("payment", "500.00")]);
+  assert.doesNotThrow(() => assertWithinBalance(summary, "refund", 500));
+  assert.throws(() => assertWithinBalance(summary, "refund", 500.01), /Refund exceeds/);
+});
+
+test("refunds and transfers may not exceed the advance held", () => {
+  assert.doesNotThrow(() => assertWithinHeld(1500, 1500, "Refund"));
+  assert.throws(() => assertWithinHeld(1500, 1500.01, "Refund"), /Refund exceeds the advance held \(₹1500.00\)/);
+  assert.throws(() => assertWithinHeld(0, 100, "Transfer"), BillPaymentError);
+});
@@ -0,0 +1,100 @@
+import type { Bill, BillPayment } from "@shared/schema";
+import { z } from "zod";
+
+export type BillPaymentEntryType = "payment" | "refund";
+
+export class BillPaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BillPaymentError";
+    Object.setPrototypeOf(this, BillPaymentError.prototype);
+  }
+}
+
+// Statuses that still have money to collect (shown on the pending payments page)
+export const OUTSTANDING_PAYMENT_STATUSES = ["pending", "partial"];
+
+// Payment or refund as entered at the desk (checkout, pending payments page)
+export const billPaymentInputSchema = z.object({
+  amount: z.coerce.number().positive(),
+  paymentMethod: z.string().min(1, "Payment method is required"),
+  reference: z.string().max(100).nullish(),
+  notes: z.string().nullish(),
+  receivedAt: z.coerce.date().optional(),
+});
+
+export interface BillPaymentSummary {
+  amountPaid: number; // Sum of payments, excluding the booking advance
+  amountRefunded: number;
+  netPaid: number;
+  balanceAmount: number;
+  paymentStatus: string;
+  paymentMethod: string | null;
+  paidAt: Date | null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Derive a bill's balance and payment status from its payments ledger.
+ * Balance = total - advance - payments + refunds; the bill is "paid" once the
+ * balance reaches zero and "partial" while some (but not all) has been received.
+ */
+export function summarizeBillPayments(bill: Bill, payments: BillPayment[]): BillPaymentSummary {
+  const received = payments.filter(p => p.entryType !== "refund");
+  const refunds = payments.filter(p => p.entryType === "refund");
+  const amountPaid = round2(received.reduce((sum, p) => sum + parseFloat(p.amount), 0));
+  const amountRefunded = round2(refunds.reduce((sum, p) => sum + parseFloat(p.amount), 0));
+  const netPaid = round2(amountPaid - amountRefunded);
+  const balanceAmount = round2(parseFloat(bill.totalAmount) - parseFloat(bill.advancePaid || "0") - netPaid);
+
+  const methods = Array.from(new Set(received.map(p => p.paymentMethod)));
+  const paymentMethod = methods.length > 1 ? "Split" : methods[0] ?? bill.paymentMethod ?? null;
+
+  let paymentStatus: string;
+  let paidAt: Date | null = null;
+  if (balanceAmount <= 0) {
+    paymentStatus = "paid";
+    const lastPayment = received[received.length - 1];
+    paidAt = bill.paymentStatus === "paid" && bill.paidAt ? bill.paidAt : lastPayment?.receivedAt ?? new Date();
+  } else if (netPaid > 0) {
+    paymentStatus = "partial";
+  } else {
+    // Nothing collected yet: keep "unpaid" (merged bills) or "pending" (checked out on credit)
+    paymentStatus = bill.paymentStatus === "unpaid" ? "unpaid" : "pending";
+  }
+
+  return { amountPaid, amountRefunded, netPaid, balanceAmount, paymentStatus, paymentMethod, paidAt };
+}
+
+/**
+ * Reject a payment larger than the balance due, or a refund larger than what
+ * was received. Checked against the ledger with the bill row locked, so two
+ * desks settling the same bill can't both get through.
+ */
+export function assertWithinBalance(summary: BillPaymentSummary, entryType: BillPaymentEntryType, amount: number): void {
+  if (entryType === "refund") {
+    if (amount > summary.netPaid + 0.005) {
+      throw new BillPaymentError(`Refund exceeds the amount received (₹${summary.netPaid.toFixed(2)})`);
+    }
+  } else if (amount > summary.balanceAmount + 0.005) {
+    throw new BillPaymentError(
+      summary.balanceAmount > 0
+        ? `Payment exceeds the balance due (₹${summary.balanceAmount.toFixed(2)})`
+        : "Bill has no balance due"
+    );
+  }
+}
+
+/**
+ * Reject taking more out of a deposits ledger (refund, transfer) than it
+ * holds. Checked with the owning booking or enquiry row locked, for the same
+ * reason as assertWithinBalance.
+ */
+export function assertWithinHeld(held: number, amount: number, action: "Refund" | "Transfer"): void {
+  if (amount > held + 0.005) {
+    throw new BillPaymentError(`${action} exceeds the advance held (₹${held.toFixed(2)})`);
+  }
+}
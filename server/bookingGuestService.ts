@@ -0,0 +1,205 @@
+import { db } from "./db";
+import {
+  bookingGuests,
+  bookings,
+  guests,
+  properties,
+  rooms,
+  staySegments,
+  type Booking,
+  type BookingGuest,
+  type BookingGuestInput,
+  type GuestRegisterRow,
+} from "@shared/schema";
+import { and, asc, eq, gt, inArray, lt, sql } from "drizzle-orm";
+import { getBookingRoomIds } from "./roomInventory";
+import { DEFAULT_MENU_TIMEZONE, menuClock, zonedDayStart } from "./menuClock";
+
+export class BookingGuestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BookingGuestError";
+    Object.setPrototypeOf(this, BookingGuestError.prototype);
+  }
+}
+
+// Rooms the booking holds on the night of the given date (yyyy-MM-dd), following room moves
+function roomsForNight(booking: Booking, segments: { bookingId: number; roomId: number; fromDate: string; toDate: string }[], night: string): number[] {
+  const own = segments.filter(s => s.bookingId === booking.id);
+  if (own.length === 0) return getBookingRoomIds(booking);
+  const current = own.filter(s => s.fromDate <= night && s.toDate > night);
+  // Overstaying past the last segment: still in the last room(s)
+  const lastNight = own.reduce((end, s) => (s.toDate > end ? s.toDate : end), own[0].toDate);
+  return Array.from(new Set((current.length > 0 ? current : own.filter(s => s.toDate === lastNight)).map(s => s.roomId)));
+}
+
+// Age in whole years on the given date (yyyy-MM-dd)
+function ageOn(dateOfBirth: string | null, day: string): number | null {
+  if (!dateOfBirth) return null;
+  const [birthYear, birthMonthDay] = [parseInt(dateOfBirth.slice(0, 4)), dateOfBirth.slice(5)];
+  const age = parseInt(day.slice(0, 4)) - birthYear;
+  return day.slice(5) < birthMonthDay ? age - 1 : age;
+}
+
+/**
+ * Co-guests: everyone staying on a booking besides the guest it is booked
+ * under, each with their own ID proof and (in a group booking) room. Together
+ * with the booking guests they make up the nightly guest register.
+ */
+export class BookingGuestService {
+  static async list(bookingId: number): Promise<BookingGuest[]> {
+    return await db
+      .select()
+      .from(bookingGuests)
+      .where(eq(bookingGuests.bookingId, bookingId))
+      .orderBy(asc(bookingGuests.id));
+  }
+
+  static async get(id: number): Promise<BookingGuest | undefined> {
+    const [bookingGuest] = await db.select().from(bookingGuests).where(eq(bookingGuests.id, id));
+    return bookingGuest;
+  }
+
+  // A co-guest's room must be one the booking holds at some point of the stay
+  private static async checkRoom(booking: Booking, roomId: number | null): Promise<void> {
+    if (roomId === null) return;
+    const segments = await db
+      .select({ roomId: staySegments.roomId })
+      .from(staySegments)
+      .where(eq(staySegments.bookingId, booking.id));
+    const bookingRoomIds = new Set([...getBookingRoomIds(booking), ...segments.map(s => s.roomId)]);
+    if (!bookingRoomIds.has(roomId)) {
+      throw new BookingGuestError("That room isn't part of this booking");
+    }
+  }
+
+  static async add(booking: Booking, input: BookingGuestInput, createdBy: string | null): Promise<BookingGuest> {
+    await this.checkRoom(booking, input.roomId);
+
+    return await db.transaction(async (tx) => {
+      // Locking the booking serialises concurrent adds, so the count can't go stale
+      const [locked] = await tx.select().from(bookings).where(eq(bookings.id, booking.id)).for("update");
+      if (!locked) {
+        throw new BookingGuestError("Booking not found");
+      }
+      const [{ total }] = await tx
+        .select({ total: sql<number>`count(*)::int` })
+        .from(bookingGuests)
+        .where(eq(bookingGuests.bookingId, booking.id));
+      // The booking's own guest is one of numberOfGuests
+      if (total + 1 >= locked.numberOfGuests) {
+        throw new BookingGuestError(
+          `This booking is for ${locked.numberOfGuests} ${locked.numberOfGuests === 1 ? "guest" : "guests"} and all of them are registered. Update the number of guests on the booking to add more.`
+        );
+      }
+
+      const [bookingGuest] = await tx
+        .insert(bookingGuests)
+        .values({ ...input, bookingId: booking.id, createdBy })
+        .returning();
+      return bookingGuest;
+    });
+  }
+
+  static async update(booking: Booking, id: number, input: BookingGuestInput): Promise<BookingGuest> {
+    await this.checkRoom(booking, input.roomId);
+    const [bookingGuest] = await db
+      .update(bookingGuests)
+      .set({ ...input, updatedAt: new Date() })
+      .where(and(eq(bookingGuests.id, id), eq(bookingGuests.bookingId, booking.id)))
+      .returning();
+    if (!bookingGuest) {
+      throw new BookingGuestError("Co-guest not found on this booking");
+    }
+    return bookingGuest;
+  }
+
+  static async remove(id: number): Promise<void> {
+    await db.delete(bookingGuests).where(eq(bookingGuests.id, id));
+  }
+
+  /**
+   * Everyone in the property on the night of the given date (yyyy-MM-dd):
+   * guests and co-guests of stays that include that night, plus guests still
+   * checked in past their checkout date when the night is tonight.
+   */
+  static async getRegister(propertyId: number, night: string): Promise<GuestRegisterRow[]> {
+    // The night runs from midnight to midnight at the property, not on the server
+    const [property] = await db.select({ timezone: properties.timezone }).from(properties).where(eq(properties.id, propertyId));
+    const timeZone = property?.timezone || DEFAULT_MENU_TIMEZONE;
+    const dayStart = zonedDayStart(timeZone, night);
+    const nextDay = new Date(Date.parse(`${night}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const nextDayStart = zonedDayStart(timeZone, nextDay);
+    const isTonight = menuClock(timeZone).date === night;
+
+    const candidates = await db
+      .select()
+      .from(bookings)
+      .where(and(
+        eq(bookings.propertyId, propertyId),
+        inArray(bookings.status, ["checked-in", "checked-out"]),
+        lt(bookings.checkInDate, nextDayStart),
+        isTonight ? undefined : gt(bookings.checkOutDate, dayStart),
+      ))
+      .orderBy(asc(bookings.checkInDate));
+    const stays = candidates.filter(b =>
+      new Date(b.checkOutDate) > dayStart || (isTonight && b.status === "checked-in")
+    );
+    if (stays.length === 0) return [];
+
+    const bookingIds = stays.map(b => b.id);
+    const [segments, coGuests, bookingGuestRows, roomRows] = await Promise.all([
+      db.select().from(staySegments).where(inArray(staySegments.bookingId, bookingIds)),
+      db.select().from(bookingGuests).where(inArray(bookingGuests.bookingId, bookingIds)).orderBy(asc(bookingGuests.id)),
+      db.select().from(guests).where(inArray(guests.id, Array.from(new Set(stays.map(b => b.guestId))))),
+      db.select({ id: rooms.id, roomNumber: rooms.roomNumber }).from(rooms).where(eq(rooms.propertyId, propertyId)),
+    ]);
+    const guestById = new Map(bookingGuestRows.map(g => [g.id, g]));
+    const roomNumber = new Map(roomRows.map(r => [r.id, r.roomNumber]));
+    const roomLabels = (ids: number[]) => ids.map(id => roomNumber.get(id) ?? `#${id}`);
+
+    const register: GuestRegisterRow[] = [];
+    for (const booking of stays) {
+      const nightRoomIds = roomsForNight(booking, segments, night);
+      const stay = {
+        bookingId: booking.id,
+        checkInDate: booking.checkInDate,
+        checkOutDate: booking.checkOutDate,
+        status: booking.status,
+      };
+      const guest = guestById.get(booking.guestId);
+      register.push({
+        ...stay,
+        bookingGuestId: null,
+        isPrimary: true,
+        fullName: guest?.fullName ?? "Guest",
+        age: ageOn(guest?.dateOfBirth ?? null, night),
+        gender: guest?.gender ?? null,
+        nationality: guest?.nationality ?? null,
+        phone: guest?.phone ?? null,
+        idProofType: guest?.idProofType ?? null,
+        idProofNumber: guest?.idProofNumber ?? null,
+        hasIdProof: !!guest?.idProofImage,
+        roomNumbers: roomLabels(nightRoomIds),
+      });
+      for (const coGuest of coGuests.filter(g => g.bookingId === booking.id)) {
+        const inRoom = coGuest.roomId !== null && nightRoomIds.includes(coGuest.roomId);
+        register.push({
+          ...stay,
+          bookingGuestId: coGuest.id,
+          isPrimary: false,
+          fullName: coGuest.fullName,
+          age: coGuest.age,
+          gender: coGuest.gender,
+          nationality: coGuest.nationality,
+          phone: guest?.phone ?? null,
+          idProofType: coGuest.idProofType,
+          idProofNumber: coGuest.idProofNumber,
+          hasIdProof: !!coGuest.idProofImage,
+          roomNumbers: roomLabels(inRoom ? [coGuest.roomId!] : nightRoomIds),
+        });
+      }
+    }
+    return register;
+  }
+}
@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { CancellationPolicy } from "@shared/schema";
+import type { NightlyRate } from "./stayPricing";
+import { DEFAULT_ROOM_TAX_SLABS, type TaxRules } from "./taxCalculation";
+import { quoteCancellationFee } from "./cancellationFees";
+
+const policy = { freeCancellationDays: 7, retentionPercent: "50.00", noShowPercent: "100.00" } as CancellationPolicy;
+const rules: TaxRules = {
+  propertyId: 1,
+  isConfigured: false,
+  interState: false,
+  roomSlabs: DEFAULT_ROOM_TAX_SLABS,
+  foodTaxRate: 5,
+  extraServiceTaxRate: 18,
+  serviceChargeRate: 10,
+};
+
+function night(date: string, total: number): NightlyRate {
+  return { date, roomId: 1, baseRate: total, mealSupplement: 0, occupancySurcharge: 0, total, source: "room" };
+}
+
+const stay = { roomCharges: 10000, nightlyRates: [night("2026-11-01", 4000), night("2026-11-02", 6000)] };
+const checkIn = new Date(2026, 10, 1);
+
+test("cancelling at least the free-cancellation days ahead costs nothing", () => {
+  const quote = quoteCancellationFee("cancelled", policy, stay, rules, checkIn, new Date(2026, 9, 25));
+  assert.equal(quote.daysBeforeCheckIn, 7);
+  assert.equal(quote.isFreeCancellation, true);
+  assert.equal(quote.totalCharge, 0);
+  assert.deepEqual(quote.taxes.lines, []);
+});
+
+test("late cancellations keep the retention percentage plus room GST", () => {
+  const quote = quoteCancellationFee("cancelled", policy, stay, rules, checkIn, new Date(2026, 9, 26));
+  assert.equal(quote.isFreeCancellation, false);
+  assert.equal(quote.feePercent, 50);
+  assert.equal(quote.fee, 5000);
+  assert.equal(quote.taxes.gstRate, 5);
+  assert.equal(quote.taxes.gstAmount, 250);
+  assert.equal(quote.totalCharge, 5250);
+});
+
+test("no-shows are charged the no-show percentage however early it is", () => {
+  const quote = quoteCancellationFee("no-show", policy, stay, rules, checkIn, new Date(2026, 9, 1));
+  assert.equal(quote.feePercent, 100);
+  assert.equal(quote.fee, 10000);
+  assert.equal(quote.totalCharge, 10500);
+});
+
+test("GST follows the slab of the highest nightly tariff booked", () => {
+  const premium = { roomCharges: 15000, nightlyRates: [night("2026-11-01", 7000), night("2026-11-02", 8000)] };
+  const quote = quoteCancellationFee("no-show", policy, premium, rules, checkIn, checkIn);
+  assert.equal(quote.taxes.gstRate, 18);
+  assert.equal(quote.totalCharge, 17700);
+});
+
+test("without a policy nothing is charged", () => {
+  const quote = quoteCancellationFee("no-show", null, stay, rules, checkIn, checkIn);
+  assert.equal(quote.isFreeCancellation, true);
+  assert.equal(quote.totalCharge, 0);
+});
@@ -0,0 +1,61 @@
+import type { CancellationPolicy } from "@shared/schema";
+import { differenceInCalendarDays } from "date-fns";
+import type { StayQuote } from "./stayPricing";
+import { getRoomTaxRate, splitTax, type BillTaxes, type TaxRules } from "./taxCalculation";
+
+export type CancellationKind = "cancelled" | "no-show";
+
+export interface CancellationQuote {
+  kind: CancellationKind;
+  policy: CancellationPolicy | null; // null when the property has no policy (nothing is charged)
+  daysBeforeCheckIn: number;
+  isFreeCancellation: boolean;
+  roomCharges: number; // Room charges of the full stay the percentage applies to
+  feePercent: number;
+  fee: number; // Before GST
+  taxes: BillTaxes;
+  totalCharge: number; // Fee + GST
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * The charge for cancelling (or not showing up for) a stay under a policy:
+ * free up to the policy's free-cancellation days before check-in, otherwise a
+ * percentage of the stay's room charges, with GST at the room slab of the
+ * highest nightly tariff booked
+ */
+export function quoteCancellationFee(
+  kind: CancellationKind,
+  policy: CancellationPolicy | null,
+  stay: Pick<StayQuote, "roomCharges" | "nightlyRates">,
+  rules: TaxRules,
+  checkInDate: Date,
+  at: Date,
+): CancellationQuote {
+  const daysBeforeCheckIn = differenceInCalendarDays(checkInDate, at);
+  const isFreeCancellation = !policy || (kind === "cancelled" && daysBeforeCheckIn >= policy.freeCancellationDays);
+  const feePercent = !policy || isFreeCancellation
+    ? 0
+    : parseFloat(kind === "no-show" ? policy.noShowPercent : policy.retentionPercent);
+  const fee = round2((stay.roomCharges * feePercent) / 100);
+
+  const tariff = Math.max(0, ...stay.nightlyRates.map(n => n.total));
+  const gstRate = fee > 0 ? getRoomTaxRate(rules.roomSlabs, tariff) : 0;
+  const lines = gstRate > 0 ? splitTax(rules, "room", gstRate, fee) : [];
+  const gstAmount = round2(lines.reduce((sum, l) => sum + l.taxAmount, 0));
+
+  return {
+    kind,
+    policy,
+    daysBeforeCheckIn,
+    isFreeCancellation,
+    roomCharges: stay.roomCharges,
+    feePercent,
+    fee,
+    taxes: { lines, gstAmount, gstRate, serviceChargeRate: 0, serviceChargeAmount: 0 },
+    totalCharge: round2(fee + gstAmount),
+  };
+}
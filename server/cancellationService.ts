@@ -0,0 +1,50 @@
+import { db } from "./db";
+import { cancellationPolicies, type Booking, type CancellationPolicy } from "@shared/schema";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { RateService } from "./rateService";
+import { TaxService } from "./taxService";
+import { quoteCancellationFee, type CancellationKind, type CancellationQuote } from "./cancellationFees";
+
+/**
+ * Cancellation and no-show charges. A rate-plan policy overrides the property
+ * default; the fee is a percentage of the stay's room charges and carries GST
+ * at the room slab of the booked tariff.
+ */
+export class CancellationService {
+  static async getPolicy(booking: Booking): Promise<CancellationPolicy | null> {
+    if (booking.ratePlanId) {
+      const [planPolicy] = await db
+        .select()
+        .from(cancellationPolicies)
+        .where(and(
+          eq(cancellationPolicies.ratePlanId, booking.ratePlanId),
+          eq(cancellationPolicies.isActive, true),
+        ))
+        .orderBy(desc(cancellationPolicies.id))
+        .limit(1);
+      if (planPolicy) return planPolicy;
+    }
+
+    const [propertyPolicy] = await db
+      .select()
+      .from(cancellationPolicies)
+      .where(and(
+        eq(cancellationPolicies.propertyId, booking.propertyId),
+        isNull(cancellationPolicies.ratePlanId),
+        eq(cancellationPolicies.isActive, true),
+      ))
+      .orderBy(desc(cancellationPolicies.id))
+      .limit(1);
+    return propertyPolicy ?? null;
+  }
+
+  static async quote(booking: Booking, kind: CancellationKind, at: Date = new Date()): Promise<CancellationQuote> {
+    const [policy, stay, rules] = await Promise.all([
+      this.getPolicy(booking),
+      RateService.quoteBooking(booking),
+      TaxService.getRules(booking.propertyId),
+    ]);
+
+    return quoteCancellationFee(kind, policy, stay, rules, new Date(booking.checkInDate), at);
+  }
+}
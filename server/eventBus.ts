@@ -81,4 +81,6 @@ export const EventTypes = {
   EXPENSE_ADDED: 'expense.added',
   BILL_GENERATED: 'bill.generated',
   BILL_PAID: 'bill.paid',
+  STOCK_LOW: 'inventory.low_stock',
+  STOCK_OUT: 'inventory.out_of_stock',
 } as const;
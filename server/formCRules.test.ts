@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Guest } from "@shared/schema";
+import { formCProblems, isForeignNational } from "./formCRules";
+
+const foreigner = {
+  nationality: "British",
+  dateOfBirth: "1990-05-01",
+  gender: "female",
+  address: "1 High Street, London",
+  passportNumber: "123456789",
+  passportPlaceOfIssue: "London",
+  passportIssueDate: "2020-01-01",
+  passportExpiryDate: "2030-01-01",
+  visaNumber: "V123",
+  visaType: "e-Visa",
+  visaPlaceOfIssue: "Online",
+  visaIssueDate: "2026-09-01",
+  visaExpiryDate: "2026-12-01",
+  arrivedInIndiaOn: "2026-10-01",
+  arrivedFrom: "London",
+  nextDestination: "Jaipur",
+  purposeOfVisit: "Tourism",
+} as Guest;
+
+test("Indian citizens and blank nationalities need no Form C", () => {
+  assert.equal(isForeignNational({ nationality: " India " }), false);
+  assert.equal(isForeignNational({ nationality: null }), false);
+  assert.deepEqual(formCProblems({ nationality: "Indian" } as Guest, "2026-10-19"), []);
+});
+
+test("a complete foreign guest can check in", () => {
+  assert.deepEqual(formCProblems(foreigner, "2026-10-19"), []);
+});
+
+test("missing fields and expired documents are reported", () => {
+  const problems = formCProblems({ ...foreigner, visaNumber: null, passportExpiryDate: "2026-10-01" }, "2026-10-19");
+  assert.deepEqual(problems, ["Visa number is missing", "Passport has expired"]);
+});
+
+test("Nepalese citizens need neither a passport nor a visa", () => {
+  const nepalese = { ...foreigner, nationality: "Nepalese", passportNumber: null, visaNumber: null, visaExpiryDate: "2020-01-01" };
+  assert.deepEqual(formCProblems(nepalese, "2026-10-19"), []);
+});
@@ -0,0 +1,41 @@
+import { FORM_C_FIELD_LABELS, VISA_EXEMPT_NATIONALITIES, type ForeignerDetails, type Guest } from "@shared/schema";
+
+const INDIAN_NATIONALITIES = ["india", "indian"];
+
+const STAY_FIELDS: (keyof ForeignerDetails)[] = [
+  "nationality", "dateOfBirth", "gender", "address",
+  "arrivedInIndiaOn", "arrivedFrom", "nextDestination", "purposeOfVisit",
+];
+const PASSPORT_FIELDS: (keyof ForeignerDetails)[] = [
+  "passportNumber", "passportPlaceOfIssue", "passportIssueDate", "passportExpiryDate",
+];
+const VISA_FIELDS: (keyof ForeignerDetails)[] = [
+  "visaNumber", "visaType", "visaPlaceOfIssue", "visaIssueDate", "visaExpiryDate",
+];
+
+function nationalityKey(guest: Pick<Guest, "nationality">): string {
+  return guest.nationality?.trim().toLowerCase() ?? "";
+}
+
+export function isForeignNational(guest: Pick<Guest, "nationality">): boolean {
+  const nationality = nationalityKey(guest);
+  return !!nationality && !INDIAN_NATIONALITIES.includes(nationality);
+}
+
+/**
+ * What stops a foreign guest from checking in: missing Form C fields, or a
+ * passport or visa that has expired by the given day (yyyy-MM-dd). Nepalese and
+ * Bhutanese citizens need neither a passport nor a visa.
+ */
+export function formCProblems(guest: Guest, day: string): string[] {
+  if (!isForeignNational(guest)) return [];
+  const exempt = VISA_EXEMPT_NATIONALITIES.includes(nationalityKey(guest));
+  const required = exempt ? STAY_FIELDS : [...STAY_FIELDS, ...PASSPORT_FIELDS, ...VISA_FIELDS];
+
+  const problems = required
+    .filter(field => !guest[field])
+    .map(field => `${FORM_C_FIELD_LABELS[field]} is missing`);
+  if (guest.passportExpiryDate && guest.passportExpiryDate < day) problems.push("Passport has expired");
+  if (!exempt && guest.visaExpiryDate && guest.visaExpiryDate < day) problems.push("Visa has expired");
+  return problems;
+}
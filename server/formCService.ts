@@ -0,0 +1,218 @@
+import { db } from "./db";
+import {
+  bookings,
+  formCRegistrations,
+  properties,
+  FORM_C_FIELD_LABELS,
+  type Booking,
+  type ForeignerDetails,
+  type FormCDetails,
+  type FormCRegistration,
+  type FormCRegistrationRow,
+  type Guest,
+} from "@shared/schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { addHours, differenceInCalendarDays } from "date-fns";
+import { DEFAULT_MENU_TIMEZONE, menuClock, type MenuClock } from "./menuClock";
+import { isForeignNational } from "./formCRules";
+
+export type FormCExportFormat = "csv" | "xml";
+
+export interface FormCFilter {
+  status?: string;
+  propertyIds?: number[];
+}
+
+export class FormCError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FormCError";
+    Object.setPrototypeOf(this, FormCError.prototype);
+  }
+}
+
+function snapshot(guest: Guest, arrival: MenuClock): FormCDetails {
+  const details = Object.fromEntries(
+    (Object.keys(FORM_C_FIELD_LABELS) as (keyof ForeignerDetails)[]).map(field => [field, guest[field] ?? null])
+  ) as ForeignerDetails;
+  const hours = String(Math.floor(arrival.minutes / 60)).padStart(2, "0");
+  const minutes = String(arrival.minutes % 60).padStart(2, "0");
+  return {
+    ...details,
+    fullName: guest.fullName,
+    phone: guest.phone,
+    arrivedAtHotelOn: arrival.date,
+    arrivedAtHotelTime: `${hours}:${minutes}`,
+  };
+}
+
+async function propertyTimeZone(propertyId: number): Promise<string> {
+  const [property] = await db.select({ timezone: properties.timezone }).from(properties).where(eq(properties.id, propertyId));
+  return property?.timezone || DEFAULT_MENU_TIMEZONE;
+}
+
+// FRRO forms use dd/MM/yyyy
+function formCDate(value: string | null | undefined): string {
+  if (!value) return "";
+  const [year, month, day] = value.split("-");
+  return `${day}/${month}/${year}`;
+}
+
+function splitName(fullName: string): { surname: string; givenName: string } {
+  const parts = fullName.trim().split(/\s+/);
+  if (parts.length === 1) return { surname: parts[0], givenName: "" };
+  return { surname: parts[parts.length - 1], givenName: parts.slice(0, -1).join(" ") };
+}
+
+interface FormCColumn {
+  header: string; // CSV header
+  tag: string; // XML element
+  value: (row: FormCRegistrationRow) => string;
+}
+
+// Laid out in the order of the FRRO Form C
+const COLUMNS: FormCColumn[] = [
+  { header: "Surname", tag: "Surname", value: row => splitName(row.details.fullName).surname },
+  { header: "Given Name", tag: "GivenName", value: row => splitName(row.details.fullName).givenName },
+  { header: "Gender", tag: "Gender", value: row => row.details.gender ?? "" },
+  { header: "Date of Birth", tag: "DateOfBirth", value: row => formCDate(row.details.dateOfBirth) },
+  { header: "Nationality", tag: "Nationality", value: row => row.details.nationality ?? "" },
+  { header: "Address in Home Country", tag: "PermanentAddress", value: row => row.details.address ?? "" },
+  { header: "Passport Number", tag: "PassportNumber", value: row => row.details.passportNumber ?? "" },
+  { header: "Passport Place of Issue", tag: "PassportPlaceOfIssue", value: row => row.details.passportPlaceOfIssue ?? "" },
+  { header: "Passport Issue Date", tag: "PassportIssueDate", value: row => formCDate(row.details.passportIssueDate) },
+  { header: "Passport Expiry Date", tag: "PassportExpiryDate", value: row => formCDate(row.details.passportExpiryDate) },
+  { header: "Visa Number", tag: "VisaNumber", value: row => row.details.visaNumber ?? "" },
+  { header: "Visa Type", tag: "VisaType", value: row => row.details.visaType ?? "" },
+  { header: "Visa Place of Issue", tag: "VisaPlaceOfIssue", value: row => row.details.visaPlaceOfIssue ?? "" },
+  { header: "Visa Issue Date", tag: "VisaIssueDate", value: row => formCDate(row.details.visaIssueDate) },
+  { header: "Visa Expiry Date", tag: "VisaExpiryDate", value: row => formCDate(row.details.visaExpiryDate) },
+  { header: "Arrived From", tag: "ArrivedFrom", value: row => row.details.arrivedFrom ?? "" },
+  { header: "Date of Arrival in India", tag: "DateOfArrivalInIndia", value: row => formCDate(row.details.arrivedInIndiaOn) },
+  { header: "Date of Arrival in Hotel", tag: "DateOfArrivalInHotel", value: row => formCDate(row.details.arrivedAtHotelOn) },
+  { header: "Time of Arrival in Hotel", tag: "TimeOfArrivalInHotel", value: row => row.details.arrivedAtHotelTime },
+  {
+    header: "Intended Duration (Days)",
+    tag: "IntendedDuration",
+    value: row => String(Math.max(1, differenceInCalendarDays(new Date(row.checkOutDate), new Date(row.checkInDate)))),
+  },
+  { header: "Next Destination", tag: "NextDestination", value: row => row.details.nextDestination ?? "" },
+  { header: "Purpose of Visit", tag: "PurposeOfVisit", value: row => row.details.purposeOfVisit ?? "" },
+  { header: "Contact Number in India", tag: "ContactNumberInIndia", value: row => row.details.phone },
+  { header: "Hotel", tag: "Hotel", value: row => row.propertyName ?? "" },
+  { header: "Booking ID", tag: "BookingId", value: row => String(row.bookingId) },
+  { header: "Status", tag: "Status", value: row => row.status },
+  { header: "FRRO Reference Number", tag: "ReferenceNumber", value: row => row.referenceNumber ?? "" },
+];
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function xmlText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Form C: foreign nationals staying at a hotel must be reported to the FRRO
+ * within 24 hours of arrival. A pending registration is created, with the
+ * guest's details as at check-in, when a foreign guest checks in; staff mark it
+ * submitted with the FRRO acknowledgement number once it has been filed.
+ */
+export class FormCService {
+  // Called when the booking's guest checks in; returns null for Indian guests
+  static async registerCheckIn(booking: Booking, guest: Guest, at: Date = new Date()): Promise<FormCRegistration | null> {
+    if (!isForeignNational(guest)) return null;
+    const arrival = menuClock(await propertyTimeZone(booking.propertyId), at);
+    const [registration] = await db
+      .insert(formCRegistrations)
+      .values({
+        bookingId: booking.id,
+        guestId: guest.id,
+        propertyId: booking.propertyId,
+        checkedInAt: at,
+        dueAt: addHours(at, 24),
+        details: snapshot(guest, arrival),
+      })
+      .onConflictDoNothing()
+      .returning();
+    return registration ?? null;
+  }
+
+  // Local date at the property, which passport and visa validity are checked against
+  static async checkInDay(propertyId: number, at: Date = new Date()): Promise<string> {
+    return menuClock(await propertyTimeZone(propertyId), at).date;
+  }
+
+  static async list(filter: FormCFilter = {}): Promise<FormCRegistrationRow[]> {
+    const conditions = [];
+    if (filter.status) conditions.push(eq(formCRegistrations.status, filter.status));
+    if (filter.propertyIds) {
+      if (filter.propertyIds.length === 0) return [];
+      conditions.push(inArray(formCRegistrations.propertyId, filter.propertyIds));
+    }
+
+    const rows = await db
+      .select({
+        registration: formCRegistrations,
+        propertyName: properties.name,
+        checkInDate: bookings.checkInDate,
+        checkOutDate: bookings.checkOutDate,
+      })
+      .from(formCRegistrations)
+      .innerJoin(bookings, eq(formCRegistrations.bookingId, bookings.id))
+      .leftJoin(properties, eq(formCRegistrations.propertyId, properties.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(formCRegistrations.checkedInAt));
+
+    const now = new Date();
+    return rows.map(row => ({
+      ...row.registration,
+      propertyName: row.propertyName,
+      checkInDate: row.checkInDate,
+      checkOutDate: row.checkOutDate,
+      isOverdue: row.registration.status === "pending" && new Date(row.registration.dueAt) < now,
+    }));
+  }
+
+  static async markSubmitted(id: number, referenceNumber: string, userId: string): Promise<FormCRegistration> {
+    const [existing] = await db.select().from(formCRegistrations).where(eq(formCRegistrations.id, id));
+    if (!existing) {
+      throw new FormCError("Form C registration not found");
+    }
+    const [registration] = await db
+      .update(formCRegistrations)
+      .set({
+        status: "submitted",
+        referenceNumber,
+        submittedAt: existing.submittedAt ?? new Date(),
+        submittedBy: existing.submittedBy ?? userId,
+        updatedAt: new Date(),
+      })
+      .where(eq(formCRegistrations.id, id))
+      .returning();
+    return registration;
+  }
+
+  static toCsv(rows: FormCRegistrationRow[]): string {
+    const lines = [
+      COLUMNS.map(column => csvCell(column.header)).join(","),
+      ...rows.map(row => COLUMNS.map(column => csvCell(column.value(row))).join(",")),
+    ];
+    return lines.join("\r\n") + "\r\n";
+  }
+
+  static toXml(rows: FormCRegistrationRow[]): string {
+    const records = rows.map(row => [
+      `  <FormC id="${row.id}">`,
+      ...COLUMNS.map(column => `    <${column.tag}>${xmlText(column.value(row))}</${column.tag}>`),
+      "  </FormC>",
+    ].join("\n"));
+    return ['<?xml version="1.0" encoding="UTF-8"?>', "<FormCRegistrations>", ...records, "</FormCRegistrations>", ""].join("\n");
+  }
+}
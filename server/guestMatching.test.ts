@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compareGuests, nameSimilarity, normalizePhone } from "./guestMatching";
+
+test("Indian mobile numbers compare the same however they are written", () => {
+  const phone = normalizePhone("9876543210");
+  assert.equal(normalizePhone("+91 98765 43210"), phone);
+  assert.equal(normalizePhone("098765-43210"), phone);
+  assert.equal(normalizePhone(null), "");
+});
+
+test("names match regardless of case, word order and middle names", () => {
+  assert.equal(nameSimilarity("Rahul", "RAHUL"), 1);
+  assert.equal(nameSimilarity("Sharma Rahul", "Rahul Sharma"), 1);
+  assert.equal(nameSimilarity("Rahul Sharma", "Rahul Kumar Sharma"), 0.9);
+  assert.ok(nameSimilarity("Rahul Sharma", "Priya Patel") < 0.5);
+  assert.equal(nameSimilarity("", "Rahul"), 0);
+});
+
+test("the same ID number, or a shared contact with a similar name, is the same person", () => {
+  const rahul = { fullName: "Rahul Sharma", phone: "+91 98765 43210", idProofNumber: "ABCD-1234" };
+  assert.deepEqual(compareGuests(rahul, { fullName: "R. Sharma", phone: "1111111111", idProofNumber: "abcd 1234" }), {
+    confidence: "exact",
+    reasons: ["Same ID number"],
+  });
+  assert.deepEqual(compareGuests(rahul, { fullName: "Sharma Rahul", phone: "9876543210" }), {
+    confidence: "exact",
+    reasons: ["Same phone", "Same name"],
+  });
+});
+
+test("a shared phone alone or a one-digit phone typo with a similar name is only likely", () => {
+  const rahul = { fullName: "Rahul Sharma", phone: "9876543210" };
+  assert.equal(compareGuests(rahul, { fullName: "Priya Patel", phone: "9876543210" })?.confidence, "likely");
+  assert.deepEqual(compareGuests(rahul, { fullName: "Rahul Sharma", phone: "9876543211" }), {
+    confidence: "likely",
+    reasons: ["Phone differs by one digit", "Same name"],
+  });
+  assert.equal(compareGuests(rahul, { fullName: "Rahul Sharma", phone: "9123456789" }), null);
+});
@@ -0,0 +1,130 @@
+import type { Guest, GuestMatchConfidence } from "@shared/schema";
+import { cleanIndianPhoneNumber } from "./whatsapp";
+
+// Details compared when looking for an existing profile of the same person
+export interface GuestIdentity {
+  fullName: string;
+  phone: string;
+  email?: string | null;
+  idProofNumber?: string | null;
+}
+
+// Names at least this similar (0-1) count as the same person when contact details also match
+const SIMILAR_NAME = 0.85;
+
+/**
+ * Phone in comparable form: the 10-digit Indian mobile number when it is one
+ * ("+91 98765 43210", "098765 43210" and "9876543210" all match), otherwise just its digits
+ */
+export function normalizePhone(phone: string | null | undefined): string {
+  if (!phone) return "";
+  try {
+    return cleanIndianPhoneNumber(phone);
+  } catch {
+    return phone.replace(/\D/g, "");
+  }
+}
+
+function normalizeEmail(email: string | null | undefined): string {
+  return email ? email.trim().toLowerCase() : "";
+}
+
+// ID numbers are compared without spaces or dashes; very short values are ignored
+function normalizeIdNumber(idNumber: string | null | undefined): string {
+  const cleaned = idNumber ? idNumber.toUpperCase().replace(/[^A-Z0-9]/g, "") : "";
+  return cleaned.length >= 4 ? cleaned : "";
+}
+
+function nameTokens(name: string): string[] {
+  return name.toLowerCase().replace(/[^a-z\s]/g, " ").split(/\s+/).filter(Boolean).sort();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 0-1 similarity of two names, ignoring word order and case. A name that
+ * contains all words of the other ("Rahul Sharma" / "Rahul Kumar Sharma")
+ * counts as similar.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+  const joinedA = tokensA.join(" ");
+  const joinedB = tokensB.join(" ");
+  if (joinedA === joinedB) return 1;
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  if (shorter.length > 1 && shorter.every(token => longer.includes(token))) return 0.9;
+  return 1 - editDistance(joinedA, joinedB) / Math.max(joinedA.length, joinedB.length);
+}
+
+// 10-digit numbers one typo apart
+function phonesOneDigitApart(a: string, b: string): boolean {
+  if (a.length !== 10 || b.length !== 10 || a === b) return false;
+  let differences = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i] && ++differences > 1) return false;
+  }
+  return differences === 1;
+}
+
+export function compareGuests(a: GuestIdentity, b: GuestIdentity): { confidence: GuestMatchConfidence; reasons: string[] } | null {
+  const phoneA = normalizePhone(a.phone);
+  const phoneB = normalizePhone(b.phone);
+  const samePhone = phoneA.length >= 6 && phoneA === phoneB;
+  const phoneTypo = phonesOneDigitApart(phoneA, phoneB);
+  const emailA = normalizeEmail(a.email);
+  const sameEmail = emailA !== "" && emailA === normalizeEmail(b.email);
+  const idA = normalizeIdNumber(a.idProofNumber);
+  const sameId = idA !== "" && idA === normalizeIdNumber(b.idProofNumber);
+  const similarity = nameSimilarity(a.fullName, b.fullName);
+  const similarName = similarity >= SIMILAR_NAME;
+
+  const reasons: string[] = [];
+  if (sameId) reasons.push("Same ID number");
+  if (samePhone) reasons.push("Same phone");
+  if (phoneTypo) reasons.push("Phone differs by one digit");
+  if (sameEmail) reasons.push("Same email");
+  if (similarName) reasons.push(similarity === 1 ? "Same name" : "Similar name");
+
+  if (sameId || ((samePhone || sameEmail) && similarName)) {
+    return { confidence: "exact", reasons };
+  }
+  // A shared phone without a matching name is often a family member or an agent booking for someone else
+  if (samePhone || sameEmail || (phoneTypo && similarName)) {
+    return { confidence: "likely", reasons };
+  }
+  return null;
+}
+
+// Keys that put possible duplicates in the same bucket, so the full scan only compares neighbours
+export function bucketKeys(guest: Guest): string[] {
+  const keys: string[] = [];
+  const phone = normalizePhone(guest.phone);
+  if (phone.length === 10) {
+    for (let i = 0; i < phone.length; i++) {
+      keys.push(`phone:${phone.slice(0, i)}*${phone.slice(i + 1)}`);
+    }
+  } else if (phone.length >= 6) {
+    keys.push(`phone:${phone}`);
+  }
+  const email = normalizeEmail(guest.email);
+  if (email) keys.push(`email:${email}`);
+  const idNumber = normalizeIdNumber(guest.idProofNumber);
+  if (idNumber) keys.push(`id:${idNumber}`);
+  return keys;
+}
@@ -0,0 +1,230 @@
+import { db } from "./db";
+import {
+  bills,
+  bookings,
+  communications,
+  guests,
+  loyaltyTiers,
+  orders,
+  properties,
+  rooms,
+  GUEST_PREFERENCE_LABELS,
+  type Bill,
+  type Booking,
+  type GuestBookingAlert,
+  type GuestLoyaltySummary,
+  type GuestPreferences,
+  type GuestProfile,
+  type GuestStats,
+  type LoyaltyTier,
+} from "@shared/schema";
+import { desc, eq, inArray, or } from "drizzle-orm";
+import { countNights } from "./stayPricing";
+import { getBookingRoomIds } from "./roomInventory";
+
+const UPCOMING_STATUSES = ["pending", "confirmed", "checked-in"];
+const CANCELLED_STATUSES = ["cancelled", "no-show"];
+
+type StatsBooking = Pick<Booking, "id" | "guestId" | "status" | "checkInDate" | "checkOutDate">;
+type StatsBill = Pick<Bill, "guestId" | "bookingId" | "mergedBookingIds" | "roomCharges" | "totalAmount">;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function billedBookingIds(bill: StatsBill): number[] {
+  return Array.from(new Set([bill.bookingId, ...(bill.mergedBookingIds || [])]));
+}
+
+function computeStats(guestBookings: StatsBooking[], guestBills: StatsBill[], bookingById: Map<number, StatsBooking>): GuestStats {
+  const completed = guestBookings.filter(b => b.status === "checked-out");
+
+  let nights = 0;
+  let roomCharges = 0;
+  let lifetimeSpend = 0;
+  for (const bill of guestBills) {
+    lifetimeSpend += parseFloat(bill.totalAmount);
+    roomCharges += parseFloat(bill.roomCharges);
+    for (const bookingId of billedBookingIds(bill)) {
+      const booking = bookingById.get(bookingId);
+      if (booking) nights += countNights(new Date(booking.checkInDate), new Date(booking.checkOutDate));
+    }
+  }
+
+  const stayed = guestBookings.filter(b => b.status === "checked-out" || b.status === "checked-in");
+  const firstStay = stayed.reduce<Date | null>((first, b) => {
+    const checkIn = new Date(b.checkInDate);
+    return !first || checkIn < first ? checkIn : first;
+  }, null);
+  const lastStay = completed.reduce<Date | null>((last, b) => {
+    const checkOut = new Date(b.checkOutDate);
+    return !last || checkOut > last ? checkOut : last;
+  }, null);
+
+  return {
+    completedStays: completed.length,
+    upcomingStays: guestBookings.filter(b => UPCOMING_STATUSES.includes(b.status)).length,
+    cancelledStays: guestBookings.filter(b => CANCELLED_STATUSES.includes(b.status)).length,
+    nights,
+    lifetimeSpend: round2(lifetimeSpend),
+    averageNightlyRate: nights > 0 ? round2(roomCharges / nights) : null,
+    firstStayAt: firstStay ? firstStay.toISOString() : null,
+    lastStayAt: lastStay ? lastStay.toISOString() : null,
+  };
+}
+
+// Lower tiers first: by spend, then by stays
+function rankTiers(tiers: LoyaltyTier[]): LoyaltyTier[] {
+  return tiers
+    .filter(tier => tier.isActive)
+    .sort((a, b) => parseFloat(a.minSpend) - parseFloat(b.minSpend) || a.minStays - b.minStays);
+}
+
+/**
+ * A guest is in the highest tier whose thresholds (stays and spend) they both
+ * meet; the next tier is the first higher one they don't meet yet
+ */
+export function tierFor(stats: GuestStats, tiers: LoyaltyTier[]): { tier: LoyaltyTier | null; nextTier: LoyaltyTier | null } {
+  const ranked = rankTiers(tiers);
+  const qualifies = (tier: LoyaltyTier) =>
+    stats.completedStays >= tier.minStays && stats.lifetimeSpend >= parseFloat(tier.minSpend);
+
+  let tierIndex = -1;
+  ranked.forEach((tier, index) => {
+    if (qualifies(tier)) tierIndex = index;
+  });
+  return {
+    tier: tierIndex >= 0 ? ranked[tierIndex] : null,
+    nextTier: ranked.slice(tierIndex + 1).find(tier => !qualifies(tier)) ?? null,
+  };
+}
+
+export function preferenceLines(preferences: GuestPreferences | null): string[] {
+  if (!preferences) return [];
+  return (Object.keys(GUEST_PREFERENCE_LABELS) as (keyof GuestPreferences)[])
+    .filter(key => preferences[key])
+    .map(key => `${GUEST_PREFERENCE_LABELS[key]}: ${preferences[key]}`);
+}
+
+/**
+ * Guest 360: stays, bills, orders and messages for one guest, with lifetime
+ * value and loyalty tier. Tiers are worked out on read from completed stays
+ * and billed spend, so changing the thresholds re-tiers everyone at once.
+ */
+export class GuestProfileService {
+  static async getProfile(guestId: number): Promise<GuestProfile | undefined> {
+    const [guest] = await db.select().from(guests).where(eq(guests.id, guestId));
+    if (!guest) return undefined;
+
+    const guestBookings = await db
+      .select()
+      .from(bookings)
+      .where(eq(bookings.guestId, guestId))
+      .orderBy(desc(bookings.checkInDate));
+    const bookingIds = guestBookings.map(b => b.id);
+
+    const [guestBills, guestOrders, guestCommunications, tiers] = await Promise.all([
+      db.select().from(bills).where(eq(bills.guestId, guestId)).orderBy(desc(bills.createdAt)),
+      db
+        .select()
+        .from(orders)
+        .where(bookingIds.length > 0 ? or(eq(orders.guestId, guestId), inArray(orders.bookingId, bookingIds)) : eq(orders.guestId, guestId))
+        .orderBy(desc(orders.createdAt)),
+      bookingIds.length > 0
+        ? db.select().from(communications).where(inArray(communications.bookingId, bookingIds)).orderBy(desc(communications.createdAt))
+        : Promise.resolve([]),
+      db.select().from(loyaltyTiers),
+    ]);
+
+    // Bills can cover other guests' bookings merged at checkout
+    const bookingById = new Map<number, StatsBooking>(guestBookings.map(b => [b.id, b]));
+    const otherIds = Array.from(new Set(guestBills.flatMap(billedBookingIds))).filter(id => !bookingById.has(id));
+    if (otherIds.length > 0) {
+      const others = await db.select().from(bookings).where(inArray(bookings.id, otherIds));
+      others.forEach(b => bookingById.set(b.id, b));
+    }
+
+    const roomIds = Array.from(new Set(guestBookings.flatMap(b => getBookingRoomIds(b))));
+    const propertyIds = Array.from(new Set(guestBookings.map(b => b.propertyId)));
+    const [roomRows, propertyRows] = await Promise.all([
+      roomIds.length > 0 ? db.select({ id: rooms.id, roomNumber: rooms.roomNumber }).from(rooms).where(inArray(rooms.id, roomIds)) : Promise.resolve([]),
+      propertyIds.length > 0 ? db.select({ id: properties.id, name: properties.name }).from(properties).where(inArray(properties.id, propertyIds)) : Promise.resolve([]),
+    ]);
+    const roomNumber = new Map(roomRows.map(r => [r.id, r.roomNumber]));
+    const propertyName = new Map(propertyRows.map(p => [p.id, p.name]));
+
+    const stats = computeStats(guestBookings, guestBills, bookingById);
+    return {
+      guest,
+      stats,
+      ...tierFor(stats, tiers),
+      bookings: guestBookings.map(booking => ({
+        ...booking,
+        propertyName: propertyName.get(booking.propertyId) ?? null,
+        roomNumbers: getBookingRoomIds(booking).map(id => roomNumber.get(id)).filter((n): n is string => !!n),
+      })),
+      bills: guestBills,
+      orders: guestOrders,
+      communications: guestCommunications,
+    };
+  }
+
+  // Tier and lifetime value for every guest with a booking, for the guest list
+  static async getLoyaltySummaries(): Promise<GuestLoyaltySummary[]> {
+    const [allBookings, allBills, tiers] = await Promise.all([
+      db
+        .select({
+          id: bookings.id,
+          guestId: bookings.guestId,
+          status: bookings.status,
+          checkInDate: bookings.checkInDate,
+          checkOutDate: bookings.checkOutDate,
+        })
+        .from(bookings),
+      db
+        .select({
+          guestId: bills.guestId,
+          bookingId: bills.bookingId,
+          mergedBookingIds: bills.mergedBookingIds,
+          roomCharges: bills.roomCharges,
+          totalAmount: bills.totalAmount,
+        })
+        .from(bills),
+      db.select().from(loyaltyTiers),
+    ]);
+
+    const bookingById = new Map(allBookings.map(b => [b.id, b]));
+    const bookingsByGuest = new Map<number, StatsBooking[]>();
+    allBookings.forEach(b => bookingsByGuest.set(b.guestId, [...(bookingsByGuest.get(b.guestId) || []), b]));
+    const billsByGuest = new Map<number, StatsBill[]>();
+    allBills.forEach(b => billsByGuest.set(b.guestId, [...(billsByGuest.get(b.guestId) || []), b]));
+
+    const guestIds = Array.from(new Set([...Array.from(bookingsByGuest.keys()), ...Array.from(billsByGuest.keys())]));
+    return guestIds.map(guestId => {
+      const stats = computeStats(bookingsByGuest.get(guestId) || [], billsByGuest.get(guestId) || [], bookingById);
+      const { tier } = tierFor(stats, tiers);
+      return {
+        guestId,
+        completedStays: stats.completedStays,
+        lifetimeSpend: stats.lifetimeSpend,
+        tierId: tier?.id ?? null,
+        tierName: tier?.name ?? null,
+      };
+    });
+  }
+
+  static async getBookingAlert(guestId: number): Promise<GuestBookingAlert | undefined> {
+    const profile = await this.getProfile(guestId);
+    if (!profile) return undefined;
+    return {
+      guestId,
+      fullName: profile.guest.fullName,
+      completedStays: profile.stats.completedStays,
+      lastStayAt: profile.stats.lastStayAt,
+      tierName: profile.tier?.name ?? null,
+      tierBenefits: profile.tier?.benefits ?? null,
+      preferences: preferenceLines(profile.guest.preferenceProfile),
+      notes: profile.guest.preferences,
+    };
+  }
+}
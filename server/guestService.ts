@@ -0,0 +1,243 @@
+import { db } from "./db";
+import {
+  bills,
+  bookings,
+  formCRegistrations,
+  guests,
+  orders,
+  type Guest,
+  type GuestDuplicateGroup,
+  type GuestDuplicateMatch,
+  type GuestMatchConfidence,
+} from "@shared/schema";
+import { eq, inArray, sql } from "drizzle-orm";
+import { bucketKeys, compareGuests, type GuestIdentity } from "./guestMatching";
+
+export type NewGuest = typeof guests.$inferInsert;
+
+export interface GuestMergeResult {
+  guest: Guest;
+  mergedGuestIds: number[];
+  moved: { bookings: number; orders: number; bills: number; formCRegistrations: number };
+}
+
+export class GuestMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GuestMergeError";
+    Object.setPrototypeOf(this, GuestMergeError.prototype);
+  }
+}
+
+// Placeholder phones or emails shared by many walk-ins say nothing about who is who
+const MAX_BUCKET_SIZE = 50;
+
+type FillableField = keyof Guest & keyof NewGuest;
+
+/**
+ * Fields a merge copies onto the surviving profile when it has none of its
+ * own. Each group describes one document, so its fields come from one donor:
+ * an ID number is never paired with another person's ID photo.
+ */
+const FILLABLE_GROUPS: FillableField[][] = [
+  ["email"],
+  ["idProofType", "idProofNumber", "idProofImage"],
+  ["address"],
+  ["gstin", "companyName"],
+  ["nationality", "dateOfBirth", "gender"],
+  ["passportNumber", "passportPlaceOfIssue", "passportIssueDate", "passportExpiryDate"],
+  ["visaNumber", "visaType", "visaPlaceOfIssue", "visaIssueDate", "visaExpiryDate"],
+  ["arrivedInIndiaOn", "arrivedFrom", "nextDestination", "purposeOfVisit"],
+];
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+/**
+ * Details the profile lacks, taken from other records of the same person. A
+ * group the profile has nothing of is copied whole from the first source that
+ * has any of it; a partly filled group is topped up only from a source whose
+ * values agree with what the profile already has.
+ */
+function fillMissing(profile: Guest, sources: Partial<NewGuest>[]): Partial<Guest> {
+  const same = (a: unknown, b: unknown) => String(a).trim().toLowerCase() === String(b).trim().toLowerCase();
+  const updates: Record<string, unknown> = {};
+  for (const group of FILLABLE_GROUPS) {
+    const missing = group.filter(field => isBlank(profile[field]));
+    if (missing.length === 0) continue;
+    const known = group.filter(field => !isBlank(profile[field]));
+    const donor = sources.find(source =>
+      missing.some(field => !isBlank(source[field])) &&
+      known.every(field => isBlank(source[field]) || same(source[field], profile[field]))
+    );
+    if (!donor) continue;
+    for (const field of missing) {
+      if (!isBlank(donor[field])) updates[field] = donor[field];
+    }
+  }
+  return updates as Partial<Guest>;
+}
+
+/**
+ * Duplicate guest detection and merging. Phones are compared in normalized
+ * form, names fuzzily; a name alone never makes two guests duplicates.
+ */
+export class GuestService {
+  static async findDuplicates(identity: GuestIdentity, excludeGuestId?: number): Promise<GuestDuplicateMatch[]> {
+    const allGuests = await db.select().from(guests);
+    const matches: GuestDuplicateMatch[] = [];
+    for (const guest of allGuests) {
+      if (guest.id === excludeGuestId) continue;
+      const match = compareGuests(identity, guest);
+      if (match) matches.push({ guest, ...match });
+    }
+    return matches.sort((a, b) =>
+      a.confidence === b.confidence ? b.guest.totalStays - a.guest.totalStays : a.confidence === "exact" ? -1 : 1
+    );
+  }
+
+  // The existing profile of this person: the clear match with the most stays
+  static async findSamePerson(identity: GuestIdentity): Promise<Guest | undefined> {
+    const exact = (await this.findDuplicates(identity)).filter(match => match.confidence === "exact");
+    return exact.length > 0 ? exact[0].guest : undefined;
+  }
+
+  /**
+   * Reuse the guest's existing profile when one clearly matches, filling in
+   * details it lacks; otherwise create a new profile
+   */
+  static async reuseOrCreate(data: NewGuest): Promise<{ guest: Guest; created: boolean }> {
+    const existing = await this.findSamePerson(data);
+    if (!existing) {
+      const [guest] = await db.insert(guests).values(data).returning();
+      return { guest, created: true };
+    }
+    const updates = fillMissing(existing, [data]);
+    if (Object.keys(updates).length === 0) {
+      return { guest: existing, created: false };
+    }
+    const [guest] = await db
+      .update(guests)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(guests.id, existing.id))
+      .returning();
+    return { guest, created: false };
+  }
+
+  // Groups of guests that look like the same person, for review before merging
+  static async findDuplicateGroups(): Promise<GuestDuplicateGroup[]> {
+    const allGuests = await db.select().from(guests);
+    const buckets = new Map<string, Guest[]>();
+    for (const guest of allGuests) {
+      for (const key of bucketKeys(guest)) {
+        const bucket = buckets.get(key) || [];
+        bucket.push(guest);
+        buckets.set(key, bucket);
+      }
+    }
+
+    // Union-find over matching pairs
+    const parent = new Map<number, number>();
+    const find = (id: number): number => {
+      const next = parent.get(id) ?? id;
+      if (next === id) return id;
+      const root = find(next);
+      parent.set(id, root);
+      return root;
+    };
+    const links = new Map<string, { confidence: GuestMatchConfidence; reasons: string[] }>();
+    for (const bucket of Array.from(buckets.values())) {
+      if (bucket.length < 2 || bucket.length > MAX_BUCKET_SIZE) continue;
+      for (let i = 0; i < bucket.length; i++) {
+        for (let j = i + 1; j < bucket.length; j++) {
+          const [a, b] = bucket[i].id < bucket[j].id ? [bucket[i], bucket[j]] : [bucket[j], bucket[i]];
+          const pairKey = `${a.id}:${b.id}`;
+          if (links.has(pairKey)) continue;
+          const match = compareGuests(a, b);
+          if (!match) continue;
+          links.set(pairKey, match);
+          parent.set(find(b.id), find(a.id));
+        }
+      }
+    }
+
+    const groups = new Map<number, { guests: Guest[]; confidence: GuestMatchConfidence; reasons: Set<string> }>();
+    for (const guest of allGuests) {
+      if (!parent.has(guest.id)) continue;
+      const root = find(guest.id);
+      const group = groups.get(root) || { guests: [], confidence: "exact" as GuestMatchConfidence, reasons: new Set<string>() };
+      group.guests.push(guest);
+      groups.set(root, group);
+    }
+    for (const [pairKey, match] of Array.from(links.entries())) {
+      const group = groups.get(find(parseInt(pairKey.split(":")[0], 10)));
+      if (!group) continue;
+      if (match.confidence === "likely") group.confidence = "likely";
+      match.reasons.forEach(reason => group.reasons.add(reason));
+    }
+
+    return Array.from(groups.values())
+      .filter(group => group.guests.length > 1)
+      .map(group => ({
+        confidence: group.confidence,
+        reasons: Array.from(group.reasons),
+        guests: group.guests.sort((a, b) => b.totalStays - a.totalStays || a.id - b.id),
+      }))
+      .sort((a, b) => (a.confidence === b.confidence ? b.guests.length - a.guests.length : a.confidence === "exact" ? -1 : 1));
+  }
+
+  /**
+   * Fold duplicate profiles into the surviving guest: bookings, orders, bills
+   * and Form C registrations move over (booking communications follow their
+   * bookings), details the survivor lacks are copied across, totalStays is
+   * recounted and the duplicates are deleted.
+   */
+  static async merge(survivorId: number, duplicateIds: number[]): Promise<GuestMergeResult> {
+    const ids = Array.from(new Set(duplicateIds)).filter(id => id !== survivorId);
+    if (ids.length === 0) {
+      throw new GuestMergeError("Pick at least one other guest to merge");
+    }
+
+    return await db.transaction(async (tx) => {
+      const [survivor] = await tx.select().from(guests).where(eq(guests.id, survivorId));
+      if (!survivor) {
+        throw new GuestMergeError("Guest not found");
+      }
+      const duplicates = await tx.select().from(guests).where(inArray(guests.id, ids));
+      if (duplicates.length !== ids.length) {
+        throw new GuestMergeError("Some of the guests to merge no longer exist");
+      }
+
+      const movedBookings = await tx.update(bookings).set({ guestId: survivorId, updatedAt: new Date() }).where(inArray(bookings.guestId, ids)).returning({ id: bookings.id });
+      const movedOrders = await tx.update(orders).set({ guestId: survivorId, updatedAt: new Date() }).where(inArray(orders.guestId, ids)).returning({ id: orders.id });
+      const movedBills = await tx.update(bills).set({ guestId: survivorId }).where(inArray(bills.guestId, ids)).returning({ id: bills.id });
+      const movedFormC = await tx.update(formCRegistrations).set({ guestId: survivorId, updatedAt: new Date() }).where(inArray(formCRegistrations.guestId, ids)).returning({ id: formCRegistrations.id });
+
+      const updates = fillMissing(survivor, duplicates);
+      const preferences = Array.from(new Set(
+        [survivor, ...duplicates].map(g => g.preferences?.trim()).filter((p): p is string => !!p)
+      ));
+      if (preferences.length > 0) updates.preferences = preferences.join("\n");
+
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(bookings)
+        .where(eq(bookings.guestId, survivorId));
+
+      const [guest] = await tx
+        .update(guests)
+        .set({ ...updates, totalStays: count, updatedAt: new Date() })
+        .where(eq(guests.id, survivorId))
+        .returning();
+
+      await tx.delete(guests).where(inArray(guests.id, ids));
+
+      return {
+        guest,
+        mergedGuestIds: ids,
+        moved: { bookings: movedBookings.length, orders: movedOrders.length, bills: movedBills.length, formCRegistrations: movedFormC.length },
+      };
+    });
+  }
+}
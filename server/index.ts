@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { NightAuditService } from "./nightAuditService";
 import path from "path";
 
 const app = express();
@@ -80,6 +81,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    NightAuditService.startScheduler();
   });
 })();
 
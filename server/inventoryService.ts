@@ -0,0 +1,405 @@
+import { db } from "./db";
+import {
+  expenseCategories,
+  menuItems,
+  orderItems,
+  orders,
+  propertyExpenses,
+  recipeIngredients,
+  stockItems,
+  stockMovements,
+  type PropertyExpense,
+  type RecipeIngredient,
+  type StockItem,
+  type StockMovement,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, isNull, or, sql } from "drizzle-orm";
+import { z } from "zod";
+import { eventBus, EventTypes } from "./eventBus";
+import type { DbTransaction } from "./reservationService";
+
+export const stockPurchaseInputSchema = z.object({
+  stockItemId: z.coerce.number().int().positive(),
+  quantity: z.coerce.number().positive(),
+  unitCost: z.coerce.number().min(0),
+  vendorName: z.string().trim().max(255).optional(),
+  paymentMethod: z.string().max(50).optional(),
+  receiptNumber: z.string().trim().max(100).optional(),
+  purchaseDate: z.coerce.date().optional(),
+  postToExpenses: z.boolean().default(true),
+  expenseCategoryId: z.coerce.number().int().positive().optional(), // Defaults to the property's Groceries category
+});
+
+export const stockAdjustmentInputSchema = z.object({
+  stockItemId: z.coerce.number().int().positive(),
+  movementType: z.enum(["adjustment", "wastage"]),
+  quantity: z.coerce.number().min(0), // Counted stock for an adjustment, amount thrown away for wastage
+  notes: z.string().trim().min(1, "A note is required").max(500),
+});
+
+export const recipeInputSchema = z.object({
+  variantId: z.coerce.number().int().positive().nullable().default(null), // Null for the base recipe
+  ingredients: z.array(z.object({
+    stockItemId: z.coerce.number().int().positive(),
+    quantity: z.coerce.number().positive(), // Per portion, in the stock item's unit
+  })),
+});
+
+export type StockPurchaseInput = z.infer<typeof stockPurchaseInputSchema>;
+export type StockAdjustmentInput = z.infer<typeof stockAdjustmentInputSchema>;
+export type RecipeInput = z.infer<typeof recipeInputSchema>;
+
+export class InventoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InventoryError";
+    Object.setPrototypeOf(this, InventoryError.prototype);
+  }
+}
+
+export interface RecipeLine extends RecipeIngredient {
+  stockItemName: string;
+  unit: string;
+}
+
+interface StockChange {
+  item: StockItem; // After the movement
+  previousQuantity: number;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+async function lockStockItems(tx: DbTransaction, ids: number[]): Promise<StockItem[]> {
+  if (ids.length === 0) return [];
+  // Fixed lock order so concurrent deliveries can't deadlock
+  return await tx
+    .select()
+    .from(stockItems)
+    .where(inArray(stockItems.id, ids))
+    .orderBy(asc(stockItems.id))
+    .for("update");
+}
+
+async function applyMovement(
+  tx: DbTransaction,
+  item: StockItem,
+  delta: number,
+  movement: Omit<typeof stockMovements.$inferInsert, "stockItemId" | "propertyId" | "quantity" | "balanceAfter">,
+  itemChanges: Partial<typeof stockItems.$inferInsert> = {}
+): Promise<{ movement: StockMovement; change: StockChange }> {
+  const previousQuantity = parseFloat(item.currentQuantity);
+  const balance = round3(previousQuantity + delta);
+  const [updated] = await tx
+    .update(stockItems)
+    .set({ ...itemChanges, currentQuantity: balance.toFixed(3), updatedAt: new Date() })
+    .where(eq(stockItems.id, item.id))
+    .returning();
+  const [created] = await tx
+    .insert(stockMovements)
+    .values({
+      ...movement,
+      stockItemId: item.id,
+      propertyId: item.propertyId,
+      quantity: round3(delta).toFixed(3),
+      balanceAfter: balance.toFixed(3),
+    })
+    .returning();
+  return { movement: created, change: { item: updated, previousQuantity } };
+}
+
+/**
+ * Kitchen stock. Quantities only move through the stock_movements ledger:
+ * purchases, recipe consumption when an order is delivered, stock-take
+ * adjustments and wastage. When an ingredient runs out, the menu items whose
+ * recipes use it are taken off the menu until it is restocked.
+ */
+export class InventoryService {
+  static async listMovements(filters: { propertyId?: number; stockItemId?: number; limit?: number }): Promise<StockMovement[]> {
+    const conditions = [];
+    if (filters.propertyId !== undefined) conditions.push(eq(stockMovements.propertyId, filters.propertyId));
+    if (filters.stockItemId !== undefined) conditions.push(eq(stockMovements.stockItemId, filters.stockItemId));
+    return await db
+      .select()
+      .from(stockMovements)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(stockMovements.createdAt), desc(stockMovements.id))
+      .limit(filters.limit ?? 100);
+  }
+
+  static async getRecipe(menuItemId: number): Promise<RecipeLine[]> {
+    const rows = await db
+      .select({ ingredient: recipeIngredients, stockItemName: stockItems.name, unit: stockItems.unit })
+      .from(recipeIngredients)
+      .innerJoin(stockItems, eq(recipeIngredients.stockItemId, stockItems.id))
+      .where(eq(recipeIngredients.menuItemId, menuItemId))
+      .orderBy(asc(recipeIngredients.variantId), asc(stockItems.name));
+    return rows.map(({ ingredient, stockItemName, unit }) => ({ ...ingredient, stockItemName, unit }));
+  }
+
+  /**
+   * Replace the base recipe of a menu item, or the recipe of one of its variants
+   */
+  static async replaceRecipe(menuItemId: number, input: RecipeInput): Promise<RecipeLine[]> {
+    await db.transaction(async (tx) => {
+      const [item] = await tx.select().from(menuItems).where(eq(menuItems.id, menuItemId));
+      if (!item) {
+        throw new InventoryError("Menu item not found");
+      }
+      const stockIds = Array.from(new Set(input.ingredients.map(i => i.stockItemId)));
+      if (stockIds.length !== input.ingredients.length) {
+        throw new InventoryError("Each stock item can only be listed once in a recipe");
+      }
+      const stock = stockIds.length > 0
+        ? await tx.select().from(stockItems).where(inArray(stockItems.id, stockIds))
+        : [];
+      if (stock.length !== stockIds.length) {
+        throw new InventoryError("Stock item not found");
+      }
+      if (item.propertyId !== null && stock.some(s => s.propertyId !== item.propertyId)) {
+        throw new InventoryError("Recipe ingredients must be stocked at the menu item's property");
+      }
+
+      await tx
+        .delete(recipeIngredients)
+        .where(and(
+          eq(recipeIngredients.menuItemId, menuItemId),
+          input.variantId !== null ? eq(recipeIngredients.variantId, input.variantId) : isNull(recipeIngredients.variantId),
+        ));
+      if (input.ingredients.length > 0) {
+        await tx.insert(recipeIngredients).values(input.ingredients.map(i => ({
+          menuItemId,
+          variantId: input.variantId,
+          stockItemId: i.stockItemId,
+          quantity: i.quantity.toFixed(3),
+        })));
+      }
+    });
+    return await this.getRecipe(menuItemId);
+  }
+
+  /**
+   * Take a delivered order's ingredients out of stock. Runs once per order;
+   * stock may go negative, as the food has already been served.
+   */
+  static async deductForOrder(orderId: number, createdBy: string | null): Promise<StockMovement[]> {
+    const changes: StockChange[] = [];
+    const movements = await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      if (!order) {
+        throw new InventoryError("Order not found");
+      }
+      if (order.status !== "delivered") {
+        throw new InventoryError("Stock is only deducted for delivered orders");
+      }
+      const [already] = await tx
+        .select({ id: stockMovements.id })
+        .from(stockMovements)
+        .where(and(eq(stockMovements.orderId, orderId), eq(stockMovements.movementType, "consumption")))
+        .limit(1);
+      if (already) return [];
+
+      const lines = await tx
+        .select()
+        .from(orderItems)
+        .where(and(eq(orderItems.orderId, orderId), sql`${orderItems.status} <> 'cancelled'`));
+      const menuItemIds = Array.from(new Set(lines.map(l => l.menuItemId).filter((id): id is number => id !== null)));
+      const recipes = menuItemIds.length > 0
+        ? await tx.select().from(recipeIngredients).where(inArray(recipeIngredients.menuItemId, menuItemIds))
+        : [];
+
+      const usage = new Map<number, number>();
+      for (const line of lines) {
+        const forItem = recipes.filter(r => r.menuItemId === line.menuItemId);
+        const forVariant = line.variantId !== null ? forItem.filter(r => r.variantId === line.variantId) : [];
+        const recipe = forVariant.length > 0 ? forVariant : forItem.filter(r => r.variantId === null);
+        for (const ingredient of recipe) {
+          usage.set(ingredient.stockItemId, (usage.get(ingredient.stockItemId) ?? 0) + line.quantity * parseFloat(ingredient.quantity));
+        }
+      }
+
+      const created: StockMovement[] = [];
+      for (const item of await lockStockItems(tx, Array.from(usage.keys()))) {
+        const { movement, change } = await applyMovement(tx, item, -usage.get(item.id)!, {
+          movementType: "consumption",
+          orderId,
+          unitCost: item.costPerUnit,
+          notes: `Order #${orderId}`,
+          createdBy,
+        });
+        created.push(movement);
+        changes.push(change);
+      }
+      return created;
+    });
+
+    await this.afterStockChange(changes);
+    return movements;
+  }
+
+  /**
+   * Deduct stock for an order that was just delivered. Failures are logged,
+   * never thrown, so delivering an order doesn't depend on the inventory.
+   */
+  static async consumeForOrder(orderId: number, createdBy: string | null): Promise<void> {
+    try {
+      await this.deductForOrder(orderId, createdBy);
+    } catch (error: any) {
+      console.error(`[Inventory] Order #${orderId} - Stock not deducted:`, error.message);
+    }
+  }
+
+  static async recordPurchase(
+    input: StockPurchaseInput,
+    createdBy: string | null
+  ): Promise<{ movement: StockMovement; expense: PropertyExpense | null }> {
+    const changes: StockChange[] = [];
+    const result = await db.transaction(async (tx) => {
+      const [item] = await lockStockItems(tx, [input.stockItemId]);
+      if (!item) {
+        throw new InventoryError("Stock item not found");
+      }
+
+      let expense: PropertyExpense | null = null;
+      if (input.postToExpenses) {
+        let categoryId = input.expenseCategoryId ?? null;
+        if (categoryId === null) {
+          const [groceries] = await tx
+            .select({ id: expenseCategories.id })
+            .from(expenseCategories)
+            .where(and(
+              sql`lower(${expenseCategories.name}) = 'groceries'`,
+              or(eq(expenseCategories.propertyId, item.propertyId), isNull(expenseCategories.propertyId)),
+            ))
+            .orderBy(sql`${expenseCategories.propertyId} is null`)
+            .limit(1);
+          categoryId = groceries?.id ?? null;
+        }
+        [expense] = await tx
+          .insert(propertyExpenses)
+          .values({
+            propertyId: item.propertyId,
+            categoryId,
+            amount: (input.quantity * input.unitCost).toFixed(2),
+            expenseDate: input.purchaseDate ?? new Date(),
+            description: `Stock purchase: ${input.quantity} ${item.unit} ${item.name}`,
+            vendorName: input.vendorName || null,
+            paymentMethod: input.paymentMethod || null,
+            receiptNumber: input.receiptNumber || null,
+            createdBy,
+          })
+          .returning();
+      }
+
+      const { movement, change } = await applyMovement(
+        tx,
+        item,
+        input.quantity,
+        {
+          movementType: "purchase",
+          unitCost: input.unitCost.toFixed(2),
+          expenseId: expense?.id ?? null,
+          vendorName: input.vendorName || null,
+          createdBy,
+        },
+        { costPerUnit: input.unitCost.toFixed(2) }
+      );
+      changes.push(change);
+      return { movement, expense };
+    });
+
+    if (result.expense) {
+      eventBus.publish({
+        type: EventTypes.EXPENSE_ADDED,
+        data: result.expense,
+        propertyId: result.expense.propertyId,
+      });
+    }
+    await this.afterStockChange(changes);
+    return result;
+  }
+
+  static async recordAdjustment(input: StockAdjustmentInput, createdBy: string | null): Promise<StockMovement> {
+    const changes: StockChange[] = [];
+    const movement = await db.transaction(async (tx) => {
+      const [item] = await lockStockItems(tx, [input.stockItemId]);
+      if (!item) {
+        throw new InventoryError("Stock item not found");
+      }
+      const delta = input.movementType === "adjustment"
+        ? round3(input.quantity - parseFloat(item.currentQuantity))
+        : -input.quantity;
+      if (delta === 0) {
+        throw new InventoryError(input.movementType === "adjustment" ? "Stock already matches the count" : "Enter the quantity wasted");
+      }
+      const applied = await applyMovement(tx, item, delta, {
+        movementType: input.movementType,
+        unitCost: item.costPerUnit,
+        notes: input.notes,
+        createdBy,
+      });
+      changes.push(applied.change);
+      return applied.movement;
+    });
+
+    await this.afterStockChange(changes);
+    return movement;
+  }
+
+  /**
+   * Alert when stock crosses its reorder level, and take menu items off (or
+   * back on) the menu when an ingredient runs out (or is restocked)
+   */
+  private static async afterStockChange(changes: StockChange[]): Promise<void> {
+    for (const { item, previousQuantity } of changes) {
+      const quantity = parseFloat(item.currentQuantity);
+      const reorderLevel = parseFloat(item.reorderLevel);
+      const usedBy = db
+        .select({ id: recipeIngredients.menuItemId })
+        .from(recipeIngredients)
+        .where(eq(recipeIngredients.stockItemId, item.id));
+
+      if (quantity <= 0 && previousQuantity > 0) {
+        const disabled = await db
+          .update(menuItems)
+          .set({ isAvailable: false, stockedOut: true, updatedAt: new Date() })
+          .where(and(inArray(menuItems.id, usedBy), eq(menuItems.isAvailable, true)))
+          .returning({ id: menuItems.id, name: menuItems.name });
+        eventBus.publish({
+          type: EventTypes.STOCK_OUT,
+          propertyId: item.propertyId,
+          data: { stockItemId: item.id, name: item.name, unit: item.unit, quantity, menuItems: disabled },
+        });
+      } else if (quantity <= reorderLevel && previousQuantity > reorderLevel) {
+        eventBus.publish({
+          type: EventTypes.STOCK_LOW,
+          propertyId: item.propertyId,
+          data: { stockItemId: item.id, name: item.name, unit: item.unit, quantity, reorderLevel },
+        });
+      }
+
+      if (quantity > 0 && previousQuantity <= 0) {
+        // Back on the menu once none of the item's ingredients are out
+        const candidates = await db
+          .select({ id: menuItems.id })
+          .from(menuItems)
+          .where(and(inArray(menuItems.id, usedBy), eq(menuItems.stockedOut, true)));
+        if (candidates.length === 0) continue;
+        const ids = candidates.map(c => c.id);
+        const stillOut = await db
+          .selectDistinct({ id: recipeIngredients.menuItemId })
+          .from(recipeIngredients)
+          .innerJoin(stockItems, eq(recipeIngredients.stockItemId, stockItems.id))
+          .where(and(inArray(recipeIngredients.menuItemId, ids), sql`${stockItems.currentQuantity} <= 0`));
+        const restore = ids.filter(id => !stillOut.some(s => s.id === id));
+        if (restore.length > 0) {
+          await db
+            .update(menuItems)
+            .set({ isAvailable: true, stockedOut: false, updatedAt: new Date() })
+            .where(inArray(menuItems.id, restore));
+        }
+      }
+    }
+  }
+}
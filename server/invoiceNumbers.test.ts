@@ -0,0 +1,19 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { defaultInvoicePrefix, formatInvoiceNumber, getFinancialYear } from "./invoiceNumbers";
+
+test("financial years run from April to March", () => {
+  assert.equal(getFinancialYear(new Date(2026, 2, 31)), "25-26");
+  assert.equal(getFinancialYear(new Date(2026, 3, 1)), "26-27");
+  assert.equal(getFinancialYear(new Date(2099, 11, 1)), "99-00");
+});
+
+test("invoice numbers are prefix, financial year and a padded sequence", () => {
+  assert.equal(formatInvoiceNumber("HTH", "26-27", 42), "HTH/26-27/000042");
+});
+
+test("the default prefix is the property's initials", () => {
+  assert.equal(defaultInvoicePrefix("Hostezze Tree House"), "HTH");
+  assert.equal(defaultInvoicePrefix("The Old Mill & River Lodge"), "TOMR");
+  assert.equal(defaultInvoicePrefix("   "), "INV");
+});
@@ -0,0 +1,25 @@
+/**
+ * Indian financial year (April to March) as "24-25"
+ */
+export function getFinancialYear(date: Date): string {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  const short = (year: number) => String(year % 100).padStart(2, "0");
+  return `${short(startYear)}-${short(startYear + 1)}`;
+}
+
+/**
+ * Prefix used when a property has no invoicePrefix: initials of its name (e.g., "Hostezze Tree House" → "HTH")
+ */
+export function defaultInvoicePrefix(propertyName: string): string {
+  const initials = propertyName
+    .split(/\s+/)
+    .map(word => word.replace(/[^A-Za-z0-9]/g, "").charAt(0))
+    .join("")
+    .toUpperCase()
+    .slice(0, 4);
+  return initials || "INV";
+}
+
+export function formatInvoiceNumber(prefix: string, financialYear: string, sequence: number): string {
+  return `${prefix}/${financialYear}/${String(sequence).padStart(6, "0")}`;
+}
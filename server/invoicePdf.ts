@@ -0,0 +1,255 @@
+/**
+ * Minimal PDF writer for invoices (A4, standard Type 1 fonts, no dependencies).
+ * Text is encoded as WinAnsi, so the rupee sign is written as "Rs." and other
+ * characters outside Latin-1 are replaced.
+ */
+
+type FontName = "regular" | "bold" | "mono";
+
+const FONT_RESOURCES: Record<FontName, { key: string; baseFont: string }> = {
+  regular: { key: "F1", baseFont: "Helvetica" },
+  bold: { key: "F2", baseFont: "Helvetica-Bold" },
+  mono: { key: "F3", baseFont: "Courier" },
+};
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+// Courier glyphs are 600/1000 em wide, which makes right-aligned amounts exact
+const MONO_CHAR_WIDTH = 0.6;
+
+export interface InvoicePdfLine {
+  date?: string | null;
+  description: string;
+  amount: string;
+  emphasis?: boolean;
+}
+
+export interface InvoicePdfData {
+  title: string; // "TAX INVOICE" or "INVOICE"
+  seller: {
+    name: string;
+    address?: string | null;
+    phone?: string | null;
+    email?: string | null;
+    gstin?: string | null;
+  };
+  invoiceNumber: string;
+  invoiceDate: string;
+  buyer: {
+    name: string;
+    companyName?: string | null;
+    gstin?: string | null;
+    phone?: string | null;
+    email?: string | null;
+  };
+  stay: {
+    checkIn: string;
+    checkOut: string;
+    rooms: string;
+    guests: number;
+  };
+  lines: InvoicePdfLine[];
+  totals: Array<{ label: string; amount: string; emphasis?: boolean }>;
+  footerNotes: string[];
+}
+
+function toWinAnsi(value: string): string {
+  return value
+    .replace(/₹\s?/g, "Rs. ")
+    .replace(/[–—]/g, "-")
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\xff]/g, "?");
+}
+
+function escapePdfText(value: string): string {
+  return toWinAnsi(value).replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+}
+
+function truncate(value: string, maxChars: number): string {
+  return value.length > maxChars ? `${value.slice(0, maxChars - 3)}...` : value;
+}
+
+class PdfPageWriter {
+  readonly pages: string[][] = [];
+  private y = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  get cursor(): number {
+    return this.y;
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.y = MARGIN;
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  // Break to a new page when fewer than `height` points remain
+  ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN) {
+      this.addPage();
+    }
+  }
+
+  moveDown(points: number) {
+    this.y += points;
+  }
+
+  text(x: number, value: string, size = 10, font: FontName = "regular") {
+    const baseline = PAGE_HEIGHT - this.y - size;
+    this.ops.push(`BT /${FONT_RESOURCES[font].key} ${size} Tf ${x.toFixed(2)} ${baseline.toFixed(2)} Td (${escapePdfText(value)}) Tj ET`);
+  }
+
+  textRight(rightX: number, value: string, size = 10) {
+    const width = toWinAnsi(value).length * size * MONO_CHAR_WIDTH;
+    this.text(rightX - width, value, size, "mono");
+  }
+
+  rule(weight = 0.5) {
+    const y = PAGE_HEIGHT - this.y;
+    this.ops.push(`${weight} w ${MARGIN} ${y.toFixed(2)} m ${(PAGE_WIDTH - MARGIN).toFixed(2)} ${y.toFixed(2)} l S`);
+  }
+}
+
+function serialize(pages: string[][]): Buffer {
+  const objects: string[] = [];
+  const fontIds: Record<string, number> = {};
+
+  // 1: catalog, 2: page tree, then fonts, then page + content pairs
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  let nextId = 3;
+  for (const font of Object.values(FONT_RESOURCES)) {
+    fontIds[font.key] = nextId;
+    objects[nextId++] = `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`;
+  }
+  const fontDict = Object.entries(fontIds).map(([key, id]) => `/${key} ${id} 0 R`).join(" ");
+
+  const pageIds: number[] = [];
+  for (const ops of pages) {
+    const pageId = nextId++;
+    const contentId = nextId++;
+    const stream = ops.join("\n");
+    objects[contentId] = `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontDict} >> >> /Contents ${contentId} 0 R >>`;
+    pageIds.push(pageId);
+  }
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+  let body = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(body, "latin1");
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = Buffer.byteLength(body, "latin1");
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    body += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, "latin1");
+}
+
+/**
+ * Render an invoice to a PDF buffer
+ */
+export function renderInvoicePdf(data: InvoicePdfData): Buffer {
+  const pdf = new PdfPageWriter();
+  const right = PAGE_WIDTH - MARGIN;
+
+  // Seller header
+  pdf.text(MARGIN, data.seller.name, 16, "bold");
+  pdf.textRight(right, data.title, 12);
+  pdf.moveDown(22);
+  const sellerLines = [
+    data.seller.address,
+    [data.seller.phone, data.seller.email].filter(Boolean).join(" | "),
+    data.seller.gstin ? `GSTIN: ${data.seller.gstin}` : null,
+  ].filter((line): line is string => !!line);
+  const metaLines = [`Invoice No: ${data.invoiceNumber}`, `Date: ${data.invoiceDate}`];
+  for (let i = 0; i < Math.max(sellerLines.length, metaLines.length); i++) {
+    if (sellerLines[i]) pdf.text(MARGIN, truncate(sellerLines[i], 60), 9);
+    if (metaLines[i]) pdf.textRight(right, metaLines[i], 9);
+    pdf.moveDown(13);
+  }
+  pdf.moveDown(6);
+  pdf.rule();
+  pdf.moveDown(10);
+
+  // Buyer and stay details
+  const buyerLines = [
+    data.buyer.companyName ? `${data.buyer.companyName} (${data.buyer.name})` : data.buyer.name,
+    data.buyer.gstin ? `GSTIN: ${data.buyer.gstin}` : null,
+    data.buyer.phone,
+    data.buyer.email,
+  ].filter((line): line is string => !!line);
+  const stayLines = [
+    `Check-in: ${data.stay.checkIn}`,
+    `Check-out: ${data.stay.checkOut}`,
+    `Room(s): ${data.stay.rooms}`,
+    `Guests: ${data.stay.guests}`,
+  ];
+  pdf.text(MARGIN, "Bill To", 10, "bold");
+  pdf.text(PAGE_WIDTH / 2, "Stay Details", 10, "bold");
+  pdf.moveDown(14);
+  for (let i = 0; i < Math.max(buyerLines.length, stayLines.length); i++) {
+    if (buyerLines[i]) pdf.text(MARGIN, truncate(buyerLines[i], 48), 9);
+    if (stayLines[i]) pdf.text(PAGE_WIDTH / 2, truncate(stayLines[i], 48), 9);
+    pdf.moveDown(13);
+  }
+  pdf.moveDown(6);
+
+  // Line items
+  const dateX = MARGIN;
+  const descriptionX = MARGIN + 75;
+  const tableHeader = () => {
+    pdf.rule();
+    pdf.moveDown(6);
+    pdf.text(dateX, "Date", 9, "bold");
+    pdf.text(descriptionX, "Description", 9, "bold");
+    pdf.textRight(right, "Amount", 9);
+    pdf.moveDown(14);
+    pdf.rule();
+    pdf.moveDown(6);
+  };
+  tableHeader();
+  for (const line of data.lines) {
+    if (pdf.cursor + 14 > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage();
+      tableHeader();
+    }
+    if (line.date) pdf.text(dateX, line.date, 9);
+    pdf.text(descriptionX, truncate(line.description, 70), 9, line.emphasis ? "bold" : "regular");
+    pdf.textRight(right, line.amount, 9);
+    pdf.moveDown(14);
+  }
+  pdf.rule();
+  pdf.moveDown(8);
+
+  // Totals
+  pdf.ensureSpace(data.totals.length * 15 + 10);
+  for (const total of data.totals) {
+    pdf.text(PAGE_WIDTH / 2, total.label, total.emphasis ? 11 : 9, total.emphasis ? "bold" : "regular");
+    pdf.textRight(right, total.amount, total.emphasis ? 11 : 9);
+    pdf.moveDown(total.emphasis ? 17 : 14);
+  }
+
+  // Footer
+  pdf.moveDown(16);
+  pdf.ensureSpace(data.footerNotes.length * 12);
+  for (const note of data.footerNotes) {
+    pdf.text(MARGIN, truncate(note, 100), 8);
+    pdf.moveDown(12);
+  }
+
+  return serialize(pdf.pages);
+}
@@ -0,0 +1,150 @@
+import { db } from "./db";
+import {
+  bills,
+  bookings,
+  guests,
+  properties,
+  rooms,
+  taxProfiles,
+  billLineItems,
+  billTaxLines,
+  billPayments,
+  type Bill,
+} from "@shared/schema";
+import { eq, inArray } from "drizzle-orm";
+import { format } from "date-fns";
+import { getBookingRoomIds } from "./roomInventory";
+import { renderInvoicePdf, type InvoicePdfLine } from "./invoicePdf";
+import { summarizeBillPayments } from "./billPayments";
+
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][A-Z\d]Z[A-Z\d]$/;
+
+function money(value: string | number | null | undefined): string {
+  return `Rs. ${parseFloat(String(value ?? 0)).toFixed(2)}`;
+}
+
+function signedMoney(value: string | number): string {
+  const amount = parseFloat(String(value));
+  return amount < 0 ? `-${money(Math.abs(amount))}` : money(amount);
+}
+
+function displayDate(value: string | Date | null | undefined): string {
+  return value ? format(new Date(value), "dd MMM yyyy") : "";
+}
+
+/**
+ * Builds printable invoices from the frozen bill (line items and tax lines)
+ */
+export class InvoiceService {
+  static async generatePdf(billId: number): Promise<{ bill: Bill; filename: string; pdf: Buffer }> {
+    const [bill] = await db.select().from(bills).where(eq(bills.id, billId));
+    if (!bill) {
+      throw new Error("Bill not found");
+    }
+    if (!bill.invoiceNumber) {
+      throw new Error("Bill has no invoice number yet");
+    }
+
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, bill.bookingId));
+    const [guest] = await db.select().from(guests).where(eq(guests.id, bill.guestId));
+    if (!booking || !guest) {
+      throw new Error("Booking or guest for this bill not found");
+    }
+    const [property] = await db.select().from(properties).where(eq(properties.id, booking.propertyId));
+    const [profile] = await db.select().from(taxProfiles).where(eq(taxProfiles.propertyId, booking.propertyId));
+
+    const roomIds = getBookingRoomIds(booking);
+    const bookingRooms = roomIds.length > 0
+      ? await db.select().from(rooms).where(inArray(rooms.id, roomIds))
+      : [];
+
+    const lineItems = await db.select().from(billLineItems).where(eq(billLineItems.billId, bill.id)).orderBy(billLineItems.id);
+    const taxLines = await db.select().from(billTaxLines).where(eq(billTaxLines.billId, bill.id)).orderBy(billTaxLines.id);
+    const payments = await db.select().from(billPayments).where(eq(billPayments.billId, bill.id)).orderBy(billPayments.receivedAt, billPayments.id);
+    const { netPaid } = summarizeBillPayments(bill, payments);
+
+    const lines: InvoicePdfLine[] = [];
+    if (lineItems.length > 0) {
+      // Charges first, then discounts and adjustments; tax lines go in the totals block
+      for (const item of lineItems.filter(i => i.lineType !== "tax")) {
+        lines.push({
+          date: item.serviceDate ? displayDate(`${item.serviceDate}T00:00:00`) : null,
+          description: item.reason ? `${item.description} (${item.reason})` : item.description,
+          amount: signedMoney(item.amount),
+        });
+      }
+    } else {
+      // Bills created before itemisation only have aggregates
+      lines.push({ description: "Room Charges", amount: money(bill.roomCharges) });
+      if (parseFloat(bill.foodCharges) > 0) lines.push({ description: "Food & Beverage", amount: money(bill.foodCharges) });
+      if (parseFloat(bill.extraCharges) > 0) lines.push({ description: "Extra Services", amount: money(bill.extraCharges) });
+      if (parseFloat(bill.serviceChargeAmount) > 0) {
+        lines.push({ description: `Service Charge @ ${bill.serviceChargeRate}%`, amount: money(bill.serviceChargeAmount) });
+      }
+      if (parseFloat(bill.discountAmount || "0") > 0) {
+        lines.push({ description: "Discount", amount: `-${money(bill.discountAmount)}` });
+      }
+    }
+
+    const categoryLabels: Record<string, string> = { room: "Room", food: "F&B", extra: "Extras" };
+    const totals: Array<{ label: string; amount: string; emphasis?: boolean }> = [
+      { label: "Subtotal", amount: money(bill.subtotal) },
+    ];
+    if (taxLines.length > 0) {
+      for (const tax of taxLines) {
+        totals.push({
+          label: `${tax.component} @ ${parseFloat(tax.rate)}% (${categoryLabels[tax.category] || tax.category})`,
+          amount: money(tax.taxAmount),
+        });
+      }
+    } else if (parseFloat(bill.gstAmount) > 0) {
+      totals.push({ label: `GST @ ${bill.gstRate}%`, amount: money(bill.gstAmount) });
+    }
+    totals.push({ label: "Total", amount: money(bill.totalAmount), emphasis: true });
+    if (parseFloat(bill.advancePaid) > 0) {
+      totals.push({ label: "Advance Paid", amount: `-${money(bill.advancePaid)}` });
+    }
+    if (netPaid !== 0) {
+      totals.push({ label: "Payments Received", amount: signedMoney(-netPaid) });
+    }
+    totals.push({ label: "Balance Due", amount: money(bill.balanceAmount), emphasis: true });
+
+    const pdf = renderInvoicePdf({
+      title: profile?.gstin ? "TAX INVOICE" : "INVOICE",
+      seller: {
+        name: property?.name || "Hostezze",
+        address: property?.location,
+        phone: property?.contactPhone,
+        email: property?.contactEmail,
+        gstin: profile?.gstin,
+      },
+      invoiceNumber: bill.invoiceNumber,
+      invoiceDate: displayDate(bill.invoiceDate || bill.createdAt),
+      buyer: {
+        name: guest.fullName,
+        companyName: bill.guestCompanyName,
+        gstin: bill.guestGstin,
+        phone: guest.phone,
+        email: guest.email,
+      },
+      stay: {
+        checkIn: displayDate(booking.checkInDate),
+        checkOut: displayDate(booking.checkOutDate),
+        rooms: bookingRooms.map(r => r.roomNumber).join(", ") || "-",
+        guests: booking.numberOfGuests,
+      },
+      lines,
+      totals,
+      footerNotes: [
+        `Payment status: ${bill.paymentStatus}${bill.paymentMethod ? ` (${bill.paymentMethod})` : ""}`,
+        "This is a computer-generated invoice.",
+      ],
+    });
+
+    return {
+      bill,
+      filename: `${bill.invoiceNumber.replace(/\//g, "-")}.pdf`,
+      pdf,
+    };
+  }
+}
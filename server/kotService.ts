@@ -0,0 +1,368 @@
+import { db } from "./db";
+import {
+  diningTables,
+  kitchenPrinters,
+  kotSequences,
+  kots,
+  menuCategories,
+  menuItems,
+  orderItems,
+  orders,
+  rooms,
+  type KitchenPrinter,
+  type Kot,
+  type KotLine,
+  type Order,
+} from "@shared/schema";
+import { and, asc, eq, ne, sql } from "drizzle-orm";
+import { format } from "date-fns";
+import { z } from "zod";
+import { createConnection } from "net";
+
+export const kotVoidInputSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required to void a KOT").max(500),
+});
+
+export class KotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KotError";
+    Object.setPrototypeOf(this, KotError.prototype);
+  }
+}
+
+export interface KotTicket {
+  kot: Kot;
+  order: Order;
+  location: string; // "Table T4", "Room 203" or the walk-in customer
+}
+
+interface TicketLine {
+  text: string;
+  center?: boolean;
+  bold?: boolean;
+  large?: boolean; // Double width and height
+}
+
+const DEFAULT_STATION = "kitchen";
+const DEFAULT_CHARS_PER_LINE = 42;
+const PRINT_TIMEOUT_MS = 5000;
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+// Thermal printers only carry a single-byte code page
+function printable(text: string): string {
+  return text.replace(/[^\x20-\x7e]/g, "?");
+}
+
+function wrap(text: string, width: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = "";
+  for (const word of words) {
+    if (current && current.length + 1 + word.length > width) {
+      lines.push(current);
+      current = "";
+    }
+    current = current ? `${current} ${word}` : word;
+    while (current.length > width) {
+      lines.push(current.slice(0, width));
+      current = current.slice(width);
+    }
+  }
+  if (current) lines.push(current);
+  return lines.length > 0 ? lines : [""];
+}
+
+function buildTicket({ kot, order, location }: KotTicket, width: number): TicketLine[] {
+  const rule = "-".repeat(width);
+  const indent = "     ";
+  const out: TicketLine[] = [
+    { text: `KOT #${kot.kotNumber}`, center: true, large: true },
+    { text: kot.station.toUpperCase(), center: true, bold: true },
+  ];
+  if (kot.status === "voided") {
+    out.push({ text: "*** VOID ***", center: true, large: true });
+  } else if (kot.printCount > 0) {
+    out.push({ text: `*** REPRINT ${kot.printCount} ***`, center: true, bold: true });
+  }
+
+  const placed = format(new Date(order.createdAt ?? kot.createdAt ?? new Date()), "dd-MM HH:mm");
+  out.push(
+    { text: location, bold: true },
+    { text: `Order #${order.id}`.padEnd(width - placed.length) + placed },
+    { text: rule },
+  );
+
+  for (const line of kot.lines) {
+    const qty = `${line.quantity}`.padStart(3) + "  ";
+    const name = line.variantName ? `${line.name} (${line.variantName})` : line.name;
+    wrap(name, width - qty.length).forEach((part, i) => {
+      out.push({ text: (i === 0 ? qty : " ".repeat(qty.length)) + part, bold: true });
+    });
+    for (const modifier of line.modifiers ?? []) {
+      wrap(`> ${modifier}`, width - indent.length).forEach(part => out.push({ text: indent + part, bold: true }));
+    }
+    for (const addOn of line.addOns) {
+      wrap(`+ ${addOn}`, width - indent.length).forEach(part => out.push({ text: indent + part }));
+    }
+    if (line.notes) {
+      wrap(`Note: ${line.notes}`, width - indent.length).forEach(part => out.push({ text: indent + part }));
+    }
+  }
+
+  out.push({ text: rule });
+  if (order.specialInstructions) {
+    wrap(`Instructions: ${order.specialInstructions}`, width).forEach(part => out.push({ text: part, bold: true }));
+  }
+  if (kot.status === "voided" && kot.voidReason) {
+    wrap(`Void reason: ${kot.voidReason}`, width).forEach(part => out.push({ text: part }));
+  }
+  return out;
+}
+
+/**
+ * Kitchen order tickets. An order gets one KOT per kitchen station, taken
+ * from the station of each line's menu category; KOTs are numbered per
+ * property per day and are voided rather than deleted so reprints and
+ * cancellations stay traceable.
+ */
+export class KotService {
+  static async getForOrder(orderId: number): Promise<Kot[]> {
+    return await db.select().from(kots).where(eq(kots.orderId, orderId)).orderBy(asc(kots.id));
+  }
+
+  static async listByDate(propertyId: number, businessDate: string): Promise<Kot[]> {
+    return await db
+      .select()
+      .from(kots)
+      .where(and(eq(kots.propertyId, propertyId), eq(kots.businessDate, businessDate)))
+      .orderBy(asc(kots.kotNumber));
+  }
+
+  /**
+   * Create KOTs for the order's lines. Stations that already have an active
+   * KOT are skipped, so after voiding a station's ticket this re-issues it.
+   */
+  static async generateForOrder(orderId: number, createdBy: string | null): Promise<Kot[]> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      if (!order) {
+        throw new KotError("Order not found");
+      }
+      if (order.status === "rejected" || order.status === "cancelled") {
+        throw new KotError(`Cannot send a ${order.status} order to the kitchen`);
+      }
+
+      let propertyId = order.propertyId;
+      if (propertyId === null && order.roomId !== null) {
+        const [room] = await tx.select({ propertyId: rooms.propertyId }).from(rooms).where(eq(rooms.id, order.roomId));
+        propertyId = room?.propertyId ?? null;
+      }
+      if (propertyId === null) {
+        throw new KotError("Assign the order to a property before printing KOTs");
+      }
+
+      const lines = await tx
+        .select({ item: orderItems, station: menuCategories.station })
+        .from(orderItems)
+        .leftJoin(menuItems, eq(orderItems.menuItemId, menuItems.id))
+        .leftJoin(menuCategories, eq(menuItems.categoryId, menuCategories.id))
+        .where(and(eq(orderItems.orderId, orderId), ne(orderItems.status, "cancelled")))
+        .orderBy(asc(orderItems.id));
+      if (lines.length === 0) {
+        throw new KotError("The order has no items to send to the kitchen");
+      }
+
+      const byStation = new Map<string, KotLine[]>();
+      for (const { item, station } of lines) {
+        const key = station || DEFAULT_STATION;
+        const kotLines = byStation.get(key) ?? [];
+        kotLines.push({
+          orderItemId: item.id,
+          name: item.itemName,
+          variantName: item.variantName,
+          modifiers: item.modifiers.map(m => `${m.groupName}: ${m.name}`),
+          addOns: item.addOns.map(a => `${a.quantity}x ${a.name}`),
+          quantity: item.quantity,
+          notes: item.notes,
+        });
+        byStation.set(key, kotLines);
+      }
+
+      const active = await tx
+        .select({ station: kots.station })
+        .from(kots)
+        .where(and(eq(kots.orderId, orderId), eq(kots.status, "active")));
+      const covered = new Set(active.map(k => k.station));
+
+      const businessDate = format(new Date(), "yyyy-MM-dd");
+      const created: Kot[] = [];
+      for (const [station, kotLines] of Array.from(byStation.entries())) {
+        if (covered.has(station)) continue;
+        const [sequence] = await tx
+          .insert(kotSequences)
+          .values({ propertyId, businessDate, lastNumber: 1 })
+          .onConflictDoUpdate({
+            target: [kotSequences.propertyId, kotSequences.businessDate],
+            set: { lastNumber: sql`${kotSequences.lastNumber} + 1`, updatedAt: new Date() },
+          })
+          .returning();
+        const [kot] = await tx
+          .insert(kots)
+          .values({
+            propertyId,
+            orderId,
+            station,
+            businessDate,
+            kotNumber: sequence.lastNumber,
+            lines: kotLines,
+            createdBy,
+          })
+          .returning();
+        created.push(kot);
+      }
+      return created;
+    });
+  }
+
+  static async getTicket(kotId: number): Promise<KotTicket | undefined> {
+    const [row] = await db
+      .select({ kot: kots, order: orders, roomNumber: rooms.roomNumber, tableNumber: diningTables.tableNumber })
+      .from(kots)
+      .innerJoin(orders, eq(kots.orderId, orders.id))
+      .leftJoin(rooms, eq(orders.roomId, rooms.id))
+      .leftJoin(diningTables, eq(orders.tableId, diningTables.id))
+      .where(eq(kots.id, kotId));
+    if (!row) return undefined;
+
+    const location = row.tableNumber
+      ? `Table ${row.tableNumber}`
+      : row.roomNumber && row.order.orderType !== "restaurant"
+        ? `Room ${row.roomNumber}`
+        : row.order.customerName || "Walk-in";
+    return { kot: row.kot, order: row.order, location };
+  }
+
+  /**
+   * The station's printer, falling back to the property's main kitchen printer
+   */
+  static async getPrinter(propertyId: number, station: string): Promise<KitchenPrinter | undefined> {
+    const printers = await db
+      .select()
+      .from(kitchenPrinters)
+      .where(and(eq(kitchenPrinters.propertyId, propertyId), eq(kitchenPrinters.isActive, true)));
+    return printers.find(p => p.station === station) ?? printers.find(p => p.station === DEFAULT_STATION);
+  }
+
+  static renderText(ticket: KotTicket, width: number = DEFAULT_CHARS_PER_LINE): string {
+    return buildTicket(ticket, width)
+      .map(line => {
+        const text = printable(line.text);
+        return line.center ? text.padStart(Math.floor((width + text.length) / 2)) : text;
+      })
+      .join("\n");
+  }
+
+  static renderEscPos(ticket: KotTicket, width: number = DEFAULT_CHARS_PER_LINE): Buffer {
+    const chunks: Buffer[] = [Buffer.from([ESC, 0x40])]; // Initialise
+    for (const line of buildTicket(ticket, width)) {
+      chunks.push(Buffer.from([ESC, 0x61, line.center ? 1 : 0]));
+      chunks.push(Buffer.from([ESC, 0x45, line.bold || line.large ? 1 : 0]));
+      chunks.push(Buffer.from([GS, 0x21, line.large ? 0x11 : 0x00]));
+      chunks.push(Buffer.from(printable(line.text) + "\n", "ascii"));
+    }
+    chunks.push(Buffer.from([ESC, 0x61, 0, ESC, 0x45, 0, GS, 0x21, 0x00]));
+    chunks.push(Buffer.from([GS, 0x56, 0x42, 0x03])); // Feed and partial cut
+    return Buffer.concat(chunks);
+  }
+
+  private static send(printer: KitchenPrinter, data: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = createConnection({ host: printer.host, port: printer.port });
+      socket.setTimeout(PRINT_TIMEOUT_MS);
+      socket.on("connect", () => socket.end(data));
+      socket.on("timeout", () => {
+        socket.destroy();
+        reject(new KotError(`${printer.name} did not respond`));
+      });
+      socket.on("error", (error) => reject(new KotError(`Could not reach ${printer.name}: ${error.message}`)));
+      socket.on("close", (hadError) => {
+        if (!hadError) resolve();
+      });
+    });
+  }
+
+  static async recordPrint(kotId: number, printedBy: string | null): Promise<Kot> {
+    const [updated] = await db
+      .update(kots)
+      .set({
+        printCount: sql`${kots.printCount} + 1`,
+        lastPrintedAt: new Date(),
+        lastPrintedBy: printedBy,
+        updatedAt: new Date(),
+      })
+      .where(eq(kots.id, kotId))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Send the KOT to its station's network printer; printing again is a reprint
+   */
+  static async print(kotId: number, printedBy: string | null): Promise<{ kot: Kot; printer: KitchenPrinter }> {
+    const ticket = await this.getTicket(kotId);
+    if (!ticket) {
+      throw new KotError("KOT not found");
+    }
+    const printer = await this.getPrinter(ticket.kot.propertyId, ticket.kot.station);
+    if (!printer) {
+      throw new KotError(`No printer is set up for the ${ticket.kot.station} station`);
+    }
+
+    await this.send(printer, this.renderEscPos(ticket, printer.charsPerLine));
+    return { kot: await this.recordPrint(kotId, printedBy), printer };
+  }
+
+  /**
+   * Issue KOTs for an order the kitchen has accepted and print them on the
+   * station printers that are set up. Failures are logged, never thrown: the
+   * tickets stay available for reprinting from the kitchen panel.
+   */
+  static async dispatch(orderId: number, createdBy: string | null): Promise<void> {
+    let created: Kot[];
+    try {
+      created = await this.generateForOrder(orderId, createdBy);
+    } catch (error: any) {
+      console.error(`[KOT] Order #${orderId} - Could not create KOTs:`, error.message);
+      return;
+    }
+    for (const kot of created) {
+      try {
+        if (!(await this.getPrinter(kot.propertyId, kot.station))) continue;
+        await this.print(kot.id, createdBy);
+      } catch (error: any) {
+        console.error(`[KOT] Order #${orderId} - KOT #${kot.kotNumber} (${kot.station}) not printed:`, error.message);
+      }
+    }
+  }
+
+  static async voidKot(kotId: number, reason: string, voidedBy: string | null): Promise<Kot> {
+    return await db.transaction(async (tx) => {
+      const [kot] = await tx.select().from(kots).where(eq(kots.id, kotId)).for("update");
+      if (!kot) {
+        throw new KotError("KOT not found");
+      }
+      if (kot.status === "voided") {
+        throw new KotError("KOT is already voided");
+      }
+      const [updated] = await tx
+        .update(kots)
+        .set({ status: "voided", voidedAt: new Date(), voidedBy, voidReason: reason, updatedAt: new Date() })
+        .where(eq(kots.id, kotId))
+        .returning();
+      return updated;
+    });
+  }
+}
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { MenuCategory, MenuItem, MenuPriceRule } from "@shared/schema";
+import { describeWindow, isItemServed, menuClock, scheduledPrice, zonedDayStart, type MenuScheduleContext } from "./menuClock";
+
+const dosa = { id: 1, categoryId: 2, propertyId: 1, startTime: null, endTime: null, daysOfWeek: null } as MenuItem;
+const bar = { id: 2, isActive: true, startTime: "22:00", endTime: "02:00", daysOfWeek: [5] } as MenuCategory;
+
+function at(date: string, day: number, time: string, rules: MenuPriceRule[] = []): MenuScheduleContext {
+  const [hours, minutes] = time.split(":").map(Number);
+  return { propertyId: 1, clock: { date, day, minutes: hours * 60 + minutes }, rules };
+}
+
+function rule(id: number, ruleType: string, value: string, extra: Partial<MenuPriceRule> = {}): MenuPriceRule {
+  return {
+    id, name: `Rule ${id}`, propertyId: null, categoryId: null, menuItemId: null, ruleType, value,
+    startTime: "17:00", endTime: "19:00", daysOfWeek: null, startDate: null, endDate: null, ...extra,
+  } as MenuPriceRule;
+}
+
+test("menuClock reads the wall clock in the property's time zone", () => {
+  const clock = menuClock("Asia/Kolkata", new Date("2026-10-18T20:00:00Z"));
+  assert.deepEqual(clock, { date: "2026-10-19", day: 1, minutes: 90 });
+});
+
+test("a window past midnight stays open into the next day for the day it opened", () => {
+  assert.equal(isItemServed(dosa, bar, at("2026-10-16", 5, "23:00")), true);
+  assert.equal(isItemServed(dosa, bar, at("2026-10-17", 6, "01:30")), true);
+  assert.equal(isItemServed(dosa, bar, at("2026-10-17", 6, "23:00")), false);
+  assert.equal(isItemServed(dosa, bar, at("2026-10-16", 5, "21:59")), false);
+  assert.equal(describeWindow(bar), "between 22:00 and 02:00 on Fri");
+});
+
+test("the item's own window applies inside its category's", () => {
+  const lunch = { ...dosa, startTime: "12:00", endTime: "15:00" };
+  assert.equal(isItemServed(lunch, undefined, at("2026-10-19", 1, "12:30")), true);
+  assert.equal(isItemServed(lunch, { ...bar, startTime: null, endTime: null, daysOfWeek: null }, at("2026-10-19", 1, "16:00")), false);
+  assert.equal(isItemServed(lunch, { ...bar, isActive: false }, at("2026-10-19", 1, "12:30")), false);
+});
+
+test("the lowest running price rule applies and never raises the price", () => {
+  const rules = [rule(1, "percent_off", "20"), rule(2, "amount_off", "50"), rule(3, "fixed_price", "500")];
+  assert.deepEqual(scheduledPrice(dosa, 200, at("2026-10-19", 1, "18:00", rules)), {
+    price: 150,
+    rule: { id: 2, name: "Rule 2", endTime: "19:00" },
+  });
+  assert.deepEqual(scheduledPrice(dosa, 200, at("2026-10-19", 1, "19:00", rules)), { price: 200, rule: null });
+});
+
+test("price rules are limited to their item, category and campaign dates", () => {
+  const rules = [
+    rule(1, "percent_off", "50", { menuItemId: 9 }),
+    rule(2, "percent_off", "50", { categoryId: 3 }),
+    rule(3, "percent_off", "50", { endDate: "2026-10-18" }),
+  ];
+  assert.equal(scheduledPrice(dosa, 200, at("2026-10-19", 1, "18:00", rules)).price, 200);
+});
+
+test("zonedDayStart is local midnight as an instant", () => {
+  assert.equal(zonedDayStart("Asia/Kolkata", "2026-10-19").toISOString(), "2026-10-18T18:30:00.000Z");
+  assert.equal(zonedDayStart("UTC", "2026-01-01").toISOString(), "2026-01-01T00:00:00.000Z");
+});
+
+test("zonedDayStart follows daylight saving changes", () => {
+  assert.equal(zonedDayStart("America/New_York", "2026-03-08").toISOString(), "2026-03-08T05:00:00.000Z");
+  assert.equal(zonedDayStart("America/New_York", "2026-11-01").toISOString(), "2026-11-01T04:00:00.000Z");
+});
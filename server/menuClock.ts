@@ -0,0 +1,154 @@
+import type { AppliedPriceRule, MenuCategory, MenuItem, MenuPriceRule } from "@shared/schema";
+
+// Used for menus shared by all properties and for properties with an unknown zone
+export const DEFAULT_MENU_TIMEZONE = "Asia/Kolkata";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Wall-clock time at a property
+export interface MenuClock {
+  date: string; // yyyy-MM-dd
+  day: number; // 0 = Sunday
+  minutes: number; // Since local midnight
+}
+
+export interface ScheduledPrice {
+  price: number;
+  rule: AppliedPriceRule | null;
+}
+
+export interface MenuScheduleContext {
+  propertyId: number | null;
+  clock: MenuClock;
+  rules: MenuPriceRule[];
+}
+
+interface TimeWindow {
+  startTime: string | null;
+  endTime: string | null;
+  daysOfWeek: number[] | null;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(part => parseInt(part, 10));
+  return hours * 60 + (minutes || 0);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function menuClock(timeZone: string, at: Date = new Date()): MenuClock {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(at);
+  } catch {
+    console.warn(`[MenuSchedule] Unknown time zone "${timeZone}", using ${DEFAULT_MENU_TIMEZONE}`);
+    return menuClock(DEFAULT_MENU_TIMEZONE, at);
+  }
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? "";
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    day: WEEKDAYS.indexOf(part("weekday")),
+    minutes: parseInt(part("hour"), 10) * 60 + parseInt(part("minute"), 10),
+  };
+}
+
+/**
+ * The instant a day (yyyy-MM-dd) starts in the time zone: start from UTC
+ * midnight and correct by the zone's offset, twice in case it crosses a DST change
+ */
+export function zonedDayStart(timeZone: string, day: string): Date {
+  const target = Date.parse(`${day}T00:00:00Z`);
+  let instant = target;
+  for (let i = 0; i < 2; i++) {
+    const clock = menuClock(timeZone, new Date(instant));
+    const shown = Date.parse(`${clock.date}T00:00:00Z`) + clock.minutes * 60000;
+    instant -= shown - target;
+  }
+  return new Date(instant);
+}
+
+/**
+ * A window without times is open all day. Windows may run past midnight; the
+ * hours after midnight belong to the day the window opened, so a Friday
+ * 22:00-02:00 slot is still open at 01:00 on Saturday.
+ */
+function isWindowOpen(window: TimeWindow, clock: MenuClock): boolean {
+  const days = window.daysOfWeek && window.daysOfWeek.length > 0 ? window.daysOfWeek : null;
+  if (!window.startTime || !window.endTime) {
+    return !days || days.includes(clock.day);
+  }
+  const start = toMinutes(window.startTime);
+  const end = toMinutes(window.endTime);
+  if (start <= end) {
+    return clock.minutes >= start && clock.minutes < end && (!days || days.includes(clock.day));
+  }
+  if (clock.minutes >= start) return !days || days.includes(clock.day);
+  if (clock.minutes < end) return !days || days.includes((clock.day + 6) % 7);
+  return false;
+}
+
+export function describeWindow(window: TimeWindow): string {
+  const parts: string[] = [];
+  if (window.startTime && window.endTime) parts.push(`between ${window.startTime} and ${window.endTime}`);
+  if (window.daysOfWeek && window.daysOfWeek.length > 0 && window.daysOfWeek.length < 7) {
+    parts.push(`on ${[...window.daysOfWeek].sort().map(day => WEEKDAYS[day]).join(", ")}`);
+  }
+  return parts.join(" ");
+}
+
+function ruleApplies(rule: MenuPriceRule, item: MenuItem, clock: MenuClock): boolean {
+  if (rule.menuItemId !== null && rule.menuItemId !== item.id) return false;
+  if (rule.categoryId !== null && rule.categoryId !== item.categoryId) return false;
+  if (rule.propertyId !== null && item.propertyId !== null && rule.propertyId !== item.propertyId) return false;
+  if (rule.startDate && clock.date < rule.startDate) return false;
+  if (rule.endDate && clock.date > rule.endDate) return false;
+  return isWindowOpen(rule, clock);
+}
+
+function ruledPrice(rule: MenuPriceRule, regular: number): number {
+  const value = parseFloat(rule.value);
+  switch (rule.ruleType) {
+    case "percent_off":
+      return regular * (1 - value / 100);
+    case "amount_off":
+      return regular - value;
+    default:
+      return value;
+  }
+}
+
+export function isCategoryServed(category: MenuCategory, context: MenuScheduleContext): boolean {
+  return category.isActive && isWindowOpen(category, context.clock);
+}
+
+export function isItemServed(item: MenuItem, category: MenuCategory | undefined, context: MenuScheduleContext): boolean {
+  if (category && !isCategoryServed(category, context)) return false;
+  return isWindowOpen(item, context.clock);
+}
+
+/**
+ * The lowest price any rule running now gives the item. Regular price is the
+ * item's (or variant's) selling price before any rule; a rule never raises it.
+ */
+export function scheduledPrice(item: MenuItem, regular: number, context: MenuScheduleContext): ScheduledPrice {
+  let best: ScheduledPrice = { price: regular, rule: null };
+  for (const rule of context.rules) {
+    if (!ruleApplies(rule, item, context.clock)) continue;
+    const price = round2(Math.max(0, ruledPrice(rule, regular)));
+    if (price < best.price) {
+      best = { price, rule: { id: rule.id, name: rule.name, endTime: rule.endTime } };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,145 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { MenuItem, MenuItemAddOn, MenuItemModifier, MenuItemModifierGroup, MenuItemVariant } from "@shared/schema";
+import type { MenuScheduleContext } from "./menuClock";
+import { applyModifierChoices, priceOrderLines, OrderPricingError, type ModifierMenu, type OrderMenu } from "./menuPricing";
+
+const anyTime: MenuScheduleContext = { propertyId: 1, clock: { date: "2026-10-19", day: 1, minutes: 720 }, rules: [] };
+
+function item(id: number, name: string, price: string, extra: Partial<MenuItem> = {}): MenuItem {
+  return {
+    id, name, price, discountedPrice: null, propertyId: 1, categoryId: null, isAvailable: true, hasVariants: false,
+    startTime: null, endTime: null, daysOfWeek: null, ...extra,
+  } as MenuItem;
+}
+
+const dosa = item(1, "Masala Dosa", "120.00", { discountedPrice: "100.00" });
+const coffee = item(2, "Filter Coffee", "40.00", { hasVariants: true });
+const menu: OrderMenu = {
+  items: [dosa, coffee],
+  categories: [],
+  variants: [{ id: 10, menuItemId: 2, variantName: "Large", actualPrice: "60.00", discountedPrice: null } as MenuItemVariant],
+  addOns: [{ id: 7, menuItemId: 1, addOnName: "Extra chutney", addOnPrice: "10.00" } as MenuItemAddOn],
+  modifiers: { groups: [], options: [] },
+};
+
+test("lines are priced from the menu, discounted price first, with add-ons per line", () => {
+  const priced = priceOrderLines(
+    [{ id: 1, quantity: 2, addOns: [{ id: 7, quantity: 3 }] }, { id: 2, variantId: 10, quantity: 1 }],
+    1,
+    menu,
+    anyTime,
+  );
+  assert.deepEqual(priced.items.map(l => [l.name, l.basePrice, l.price, l.lineTotal]), [
+    ["Masala Dosa + 3x Extra chutney", 100, "115.00", 230],
+    ["Filter Coffee (Large)", 60, "60.00", 60],
+  ]);
+  assert.equal(priced.totalAmount, "290.00");
+});
+
+test("an order with any line that can't be served is rejected with every reason", () => {
+  const lines = [
+    { id: 2, quantity: 1 },
+    { id: 3, quantity: 1 },
+    { id: 1, quantity: 1, addOns: [{ id: 99, quantity: 1 }] },
+  ];
+  assert.throws(
+    () => priceOrderLines(lines, 1, { ...menu, items: [...menu.items, item(3, "Idli", "50.00", { isAvailable: false })] }, anyTime),
+    (error: unknown) => {
+      assert.ok(error instanceof OrderPricingError);
+      assert.deepEqual(error.issues, [
+        "Select an option for Filter Coffee",
+        "Idli is currently unavailable",
+        "An add-on for Masala Dosa is no longer available",
+      ]);
+      return true;
+    },
+  );
+});
+
+test("items of another property are not on this property's menu", () => {
+  assert.throws(() => priceOrderLines([{ id: 1, quantity: 1 }], 2, menu, anyTime), /Item #1 is no longer on the menu/);
+});
+
+test("a running price rule lowers the base price and is named on the line", () => {
+  const happyHour = {
+    ...anyTime,
+    rules: [{
+      id: 4, name: "Happy Hour", propertyId: null, categoryId: null, menuItemId: null, ruleType: "percent_off", value: "50",
+      startTime: "11:00", endTime: "13:00", daysOfWeek: null, startDate: null, endDate: null,
+    }],
+  } as MenuScheduleContext;
+  const [line] = priceOrderLines([{ id: 1, quantity: 1 }], 1, menu, happyHour).items;
+  assert.equal(line.basePrice, 50);
+  assert.equal(line.priceRule, "Happy Hour");
+});
+
+function group(id: number, name: string, minSelections: number, maxSelections: number): MenuItemModifierGroup {
+  return { id, menuItemId: 1, name, minSelections, maxSelections, displayOrder: id } as MenuItemModifierGroup;
+}
+
+function option(id: number, groupId: number, name: string, price: string, isAvailable = true): MenuItemModifier {
+  return { id, groupId, name, price, isAvailable, displayOrder: id } as MenuItemModifier;
+}
+
+const dosaChoices: ModifierMenu = {
+  groups: [group(1, "Spice Level", 1, 1), group(2, "Extras", 0, 2)],
+  options: [
+    option(11, 1, "Mild", "0.00"),
+    option(12, 1, "Hot", "0.00"),
+    option(21, 2, "Ghee", "20.00"),
+    option(22, 2, "Cheese", "30.00"),
+    option(23, 2, "Paneer", "40.00", false),
+  ],
+};
+
+function modifierIssues(modifiers: number[]): string[] {
+  try {
+    priceOrderLines([{ id: 1, quantity: 1, modifiers }], 1, { ...menu, modifiers: dosaChoices }, anyTime);
+    return [];
+  } catch (error) {
+    assert.ok(error instanceof OrderPricingError);
+    return error.issues;
+  }
+}
+
+test("modifier choices are priced per unit and named in group order", () => {
+  const [line] = priceOrderLines([{ id: 1, quantity: 2, modifiers: [22, 12, 21] }], 1, { ...menu, modifiers: dosaChoices }, anyTime).items;
+  assert.equal(line.name, "Masala Dosa [Hot, Ghee, Cheese]");
+  assert.deepEqual(line.modifiers.map(m => [m.groupName, m.name, m.price]), [
+    ["Spice Level", "Hot", 0],
+    ["Extras", "Ghee", 20],
+    ["Extras", "Cheese", 30],
+  ]);
+  assert.equal(line.lineTotal, 300);
+});
+
+test("required groups and selection limits are enforced", () => {
+  assert.deepEqual(modifierIssues([]), ["Choose spice level for Masala Dosa"]);
+  assert.deepEqual(modifierIssues([11, 12]), ["Choose up to 1 of spice level for Masala Dosa"]);
+  assert.deepEqual(modifierIssues([11, 23]), ["Paneer is currently unavailable for Masala Dosa"]);
+  assert.deepEqual(modifierIssues([11, 99]), ["A choice for Masala Dosa is no longer on the menu"]);
+});
+
+test("staff lines keep the till price and add their modifiers from the menu", () => {
+  const staffLines = [
+    { id: 1, name: "Masala Dosa", price: "90.00", quantity: 2, modifiers: [12, 21] },
+    { id: 2, name: "Filter Coffee", price: "40.00", quantity: 1 },
+  ];
+  const result = applyModifierChoices(staffLines, [dosa, coffee], dosaChoices);
+  assert.deepEqual(result.items[0], {
+    ...staffLines[0],
+    name: "Masala Dosa [Hot, Ghee]",
+    itemName: "Masala Dosa",
+    modifiers: [
+      { id: 12, groupName: "Spice Level", name: "Hot", price: 0 },
+      { id: 21, groupName: "Extras", name: "Ghee", price: 20 },
+    ],
+    basePrice: 90,
+    price: "110.00",
+    lineTotal: 220,
+  });
+  assert.equal(result.items[1], staffLines[1]);
+  assert.equal(result.totalAmount, "260.00");
+  assert.throws(() => applyModifierChoices([{ id: 1, price: "90.00", quantity: 1 }], [dosa], dosaChoices), /Choose spice level/);
+});
@@ -0,0 +1,279 @@
+import type {
+  MenuCategory,
+  MenuItem,
+  MenuItemAddOn,
+  MenuItemModifier,
+  MenuItemModifierGroup,
+  MenuItemVariant,
+} from "@shared/schema";
+import { z } from "zod";
+import { describeWindow, isCategoryServed, isItemServed, scheduledPrice, type MenuScheduleContext } from "./menuClock";
+
+// A cart line as sent by the guest menu; prices are never taken from the client
+export const orderLineInputSchema = z.object({
+  id: z.coerce.number().int().positive(), // Menu item id
+  variantId: z.coerce.number().int().positive().nullish(),
+  addOns: z.array(z.object({
+    id: z.coerce.number().int().positive(),
+    quantity: z.coerce.number().int().positive(), // Portions of the add-on across the whole line
+  })).optional(),
+  modifiers: z.array(z.coerce.number().int().positive()).optional(), // Modifier option ids, chosen for every unit
+  quantity: z.coerce.number().int().positive(),
+});
+
+export type OrderLineInput = z.infer<typeof orderLineInputSchema>;
+
+export interface PricedAddOn {
+  id: number;
+  name: string;
+  price: number;
+  quantity: number;
+}
+
+export interface PricedModifier {
+  id: number;
+  groupName: string;
+  name: string;
+  price: number; // Per unit
+}
+
+// Stored in orders.items; id/name/price/quantity keep the shape the kitchen and billing screens read
+export interface PricedOrderLine {
+  id: number;
+  name: string; // Item name with variant and add-ons, for display
+  itemName: string;
+  variantId: number | null;
+  variantName: string | null;
+  modifiers: PricedModifier[];
+  addOns: PricedAddOn[];
+  basePrice: number; // Item or variant price per unit, after any price rule
+  priceRule: string | null; // Name of the time-limited price applied, e.g. "Happy Hour"
+  price: string; // Per unit including modifiers and add-ons
+  quantity: number;
+  lineTotal: number;
+}
+
+export interface PricedOrder {
+  items: PricedOrderLine[];
+  totalAmount: string;
+}
+
+export class OrderPricingError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(message);
+    this.name = "OrderPricingError";
+    Object.setPrototypeOf(this, OrderPricingError.prototype);
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export interface ModifierMenu {
+  groups: MenuItemModifierGroup[];
+  options: MenuItemModifier[];
+}
+
+// The menu rows an order's lines are priced from
+export interface OrderMenu {
+  items: MenuItem[];
+  categories: MenuCategory[];
+  variants: MenuItemVariant[];
+  addOns: MenuItemAddOn[];
+  modifiers: ModifierMenu;
+}
+
+/**
+ * Check a line's modifier choices against the item's groups: every option
+ * must belong to the item and be available, and each group's min/max
+ * selection limits must hold
+ */
+function resolveModifiers(item: MenuItem, selectedIds: number[], menu: ModifierMenu): { modifiers: PricedModifier[]; issues: string[] } {
+  const groups = menu.groups
+    .filter(g => g.menuItemId === item.id)
+    .sort((a, b) => a.displayOrder - b.displayOrder || a.id - b.id);
+  const selected = Array.from(new Set(selectedIds));
+  const issues: string[] = [];
+  const modifiers: PricedModifier[] = [];
+
+  for (const id of selected) {
+    const option = menu.options.find(o => o.id === id);
+    if (!option || !groups.some(g => g.id === option.groupId)) {
+      issues.push(`A choice for ${item.name} is no longer on the menu`);
+    } else if (!option.isAvailable) {
+      issues.push(`${option.name} is currently unavailable for ${item.name}`);
+    }
+  }
+
+  for (const group of groups) {
+    const chosen = menu.options
+      .filter(o => o.groupId === group.id && selected.includes(o.id) && o.isAvailable)
+      .sort((a, b) => a.displayOrder - b.displayOrder || a.id - b.id);
+    if (chosen.length < group.minSelections) {
+      issues.push(group.minSelections === 1
+        ? `Choose ${group.name.toLowerCase()} for ${item.name}`
+        : `Choose at least ${group.minSelections} of ${group.name.toLowerCase()} for ${item.name}`);
+    } else if (chosen.length > group.maxSelections) {
+      issues.push(`Choose up to ${group.maxSelections} of ${group.name.toLowerCase()} for ${item.name}`);
+    }
+    modifiers.push(...chosen.map(o => ({ id: o.id, groupName: group.name, name: o.name, price: parseFloat(o.price) })));
+  }
+
+  return { modifiers, issues };
+}
+
+function modifiersText(modifiers: PricedModifier[]): string {
+  return modifiers.length > 0 ? ` [${modifiers.map(m => m.name).join(", ")}]` : "";
+}
+
+/**
+ * Re-prices each line from the menu: the item's selling price (or its
+ * variant's), discounted prices first, with any price rule running at the
+ * property applied on top, plus modifiers and add-ons. Items that are
+ * unavailable, outside their own or their category's serving window or no
+ * longer on the menu reject the whole order.
+ */
+export function priceOrderLines(
+  lines: OrderLineInput[],
+  propertyId: number | null,
+  menu: OrderMenu,
+  schedule: MenuScheduleContext,
+): PricedOrder {
+  const { items, categories, variants, addOns, modifiers: modifierMenu } = menu;
+  const itemById = new Map(items.map(i => [i.id, i]));
+  const categoryById = new Map(categories.map(c => [c.id, c]));
+  const issues: string[] = [];
+  const priced: PricedOrderLine[] = [];
+
+  for (const line of lines) {
+    const item = itemById.get(line.id);
+    if (!item || (propertyId !== null && item.propertyId !== null && item.propertyId !== propertyId)) {
+      issues.push(`Item #${line.id} is no longer on the menu`);
+      continue;
+    }
+    if (!item.isAvailable) {
+      issues.push(`${item.name} is currently unavailable`);
+      continue;
+    }
+    const category = item.categoryId !== null ? categoryById.get(item.categoryId) : undefined;
+    if (category && !category.isActive) {
+      issues.push(`${item.name} is currently unavailable`);
+      continue;
+    }
+    if (!isItemServed(item, category, schedule)) {
+      const window = category && !isCategoryServed(category, schedule) ? category : item;
+      issues.push(`${item.name} is only served ${describeWindow(window)}`);
+      continue;
+    }
+
+    const itemVariants = variants.filter(v => v.menuItemId === item.id);
+    let basePrice = parseFloat(item.discountedPrice ?? item.price);
+    let variantName: string | null = null;
+    if (line.variantId) {
+      const variant = itemVariants.find(v => v.id === line.variantId);
+      if (!variant) {
+        issues.push(`The selected option for ${item.name} is no longer available`);
+        continue;
+      }
+      basePrice = parseFloat(variant.discountedPrice ?? variant.actualPrice);
+      variantName = variant.variantName;
+    } else if (item.hasVariants && itemVariants.length > 0) {
+      issues.push(`Select an option for ${item.name}`);
+      continue;
+    }
+
+    const scheduled = scheduledPrice(item, basePrice, schedule);
+    basePrice = scheduled.price;
+
+    const resolved = resolveModifiers(item, line.modifiers ?? [], modifierMenu);
+    if (resolved.issues.length > 0) {
+      issues.push(...resolved.issues);
+      continue;
+    }
+
+    const lineAddOns: PricedAddOn[] = [];
+    for (const requested of line.addOns ?? []) {
+      const addOn = addOns.find(a => a.id === requested.id && a.menuItemId === item.id);
+      if (!addOn) {
+        issues.push(`An add-on for ${item.name} is no longer available`);
+        continue;
+      }
+      lineAddOns.push({ id: addOn.id, name: addOn.addOnName, price: parseFloat(addOn.addOnPrice), quantity: requested.quantity });
+    }
+
+    const modifiersTotal = resolved.modifiers.reduce((sum, m) => sum + m.price, 0);
+    const addOnsTotal = lineAddOns.reduce((sum, a) => sum + a.price * a.quantity, 0);
+    const lineTotal = round2((basePrice + modifiersTotal) * line.quantity + addOnsTotal);
+    const variantText = variantName ? ` (${variantName})` : "";
+    const addOnsText = lineAddOns.length > 0 ? ` + ${lineAddOns.map(a => `${a.quantity}x ${a.name}`).join(", ")}` : "";
+
+    priced.push({
+      id: item.id,
+      name: item.name + variantText + modifiersText(resolved.modifiers) + addOnsText,
+      itemName: item.name,
+      variantId: line.variantId ?? null,
+      variantName,
+      modifiers: resolved.modifiers,
+      addOns: lineAddOns,
+      basePrice,
+      priceRule: scheduled.rule?.name ?? null,
+      price: (lineTotal / line.quantity).toFixed(2),
+      quantity: line.quantity,
+      lineTotal,
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new OrderPricingError(`Some items in your order can't be served: ${issues.join("; ")}`, issues);
+  }
+
+  return {
+    items: priced,
+    totalAmount: round2(priced.reduce((sum, l) => sum + l.lineTotal, 0)).toFixed(2),
+  };
+}
+
+/**
+ * Staff orders keep the price entered at the till, but modifier choices are
+ * checked against the item's groups and priced from the menu. Lines for items
+ * without modifier groups are left as they are.
+ */
+export function applyModifierChoices(items: any[], menuItemRows: MenuItem[], modifierMenu: ModifierMenu): { items: any[]; totalAmount: string } {
+  const itemById = new Map(menuItemRows.map(i => [i.id, i]));
+  const issues: string[] = [];
+
+  const applied = items.map(line => {
+    const item = itemById.get(Number(line?.id));
+    if (!item || !modifierMenu.groups.some(g => g.menuItemId === item.id)) return line;
+    const selected = z.array(z.coerce.number().int().positive()).catch([]).parse(line.modifiers ?? []);
+    const resolved = resolveModifiers(item, selected, modifierMenu);
+    if (resolved.issues.length > 0) {
+      issues.push(...resolved.issues);
+      return line;
+    }
+    const quantity = Math.max(1, parseInt(String(line.quantity)) || 1);
+    const basePrice = parseFloat(String(line.basePrice ?? line.price)) || 0;
+    const unitPrice = basePrice + resolved.modifiers.reduce((sum, m) => sum + m.price, 0);
+    return {
+      ...line,
+      name: item.name + modifiersText(resolved.modifiers),
+      itemName: item.name,
+      modifiers: resolved.modifiers,
+      basePrice,
+      price: unitPrice.toFixed(2),
+      quantity,
+      lineTotal: round2(unitPrice * quantity),
+    };
+  });
+
+  if (issues.length > 0) {
+    throw new OrderPricingError(`Some items need their choices fixed: ${issues.join("; ")}`, issues);
+  }
+
+  const total = applied.reduce((sum, line) => {
+    const lineTotal = parseFloat(String(line.lineTotal));
+    return sum + (Number.isFinite(lineTotal) ? lineTotal : (parseFloat(String(line.price)) || 0) * (Number(line.quantity) || 1));
+  }, 0);
+  return { items: applied, totalAmount: round2(total).toFixed(2) };
+}
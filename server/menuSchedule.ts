@@ -0,0 +1,114 @@
+import { db } from "./db";
+import {
+  menuCategories,
+  menuItemVariants,
+  menuItems,
+  menuPriceRules,
+  properties,
+  type MenuCategory,
+  type MenuItem,
+  type MenuItemVariant,
+  type AppliedPriceRule,
+} from "@shared/schema";
+import { and, eq, isNull, or } from "drizzle-orm";
+import {
+  DEFAULT_MENU_TIMEZONE,
+  isCategoryServed,
+  isItemServed,
+  menuClock,
+  scheduledPrice,
+  type MenuScheduleContext,
+} from "./menuClock";
+
+// Public menu rows: discountedPrice carries the price right now, actualPrice the price it replaces
+export type ScheduledMenuItem = MenuItem & { priceRule: AppliedPriceRule | null };
+export type ScheduledVariant = MenuItemVariant & { priceRule: AppliedPriceRule | null };
+
+/**
+ * The guest menu as it stands at the property's local time. Categories and
+ * items can each carry a serving window and days of the week; an item is
+ * served only when both are open. When several price rules cover an item the
+ * guest gets the lowest price, and a rule never raises the regular price.
+ */
+export class MenuScheduleService {
+  static async getContext(propertyId: number | null, at: Date = new Date()): Promise<MenuScheduleContext> {
+    let timeZone = DEFAULT_MENU_TIMEZONE;
+    if (propertyId !== null) {
+      const [property] = await db
+        .select({ timezone: properties.timezone })
+        .from(properties)
+        .where(eq(properties.id, propertyId));
+      timeZone = property?.timezone || DEFAULT_MENU_TIMEZONE;
+    }
+    const rules = await db
+      .select()
+      .from(menuPriceRules)
+      .where(and(
+        eq(menuPriceRules.isActive, true),
+        propertyId !== null
+          ? or(isNull(menuPriceRules.propertyId), eq(menuPriceRules.propertyId, propertyId))
+          : isNull(menuPriceRules.propertyId),
+      ));
+    return { propertyId, clock: menuClock(timeZone, at), rules };
+  }
+
+  // Items guests can order right now, with any price rule already applied
+  static async getPublicMenu(propertyId: number | null, at: Date = new Date()): Promise<ScheduledMenuItem[]> {
+    const context = await this.getContext(propertyId, at);
+    const [items, categories] = await Promise.all([
+      db.select().from(menuItems).orderBy(menuItems.displayOrder, menuItems.name),
+      db.select().from(menuCategories),
+    ]);
+    const categoryById = new Map(categories.map(c => [c.id, c]));
+
+    return items
+      .filter(item => item.isAvailable)
+      .filter(item => propertyId === null || item.propertyId === null || item.propertyId === propertyId)
+      .filter(item => isItemServed(item, item.categoryId !== null ? categoryById.get(item.categoryId) : undefined, context))
+      .map(item => {
+        const regular = item.discountedPrice ?? item.price;
+        const scheduled = scheduledPrice(item, parseFloat(regular), context);
+        if (!scheduled.rule) return { ...item, priceRule: null };
+        return {
+          ...item,
+          actualPrice: regular,
+          discountedPrice: scheduled.price.toFixed(2),
+          priceRule: scheduled.rule,
+        };
+      });
+  }
+
+  static async getPublicCategories(propertyId: number | null, at: Date = new Date()): Promise<MenuCategory[]> {
+    const context = await this.getContext(propertyId, at);
+    const categories = await db
+      .select()
+      .from(menuCategories)
+      .orderBy(menuCategories.displayOrder, menuCategories.name);
+    return categories
+      .filter(category => propertyId === null || category.propertyId === null || category.propertyId === propertyId)
+      .filter(category => isCategoryServed(category, context));
+  }
+
+  static async getPublicVariants(menuItemId: number, propertyId: number | null, at: Date = new Date()): Promise<ScheduledVariant[]> {
+    const [item] = await db.select().from(menuItems).where(eq(menuItems.id, menuItemId));
+    if (!item) return [];
+    const context = await this.getContext(propertyId ?? item.propertyId, at);
+    const variants = await db
+      .select()
+      .from(menuItemVariants)
+      .where(eq(menuItemVariants.menuItemId, menuItemId))
+      .orderBy(menuItemVariants.displayOrder);
+
+    return variants.map(variant => {
+      const regular = variant.discountedPrice ?? variant.actualPrice;
+      const scheduled = scheduledPrice(item, parseFloat(regular), context);
+      if (!scheduled.rule) return { ...variant, priceRule: null };
+      return {
+        ...variant,
+        actualPrice: regular,
+        discountedPrice: scheduled.price.toFixed(2),
+        priceRule: scheduled.rule,
+      };
+    });
+  }
+}
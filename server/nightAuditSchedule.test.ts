@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { auditDatesDue } from "./nightAuditSchedule";
+
+const afterAudit = { date: "2026-10-19", minutes: 3 * 60 + 15 };
+
+test("nothing is due before the property's audit time", () => {
+  assert.deepEqual(auditDatesDue({ date: "2026-10-19", minutes: 2 * 60 + 59 }, "03:00", "2026-10-17"), []);
+});
+
+test("a property never audited closes yesterday", () => {
+  assert.deepEqual(auditDatesDue(afterAudit, "03:00", null), ["2026-10-18"]);
+});
+
+test("yesterday already closed leaves nothing due", () => {
+  assert.deepEqual(auditDatesDue(afterAudit, "03:00", "2026-10-18"), []);
+});
+
+test("days missed since the last audit are caught up oldest first", () => {
+  assert.deepEqual(auditDatesDue(afterAudit, "03:00", "2026-10-15"), ["2026-10-16", "2026-10-17", "2026-10-18"]);
+  assert.deepEqual(auditDatesDue({ date: "2026-11-01", minutes: 600 }, "03:00", "2026-10-30"), ["2026-10-31"]);
+});
+
+test("catch-up is capped at the last 31 days", () => {
+  const due = auditDatesDue(afterAudit, "03:00", "2026-01-01");
+  assert.equal(due.length, 31);
+  assert.equal(due[0], "2026-09-18");
+  assert.equal(due[30], "2026-10-18");
+});
@@ -0,0 +1,31 @@
+import { addDays, format, subDays } from "date-fns";
+import type { MenuClock } from "./menuClock";
+
+// Most business dates a late or stalled scheduler closes for a property at once
+const MAX_CATCH_UP_DAYS = 31;
+
+function shiftDate(day: string, days: number): string {
+  return format(addDays(new Date(`${day}T00:00:00`), days), "yyyy-MM-dd");
+}
+
+/**
+ * Business dates a property's audit should close now, oldest first. Nothing is
+ * due before the audit time on the property's clock; after it, every date
+ * since the last one audited up to yesterday is, so a missed scheduler tick is
+ * caught up on the next one. A property never audited starts with yesterday.
+ */
+export function auditDatesDue(clock: Pick<MenuClock, "date" | "minutes">, auditTime: string, lastAudited: string | null): string[] {
+  const [auditHour, auditMinute] = auditTime.split(":").map(Number);
+  if (clock.minutes < auditHour * 60 + auditMinute) return [];
+
+  const yesterday = format(subDays(new Date(`${clock.date}T00:00:00`), 1), "yyyy-MM-dd");
+  const earliest = shiftDate(yesterday, 1 - MAX_CATCH_UP_DAYS);
+  let day = lastAudited ? shiftDate(lastAudited, 1) : yesterday;
+  if (day < earliest) day = earliest;
+
+  const due: string[] = [];
+  for (; day <= yesterday; day = shiftDate(day, 1)) {
+    due.push(day);
+  }
+  return due;
+}
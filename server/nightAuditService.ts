@@ -0,0 +1,189 @@
+import { db } from "./db";
+import { bookings, guests, rooms, type Booking, type DailyStat, type NightAuditReport } from "@shared/schema";
+import { and, eq, gte, inArray, lt } from "drizzle-orm";
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import { storage } from "./storage";
+import { RateService } from "./rateService";
+import { CancellationService } from "./cancellationService";
+import { getBookingRoomIds } from "./roomInventory";
+import { menuClock, zonedDayStart, DEFAULT_MENU_TIMEZONE } from "./menuClock";
+import { auditDatesDue } from "./nightAuditSchedule";
+
+// How often the scheduler checks whether a property's audit is due
+const SCHEDULER_INTERVAL_MS = 15 * 60 * 1000;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * End-of-day process for a property. Closing a business date marks bookings
+ * that never arrived as no-shows (billed under the cancellation policy),
+ * flags in-house guests past their checkout date, posts the night's room
+ * revenue and snapshots occupancy, ADR and RevPAR into daily_stats.
+ */
+export class NightAuditService {
+  private static running = false;
+
+  static async run(propertyId: number, businessDate: string, auditedBy: string | null = null): Promise<DailyStat> {
+    // The business date is the property's local day, not the server's
+    const property = await storage.getProperty(propertyId);
+    const timeZone = property?.timezone || DEFAULT_MENU_TIMEZONE;
+    const dayStart = zonedDayStart(timeZone, businessDate);
+    const nextDayStart = zonedDayStart(timeZone, format(addDays(new Date(`${businessDate}T00:00:00`), 1), "yyyy-MM-dd"));
+    const dateKey = (value: Date | string) => menuClock(timeZone, new Date(value)).date;
+
+    const propertyRooms = await db.select().from(rooms).where(eq(rooms.propertyId, propertyId));
+    const roomNumbers = new Map(propertyRooms.map(r => [r.id, r.roomNumber]));
+    const roomsLabel = (booking: Booking) =>
+      getBookingRoomIds(booking).map(id => roomNumbers.get(id) ?? `#${id}`).join(", ") || "-";
+
+    const previous = await storage.getDailyStat(propertyId, businessDate);
+    const report: NightAuditReport = {
+      postings: [],
+      noShows: previous ? [...previous.report.noShows] : [], // Re-runs keep no-shows settled earlier
+      overstays: [],
+      errors: [],
+    };
+
+    const forProperty = eq(bookings.propertyId, propertyId);
+    // Still pending/confirmed after their check-in date has closed
+    const missedArrivals = await db
+      .select()
+      .from(bookings)
+      .where(and(forProperty, inArray(bookings.status, ["pending", "confirmed"]), lt(bookings.checkInDate, nextDayStart)));
+    // Checked in but the checkout date has passed
+    const overstays = await db
+      .select()
+      .from(bookings)
+      .where(and(forProperty, eq(bookings.status, "checked-in"), lt(bookings.checkOutDate, nextDayStart)));
+    // Stays that include the night of the business date
+    const stays = await db
+      .select()
+      .from(bookings)
+      .where(and(
+        forProperty,
+        inArray(bookings.status, ["checked-in", "checked-out"]),
+        lt(bookings.checkInDate, nextDayStart),
+        gte(bookings.checkOutDate, dayStart),
+      ));
+
+    const guestIds = Array.from(new Set([...missedArrivals, ...overstays, ...stays].map(b => b.guestId)));
+    const guestRows = guestIds.length > 0
+      ? await db.select({ id: guests.id, fullName: guests.fullName }).from(guests).where(inArray(guests.id, guestIds))
+      : [];
+    const guestNames = new Map(guestRows.map(g => [g.id, g.fullName]));
+    const guestName = (booking: Booking) => guestNames.get(booking.guestId) ?? "Guest";
+
+    // No-shows are charged under the cancellation policy and the rest of the advance refunded
+    for (const booking of missedArrivals) {
+      try {
+        const quote = await CancellationService.quote(booking, "no-show");
+        const { refund } = await storage.cancelBooking(booking, "no-show", quote, { recordedBy: auditedBy });
+        report.noShows.push({
+          bookingId: booking.id,
+          guestName: guestName(booking),
+          checkInDate: dateKey(booking.checkInDate),
+          charge: quote.totalCharge,
+          refund: refund ? Math.abs(parseFloat(refund.amount)) : 0,
+        });
+      } catch (error: any) {
+        console.error(`[NightAudit] Booking #${booking.id} - No-show processing failed:`, error.message);
+        report.errors.push(`Booking #${booking.id}: ${error.message}`);
+      }
+    }
+
+    report.overstays = overstays.map(booking => ({
+      bookingId: booking.id,
+      guestName: guestName(booking),
+      rooms: roomsLabel(booking),
+      checkOutDate: dateKey(booking.checkOutDate),
+      daysOverdue: differenceInCalendarDays(
+        new Date(`${businessDate}T00:00:00`),
+        new Date(`${dateKey(booking.checkOutDate)}T00:00:00`),
+      ) + 1,
+    }));
+
+    // Post the room revenue of the night from each stay's nightly rates
+    const soldRoomIds = new Set<number>();
+    for (const booking of stays) {
+      try {
+        const quote = await RateService.quoteBooking(booking);
+        const nights = quote.nightlyRates.filter(n => n.date === businessDate);
+        if (nights.length === 0) continue;
+        nights.forEach(n => soldRoomIds.add(n.roomId));
+        report.postings.push({
+          bookingId: booking.id,
+          guestName: guestName(booking),
+          rooms: roomsLabel(booking),
+          amount: round2(nights.reduce((sum, n) => sum + n.total, 0)),
+        });
+      } catch (error: any) {
+        console.error(`[NightAudit] Booking #${booking.id} - Revenue posting failed:`, error.message);
+        report.errors.push(`Booking #${booking.id}: ${error.message}`);
+      }
+    }
+
+    const totalRooms = propertyRooms.length;
+    const roomsSold = soldRoomIds.size;
+    const roomRevenue = round2(report.postings.reduce((sum, p) => sum + p.amount, 0));
+
+    return await storage.saveDailyStat({
+      propertyId,
+      businessDate,
+      totalRooms,
+      roomsSold,
+      occupancyRate: (totalRooms > 0 ? round2((roomsSold / totalRooms) * 100) : 0).toFixed(2),
+      roomRevenue: roomRevenue.toFixed(2),
+      adr: (roomsSold > 0 ? round2(roomRevenue / roomsSold) : 0).toFixed(2),
+      revpar: (totalRooms > 0 ? round2(roomRevenue / totalRooms) : 0).toFixed(2),
+      arrivals: stays.filter(b => dateKey(b.checkInDate) === businessDate).length,
+      departures: stays.filter(b => b.status === "checked-out" && dateKey(b.checkOutDate) === businessDate).length,
+      noShows: report.noShows.length,
+      overstays: report.overstays.length,
+      report,
+      auditedBy,
+    });
+  }
+
+  /**
+   * Close every business date due for each active property: yesterday once the
+   * property's audit time has passed, plus any day a missed run left open
+   */
+  static async runDue(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const properties = await storage.getAllProperties();
+
+      for (const property of properties) {
+        if (!property.isActive) continue;
+        // The audit time and the days it closes are the property's local ones, not the server's
+        const clock = menuClock(property.timezone || DEFAULT_MENU_TIMEZONE, now);
+        const lastAudited = await storage.getLastDailyStat(property.id);
+        const due = auditDatesDue(clock, property.nightAuditTime, lastAudited?.businessDate ?? null);
+
+        // Oldest first; a failed date stops the run so the next tick retries it in order
+        for (const businessDate of due) {
+          try {
+            const stat = await this.run(property.id, businessDate);
+            console.log(`[NightAudit] ${property.name} - Closed ${businessDate}: ${stat.noShows} no-show(s), ${stat.overstays} overstay(s), occupancy ${stat.occupancyRate}%`);
+          } catch (error: any) {
+            console.error(`[NightAudit] ${property.name} - Audit for ${businessDate} failed:`, error.message);
+            break;
+          }
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  static startScheduler(): void {
+    const tick = () => {
+      this.runDue().catch(error => console.error("[NightAudit] Scheduler error:", error.message));
+    };
+    tick();
+    setInterval(tick, SCHEDULER_INTERVAL_MS);
+  }
+}
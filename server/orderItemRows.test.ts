@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Order } from "@shared/schema";
+import { buildOrderItems, referencedMenuIds } from "./orderItemRows";
+
+const known = { menuItemIds: new Set([1, 2]), variantIds: new Set([10]) };
+
+function order(items: unknown): Order {
+  return { id: 1, status: "pending", items } as Order;
+}
+
+test("priced guest lines keep their variant, modifiers and add-ons", () => {
+  const [row] = buildOrderItems(order([{
+    id: 1,
+    name: "Masala Dosa",
+    variantId: 10,
+    variantName: "Large",
+    price: "120",
+    quantity: 2,
+    lineTotal: "260",
+    modifiers: [{ id: 5, groupName: "Spice", name: "Hot", price: 0 }, null],
+    addOns: [{ id: 7, name: "Extra chutney", price: "10", quantity: 2 }],
+  }]), known);
+
+  assert.equal(row.menuItemId, 1);
+  assert.equal(row.variantId, 10);
+  assert.equal(row.variantName, "Large");
+  assert.equal(row.unitPrice, "120.00");
+  assert.equal(row.lineTotal, "260.00");
+  assert.deepEqual(row.modifiers, [{ modifierId: 5, groupName: "Spice", name: "Hot", price: 0 }]);
+  assert.deepEqual(row.addOns, [{ addOnId: 7, name: "Extra chutney", price: 10, quantity: 2 }]);
+});
+
+test("legacy lines default the quantity and drop unknown menu references", () => {
+  const [row] = buildOrderItems(order([{ id: 99, name: "Tea", price: 20 }]), known);
+  assert.equal(row.menuItemId, null);
+  assert.equal(row.itemName, "Tea");
+  assert.equal(row.quantity, 1);
+  assert.equal(row.lineTotal, "20.00");
+});
+
+test("malformed items JSON yields no rows", () => {
+  assert.deepEqual(buildOrderItems(order(null), known), []);
+  assert.deepEqual(buildOrderItems(order([null, "x", 3, {}]), known), []);
+});
+
+test("menu references are collected once each for the existence check", () => {
+  const items = [{ id: 1, variantId: 10 }, { id: "1", variantId: null }, { id: 2 }, { name: "Custom" }];
+  assert.deepEqual(referencedMenuIds(order(items)), { menuItemIds: [1, 2], variantIds: [10] });
+});
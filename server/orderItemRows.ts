@@ -0,0 +1,88 @@
+import type { InsertOrderItem, Order, OrderItemAddOn, OrderItemModifier } from "@shared/schema";
+
+export type NewOrderItem = Omit<InsertOrderItem, "orderId">;
+
+export interface KnownMenuIds {
+  menuItemIds: Set<number>;
+  variantIds: Set<number>;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// The objects in a JSON array; anything else in it (or a non-array) is skipped
+function objectList(value: unknown): JsonObject[] {
+  return Array.isArray(value) ? value.filter(isObject) : [];
+}
+
+function toText(value: unknown): string | null {
+  if (typeof value === "string") return value;
+  return typeof value === "number" ? String(value) : null;
+}
+
+function toNumber(value: unknown): number | null {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toId(value: unknown, known: Set<number>): number | null {
+  const id = toNumber(value);
+  return id !== null && known.has(id) ? id : null;
+}
+
+/**
+ * Normalise an order's items JSON into order_items rows. Handles the priced
+ * snapshot written for guest orders (variant, modifier and add-on references) as well as
+ * the older { id, name, price, quantity } lines from staff and legacy orders;
+ * references to menu items or variants that no longer exist are dropped.
+ */
+export function buildOrderItems(order: Order, known: KnownMenuIds): NewOrderItem[] {
+  const rows: NewOrderItem[] = [];
+
+  for (const item of objectList(order.items)) {
+    if (!item.name && !item.itemName && item.id === undefined) continue;
+    const quantity = Math.max(1, Math.round(toNumber(item.quantity) ?? 1));
+    const unitPrice = toNumber(item.price) ?? 0;
+    const lineTotal = toNumber(item.lineTotal) ?? unitPrice * quantity;
+    const addOns: OrderItemAddOn[] = objectList(item.addOns).map(addOn => ({
+      addOnId: toNumber(addOn.id),
+      name: String(addOn.name ?? ""),
+      price: toNumber(addOn.price) ?? 0,
+      quantity: Math.max(1, Math.round(toNumber(addOn.quantity) ?? 1)),
+    }));
+    const modifiers: OrderItemModifier[] = objectList(item.modifiers).map(modifier => ({
+      modifierId: toNumber(modifier.id),
+      groupName: String(modifier.groupName ?? ""),
+      name: String(modifier.name ?? ""),
+      price: toNumber(modifier.price) ?? 0,
+    }));
+
+    rows.push({
+      menuItemId: toId(item.id, known.menuItemIds),
+      variantId: toId(item.variantId, known.variantIds),
+      itemName: String(item.itemName ?? item.name ?? `Item #${item.id}`).slice(0, 255),
+      variantName: toText(item.variantName),
+      modifiers,
+      addOns,
+      quantity,
+      unitPrice: unitPrice.toFixed(2),
+      lineTotal: lineTotal.toFixed(2),
+      notes: toText(item.notes),
+      status: order.status,
+    });
+  }
+
+  return rows;
+}
+
+// Menu item and variant ids the items JSON refers to, to check which still exist
+export function referencedMenuIds(order: Order): { menuItemIds: number[]; variantIds: number[] } {
+  const items = objectList(order.items);
+  return {
+    menuItemIds: Array.from(new Set(items.map(i => toNumber(i.id)).filter((id): id is number => id !== null))),
+    variantIds: Array.from(new Set(items.map(i => toNumber(i.variantId)).filter((id): id is number => id !== null))),
+  };
+}
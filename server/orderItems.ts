@@ -0,0 +1,31 @@
+import { db } from "./db";
+import { menuItemVariants, menuItems, orderItems, type Order } from "@shared/schema";
+import { eq, inArray } from "drizzle-orm";
+import type { DbTransaction } from "./reservationService";
+import { buildOrderItems, referencedMenuIds } from "./orderItemRows";
+
+type DbExecutor = typeof db | DbTransaction;
+
+/**
+ * Rewrite the order_items rows of an order from its items JSON
+ */
+export async function replaceOrderItems(executor: DbExecutor, order: Order): Promise<void> {
+  const { menuItemIds, variantIds } = referencedMenuIds(order);
+
+  const knownItems = menuItemIds.length > 0
+    ? await executor.select({ id: menuItems.id }).from(menuItems).where(inArray(menuItems.id, menuItemIds))
+    : [];
+  const knownVariants = variantIds.length > 0
+    ? await executor.select({ id: menuItemVariants.id }).from(menuItemVariants).where(inArray(menuItemVariants.id, variantIds))
+    : [];
+
+  const rows = buildOrderItems(order, {
+    menuItemIds: new Set(knownItems.map(i => i.id)),
+    variantIds: new Set(knownVariants.map(v => v.id)),
+  });
+
+  await executor.delete(orderItems).where(eq(orderItems.orderId, order.id));
+  if (rows.length > 0) {
+    await executor.insert(orderItems).values(rows.map(row => ({ ...row, orderId: order.id })));
+  }
+}
@@ -0,0 +1,66 @@
+import { db } from "./db";
+import {
+  menuCategories,
+  menuItemAddOns,
+  menuItemModifierGroups,
+  menuItemModifiers,
+  menuItemVariants,
+  menuItems,
+} from "@shared/schema";
+import { inArray } from "drizzle-orm";
+import { MenuScheduleService } from "./menuSchedule";
+import {
+  applyModifierChoices,
+  priceOrderLines,
+  OrderPricingError,
+  type ModifierMenu,
+  type OrderLineInput,
+  type PricedOrder,
+} from "./menuPricing";
+
+async function loadModifierMenu(menuItemIds: number[]): Promise<ModifierMenu> {
+  if (menuItemIds.length === 0) return { groups: [], options: [] };
+  const groups = await db.select().from(menuItemModifierGroups).where(inArray(menuItemModifierGroups.menuItemId, menuItemIds));
+  const options = groups.length > 0
+    ? await db.select().from(menuItemModifiers).where(inArray(menuItemModifiers.groupId, groups.map(g => g.id)))
+    : [];
+  return { groups, options };
+}
+
+/**
+ * Prices guest orders from the menu as it stands at the property's local
+ * time. Prices are never taken from the client.
+ */
+export class OrderPricingService {
+  static async priceOrder(lines: OrderLineInput[], propertyId: number | null, at: Date = new Date()): Promise<PricedOrder> {
+    if (lines.length === 0) {
+      throw new OrderPricingError("Items are required");
+    }
+
+    const itemIds = Array.from(new Set(lines.map(l => l.id)));
+    const items = await db.select().from(menuItems).where(inArray(menuItems.id, itemIds));
+    const categoryIds = Array.from(new Set(items.map(i => i.categoryId).filter((id): id is number => id !== null)));
+    const [categories, variants, addOns, modifierMenu, schedule] = await Promise.all([
+      categoryIds.length > 0 ? db.select().from(menuCategories).where(inArray(menuCategories.id, categoryIds)) : [],
+      db.select().from(menuItemVariants).where(inArray(menuItemVariants.menuItemId, itemIds)),
+      db.select().from(menuItemAddOns).where(inArray(menuItemAddOns.menuItemId, itemIds)),
+      loadModifierMenu(itemIds),
+      MenuScheduleService.getContext(propertyId, at),
+    ]);
+
+    return priceOrderLines(lines, propertyId, { items, categories, variants, addOns, modifiers: modifierMenu }, schedule);
+  }
+
+  // Checks and prices the modifier choices on a staff order; null when no line is for an item with modifiers
+  static async applyModifiers(items: any[]): Promise<{ items: any[]; totalAmount: string } | null> {
+    const itemIds = Array.from(new Set(
+      items.map(i => Number(i?.id)).filter(id => Number.isInteger(id) && id > 0)
+    ));
+    if (itemIds.length === 0) return null;
+    const modifierMenu = await loadModifierMenu(itemIds);
+    if (modifierMenu.groups.length === 0) return null;
+
+    const menuItemRows = await db.select().from(menuItems).where(inArray(menuItems.id, itemIds));
+    return applyModifierChoices(items, menuItemRows, modifierMenu);
+  }
+}
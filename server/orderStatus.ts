@@ -0,0 +1,61 @@
+import { z } from "zod";
+
+export const ORDER_STATUSES = ["pending", "preparing", "ready", "delivered", "rejected", "cancelled"] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+// Allowed next statuses; delivered, rejected and cancelled are final
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["preparing", "rejected", "cancelled"],
+  preparing: ["ready", "cancelled"],
+  ready: ["delivered", "cancelled"],
+  delivered: [],
+  rejected: [],
+  cancelled: [],
+};
+
+const STATUSES_NEEDING_REASON: OrderStatus[] = ["rejected", "cancelled"];
+
+export const orderStatusInputSchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+  reason: z.string().trim().max(500).optional(),
+}).refine(
+  (input) => !STATUSES_NEEDING_REASON.includes(input.status) || !!input.reason,
+  { message: "A reason is required to reject or cancel an order", path: ["reason"] },
+);
+
+export type OrderStatusInput = z.infer<typeof orderStatusInputSchema>;
+
+export class OrderStatusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderStatusError";
+    Object.setPrototypeOf(this, OrderStatusError.prototype);
+  }
+}
+
+export function assertOrderTransition(from: string, to: OrderStatus): void {
+  const allowed = ORDER_STATUS_TRANSITIONS[from as OrderStatus] ?? [];
+  if (!allowed.includes(to)) {
+    throw new OrderStatusError(
+      allowed.length > 0
+        ? `Cannot move a ${from} order to ${to}; it can only become ${allowed.join(" or ")}`
+        : `The order is already ${from}`
+    );
+  }
+}
+
+// Kitchen shifts for the performance report, by the hour preparation started
+export const KITCHEN_SHIFTS = [
+  { name: "Morning", startHour: 6, endHour: 14 },
+  { name: "Evening", startHour: 14, endHour: 22 },
+  { name: "Night", startHour: 22, endHour: 6 },
+];
+
+export function kitchenShiftFor(at: Date): string {
+  const hour = at.getHours();
+  const shift = KITCHEN_SHIFTS.find(s =>
+    s.startHour < s.endHour ? hour >= s.startHour && hour < s.endHour : hour >= s.startHour || hour < s.endHour
+  );
+  return shift?.name ?? KITCHEN_SHIFTS[0].name;
+}
@@ -0,0 +1,106 @@
+import { db } from "./db";
+import {
+  diningTables,
+  guests,
+  orderItems,
+  properties,
+  rooms,
+  type Order,
+  type PublicOrderStatus,
+} from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { sendOrderReadyNotification } from "./whatsapp";
+
+function iso(value: Date | null): string | null {
+  return value ? value.toISOString() : null;
+}
+
+async function orderLocation(order: Order): Promise<string | null> {
+  if (order.roomId) {
+    const [room] = await db.select({ roomNumber: rooms.roomNumber }).from(rooms).where(eq(rooms.id, order.roomId));
+    return room ? `Room ${room.roomNumber}` : null;
+  }
+  if (order.tableId) {
+    const [table] = await db.select({ tableNumber: diningTables.tableNumber }).from(diningTables).where(eq(diningTables.id, order.tableId));
+    return table ? `Table ${table.tableNumber}` : null;
+  }
+  return null;
+}
+
+/**
+ * Guest-facing view of an order, reached through the order's tracking token.
+ * Guests see progress and what they ordered, never the contact details or
+ * the ids behind it.
+ */
+export class OrderTrackingService {
+  static trackingPath(order: Order): string | null {
+    return order.trackingToken ? `/track/${order.trackingToken}` : null;
+  }
+
+  static async toPublicStatus(order: Order): Promise<PublicOrderStatus> {
+    const [lines, property, location] = await Promise.all([
+      db.select().from(orderItems).where(eq(orderItems.orderId, order.id)).orderBy(orderItems.id),
+      order.propertyId
+        ? db.select({ name: properties.name }).from(properties).where(eq(properties.id, order.propertyId)).then(rows => rows[0])
+        : undefined,
+      orderLocation(order),
+    ]);
+
+    return {
+      orderNumber: order.id,
+      status: order.status,
+      orderType: order.orderType,
+      propertyName: property?.name ?? null,
+      location,
+      items: lines.map(line => ({
+        name: line.variantName ? `${line.itemName} (${line.variantName})` : line.itemName,
+        quantity: line.quantity,
+        cancelled: line.status === "cancelled",
+      })),
+      totalAmount: order.totalAmount,
+      statusReason: order.statusReason,
+      targetPrepMinutes: order.targetPrepMinutes,
+      notifyWhenReady: order.notifyWhenReady,
+      createdAt: iso(order.createdAt),
+      preparingAt: iso(order.preparingAt),
+      readyAt: iso(order.readyAt),
+      deliveredAt: iso(order.deliveredAt),
+      cancelledAt: iso(order.cancelledAt),
+    };
+  }
+
+  // Best-effort WhatsApp message for guests who asked to hear when their order is ready
+  static async notifyReady(order: Order, baseUrl: string): Promise<void> {
+    if (!order.notifyWhenReady || order.status !== "ready") return;
+    try {
+      let phone = order.customerPhone;
+      let name = order.customerName;
+      if (!phone && order.guestId) {
+        const [guest] = await db.select().from(guests).where(eq(guests.id, order.guestId));
+        phone = guest?.phone ?? null;
+        name = name || guest?.fullName || null;
+      }
+      if (!phone) {
+        console.warn(`[WhatsApp] Order #${order.id} - Cannot send ready notification: no phone number`);
+        return;
+      }
+
+      const status = await this.toPublicStatus(order);
+      const result = await sendOrderReadyNotification(
+        phone,
+        name || "Guest",
+        status.propertyName || "our café",
+        `#${order.id}`,
+        status.location || "the counter",
+        `${baseUrl}${this.trackingPath(order)}`
+      );
+      if (result.success) {
+        console.log(`[WhatsApp] Order #${order.id} - Ready notification sent`);
+      } else {
+        console.warn(`[WhatsApp] Order #${order.id} - Ready notification not sent: ${result.error || result.message}`);
+      }
+    } catch (error: any) {
+      console.error(`[WhatsApp] Order #${order.id} - Ready notification failed (non-critical):`, error.message);
+    }
+  }
+}
@@ -0,0 +1,213 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { format } from "date-fns";
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import {
+  bookings,
+  guests,
+  properties,
+  type Booking,
+  type PreCheckInInput,
+  type PublicPreCheckIn,
+} from "@shared/schema";
+import { ObjectStorageService } from "./objectStorage";
+import { getObjectAclPolicy, setObjectAclPolicy } from "./objectAcl";
+import { eventBus, EventTypes } from "./eventBus";
+import { sendPreCheckInLink } from "./whatsapp";
+
+export class PreCheckInError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PreCheckInError";
+    Object.setPrototypeOf(this, PreCheckInError.prototype);
+  }
+}
+
+// Bookings the guest can still pre-check-in for
+const OPEN_STATUSES = ["pending", "confirmed"];
+
+function linkSecret(): string {
+  const secret = process.env.PRE_CHECKIN_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("PRE_CHECKIN_SECRET (or SESSION_SECRET) must be set to sign pre-check-in links");
+  }
+  return secret;
+}
+
+/**
+ * Key in the booking's pre-check-in link. It is bound to the booking and its
+ * guest, so the link stops working if the booking is moved to another guest.
+ */
+export function preCheckInKey(booking: Pick<Booking, "id" | "guestId">): string {
+  return createHmac("sha256", linkSecret())
+    .update(`pre-check-in:${booking.id}:${booking.guestId}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+function isValidKey(booking: Booking, key: string): boolean {
+  const expected = Buffer.from(preCheckInKey(booking));
+  const given = Buffer.from(key);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Online pre-check-in: the guest opens a signed link before arrival, fills in
+ * their details, uploads their ID and accepts the house rules. The details go
+ * straight onto the guest profile, so the front desk only has to check the ID
+ * and hand over the key.
+ */
+export class PreCheckInService {
+  static preCheckInPath(booking: Pick<Booking, "id" | "guestId">): string {
+    return `/pre-check-in/${booking.id}/${preCheckInKey(booking)}`;
+  }
+
+  // The booking behind a link; undefined when the link is not valid
+  static async resolve(bookingId: number, key: string): Promise<Booking | undefined> {
+    if (isNaN(bookingId)) return undefined;
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, bookingId));
+    if (!booking || !isValidKey(booking, key)) return undefined;
+    return booking;
+  }
+
+  static isOpen(booking: Pick<Booking, "status">): boolean {
+    return OPEN_STATUSES.includes(booking.status);
+  }
+
+  static assertOpen(booking: Booking): void {
+    if (!this.isOpen(booking)) {
+      throw new PreCheckInError("This booking can no longer be pre-checked-in. Please see the front desk.");
+    }
+  }
+
+  static async toPublic(booking: Booking): Promise<PublicPreCheckIn> {
+    const [[guest], [property]] = await Promise.all([
+      db.select().from(guests).where(eq(guests.id, booking.guestId)),
+      db.select({ name: properties.name, houseRules: properties.houseRules }).from(properties).where(eq(properties.id, booking.propertyId)),
+    ]);
+
+    return {
+      bookingNumber: booking.id,
+      propertyName: property?.name ?? null,
+      checkInDate: booking.checkInDate.toISOString(),
+      checkOutDate: booking.checkOutDate.toISOString(),
+      numberOfGuests: booking.numberOfGuests,
+      houseRules: property?.houseRules ?? null,
+      isOpen: this.isOpen(booking),
+      preCheckedInAt: booking.preCheckedInAt ? booking.preCheckedInAt.toISOString() : null,
+      expectedArrivalTime: booking.expectedArrivalTime,
+      guest: {
+        fullName: guest?.fullName ?? "",
+        email: guest?.email ?? null,
+        address: guest?.address ?? null,
+        nationality: guest?.nationality ?? null,
+        idProofType: guest?.idProofType ?? null,
+        idProofNumber: guest?.idProofNumber ?? null,
+        hasIdProof: !!guest?.idProofImage,
+      },
+    };
+  }
+
+  static async getUploadURL(booking: Booking): Promise<string> {
+    this.assertOpen(booking);
+    return new ObjectStorageService().getObjectEntityUploadURL();
+  }
+
+  /**
+   * Makes an upload from the pre-check-in page private to staff. Only a fresh
+   * upload (no ACL policy yet) can be claimed, so a guest can't take over an
+   * existing object by sending its path.
+   */
+  private static async claimIdProof(booking: Booking, idProofUrl: string): Promise<string> {
+    const objectStorageService = new ObjectStorageService();
+    const objectPath = objectStorageService.normalizeObjectEntityPath(idProofUrl);
+    if (!objectPath.startsWith("/objects/uploads/")) {
+      throw new PreCheckInError("ID proof upload not recognised. Please upload it again.");
+    }
+    const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+    if (await getObjectAclPolicy(objectFile)) {
+      throw new PreCheckInError("ID proof upload not recognised. Please upload it again.");
+    }
+    await setObjectAclPolicy(objectFile, {
+      owner: booking.createdBy ?? `pre-check-in:${booking.id}`,
+      visibility: "private", // Guest ID proofs are private
+    });
+    return objectPath;
+  }
+
+  static async submit(booking: Booking, input: PreCheckInInput): Promise<Booking> {
+    this.assertOpen(booking);
+    const [guest] = await db.select().from(guests).where(eq(guests.id, booking.guestId));
+    if (!guest) {
+      throw new PreCheckInError("Guest not found. Please see the front desk.");
+    }
+    if (!input.idProofUrl && !guest.idProofImage) {
+      throw new PreCheckInError("Please upload a photo of your ID proof");
+    }
+    const idProofImage = input.idProofUrl ? await this.claimIdProof(booking, input.idProofUrl) : guest.idProofImage;
+
+    const now = new Date();
+    const updated = await db.transaction(async (tx) => {
+      await tx
+        .update(guests)
+        .set({
+          fullName: input.fullName,
+          email: input.email ?? guest.email,
+          address: input.address ?? guest.address,
+          nationality: input.nationality ?? guest.nationality,
+          idProofType: input.idProofType,
+          idProofNumber: input.idProofNumber,
+          idProofImage,
+          updatedAt: now,
+        })
+        .where(eq(guests.id, guest.id));
+
+      const [preCheckedIn] = await tx
+        .update(bookings)
+        .set({
+          preCheckedInAt: now,
+          expectedArrivalTime: input.expectedArrivalTime,
+          houseRulesAcceptedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(bookings.id, booking.id))
+        .returning();
+      return preCheckedIn;
+    });
+
+    eventBus.publish({
+      type: EventTypes.BOOKING_UPDATED,
+      data: updated,
+      propertyId: updated.propertyId,
+    });
+
+    return updated;
+  }
+
+  // WhatsApps the pre-check-in link to the guest; returns the link either way
+  static async sendLink(booking: Booking, baseUrl: string): Promise<{ url: string; sent: boolean; error?: string }> {
+    this.assertOpen(booking);
+    const url = `${baseUrl}${this.preCheckInPath(booking)}`;
+    const [[guest], [property]] = await Promise.all([
+      db.select().from(guests).where(eq(guests.id, booking.guestId)),
+      db.select({ name: properties.name }).from(properties).where(eq(properties.id, booking.propertyId)),
+    ]);
+    if (!guest?.phone) {
+      return { url, sent: false, error: "Guest has no phone number" };
+    }
+
+    const result = await sendPreCheckInLink(
+      guest.phone,
+      guest.fullName || "Guest",
+      property?.name || "our property",
+      format(new Date(booking.checkInDate), "dd MMM yyyy"),
+      url
+    );
+    if (result.success) {
+      console.log(`[WhatsApp] Booking #${booking.id} - Pre-check-in link sent to ${guest.fullName} (${guest.phone})`);
+    } else {
+      console.warn(`[WhatsApp] Booking #${booking.id} - Pre-check-in link not sent: ${result.error || result.message}`);
+    }
+    return { url, sent: result.success, error: result.success ? undefined : result.error || result.message };
+  }
+}
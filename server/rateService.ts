@@ -0,0 +1,131 @@
+import { db } from "./db";
+import {
+  rooms,
+  roomTypes,
+  ratePlans,
+  ratePlanRates,
+  staySegments,
+  type Booking,
+  type RoomType,
+  type RatePlanRate,
+  type StaySegment,
+} from "@shared/schema";
+import { and, eq, gte, inArray, lt } from "drizzle-orm";
+import { addDays, format } from "date-fns";
+import { getBookingRoomIds } from "./roomInventory";
+import {
+  countNights,
+  hasCustomPrice,
+  normalizeMealPlan,
+  priceStay,
+  sumRates,
+  type NightlyRate,
+  type StayQuote,
+  type StayQuoteRequest,
+} from "./stayPricing";
+
+/**
+ * Rate-plan pricing engine: loads the rate plan, room types and date prices a
+ * stay is priced on, and prices its nights per room (see priceStay).
+ */
+export class RateService {
+  static async quoteStay(request: StayQuoteRequest): Promise<StayQuote> {
+    if (!request.ratePlanId || request.rooms.length === 0 || hasCustomPrice(request)) {
+      return priceStay(request, { roomTypes: new Map(), rates: [] });
+    }
+
+    const [plan] = await db.select().from(ratePlans).where(eq(ratePlans.id, request.ratePlanId));
+    if (!plan) {
+      throw new Error(`Rate plan ${request.ratePlanId} not found`);
+    }
+
+    const nights = countNights(request.checkInDate, request.checkOutDate);
+    const roomTypeIds = Array.from(new Set(request.rooms.map(r => r.roomTypeId).filter((id): id is number => !!id)));
+    let typesById = new Map<number, RoomType>();
+    let rates: RatePlanRate[] = [];
+    if (roomTypeIds.length > 0) {
+      const types = await db.select().from(roomTypes).where(inArray(roomTypes.id, roomTypeIds));
+      typesById = new Map(types.map(t => [t.id, t]));
+      rates = await db
+        .select()
+        .from(ratePlanRates)
+        .where(and(
+          eq(ratePlanRates.ratePlanId, plan.id),
+          inArray(ratePlanRates.roomTypeId, roomTypeIds),
+          gte(ratePlanRates.stayDate, format(request.checkInDate, "yyyy-MM-dd")),
+          lt(ratePlanRates.stayDate, format(addDays(request.checkInDate, nights), "yyyy-MM-dd")),
+        ));
+    }
+
+    return priceStay(request, { plan, roomTypes: typesById, rates });
+  }
+
+  /**
+   * Quote the room charges of an existing booking (used by checkout and active bookings)
+   */
+  static async quoteBooking(booking: Booking): Promise<StayQuote> {
+    const segments = await db
+      .select()
+      .from(staySegments)
+      .where(eq(staySegments.bookingId, booking.id))
+      .orderBy(staySegments.fromDate, staySegments.id);
+    if (segments.length > 0) {
+      return this.quoteSegments(booking, segments);
+    }
+
+    const roomIds = getBookingRoomIds(booking);
+    const bookingRooms = roomIds.length > 0
+      ? await db.select().from(rooms).where(inArray(rooms.id, roomIds))
+      : [];
+    // Keep the booking's room order so guest distribution is stable
+    bookingRooms.sort((a, b) => roomIds.indexOf(a.id) - roomIds.indexOf(b.id));
+
+    return this.quoteStay({
+      rooms: bookingRooms,
+      checkInDate: new Date(booking.checkInDate),
+      checkOutDate: new Date(booking.checkOutDate),
+      ratePlanId: booking.ratePlanId,
+      mealPlan: booking.mealPlan,
+      numberOfGuests: booking.numberOfGuests,
+      customPrice: booking.customPrice,
+    });
+  }
+
+  /**
+   * Quote a stay modified mid-stay: each segment is priced in its own room, at
+   * its fixed nightly rate or else the rate plan / room price of those nights
+   */
+  static async quoteSegments(booking: Booking, segments: StaySegment[]): Promise<StayQuote> {
+    const roomIds = Array.from(new Set(segments.map(s => s.roomId)));
+    const segmentRooms = await db.select().from(rooms).where(inArray(rooms.id, roomIds));
+    const concurrentRooms = Math.max(1, getBookingRoomIds(booking).length);
+    const guestsPerRoom = Math.max(1, Math.round((booking.numberOfGuests || 1) / concurrentRooms));
+
+    const nightlyRates: NightlyRate[] = [];
+    for (const segment of segments) {
+      const room = segmentRooms.find(r => r.id === segment.roomId);
+      if (!room) continue;
+      const quote = await this.quoteStay({
+        rooms: [room],
+        checkInDate: new Date(`${segment.fromDate}T00:00:00`),
+        checkOutDate: new Date(`${segment.toDate}T00:00:00`),
+        ratePlanId: booking.ratePlanId,
+        mealPlan: booking.mealPlan,
+        numberOfGuests: guestsPerRoom,
+        customPrice: segment.nightlyRate,
+      });
+      nightlyRates.push(...quote.nightlyRates);
+    }
+    nightlyRates.sort((a, b) => a.date.localeCompare(b.date) || a.roomId - b.roomId);
+
+    return {
+      nights: countNights(new Date(booking.checkInDate), new Date(booking.checkOutDate)),
+      ratePlanId: booking.ratePlanId ?? null,
+      mealPlan: normalizeMealPlan(booking.mealPlan),
+      nightlyRates,
+      roomCharges: sumRates(nightlyRates),
+      restrictions: [], // Min-stay rules applied when the booking was made
+    };
+  }
+}
+
@@ -0,0 +1,186 @@
+import { db } from "./db";
+import { bookings, rooms, staySegments, type Booking, type Room } from "@shared/schema";
+import { and, eq, gt, inArray, lt, not, notInArray } from "drizzle-orm";
+import {
+  NON_BLOCKING_BOOKING_STATUSES,
+  getBookingRoomIds,
+  roomAvailability,
+  roomConflicts,
+  roomHolds,
+  type RoomAvailability,
+  type RoomConflict,
+} from "./roomInventory";
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
+
+export interface ReservationRequest {
+  propertyId?: number | null;
+  roomId?: number | null;
+  roomIds?: number[] | null;
+  bedsBooked?: number | null;
+  checkInDate: Date;
+  checkOutDate: Date;
+  excludeBookingId?: number;
+}
+
+export class BookingConflictError extends Error {
+  conflicts: RoomConflict[];
+
+  constructor(conflicts: RoomConflict[], message?: string) {
+    super(message || conflicts.map(c => c.message).join(" "));
+    this.name = "BookingConflictError";
+    this.conflicts = conflicts;
+    Object.setPrototypeOf(this, BookingConflictError.prototype);
+  }
+}
+
+/**
+ * Single entry point for room/bed inventory checks. Every booking write path
+ * (create, update, enquiry confirmation, status reactivation) reserves through
+ * here so that overlapping stays are rejected consistently.
+ */
+export class ReservationService {
+  /**
+   * Bookings that overlap [checkIn, checkOut) and still hold inventory
+   */
+  static async getOverlappingBookings(
+    executor: DbExecutor,
+    checkIn: Date,
+    checkOut: Date,
+    excludeBookingId?: number,
+  ): Promise<Booking[]> {
+    const conditions = [
+      notInArray(bookings.status, NON_BLOCKING_BOOKING_STATUSES),
+      gt(bookings.checkOutDate, checkIn),
+      lt(bookings.checkInDate, checkOut),
+    ];
+    if (excludeBookingId) {
+      conditions.push(not(eq(bookings.id, excludeBookingId)));
+    }
+    return await executor.select().from(bookings).where(and(...conditions));
+  }
+
+  /**
+   * Bookings holding each room within [checkIn, checkOut), from their stay segments
+   */
+  static async getRoomHolds(
+    executor: DbExecutor,
+    overlapping: Booking[],
+    checkIn: Date,
+    checkOut: Date,
+  ): Promise<Map<number, Booking[]>> {
+    const segments = overlapping.length > 0
+      ? await executor.select().from(staySegments).where(inArray(staySegments.bookingId, overlapping.map(b => b.id)))
+      : [];
+    return roomHolds(overlapping, segments, checkIn, checkOut);
+  }
+
+  /**
+   * Compute per-room availability for a date range (beds for dormitories)
+   */
+  static async getRoomAvailability(
+    roomList: Room[],
+    checkIn: Date,
+    checkOut: Date,
+    excludeBookingId?: number,
+    executor: DbExecutor = db,
+  ): Promise<RoomAvailability[]> {
+    const overlapping = await this.getOverlappingBookings(executor, checkIn, checkOut, excludeBookingId);
+    const holds = await this.getRoomHolds(executor, overlapping, checkIn, checkOut);
+    return roomAvailability(roomList, holds);
+  }
+
+  /**
+   * Check a reservation request against current inventory without locking
+   */
+  static async findConflicts(request: ReservationRequest, executor: DbExecutor = db): Promise<RoomConflict[]> {
+    const roomIds = getBookingRoomIds(request);
+    if (roomIds.length === 0) return [];
+
+    const requestedRooms = await executor.select().from(rooms).where(inArray(rooms.id, roomIds));
+    return this.detectConflicts(executor, requestedRooms, request);
+  }
+
+  private static async detectConflicts(
+    executor: DbExecutor,
+    requestedRooms: Room[],
+    request: ReservationRequest,
+  ): Promise<RoomConflict[]> {
+    if (request.checkOutDate <= request.checkInDate) {
+      throw new Error("Check-out date must be after check-in date");
+    }
+
+    const overlapping = await this.getOverlappingBookings(
+      executor,
+      request.checkInDate,
+      request.checkOutDate,
+      request.excludeBookingId,
+    );
+    const holds = await this.getRoomHolds(executor, overlapping, request.checkInDate, request.checkOutDate);
+    return roomConflicts(requestedRooms, holds, request);
+  }
+
+  /**
+   * Run a booking write inside a transaction that holds row locks on the
+   * requested rooms. Concurrent reservations for the same room queue on the
+   * lock, so the overlap check and the write are atomic.
+   *
+   * If no room is requested, the first free room of the property is assigned.
+   */
+  static async reserve<T>(
+    request: ReservationRequest,
+    write: (tx: DbTransaction, assignedRoomId: number | null) => Promise<T>,
+  ): Promise<T> {
+    return await db.transaction(async (tx) => {
+      let roomIds = getBookingRoomIds(request);
+      let assignedRoomId: number | null = null;
+
+      if (roomIds.length === 0) {
+        if (!request.propertyId) {
+          return await write(tx, null);
+        }
+        // Locked in id order, like requested rooms, so concurrent reservations can't
+        // deadlock; the free room is then picked in room-number order
+        const propertyRooms = await tx
+          .select()
+          .from(rooms)
+          .where(and(eq(rooms.propertyId, request.propertyId), not(eq(rooms.status, "maintenance"))))
+          .orderBy(rooms.id)
+          .for("update");
+        propertyRooms.sort((a, b) => a.roomNumber.localeCompare(b.roomNumber));
+        const availability = await this.getRoomAvailability(
+          propertyRooms,
+          request.checkInDate,
+          request.checkOutDate,
+          request.excludeBookingId,
+          tx,
+        );
+        const freeRoom = availability.find(a => a.available === 1);
+        if (!freeRoom) {
+          throw new BookingConflictError([], "No rooms are available in this property for the selected dates.");
+        }
+        assignedRoomId = freeRoom.roomId;
+        roomIds = [assignedRoomId];
+      }
+
+      const lockedRooms = await tx
+        .select()
+        .from(rooms)
+        .where(inArray(rooms.id, roomIds))
+        .orderBy(rooms.id)
+        .for("update");
+
+      if (lockedRooms.length !== roomIds.length) {
+        throw new Error("One or more selected rooms were not found");
+      }
+
+      const conflicts = await this.detectConflicts(tx, lockedRooms, request);
+      if (conflicts.length > 0) {
+        throw new BookingConflictError(conflicts);
+      }
+
+      return await write(tx, assignedRoomId);
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Booking, Room, StaySegment } from "@shared/schema";
+import { bookingsInRoom, matchRoomGuest, roomQrKey, RoomOrderError } from "./roomGuestCheck";
+
+// Keys are signed when requested, so the secret only has to be set before the tests run
+process.env.ROOM_QR_SECRET = "test-room-qr-secret";
+
+const room = { id: 4, propertyId: 1, roomNumber: "104" } as Room;
+const sharma = { id: 7, guestId: 70, roomId: 4, roomIds: null } as Booking;
+const iyer = { id: 8, guestId: 80, roomId: 4, roomIds: null } as Booking;
+const guests = [{ id: 70, fullName: "Rahul  Sharma" }, { id: 80, fullName: "Anjali Iyer" }];
+
+function rejects(candidates: Booking[], check: { roomKey?: string; guestLastName?: string }, message: RegExp) {
+  assert.throws(() => matchRoomGuest(room, candidates, guests, check), (error: unknown) => {
+    assert.ok(error instanceof RoomOrderError);
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+test("room QR keys are bound to the room and property", () => {
+  const key = roomQrKey(room);
+  assert.equal(key.length, 32);
+  assert.equal(roomQrKey({ id: 4, propertyId: 1 }), key);
+  assert.notEqual(roomQrKey({ id: 5, propertyId: 1 }), key);
+  assert.notEqual(roomQrKey({ id: 4, propertyId: 2 }), key);
+});
+
+test("the guest's surname or full name picks their booking, in any case and spacing", () => {
+  assert.equal(matchRoomGuest(room, [sharma, iyer], guests, { guestLastName: " SHARMA " }), sharma);
+  assert.equal(matchRoomGuest(room, [sharma, iyer], guests, { guestLastName: "anjali   iyer" }), iyer);
+  rejects([sharma], { guestLastName: "Rahul" }, /doesn't match the guest checked in to Room 104/);
+});
+
+test("a valid QR key alone is enough only when one booking holds the room", () => {
+  const key = roomQrKey(room);
+  assert.equal(matchRoomGuest(room, [sharma], guests, { roomKey: key }), sharma);
+  rejects([sharma, iyer], { roomKey: key }, /Room 104 is shared/);
+  rejects([sharma], { roomKey: roomQrKey({ id: 5, propertyId: 1 }) }, /enter the last name on your booking/);
+  rejects([sharma], { roomKey: "short" }, /enter the last name on your booking/);
+});
+
+test("no order is taken for a room no one is checked in to", () => {
+  rejects([], { roomKey: roomQrKey(room) }, /No one is checked in to Room 104/);
+});
+
+test("a guest moved mid-stay orders from the room they are in today", () => {
+  const segments = [
+    { bookingId: 7, roomId: 4, fromDate: "2026-10-17", toDate: "2026-10-19" },
+    { bookingId: 7, roomId: 5, fromDate: "2026-10-19", toDate: "2026-10-21" },
+  ] as StaySegment[];
+  assert.deepEqual(bookingsInRoom([sharma], segments, 4, "2026-10-19"), []);
+  assert.deepEqual(bookingsInRoom([sharma], segments, 5, "2026-10-19"), [sharma]);
+  // Past the last night but not checked out yet
+  assert.deepEqual(bookingsInRoom([sharma], segments, 5, "2026-10-22"), [sharma]);
+  assert.deepEqual(bookingsInRoom([iyer], [], 4, "2026-10-19"), [iyer]);
+});
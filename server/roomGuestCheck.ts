@@ -0,0 +1,104 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Booking, Guest, Room, StaySegment } from "@shared/schema";
+import { getBookingRoomIds } from "./roomInventory";
+
+export interface RoomGuestCheck {
+  roomKey?: string | null; // From the room's QR code
+  guestLastName?: string | null; // Typed by the guest when ordering without the QR code
+}
+
+export class RoomOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RoomOrderError";
+    Object.setPrototypeOf(this, RoomOrderError.prototype);
+  }
+}
+
+function qrSecret(): string {
+  const secret = process.env.ROOM_QR_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("ROOM_QR_SECRET (or SESSION_SECRET) must be set to sign room QR codes");
+  }
+  return secret;
+}
+
+/**
+ * Key printed in a room's QR code. It is bound to the room and property, so a
+ * key copied from one room's QR can't be used to order to another.
+ */
+export function roomQrKey(room: Pick<Room, "id" | "propertyId">): string {
+  return createHmac("sha256", qrSecret())
+    .update(`room:${room.propertyId}:${room.id}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+function isValidRoomKey(room: Room, key: string): boolean {
+  const expected = Buffer.from(roomQrKey(room));
+  const given = Buffer.from(key);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Accepts the guest's surname or their full name as booked
+function nameMatches(fullName: string, given: string): boolean {
+  const booked = normalizeName(fullName);
+  const typed = normalizeName(given);
+  if (!typed) return false;
+  const parts = booked.split(" ");
+  return typed === booked || typed === parts[parts.length - 1];
+}
+
+// Checked-in bookings occupying the room on the day (yyyy-MM-dd), following room moves
+export function bookingsInRoom(checkedIn: Booking[], segments: StaySegment[], roomId: number, today: string): Booking[] {
+  return checkedIn.filter(booking => {
+    const own = segments.filter(s => s.bookingId === booking.id);
+    if (own.length === 0) return getBookingRoomIds(booking).includes(roomId);
+    const current = own.filter(s => s.fromDate <= today && s.toDate > today);
+    if (current.length > 0) return current.some(s => s.roomId === roomId);
+    // Past the last night but not checked out yet: the guest is still in the last room(s)
+    const lastNight = own.reduce((end, s) => (s.toDate > end ? s.toDate : end), own[0].toDate);
+    return own.some(s => s.toDate === lastNight && s.roomId === roomId);
+  });
+}
+
+/**
+ * The booking a room-service order is charged to, from the bookings checked in
+ * to the room and their guests: the guest's last name picks the booking, or a
+ * valid QR key does when only one booking holds the room
+ */
+export function matchRoomGuest(
+  room: Room,
+  candidates: Booking[],
+  bookedGuests: Pick<Guest, "id" | "fullName">[],
+  check: RoomGuestCheck,
+): Booking {
+  if (candidates.length === 0) {
+    throw new RoomOrderError(`No one is checked in to Room ${room.roomNumber}. Please contact the front desk.`);
+  }
+
+  const hasValidKey = !!check.roomKey && isValidRoomKey(room, check.roomKey);
+  const lastName = check.guestLastName?.trim();
+
+  if (lastName) {
+    const matching = candidates.filter(booking =>
+      bookedGuests.some(g => g.id === booking.guestId && nameMatches(g.fullName, lastName))
+    );
+    if (matching.length === 0) {
+      throw new RoomOrderError(`The name doesn't match the guest checked in to Room ${room.roomNumber}. Please use the name on your booking.`);
+    }
+    return matching[0];
+  }
+
+  if (!hasValidKey) {
+    throw new RoomOrderError(`Please enter the last name on your booking to order to Room ${room.roomNumber}.`);
+  }
+  if (candidates.length > 1) {
+    throw new RoomOrderError(`Room ${room.roomNumber} is shared. Please enter the last name on your booking.`);
+  }
+  return candidates[0];
+}
@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Booking, Room, StaySegment } from "@shared/schema";
+import { getBookingRoomIds, roomAvailability, roomConflicts, roomHolds } from "./roomInventory";
+
+const checkIn = new Date(2026, 9, 19);
+const checkOut = new Date(2026, 9, 21);
+
+function room(id: number, roomCategory = "standard", totalBeds: number | null = null): Room {
+  return { id, roomNumber: `${100 + id}`, roomCategory, totalBeds } as Room;
+}
+
+function booking(id: number, rooms: Partial<Booking>, bedsBooked: number | null = null): Booking {
+  return { id, roomId: null, roomIds: null, bedsBooked, ...rooms } as Booking;
+}
+
+function segment(bookingId: number, roomId: number, fromDate: string, toDate: string): StaySegment {
+  return { bookingId, roomId, fromDate, toDate } as StaySegment;
+}
+
+test("group bookings occupy their room set, others their single room", () => {
+  assert.deepEqual(getBookingRoomIds({ roomId: 1, roomIds: [2, 3, 2] }), [2, 3]);
+  assert.deepEqual(getBookingRoomIds({ roomId: 1, roomIds: [] }), [1]);
+  assert.deepEqual(getBookingRoomIds({ roomId: null, roomIds: null }), []);
+});
+
+test("a held private room conflicts with any new stay", () => {
+  const holds = roomHolds([booking(7, { roomId: 1 })], [], checkIn, checkOut);
+  const conflicts = roomConflicts([room(1), room(2)], holds, {});
+  assert.equal(conflicts.length, 1);
+  assert.equal(conflicts[0].roomId, 1);
+  assert.deepEqual(conflicts[0].bookingIds, [7]);
+  assert.equal(conflicts[0].message, "Room 101 is already booked for the selected dates.");
+});
+
+test("a dormitory takes bookings until its beds run out", () => {
+  const dorm = room(3, "dormitory", 4);
+  const holds = roomHolds([booking(7, { roomId: 3 }, 2), booking(8, { roomId: 3 })], [], checkIn, checkOut);
+
+  assert.deepEqual(roomConflicts([dorm], holds, { bedsBooked: 1 }), []);
+  const [conflict] = roomConflicts([dorm], holds, { bedsBooked: 2 });
+  assert.equal(conflict.message, "Room 103 has only 1 of 4 beds free for the selected dates.");
+  assert.deepEqual(roomAvailability([dorm], holds), [{ roomId: 3, available: 1, totalBeds: 4, remainingBeds: 1 }]);
+});
+
+test("dormitories without a bed count hold six beds", () => {
+  const dorm = room(3, "dormitory");
+  const holds = roomHolds([booking(7, { roomId: 3 }, 6)], [], checkIn, checkOut);
+  assert.deepEqual(roomAvailability([dorm], holds), [{ roomId: 3, available: 0, totalBeds: 6, remainingBeds: 0 }]);
+});
+
+test("a booking with stay segments holds only the rooms of the overlapping nights", () => {
+  const moved = booking(7, { roomId: 1 });
+  const segments = [segment(7, 1, "2026-10-17", "2026-10-19"), segment(7, 2, "2026-10-19", "2026-10-22")];
+  const holds = roomHolds([moved], segments, checkIn, checkOut);
+
+  assert.equal(holds.has(1), false);
+  assert.deepEqual(holds.get(2), [moved]);
+  assert.deepEqual(roomAvailability([room(1), room(2)], holds), [
+    { roomId: 1, available: 1 },
+    { roomId: 2, available: 0 },
+  ]);
+});
@@ -0,0 +1,138 @@
+import type { Booking, Room, StaySegment } from "@shared/schema";
+import { format } from "date-fns";
+
+// Bookings in these states no longer hold inventory
+export const NON_BLOCKING_BOOKING_STATUSES = ["cancelled", "checked-out", "no-show"];
+
+// Default bed count for dormitories that were created without totalBeds
+const DEFAULT_DORMITORY_BEDS = 6;
+
+export interface RoomConflict {
+  roomId: number;
+  roomNumber: string;
+  bookingIds: number[];
+  message: string;
+}
+
+export interface RoomAvailability {
+  roomId: number;
+  available: 0 | 1;
+  totalBeds?: number;
+  remainingBeds?: number;
+}
+
+/**
+ * Rooms a booking occupies: all roomIds for group bookings, otherwise the single roomId
+ */
+export function getBookingRoomIds(booking: { roomId?: number | null; roomIds?: number[] | null }): number[] {
+  if (booking.roomIds && booking.roomIds.length > 0) {
+    return Array.from(new Set(booking.roomIds));
+  }
+  return booking.roomId ? [booking.roomId] : [];
+}
+
+function totalBedsFor(room: Room): number {
+  return room.totalBeds || DEFAULT_DORMITORY_BEDS;
+}
+
+function bedsHeldBy(booking: { bedsBooked?: number | null }): number {
+  return booking.bedsBooked || 1;
+}
+
+/**
+ * Bookings holding each room within [checkIn, checkOut). A booking with stay
+ * segments (room moves, extensions) holds a room only on its segments' dates;
+ * any other booking holds all its rooms for the whole stay.
+ */
+export function roomHolds(
+  overlapping: Booking[],
+  segments: StaySegment[],
+  checkIn: Date,
+  checkOut: Date,
+): Map<number, Booking[]> {
+  const fromKey = format(checkIn, "yyyy-MM-dd");
+  const toKey = format(checkOut, "yyyy-MM-dd");
+
+  const holds = new Map<number, Booking[]>();
+  const hold = (roomId: number, booking: Booking) => {
+    const roomBookings = holds.get(roomId) || [];
+    if (!roomBookings.includes(booking)) roomBookings.push(booking);
+    holds.set(roomId, roomBookings);
+  };
+  for (const booking of overlapping) {
+    const bookingSegments = segments.filter(s => s.bookingId === booking.id);
+    if (bookingSegments.length === 0) {
+      getBookingRoomIds(booking).forEach(roomId => hold(roomId, booking));
+      continue;
+    }
+    bookingSegments
+      .filter(s => s.fromDate < toKey && s.toDate > fromKey)
+      .forEach(s => hold(s.roomId, booking));
+  }
+  return holds;
+}
+
+/**
+ * Per-room availability given the bookings holding each room (beds for dormitories)
+ */
+export function roomAvailability(roomList: Room[], holds: Map<number, Booking[]>): RoomAvailability[] {
+  return roomList.map(room => {
+    const roomBookings = holds.get(room.id) || [];
+
+    if (room.roomCategory === "dormitory") {
+      const totalBeds = totalBedsFor(room);
+      const reservedBeds = roomBookings.reduce((sum, b) => sum + bedsHeldBy(b), 0);
+      const remainingBeds = Math.max(0, totalBeds - reservedBeds);
+      return {
+        roomId: room.id,
+        available: remainingBeds > 0 ? 1 : 0,
+        totalBeds,
+        remainingBeds,
+      };
+    }
+
+    return {
+      roomId: room.id,
+      available: roomBookings.length > 0 ? 0 : 1,
+    };
+  });
+}
+
+/**
+ * Requested rooms the holds leave no room for: any hold on a private room, or
+ * not enough free beds in a dormitory for the beds requested
+ */
+export function roomConflicts(
+  requestedRooms: Room[],
+  holds: Map<number, Booking[]>,
+  request: { bedsBooked?: number | null },
+): RoomConflict[] {
+  const conflicts: RoomConflict[] = [];
+  for (const room of requestedRooms) {
+    const roomBookings = holds.get(room.id) || [];
+    if (roomBookings.length === 0) continue;
+
+    if (room.roomCategory === "dormitory") {
+      const totalBeds = totalBedsFor(room);
+      const reservedBeds = roomBookings.reduce((sum, b) => sum + bedsHeldBy(b), 0);
+      const requestedBeds = bedsHeldBy(request);
+      if (reservedBeds + requestedBeds > totalBeds) {
+        conflicts.push({
+          roomId: room.id,
+          roomNumber: room.roomNumber,
+          bookingIds: roomBookings.map(b => b.id),
+          message: `Room ${room.roomNumber} has only ${Math.max(0, totalBeds - reservedBeds)} of ${totalBeds} beds free for the selected dates.`,
+        });
+      }
+      continue;
+    }
+
+    conflicts.push({
+      roomId: room.id,
+      roomNumber: room.roomNumber,
+      bookingIds: roomBookings.map(b => b.id),
+      message: `Room ${room.roomNumber} is already booked for the selected dates.`,
+    });
+  }
+  return conflicts;
+}
@@ -0,0 +1,70 @@
+import { db } from "./db";
+import {
+  bookings,
+  guests,
+  orders,
+  staySegments,
+  type Booking,
+  type Room,
+} from "@shared/schema";
+import { and, eq, inArray, notInArray, sql } from "drizzle-orm";
+import { format } from "date-fns";
+import { bookingsInRoom, matchRoomGuest, RoomOrderError, type RoomGuestCheck } from "./roomGuestCheck";
+
+/**
+ * Guest-placed room-service orders. An order is accepted only while someone is
+ * checked in to the room, and the guest must either come from the room's QR
+ * code or give the last name on the booking. Orders are charged to the booking
+ * that holds the room today (room moves and group bookings included), up to the
+ * booking's room charge limit.
+ */
+export class RoomOrderService {
+  // Checked-in bookings occupying the room on the given day
+  static async getCheckedInBookings(room: Room, at: Date = new Date()): Promise<Booking[]> {
+    const checkedIn = await db
+      .select()
+      .from(bookings)
+      .where(and(eq(bookings.propertyId, room.propertyId), eq(bookings.status, "checked-in")));
+    if (checkedIn.length === 0) return [];
+
+    const segments = await db
+      .select()
+      .from(staySegments)
+      .where(inArray(staySegments.bookingId, checkedIn.map(b => b.id)));
+    return bookingsInRoom(checkedIn, segments, room.id, format(at, "yyyy-MM-dd"));
+  }
+
+  static async verifyGuest(room: Room, check: RoomGuestCheck): Promise<Booking> {
+    const candidates = await this.getCheckedInBookings(room);
+    const bookedGuests = candidates.length > 0 && check.guestLastName?.trim()
+      ? await db
+          .select({ id: guests.id, fullName: guests.fullName })
+          .from(guests)
+          .where(inArray(guests.id, candidates.map(b => b.guestId)))
+      : [];
+    return matchRoomGuest(room, candidates, bookedGuests, check);
+  }
+
+  // Room-service charges already on the booking (rejected and cancelled orders aren't billed)
+  static async getRoomCharges(bookingId: number): Promise<number> {
+    const [row] = await db
+      .select({ total: sql<string>`coalesce(sum(${orders.totalAmount}), 0)` })
+      .from(orders)
+      .where(and(eq(orders.bookingId, bookingId), notInArray(orders.status, ["rejected", "cancelled"])));
+    return parseFloat(row?.total ?? "0");
+  }
+
+  static async checkChargeLimit(booking: Booking, orderTotal: number): Promise<void> {
+    if (booking.roomChargeLimit === null) return;
+    const limit = parseFloat(booking.roomChargeLimit);
+    if (limit <= 0) {
+      throw new RoomOrderError("Room charging isn't enabled for your stay. Please contact the front desk to order.");
+    }
+    const charged = await this.getRoomCharges(booking.id);
+    if (charged + orderTotal > limit) {
+      throw new RoomOrderError(
+        `This order would take your room charges to ₹${(charged + orderTotal).toFixed(2)}, above the ₹${limit.toFixed(2)} limit for your stay. Please contact the front desk.`
+      );
+    }
+  }
+}
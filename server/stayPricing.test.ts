@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { RatePlan, RatePlanRate, Room, RoomType } from "@shared/schema";
+import { countNights, priceStay } from "./stayPricing";
+
+const deluxe = { id: 1, roomNumber: "101", roomTypeId: 5, pricePerNight: "3000.00" } as Room;
+const suite = { id: 2, roomNumber: "201", roomTypeId: 5, pricePerNight: "6000.00" } as Room;
+const roomType = { id: 5, baseOccupancy: 2, extraGuestCharge: "800.00" } as RoomType;
+const plan = {
+  id: 9,
+  name: "Breakfast Included",
+  cpSupplement: "400.00",
+  mapSupplement: "900.00",
+  apSupplement: "1300.00",
+  defaultMinStay: 1,
+} as RatePlan;
+
+function rate(stayDate: string, price: string, extra: Partial<RatePlanRate> = {}): RatePlanRate {
+  return { ratePlanId: 9, roomTypeId: 5, stayDate, price, minStay: null, closedToArrival: false, ...extra } as RatePlanRate;
+}
+
+const stay = { checkInDate: new Date(2026, 9, 19), checkOutDate: new Date(2026, 9, 21) };
+const planRates = { plan, roomTypes: new Map([[5, roomType]]), rates: [rate("2026-10-19", "3500.00")] };
+
+test("same-day stays are charged one night", () => {
+  assert.equal(countNights(new Date(2026, 9, 19, 10), new Date(2026, 9, 19, 18)), 1);
+  assert.equal(countNights(stay.checkInDate, stay.checkOutDate), 2);
+});
+
+test("without a rate plan each night is the room's price", () => {
+  const quote = priceStay({ rooms: [deluxe], ...stay }, { roomTypes: new Map(), rates: [] });
+  assert.deepEqual(quote.nightlyRates.map(n => [n.date, n.total, n.source]), [
+    ["2026-10-19", 3000, "room"],
+    ["2026-10-20", 3000, "room"],
+  ]);
+  assert.equal(quote.roomCharges, 6000);
+  assert.equal(quote.mealPlan, "EP");
+});
+
+test("rate plan date prices override the room price, with meal and extra-guest charges per guest", () => {
+  const quote = priceStay({ rooms: [deluxe], ...stay, ratePlanId: 9, mealPlan: "CP", numberOfGuests: 3 }, planRates);
+  const [first, second] = quote.nightlyRates;
+  assert.deepEqual(
+    { baseRate: first.baseRate, mealSupplement: first.mealSupplement, occupancySurcharge: first.occupancySurcharge, source: first.source },
+    { baseRate: 3500, mealSupplement: 1200, occupancySurcharge: 800, source: "rate_plan" },
+  );
+  assert.equal(second.baseRate, 3000);
+  assert.equal(second.source, "room");
+  assert.equal(quote.roomCharges, 5500 + 5000);
+  assert.deepEqual(quote.restrictions, []);
+});
+
+test("guests are spread across a group booking's rooms in order", () => {
+  const quote = priceStay({ rooms: [deluxe, suite], ...stay, ratePlanId: 9, numberOfGuests: 5 }, planRates);
+  const surcharges = quote.nightlyRates.filter(n => n.date === "2026-10-19").map(n => [n.roomId, n.occupancySurcharge]);
+  assert.deepEqual(surcharges, [[1, 800], [2, 0]]);
+});
+
+test("a custom price is the total per night, split across the rooms", () => {
+  const quote = priceStay({ rooms: [deluxe, suite], ...stay, customPrice: "5000" }, planRates);
+  assert.ok(quote.nightlyRates.every(n => n.total === 2500 && n.source === "custom"));
+  assert.equal(quote.roomCharges, 10000);
+});
+
+test("minimum stay and closed-to-arrival rules are reported", () => {
+  const restricted = {
+    ...planRates,
+    rates: [rate("2026-10-19", "3500.00", { minStay: 3, closedToArrival: true })],
+  };
+  const quote = priceStay({ rooms: [deluxe], ...stay, ratePlanId: 9 }, restricted);
+  assert.deepEqual(quote.restrictions, [
+    "Breakfast Included is closed to arrival on 2026-10-19 for room 101.",
+    "Breakfast Included requires a minimum stay of 3 nights for room 101.",
+  ]);
+});
@@ -0,0 +1,173 @@
+import type { Room, RoomType, RatePlan, RatePlanRate } from "@shared/schema";
+import { addDays, format } from "date-fns";
+
+export type MealPlan = "EP" | "CP" | "MAP" | "AP";
+
+export interface NightlyRate {
+  date: string; // yyyy-MM-dd
+  roomId: number;
+  baseRate: number;
+  mealSupplement: number;
+  occupancySurcharge: number;
+  total: number;
+  source: "custom" | "rate_plan" | "room";
+}
+
+export interface StayQuote {
+  nights: number;
+  ratePlanId: number | null;
+  mealPlan: MealPlan;
+  nightlyRates: NightlyRate[];
+  roomCharges: number;
+  restrictions: string[]; // Min-stay / closed-to-arrival violations (empty when sellable)
+}
+
+export interface StayQuoteRequest {
+  rooms: Room[];
+  checkInDate: Date;
+  checkOutDate: Date;
+  ratePlanId?: number | null;
+  mealPlan?: string | null;
+  numberOfGuests?: number | null;
+  customPrice?: string | number | null;
+}
+
+// The rate plan a stay is priced on, with its room types and date prices for the stay
+export interface StayRates {
+  plan?: RatePlan;
+  roomTypes: Map<number, RoomType>;
+  rates: RatePlanRate[];
+}
+
+/**
+ * Nights charged for a stay (minimum 1 night even for same-day checkout)
+ */
+export function countNights(checkInDate: Date, checkOutDate: Date): number {
+  const calculated = Math.ceil((checkOutDate.getTime() - checkInDate.getTime()) / (1000 * 60 * 60 * 24));
+  return Math.max(1, calculated);
+}
+
+/**
+ * Calendar dates (yyyy-MM-dd) of each night of the stay
+ */
+export function getStayDates(checkInDate: Date, nights: number): string[] {
+  return Array.from({ length: nights }, (_, i) => format(addDays(checkInDate, i), "yyyy-MM-dd"));
+}
+
+export function hasCustomPrice(request: Pick<StayQuoteRequest, "customPrice">): boolean {
+  return request.customPrice !== null && request.customPrice !== undefined && request.customPrice !== "";
+}
+
+function mealSupplementFor(plan: RatePlan, mealPlan: MealPlan): number {
+  switch (mealPlan) {
+    case "CP":
+      return parseFloat(plan.cpSupplement);
+    case "MAP":
+      return parseFloat(plan.mapSupplement);
+    case "AP":
+      return parseFloat(plan.apSupplement);
+    default:
+      return 0;
+  }
+}
+
+// Spread guests across the rooms of a (group) booking, filling rooms in order
+function distributeGuests(numberOfGuests: number, roomCount: number): number[] {
+  const base = Math.floor(numberOfGuests / roomCount);
+  const remainder = numberOfGuests % roomCount;
+  return Array.from({ length: roomCount }, (_, i) => base + (i < remainder ? 1 : 0));
+}
+
+export function normalizeMealPlan(mealPlan?: string | null): MealPlan {
+  return mealPlan === "CP" || mealPlan === "MAP" || mealPlan === "AP" ? mealPlan : "EP";
+}
+
+export function sumRates(nightlyRates: NightlyRate[]): number {
+  return nightlyRates.reduce((sum, n) => sum + n.total, 0);
+}
+
+/**
+ * Prices each night of a stay per room: custom price (if set) > rate plan date
+ * price > room's pricePerNight fallback, plus meal plan supplements and
+ * extra-guest surcharges from the rate plan / room type.
+ */
+export function priceStay(request: StayQuoteRequest, stayRates: StayRates): StayQuote {
+  const nights = countNights(request.checkInDate, request.checkOutDate);
+  const stayDates = getStayDates(request.checkInDate, nights);
+  const mealPlan = normalizeMealPlan(request.mealPlan);
+  const nightlyRates: NightlyRate[] = [];
+  const restrictions: string[] = [];
+  const roomList = request.rooms;
+
+  if (roomList.length === 0) {
+    return { nights, ratePlanId: request.ratePlanId ?? null, mealPlan, nightlyRates, roomCharges: 0, restrictions };
+  }
+
+  // Custom price is the negotiated total per night, split evenly across group rooms
+  if (hasCustomPrice(request)) {
+    const perRoom = parseFloat(String(request.customPrice)) / roomList.length;
+    for (const date of stayDates) {
+      for (const room of roomList) {
+        nightlyRates.push({
+          date,
+          roomId: room.id,
+          baseRate: perRoom,
+          mealSupplement: 0,
+          occupancySurcharge: 0,
+          total: perRoom,
+          source: "custom",
+        });
+      }
+    }
+    return { nights, ratePlanId: request.ratePlanId ?? null, mealPlan, nightlyRates, roomCharges: sumRates(nightlyRates), restrictions };
+  }
+
+  const { plan, roomTypes: typesById, rates } = stayRates;
+  const rateFor = (roomTypeId: number | null, date: string) =>
+    roomTypeId ? rates.find(r => r.roomTypeId === roomTypeId && r.stayDate === date) : undefined;
+
+  const guestsPerRoom = distributeGuests(Math.max(1, request.numberOfGuests || 1), roomList.length);
+
+  roomList.forEach((room, index) => {
+    const roomType = room.roomTypeId ? typesById.get(room.roomTypeId) : undefined;
+    const guests = guestsPerRoom[index];
+
+    if (plan) {
+      const arrivalRate = rateFor(room.roomTypeId, stayDates[0]);
+      if (arrivalRate?.closedToArrival) {
+        restrictions.push(`${plan.name} is closed to arrival on ${stayDates[0]} for room ${room.roomNumber}.`);
+      }
+      const minStay = arrivalRate?.minStay ?? plan.defaultMinStay;
+      if (nights < minStay) {
+        restrictions.push(`${plan.name} requires a minimum stay of ${minStay} nights for room ${room.roomNumber}.`);
+      }
+    }
+
+    for (const date of stayDates) {
+      const dayRate = plan ? rateFor(room.roomTypeId, date) : undefined;
+      const baseRate = dayRate ? parseFloat(dayRate.price) : parseFloat(room.pricePerNight);
+      const mealSupplement = plan ? mealSupplementFor(plan, mealPlan) * guests : 0;
+      const extraGuests = roomType ? Math.max(0, guests - roomType.baseOccupancy) : 0;
+      const occupancySurcharge = plan && roomType ? extraGuests * parseFloat(roomType.extraGuestCharge) : 0;
+
+      nightlyRates.push({
+        date,
+        roomId: room.id,
+        baseRate,
+        mealSupplement,
+        occupancySurcharge,
+        total: baseRate + mealSupplement + occupancySurcharge,
+        source: dayRate ? "rate_plan" : "room",
+      });
+    }
+  });
+
+  return {
+    nights,
+    ratePlanId: plan?.id ?? null,
+    mealPlan,
+    nightlyRates,
+    roomCharges: sumRates(nightlyRates),
+    restrictions,
+  };
+}
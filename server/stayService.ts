@@ -0,0 +1,284 @@
+import { db } from "./db";
+import { bookings, rooms, staySegments, type Booking, type StaySegment } from "@shared/schema";
+import { and, eq, gt, gte } from "drizzle-orm";
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import { z } from "zod";
+import { ReservationService, type DbTransaction } from "./reservationService";
+import { getBookingRoomIds } from "./roomInventory";
+import { countNights } from "./stayPricing";
+
+const stayDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be yyyy-MM-dd");
+// Fixed price per room per night; null prices the nights from the room / rate plan
+const nightlyRate = z.number().nonnegative().nullable().optional();
+
+export const roomMoveInputSchema = z.object({
+  toRoomId: z.coerce.number().int().positive(),
+  fromRoomId: z.coerce.number().int().positive().optional(), // Required for group bookings
+  moveDate: stayDate.optional(), // First night in the new room (defaults to today)
+  nightlyRate, // Omitted: keep the current rate
+  notes: z.string().max(500).nullish(),
+});
+
+export const stayExtensionInputSchema = z.object({
+  checkOutDate: stayDate,
+  nightlyRate, // Omitted: extra nights at the current rate
+  notes: z.string().max(500).nullish(),
+});
+
+export const stayShortenInputSchema = z.object({
+  checkOutDate: stayDate,
+});
+
+export type RoomMoveInput = z.infer<typeof roomMoveInputSchema>;
+export type StayExtensionInput = z.infer<typeof stayExtensionInputSchema>;
+
+export class StayModificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StayModificationError";
+    Object.setPrototypeOf(this, StayModificationError.prototype);
+  }
+}
+
+function dateKey(value: Date | string): string {
+  return format(new Date(value), "yyyy-MM-dd");
+}
+
+// The booking timestamp moved to another calendar date, keeping its time of day
+function atDate(timestamp: Date | string, key: string): Date {
+  const base = new Date(timestamp);
+  return addDays(base, differenceInCalendarDays(new Date(`${key}T00:00:00`), base));
+}
+
+function sameRate(a: string | null, b: string | null): boolean {
+  return (a === null ? null : parseFloat(a)) === (b === null ? null : parseFloat(b));
+}
+
+function rateValue(input: number | null | undefined, current: string | null): string | null {
+  if (input === undefined) return current;
+  return input === null ? null : input.toFixed(2);
+}
+
+function stayEnd(booking: Booking, segments: StaySegment[]): string {
+  if (segments.length > 0) {
+    return segments.reduce((end, s) => (s.toDate > end ? s.toDate : end), segments[0].toDate);
+  }
+  const checkIn = new Date(booking.checkInDate);
+  return dateKey(addDays(checkIn, countNights(checkIn, new Date(booking.checkOutDate))));
+}
+
+/**
+ * Mid-stay changes to checked-in bookings. The first change splits the stay
+ * into segments (one per room for the whole stay, carrying the custom price);
+ * moves, extensions and shortenings then edit the segments so nights already
+ * stayed keep their room and rate, and checkout bills each segment on its own.
+ */
+export class StayService {
+  static async getSegments(bookingId: number): Promise<StaySegment[]> {
+    return await db
+      .select()
+      .from(staySegments)
+      .where(eq(staySegments.bookingId, bookingId))
+      .orderBy(staySegments.fromDate, staySegments.id);
+  }
+
+  private static async ensureSegments(tx: DbTransaction, booking: Booking): Promise<StaySegment[]> {
+    const existing = await tx
+      .select()
+      .from(staySegments)
+      .where(eq(staySegments.bookingId, booking.id))
+      .orderBy(staySegments.fromDate, staySegments.id);
+    if (existing.length > 0) return existing;
+
+    const roomIds = getBookingRoomIds(booking);
+    if (roomIds.length === 0) {
+      throw new StayModificationError("Booking has no room assigned");
+    }
+    // A custom price is the negotiated total per night, split evenly across group rooms
+    const perRoomRate = booking.customPrice ? (parseFloat(booking.customPrice) / roomIds.length).toFixed(2) : null;
+    return await tx
+      .insert(staySegments)
+      .values(roomIds.map(roomId => ({
+        bookingId: booking.id,
+        roomId,
+        fromDate: dateKey(booking.checkInDate),
+        toDate: stayEnd(booking, []),
+        nightlyRate: perRoomRate,
+      })))
+      .returning();
+  }
+
+  /**
+   * Move the guest(s) in one of the booking's rooms to another room from moveDate until checkout
+   */
+  static async moveRoom(booking: Booking, input: RoomMoveInput, createdBy: string | null): Promise<{ booking: Booking; segments: StaySegment[] }> {
+    const currentRooms = getBookingRoomIds(booking);
+    const fromRoomId = input.fromRoomId ?? (currentRooms.length === 1 ? currentRooms[0] : undefined);
+    if (!fromRoomId || !currentRooms.includes(fromRoomId)) {
+      throw new StayModificationError("Select which of the booking's rooms the guest is moving out of");
+    }
+    if (currentRooms.includes(input.toRoomId)) {
+      throw new StayModificationError("The booking already occupies that room");
+    }
+
+    const [toRoom] = await db.select().from(rooms).where(eq(rooms.id, input.toRoomId));
+    if (!toRoom || toRoom.propertyId !== booking.propertyId) {
+      throw new StayModificationError("Room not found in this property");
+    }
+
+    const moveDate = input.moveDate ?? dateKey(new Date());
+    const end = stayEnd(booking, await this.getSegments(booking.id));
+    if (moveDate < dateKey(booking.checkInDate) || moveDate >= end) {
+      throw new StayModificationError(`Move date must fall within the stay (${dateKey(booking.checkInDate)} to ${end})`);
+    }
+
+    const updated = await ReservationService.reserve(
+      {
+        roomIds: [input.toRoomId],
+        bedsBooked: booking.bedsBooked,
+        checkInDate: atDate(booking.checkInDate, moveDate),
+        checkOutDate: new Date(booking.checkOutDate),
+        excludeBookingId: booking.id,
+      },
+      async (tx) => {
+        const segments = await this.ensureSegments(tx, booking);
+        for (const segment of segments.filter(s => s.roomId === fromRoomId && s.toDate > moveDate)) {
+          const rate = rateValue(input.nightlyRate, segment.nightlyRate);
+          if (segment.fromDate >= moveDate) {
+            await tx
+              .update(staySegments)
+              .set({ roomId: input.toRoomId, nightlyRate: rate, notes: input.notes ?? segment.notes })
+              .where(eq(staySegments.id, segment.id));
+          } else {
+            await tx.update(staySegments).set({ toDate: moveDate }).where(eq(staySegments.id, segment.id));
+            await tx.insert(staySegments).values({
+              bookingId: booking.id,
+              roomId: input.toRoomId,
+              fromDate: moveDate,
+              toDate: segment.toDate,
+              nightlyRate: rate,
+              notes: input.notes ?? null,
+              createdBy,
+            });
+          }
+        }
+
+        const [saved] = await tx
+          .update(bookings)
+          .set({
+            roomId: booking.roomId === fromRoomId ? input.toRoomId : booking.roomId,
+            roomIds: booking.roomIds ? booking.roomIds.map(id => (id === fromRoomId ? input.toRoomId : id)) : booking.roomIds,
+            updatedAt: new Date(),
+          })
+          .where(eq(bookings.id, booking.id))
+          .returning();
+
+        // Once the guest has actually moved, the old room goes to housekeeping
+        if (moveDate <= dateKey(new Date())) {
+          await tx.update(rooms).set({ status: "cleaning", updatedAt: new Date() }).where(eq(rooms.id, fromRoomId));
+          await tx.update(rooms).set({ status: "occupied", updatedAt: new Date() }).where(eq(rooms.id, input.toRoomId));
+        }
+        return saved;
+      },
+    );
+
+    return { booking: updated, segments: await this.getSegments(booking.id) };
+  }
+
+  /**
+   * Add nights in the rooms held on the last night (checked against inventory)
+   */
+  static async extend(booking: Booking, input: StayExtensionInput, createdBy: string | null): Promise<{ booking: Booking; segments: StaySegment[] }> {
+    const existing = await this.getSegments(booking.id);
+    const currentEnd = stayEnd(booking, existing);
+    if (input.checkOutDate <= currentEnd) {
+      throw new StayModificationError(`New checkout must be after the current checkout (${currentEnd})`);
+    }
+    const endRooms = existing.length > 0
+      ? existing.filter(s => s.toDate === currentEnd).map(s => s.roomId)
+      : getBookingRoomIds(booking);
+    const newCheckOut = atDate(booking.checkOutDate, input.checkOutDate);
+
+    const updated = await ReservationService.reserve(
+      {
+        roomIds: endRooms,
+        bedsBooked: booking.bedsBooked,
+        checkInDate: new Date(booking.checkOutDate),
+        checkOutDate: newCheckOut,
+        excludeBookingId: booking.id,
+      },
+      async (tx) => {
+        const segments = await this.ensureSegments(tx, booking);
+        for (const segment of segments.filter(s => s.toDate === currentEnd)) {
+          const rate = rateValue(input.nightlyRate, segment.nightlyRate);
+          if (sameRate(rate, segment.nightlyRate)) {
+            await tx.update(staySegments).set({ toDate: input.checkOutDate }).where(eq(staySegments.id, segment.id));
+          } else {
+            await tx.insert(staySegments).values({
+              bookingId: booking.id,
+              roomId: segment.roomId,
+              fromDate: currentEnd,
+              toDate: input.checkOutDate,
+              nightlyRate: rate,
+              notes: input.notes ?? null,
+              createdBy,
+            });
+          }
+        }
+
+        const [saved] = await tx
+          .update(bookings)
+          .set({ checkOutDate: newCheckOut, updatedAt: new Date() })
+          .where(eq(bookings.id, booking.id))
+          .returning();
+        return saved;
+      },
+    );
+
+    return { booking: updated, segments: await this.getSegments(booking.id) };
+  }
+
+  /**
+   * Bring the checkout forward; nights after the new checkout are dropped
+   */
+  static async shorten(booking: Booking, checkOutDate: string): Promise<{ booking: Booking; segments: StaySegment[] }> {
+    if (checkOutDate <= dateKey(booking.checkInDate)) {
+      throw new StayModificationError("A stay must keep at least one night");
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const [locked] = await tx.select().from(bookings).where(eq(bookings.id, booking.id)).for("update");
+      const segments = await this.ensureSegments(tx, locked);
+      const currentEnd = stayEnd(locked, segments);
+      if (checkOutDate >= currentEnd) {
+        throw new StayModificationError(`New checkout must be before the current checkout (${currentEnd})`);
+      }
+
+      await tx
+        .delete(staySegments)
+        .where(and(eq(staySegments.bookingId, booking.id), gte(staySegments.fromDate, checkOutDate)));
+      await tx
+        .update(staySegments)
+        .set({ toDate: checkOutDate })
+        .where(and(eq(staySegments.bookingId, booking.id), gt(staySegments.toDate, checkOutDate)));
+
+      // The booking's rooms are the ones held on the (new) last night
+      const lastRooms = Array.from(new Set(
+        segments.filter(s => s.fromDate < checkOutDate && s.toDate >= checkOutDate).map(s => s.roomId)
+      ));
+      const [saved] = await tx
+        .update(bookings)
+        .set({
+          checkOutDate: atDate(locked.checkOutDate, checkOutDate),
+          roomId: locked.roomIds && locked.roomIds.length > 0 ? locked.roomId : lastRooms[0] ?? locked.roomId,
+          roomIds: locked.roomIds && locked.roomIds.length > 0 ? lastRooms : locked.roomIds,
+          updatedAt: new Date(),
+        })
+        .where(eq(bookings.id, booking.id))
+        .returning();
+      return saved;
+    });
+
+    return { booking: updated, segments: await this.getSegments(booking.id) };
+  }
+}
@@ -2,6 +2,10 @@ import {
   users,
   properties,
   rooms,
+  roomTypes,
+  ratePlans,
+  ratePlanRates,
+  cancellationPolicies,
   guests,
   travelAgents,
   bookings,
@@ -9,12 +13,31 @@ import {
   menuItems,
   menuItemVariants,
   menuItemAddOns,
+  menuItemModifierGroups,
+  menuItemModifiers,
+  menuPriceRules,
   orders,
+  orderItems,
+  orderStatusHistory,
+  diningTables,
+  kitchenPrinters,
+  stockItems,
+  stockMovements,
+  tableTabs,
   extraServices,
   bills,
+  billTaxLines,
+  billLineItems,
+  billPayments,
+  deposits,
+  dailyStats,
+  invoiceSequences,
+  taxProfiles,
+  taxSlabs,
   enquiries,
   messageTemplates,
   communications,
+  loyaltyTiers,
   propertyLeases,
   leasePayments,
   propertyExpenses,
@@ -30,6 +53,14 @@ import {
   type InsertProperty,
   type Room,
   type InsertRoom,
+  type RoomType,
+  type InsertRoomType,
+  type RatePlan,
+  type InsertRatePlan,
+  type RatePlanRate,
+  type InsertRatePlanRate,
+  type CancellationPolicy,
+  type InsertCancellationPolicy,
   type Guest,
   type InsertGuest,
   type TravelAgent,
@@ -44,12 +75,46 @@ import {
   type InsertMenuItemVariant,
   type MenuItemAddOn,
   type InsertMenuItemAddOn,
+  type MenuItemModifierGroup,
+  type MenuItemModifierGroupWithOptions,
+  type ModifierGroupInput,
+  type MenuPriceRule,
+  type MenuPriceRuleInput,
+  type LoyaltyTier,
+  type LoyaltyTierInput,
   type Order,
   type InsertOrder,
+  type OrderItem,
+  type DiningTable,
+  type InsertDiningTable,
+  type KitchenPrinter,
+  type InsertKitchenPrinter,
+  type StockItem,
+  type InsertStockItem,
+  type ItemSalesRow,
+  type DailyItemSales,
+  type OrderStatusChange,
+  type KitchenPerformanceReport,
+  type KitchenItemPerformance,
+  type KitchenShiftPerformance,
   type ExtraService,
   type InsertExtraService,
   type Bill,
   type InsertBill,
+  type BillTaxLine,
+  type InsertBillTaxLine,
+  type BillLineItem,
+  type InsertBillLineItem,
+  type BillPayment,
+  type InsertBillPayment,
+  type Deposit,
+  type InsertDeposit,
+  type DailyStat,
+  type InsertDailyStat,
+  type TaxProfile,
+  type InsertTaxProfile,
+  type TaxSlab,
+  type InsertTaxSlab,
   type Enquiry,
   type InsertEnquiry,
   type MessageTemplate,
@@ -76,8 +141,40 @@ import {
   type InsertSalaryPayment,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, gte, lte, lt, gt, sql, or, inArray } from "drizzle-orm";
+import { eq, desc, and, gte, lte, lt, gt, sql, or, inArray, isNotNull, not } from "drizzle-orm";
 import { eventBus, EventTypes } from "./eventBus";
+import { RateService } from "./rateService";
+import { TaxService } from "./taxService";
+import { calculateTaxes } from "./taxCalculation";
+import { buildCheckoutLineItems, CheckoutError } from "./billLineItems";
+import { replaceOrderItems } from "./orderItems";
+import { assertOrderTransition, kitchenShiftFor, KITCHEN_SHIFTS, OrderStatusError, type OrderStatus } from "./orderStatus";
+import { summarizeBillPayments, assertWithinBalance, assertWithinHeld, OUTSTANDING_PAYMENT_STATUSES } from "./billPayments";
+import type { CancellationKind, CancellationQuote } from "./cancellationFees";
+import { getFinancialYear, defaultInvoicePrefix, formatInvoiceNumber } from "./invoiceNumbers";
+import { randomBytes } from "crypto";
+import { addDays } from "date-fns";
+import { ReservationService, type DbTransaction } from "./reservationService";
+import { NON_BLOCKING_BOOKING_STATUSES } from "./roomInventory";
+
+// Deposits belong to a booking, or to an enquiry until it is confirmed
+export type DepositOwner = { bookingId: number; enquiryId?: undefined } | { enquiryId: number; bookingId?: undefined };
+
+// Everything a checkout writes to the booking's bill, committed with the status change
+export interface CheckoutSettlement {
+  bill: Omit<typeof bills.$inferInsert, "advancePaid" | "balanceAmount">; // The advance applied is the deposits held
+  payments: Omit<InsertBillPayment, "billId">[]; // Collected at the desk, e.g. part cash, part UPI
+  settleBalance: { paymentMethod: string; receivedBy: string | null } | null; // "Paid" without a split
+  taxLines: Omit<InsertBillTaxLine, "billId">[];
+  lineItems: Omit<InsertBillLineItem, "billId">[];
+}
+
+export interface ItemSalesFilters {
+  from: string; // yyyy-MM-dd, by order date
+  to: string; // Inclusive
+  propertyIds?: number[]; // Omitted: all properties
+  menuItemId?: number;
+}
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -105,6 +202,29 @@ export interface IStorage {
   getAvailableRooms(propertyId: number): Promise<Room[]>;
   getRoomsWithCheckedInGuests(): Promise<any[]>;
 
+  // Room Type operations
+  getRoomTypesByProperty(propertyId: number): Promise<RoomType[]>;
+  getRoomType(id: number): Promise<RoomType | undefined>;
+  createRoomType(roomType: InsertRoomType): Promise<RoomType>;
+  updateRoomType(id: number, roomType: Partial<InsertRoomType>): Promise<RoomType>;
+  deleteRoomType(id: number): Promise<void>;
+
+  // Rate Plan operations
+  getRatePlansByProperty(propertyId: number): Promise<RatePlan[]>;
+  getRatePlan(id: number): Promise<RatePlan | undefined>;
+  createRatePlan(ratePlan: InsertRatePlan): Promise<RatePlan>;
+  updateRatePlan(id: number, ratePlan: Partial<InsertRatePlan>): Promise<RatePlan>;
+  deleteRatePlan(id: number): Promise<void>;
+  getRatePlanRates(ratePlanId: number, fromDate: string, toDate: string): Promise<RatePlanRate[]>;
+  upsertRatePlanRates(rates: InsertRatePlanRate[]): Promise<RatePlanRate[]>;
+
+  // Cancellation policy operations
+  getCancellationPoliciesByProperty(propertyId: number): Promise<CancellationPolicy[]>;
+  getCancellationPolicy(id: number): Promise<CancellationPolicy | undefined>;
+  createCancellationPolicy(policy: InsertCancellationPolicy): Promise<CancellationPolicy>;
+  updateCancellationPolicy(id: number, policy: Partial<InsertCancellationPolicy>): Promise<CancellationPolicy>;
+  deleteCancellationPolicy(id: number): Promise<void>;
+
   // Guest operations
   getAllGuests(): Promise<Guest[]>;
   getGuest(id: number): Promise<Guest | undefined>;
@@ -112,6 +232,13 @@ export interface IStorage {
   updateGuest(id: number, guest: Partial<InsertGuest>): Promise<Guest>;
   deleteGuest(id: number): Promise<void>;
 
+  // Loyalty tier operations
+  getLoyaltyTiers(): Promise<LoyaltyTier[]>;
+  getLoyaltyTier(id: number): Promise<LoyaltyTier | undefined>;
+  createLoyaltyTier(tier: LoyaltyTierInput): Promise<LoyaltyTier>;
+  updateLoyaltyTier(id: number, tier: LoyaltyTierInput): Promise<LoyaltyTier>;
+  deleteLoyaltyTier(id: number): Promise<void>;
+
   // Travel Agent operations
   getAllTravelAgents(): Promise<TravelAgent[]>;
   getTravelAgentsByProperty(propertyId: number): Promise<TravelAgent[]>;
@@ -160,15 +287,57 @@ export interface IStorage {
   deleteMenuItemAddOn(id: number): Promise<void>;
   deleteAddOnsByMenuItem(menuItemId: number): Promise<void>;
 
+  // Menu Item Modifier operations
+  getModifierGroupsByMenuItem(menuItemId: number, availableOnly?: boolean): Promise<MenuItemModifierGroupWithOptions[]>;
+  getModifierGroup(id: number): Promise<MenuItemModifierGroup | undefined>;
+  createModifierGroup(menuItemId: number, group: ModifierGroupInput): Promise<MenuItemModifierGroupWithOptions>;
+  updateModifierGroup(id: number, group: ModifierGroupInput): Promise<MenuItemModifierGroupWithOptions>;
+  deleteModifierGroup(id: number): Promise<void>;
+
+  // Menu price rule operations
+  getMenuPriceRules(): Promise<MenuPriceRule[]>;
+  getMenuPriceRule(id: number): Promise<MenuPriceRule | undefined>;
+  createMenuPriceRule(rule: MenuPriceRuleInput): Promise<MenuPriceRule>;
+  updateMenuPriceRule(id: number, rule: MenuPriceRuleInput): Promise<MenuPriceRule>;
+  deleteMenuPriceRule(id: number): Promise<void>;
+
+  // Dining table operations
+  getDiningTables(propertyId?: number): Promise<DiningTable[]>;
+  getDiningTable(id: number): Promise<DiningTable | undefined>;
+  getDiningTableByNumber(propertyId: number, tableNumber: string): Promise<DiningTable | undefined>;
+  createDiningTable(table: InsertDiningTable): Promise<DiningTable>;
+  updateDiningTable(id: number, table: Partial<InsertDiningTable>): Promise<DiningTable>;
+  deleteDiningTable(id: number): Promise<void>;
+
+  // Kitchen printer operations
+  getKitchenPrinters(propertyId?: number): Promise<KitchenPrinter[]>;
+  getKitchenPrinter(id: number): Promise<KitchenPrinter | undefined>;
+  createKitchenPrinter(printer: InsertKitchenPrinter): Promise<KitchenPrinter>;
+  updateKitchenPrinter(id: number, printer: Partial<InsertKitchenPrinter>): Promise<KitchenPrinter>;
+  deleteKitchenPrinter(id: number): Promise<void>;
+
+  // Stock item operations
+  getStockItems(propertyId?: number): Promise<StockItem[]>;
+  getStockItem(id: number): Promise<StockItem | undefined>;
+  createStockItem(item: InsertStockItem): Promise<StockItem>;
+  updateStockItem(id: number, item: Partial<InsertStockItem>): Promise<StockItem>;
+  deleteStockItem(id: number): Promise<void>;
+
   // Order operations
   getAllOrders(): Promise<Order[]>;
   getOrdersByProperty(propertyId: number): Promise<Order[]>;
   getOrder(id: number): Promise<Order | undefined>;
+  getOrderByTrackingToken(token: string): Promise<Order | undefined>;
   getOrdersByBooking(bookingId: number): Promise<Order[]>;
-  createOrder(order: InsertOrder): Promise<Order>;
+  createOrder(order: InsertOrder, attach?: (tx: DbTransaction) => Promise<Partial<typeof orders.$inferInsert>>): Promise<Order>;
   updateOrder(id: number, order: Partial<InsertOrder>): Promise<Order>;
-  updateOrderStatus(id: number, status: string): Promise<Order>;
+  updateOrderStatus(id: number, status: OrderStatus, options?: { reason?: string | null; changedBy?: string | null }): Promise<Order>;
+  getOrderStatusHistory(orderId: number): Promise<OrderStatusChange[]>;
+  getKitchenPerformance(filters: Pick<ItemSalesFilters, "from" | "to" | "propertyIds">): Promise<KitchenPerformanceReport>;
   deleteOrder(id: number): Promise<void>;
+  getOrderItems(orderId: number): Promise<OrderItem[]>;
+  getItemSales(filters: ItemSalesFilters): Promise<ItemSalesRow[]>;
+  getDailyItemSales(filters: ItemSalesFilters): Promise<DailyItemSales[]>;
 
   // Extra Service operations
   getAllExtraServices(): Promise<ExtraService[]>;
@@ -186,6 +355,37 @@ export interface IStorage {
   updateBill(id: number, bill: Partial<InsertBill>): Promise<Bill>;
   createOrUpdateBill(bill: InsertBill): Promise<Bill>;
   mergeBills(bookingIds: number[], primaryBookingId: number): Promise<Bill>;
+  getBillTaxLines(billId: number): Promise<BillTaxLine[]>;
+  replaceBillTaxLines(billId: number, lines: Omit<InsertBillTaxLine, "billId">[]): Promise<BillTaxLine[]>;
+  getBillLineItems(billId: number): Promise<BillLineItem[]>;
+  replaceBillLineItems(billId: number, items: Omit<InsertBillLineItem, "billId">[]): Promise<BillLineItem[]>;
+  addBillAdjustment(billId: number, item: Omit<InsertBillLineItem, "billId">): Promise<{ bill: Bill; lineItem: BillLineItem }>;
+  assignInvoiceNumber(billId: number): Promise<Bill>;
+  completeCheckout(bookingId: number, checkout: CheckoutSettlement): Promise<{ booking: Booking; bill: Bill }>;
+  getBillByInvoiceToken(token: string): Promise<Bill | undefined>;
+  getBillPayments(billId: number): Promise<BillPayment[]>;
+  recordBillPayment(billId: number, entry: Omit<InsertBillPayment, "billId">, options?: { withinBalance?: boolean }): Promise<{ bill: Bill; payment: BillPayment }>;
+  recalculateBillBalance(billId: number): Promise<Bill>;
+
+  // Deposit (advance) ledger operations
+  getDeposits(owner: DepositOwner): Promise<Deposit[]>;
+  getDepositBalance(owner: DepositOwner): Promise<number>;
+  recordDeposit(entry: InsertDeposit, options?: { withinHeld?: boolean }): Promise<Deposit>;
+  transferDeposit(fromBookingId: number, toBookingId: number, amount: number, details: { notes?: string | null; recordedBy?: string | null }): Promise<Deposit[]>;
+  attachEnquiryDeposits(enquiryId: number, bookingId: number): Promise<Deposit[]>;
+  applyDepositsToBill(bookingIds: number[], billId: number): Promise<number>;
+  cancelBooking(booking: Booking, status: CancellationKind, quote: CancellationQuote, options: { refundMethod?: string | null; recordedBy?: string | null }): Promise<{ booking: Booking; bill: Bill | null; refund: Deposit | null }>;
+
+  // Tax profile operations
+  getTaxProfileByProperty(propertyId: number): Promise<TaxProfile | undefined>;
+  getTaxSlabs(taxProfileId: number): Promise<TaxSlab[]>;
+  saveTaxProfile(profile: InsertTaxProfile, slabs: Omit<InsertTaxSlab, "taxProfileId">[]): Promise<{ profile: TaxProfile; slabs: TaxSlab[] }>;
+
+  // Night audit operations
+  getDailyStats(propertyId: number, fromDate: string, toDate: string): Promise<DailyStat[]>;
+  getDailyStat(propertyId: number, businessDate: string): Promise<DailyStat | undefined>;
+  getLastDailyStat(propertyId: number): Promise<DailyStat | undefined>;
+  saveDailyStat(stat: InsertDailyStat): Promise<DailyStat>;
 
   // Enquiry operations
   getAllEnquiries(): Promise<Enquiry[]>;
@@ -282,6 +482,333 @@ export interface IStorage {
   getAnalytics(): Promise<any>;
 }
 
+function depositOwnerFilter(owner: DepositOwner) {
+  return owner.bookingId !== undefined
+    ? eq(deposits.bookingId, owner.bookingId)
+    : eq(deposits.enquiryId, owner.enquiryId);
+}
+
+// Sales count lines of orders that were not rejected or cancelled, and not cancelled themselves
+function itemSalesConditions(filters: ItemSalesFilters) {
+  const conditions = [
+    gte(orders.createdAt, new Date(`${filters.from}T00:00:00`)),
+    lt(orders.createdAt, addDays(new Date(`${filters.to}T00:00:00`), 1)),
+    sql`${orders.status} not in ('rejected', 'cancelled')`,
+    sql`${orderItems.status} <> 'cancelled'`,
+  ];
+  if (filters.propertyIds) {
+    conditions.push(filters.propertyIds.length > 0 ? inArray(orders.propertyId, filters.propertyIds) : sql`false`);
+  }
+  if (filters.menuItemId !== undefined) {
+    conditions.push(eq(orderItems.menuItemId, filters.menuItemId));
+  }
+  return and(...conditions);
+}
+
+/**
+ * Advances entered before the deposits ledger existed only live in
+ * bookings.advanceAmount / enquiries.advanceAmount; record them as an opening entry.
+ */
+async function backfillLegacyDeposit(tx: DbTransaction, owner: DepositOwner): Promise<void> {
+  const [existing] = await tx.select({ id: deposits.id }).from(deposits).where(depositOwnerFilter(owner)).limit(1);
+  if (existing) return;
+
+  let amount = 0;
+  if (owner.bookingId !== undefined) {
+    const [booking] = await tx.select().from(bookings).where(eq(bookings.id, owner.bookingId));
+    amount = parseFloat(booking?.advanceAmount || "0");
+  } else {
+    const [enquiry] = await tx.select().from(enquiries).where(eq(enquiries.id, owner.enquiryId));
+    amount = enquiry?.paymentStatus === "received" ? parseFloat(enquiry.advanceAmount || "0") : 0;
+  }
+  if (amount <= 0) return;
+
+  await tx.insert(deposits).values({
+    ...owner,
+    entryType: "received",
+    amount: amount.toFixed(2),
+    notes: "Recorded before the deposits ledger",
+  });
+}
+
+// Keep the cached advance totals on bookings and enquiries equal to the ledger
+async function syncDepositTotals(tx: DbTransaction, owner: DepositOwner): Promise<number> {
+  const [{ total, count }] = await tx
+    .select({
+      total: sql<string>`COALESCE(SUM(${deposits.amount}), 0)`,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(deposits)
+    .where(depositOwnerFilter(owner));
+  const balance = parseFloat(total);
+
+  if (owner.bookingId !== undefined) {
+    await tx
+      .update(bookings)
+      .set({ advanceAmount: balance.toFixed(2), updatedAt: new Date() })
+      .where(eq(bookings.id, owner.bookingId));
+  } else if (count > 0) {
+    // Before any money is received the enquiry amount is the advance requested
+    await tx
+      .update(enquiries)
+      .set({ advanceAmount: balance.toFixed(2), updatedAt: new Date() })
+      .where(eq(enquiries.id, owner.enquiryId));
+  }
+  return balance;
+}
+
+/**
+ * Bills settled before the payments ledger existed have no payment rows; record
+ * the amount they were marked paid with so the derived balance stays at zero.
+ */
+async function backfillLegacyPayment(tx: DbTransaction, bill: Bill): Promise<void> {
+  if (bill.paymentStatus !== "paid") return;
+  const [existing] = await tx.select({ id: billPayments.id }).from(billPayments).where(eq(billPayments.billId, bill.id)).limit(1);
+  if (existing) return;
+
+  const amount = parseFloat(bill.totalAmount) - parseFloat(bill.advancePaid || "0");
+  if (amount <= 0) return;
+  await tx.insert(billPayments).values({
+    billId: bill.id,
+    entryType: "payment",
+    amount: amount.toFixed(2),
+    paymentMethod: bill.paymentMethod || "Unknown",
+    notes: "Recorded before the payments ledger",
+    receivedAt: bill.paidAt || bill.updatedAt || new Date(),
+  });
+}
+
+// Recompute the bill's balance, status and payment method from its ledger
+async function syncBillBalance(tx: DbTransaction, bill: Bill): Promise<Bill> {
+  const payments = await tx
+    .select()
+    .from(billPayments)
+    .where(eq(billPayments.billId, bill.id))
+    .orderBy(billPayments.receivedAt, billPayments.id);
+  const summary = summarizeBillPayments(bill, payments);
+
+  const [updated] = await tx
+    .update(bills)
+    .set({
+      totalAmount: bill.totalAmount,
+      balanceAmount: summary.balanceAmount.toFixed(2), // Negative when money is owed back to the guest
+      paymentStatus: summary.paymentStatus,
+      paymentMethod: summary.paymentMethod,
+      paidAt: summary.paidAt,
+      updatedAt: new Date(),
+    })
+    .where(eq(bills.id, bill.id))
+    .returning();
+  return updated;
+}
+
+/**
+ * Give the bill the next invoice number of its property's financial year, in
+ * the caller's transaction
+ */
+async function issueInvoiceNumber(tx: DbTransaction, billId: number): Promise<Bill> {
+  const [bill] = await tx.select().from(bills).where(eq(bills.id, billId)).for("update");
+  if (!bill) {
+    throw new Error("Bill not found");
+  }
+  // Invoice numbers are permanent once issued
+  if (bill.invoiceNumber) {
+    return bill;
+  }
+
+  const [booking] = await tx.select().from(bookings).where(eq(bookings.id, bill.bookingId));
+  if (!booking) {
+    throw new Error("Booking not found");
+  }
+  const [property] = await tx.select().from(properties).where(eq(properties.id, booking.propertyId));
+  if (!property) {
+    throw new Error("Property not found");
+  }
+
+  // The counter row is locked by the upsert and only committed together with the
+  // caller's transaction, so a number is consumed only if that transaction commits
+  // (gap-free). Checkout issues it last, in the same transaction as the status change.
+  const invoiceDate = new Date();
+  const financialYear = getFinancialYear(invoiceDate);
+  const [sequence] = await tx
+    .insert(invoiceSequences)
+    .values({ propertyId: property.id, financialYear, lastNumber: 1 })
+    .onConflictDoUpdate({
+      target: [invoiceSequences.propertyId, invoiceSequences.financialYear],
+      set: { lastNumber: sql`${invoiceSequences.lastNumber} + 1`, updatedAt: new Date() },
+    })
+    .returning();
+
+  const prefix = property.invoicePrefix || defaultInvoicePrefix(property.name);
+  const [updated] = await tx
+    .update(bills)
+    .set({
+      invoiceNumber: formatInvoiceNumber(prefix, financialYear, sequence.lastNumber),
+      invoiceDate,
+      invoiceAccessToken: bill.invoiceAccessToken || randomBytes(24).toString("hex"),
+      updatedAt: new Date(),
+    })
+    .where(eq(bills.id, billId))
+    .returning();
+  return updated;
+}
+
+/**
+ * Write the checkout bill in the caller's transaction: the bill with the
+ * booking's deposits applied, the payments collected, its tax lines and line
+ * items, and finally its invoice number. The bill row stays locked throughout.
+ */
+async function settleCheckout(tx: DbTransaction, booking: Booking, checkout: CheckoutSettlement): Promise<Bill> {
+  const [existing] = await tx.select().from(bills).where(eq(bills.bookingId, booking.id)).for("update");
+  // An invoiced bill is a tax document; it is corrected with adjustments, never rewritten
+  if (existing?.invoiceNumber) {
+    throw new CheckoutError(`Booking #${booking.id} already has invoice ${existing.invoiceNumber}`);
+  }
+
+  const owner: DepositOwner = { bookingId: booking.id };
+  await backfillLegacyDeposit(tx, owner);
+  const [{ total }] = await tx
+    .select({ total: sql<string>`COALESCE(SUM(${deposits.amount}), 0)` })
+    .from(deposits)
+    .where(depositOwnerFilter(owner));
+  const advancePaid = Math.round(parseFloat(total) * 100) / 100;
+  const values = {
+    ...checkout.bill,
+    advancePaid: advancePaid.toFixed(2),
+    balanceAmount: (parseFloat(checkout.bill.totalAmount) - advancePaid).toFixed(2),
+  };
+
+  let [bill] = existing
+    ? await tx.update(bills).set({ ...values, updatedAt: new Date() }).where(eq(bills.id, existing.id)).returning()
+    : await tx.insert(bills).values(values).returning();
+  await tx.update(deposits).set({ billId: bill.id }).where(depositOwnerFilter(owner));
+
+  await backfillLegacyPayment(tx, bill);
+  bill = await syncBillBalance(tx, bill);
+  const payments = checkout.payments.length > 0
+    ? checkout.payments
+    : checkout.settleBalance && parseFloat(bill.balanceAmount) > 0
+      ? [{ ...checkout.settleBalance, entryType: "payment", amount: bill.balanceAmount }]
+      : [];
+  if (payments.length > 0) {
+    await tx.insert(billPayments).values(payments.map(payment => ({ ...payment, billId: bill.id })));
+    bill = await syncBillBalance(tx, bill);
+  }
+
+  await tx.delete(billTaxLines).where(eq(billTaxLines.billId, bill.id));
+  if (checkout.taxLines.length > 0) {
+    await tx.insert(billTaxLines).values(checkout.taxLines.map(line => ({ ...line, billId: bill.id })));
+  }
+  await tx.delete(billLineItems).where(eq(billLineItems.billId, bill.id));
+  if (checkout.lineItems.length > 0) {
+    await tx.insert(billLineItems).values(checkout.lineItems.map(item => ({ ...item, billId: bill.id })));
+  }
+
+  // Issued last, so a failed checkout never consumes an invoice number
+  return await issueInvoiceNumber(tx, bill.id);
+}
+
+/**
+ * Apply the cancellation policy in the caller's transaction: the fee is billed
+ * against the advance and the rest of the advance is refunded
+ */
+async function settleCancellation(
+  tx: DbTransaction,
+  booking: Booking,
+  quote: CancellationQuote,
+  options: { refundMethod?: string | null; recordedBy?: string | null },
+): Promise<{ bill: Bill | null; refund: Deposit | null }> {
+  const label = quote.kind === "no-show" ? "No-show" : "Cancellation";
+  const owner: DepositOwner = { bookingId: booking.id };
+
+  // The advance covers the charge first; anything left over is refunded
+  await backfillLegacyDeposit(tx, owner);
+  const [{ total }] = await tx
+    .select({ total: sql<string>`COALESCE(SUM(${deposits.amount}), 0)` })
+    .from(deposits)
+    .where(depositOwnerFilter(owner));
+  const held = Math.round(parseFloat(total) * 100) / 100;
+  const refundAmount = Math.round((held - Math.min(held, quote.totalCharge)) * 100) / 100;
+  let refund: Deposit | null = null;
+  if (refundAmount > 0) {
+    [refund] = await tx.insert(deposits).values({
+      bookingId: booking.id,
+      entryType: "refunded",
+      amount: (-refundAmount).toFixed(2),
+      paymentMethod: options.refundMethod || null,
+      notes: `Refund after ${label.toLowerCase()}`,
+      recordedBy: options.recordedBy || null,
+    }).returning();
+    await syncDepositTotals(tx, owner);
+  }
+
+  if (quote.totalCharge <= 0) {
+    return { bill: null, refund };
+  }
+
+  const charge = {
+    bookingId: booking.id,
+    guestId: booking.guestId,
+    roomCharges: quote.fee.toFixed(2),
+    foodCharges: "0",
+    extraCharges: "0",
+    subtotal: quote.fee.toFixed(2),
+    gstRate: quote.taxes.gstRate.toString(),
+    gstAmount: quote.taxes.gstAmount.toFixed(2),
+    serviceChargeRate: "0",
+    serviceChargeAmount: "0",
+    includeGst: quote.taxes.gstAmount > 0,
+    includeServiceCharge: false,
+    totalAmount: quote.totalCharge.toFixed(2),
+    paymentStatus: "pending",
+    pendingReason: `${label} charge`,
+  };
+  const [existing] = await tx.select({ id: bills.id }).from(bills).where(eq(bills.bookingId, booking.id));
+  const [saved] = existing
+    ? await tx.update(bills).set({ ...charge, updatedAt: new Date() }).where(eq(bills.id, existing.id)).returning()
+    : await tx.insert(bills).values(charge).returning();
+
+  const applied = await tx.update(deposits).set({ billId: saved.id }).where(eq(deposits.bookingId, booking.id)).returning();
+  const advancePaid = Math.round(applied.reduce((sum, d) => sum + parseFloat(d.amount), 0) * 100) / 100;
+  await tx.update(bills).set({ advancePaid: advancePaid.toFixed(2), updatedAt: new Date() }).where(eq(bills.id, saved.id));
+
+  await tx.delete(billTaxLines).where(eq(billTaxLines.billId, saved.id));
+  const taxLines = quote.taxes.lines.map(line => ({
+    billId: saved.id,
+    category: line.category,
+    component: line.component,
+    rate: line.rate.toString(),
+    taxableAmount: line.taxableAmount.toFixed(2),
+    taxAmount: line.taxAmount.toFixed(2),
+  }));
+  if (taxLines.length > 0) await tx.insert(billTaxLines).values(taxLines);
+
+  await tx.delete(billLineItems).where(eq(billLineItems.billId, saved.id));
+  await tx.insert(billLineItems).values([
+    {
+      lineType: "cancellation_fee",
+      description: `${label} charge - ${quote.policy?.name ?? "policy"} (${quote.feePercent}% of room charges ₹${quote.roomCharges.toFixed(2)})`,
+      referenceId: quote.policy?.id ?? null,
+      quantity: 1,
+      unitPrice: quote.fee.toFixed(2),
+      amount: quote.fee.toFixed(2),
+    },
+    ...buildCheckoutLineItems({
+      nightlyRates: [],
+      roomNumbers: new Map(),
+      orders: [],
+      extraServices: [],
+      taxes: quote.taxes,
+      discountAmount: 0,
+    }),
+  ].map(item => ({ ...item, billId: saved.id })));
+
+  const numbered = await issueInvoiceNumber(tx, saved.id);
+  await backfillLegacyPayment(tx, numbered);
+  const bill = await syncBillBalance(tx, numbered);
+  return { bill, refund };
+}
+
 export class DatabaseStorage implements IStorage {
   // User operations (required for Replit Auth)
   async getAllUsers(): Promise<User[]> {
@@ -471,6 +998,131 @@ export class DatabaseStorage implements IStorage {
     return roomsWithGuests;
   }
 
+  // Room Type operations
+  async getRoomTypesByProperty(propertyId: number): Promise<RoomType[]> {
+    return await db
+      .select()
+      .from(roomTypes)
+      .where(eq(roomTypes.propertyId, propertyId))
+      .orderBy(roomTypes.name);
+  }
+
+  async getRoomType(id: number): Promise<RoomType | undefined> {
+    const [roomType] = await db.select().from(roomTypes).where(eq(roomTypes.id, id));
+    return roomType;
+  }
+
+  async createRoomType(roomType: InsertRoomType): Promise<RoomType> {
+    const [created] = await db.insert(roomTypes).values(roomType).returning();
+    return created;
+  }
+
+  async updateRoomType(id: number, roomType: Partial<InsertRoomType>): Promise<RoomType> {
+    const [updated] = await db
+      .update(roomTypes)
+      .set({ ...roomType, updatedAt: new Date() })
+      .where(eq(roomTypes.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteRoomType(id: number): Promise<void> {
+    await db.delete(roomTypes).where(eq(roomTypes.id, id));
+  }
+
+  // Rate Plan operations
+  async getRatePlansByProperty(propertyId: number): Promise<RatePlan[]> {
+    return await db
+      .select()
+      .from(ratePlans)
+      .where(eq(ratePlans.propertyId, propertyId))
+      .orderBy(ratePlans.code);
+  }
+
+  async getRatePlan(id: number): Promise<RatePlan | undefined> {
+    const [ratePlan] = await db.select().from(ratePlans).where(eq(ratePlans.id, id));
+    return ratePlan;
+  }
+
+  async createRatePlan(ratePlan: InsertRatePlan): Promise<RatePlan> {
+    const [created] = await db.insert(ratePlans).values(ratePlan).returning();
+    return created;
+  }
+
+  async updateRatePlan(id: number, ratePlan: Partial<InsertRatePlan>): Promise<RatePlan> {
+    const [updated] = await db
+      .update(ratePlans)
+      .set({ ...ratePlan, updatedAt: new Date() })
+      .where(eq(ratePlans.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteRatePlan(id: number): Promise<void> {
+    await db.delete(ratePlans).where(eq(ratePlans.id, id));
+  }
+
+  async getRatePlanRates(ratePlanId: number, fromDate: string, toDate: string): Promise<RatePlanRate[]> {
+    return await db
+      .select()
+      .from(ratePlanRates)
+      .where(and(
+        eq(ratePlanRates.ratePlanId, ratePlanId),
+        gte(ratePlanRates.stayDate, fromDate),
+        lte(ratePlanRates.stayDate, toDate)
+      ))
+      .orderBy(ratePlanRates.stayDate, ratePlanRates.roomTypeId);
+  }
+
+  async upsertRatePlanRates(rates: InsertRatePlanRate[]): Promise<RatePlanRate[]> {
+    if (rates.length === 0) return [];
+    return await db
+      .insert(ratePlanRates)
+      .values(rates)
+      .onConflictDoUpdate({
+        target: [ratePlanRates.ratePlanId, ratePlanRates.roomTypeId, ratePlanRates.stayDate],
+        set: {
+          price: sql`excluded.price`,
+          minStay: sql`excluded.min_stay`,
+          closedToArrival: sql`excluded.closed_to_arrival`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+  }
+
+  // Cancellation policy operations
+  async getCancellationPoliciesByProperty(propertyId: number): Promise<CancellationPolicy[]> {
+    return await db
+      .select()
+      .from(cancellationPolicies)
+      .where(eq(cancellationPolicies.propertyId, propertyId))
+      .orderBy(cancellationPolicies.name);
+  }
+
+  async getCancellationPolicy(id: number): Promise<CancellationPolicy | undefined> {
+    const [policy] = await db.select().from(cancellationPolicies).where(eq(cancellationPolicies.id, id));
+    return policy;
+  }
+
+  async createCancellationPolicy(policy: InsertCancellationPolicy): Promise<CancellationPolicy> {
+    const [created] = await db.insert(cancellationPolicies).values(policy).returning();
+    return created;
+  }
+
+  async updateCancellationPolicy(id: number, policy: Partial<InsertCancellationPolicy>): Promise<CancellationPolicy> {
+    const [updated] = await db
+      .update(cancellationPolicies)
+      .set({ ...policy, updatedAt: new Date() })
+      .where(eq(cancellationPolicies.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteCancellationPolicy(id: number): Promise<void> {
+    await db.delete(cancellationPolicies).where(eq(cancellationPolicies.id, id));
+  }
+
   // Guest operations
   async getAllGuests(): Promise<Guest[]> {
     return await db.select().from(guests).orderBy(desc(guests.createdAt));
@@ -499,6 +1151,37 @@ export class DatabaseStorage implements IStorage {
     await db.delete(guests).where(eq(guests.id, id));
   }
 
+  // Loyalty tier operations
+  async getLoyaltyTiers(): Promise<LoyaltyTier[]> {
+    return await db.select().from(loyaltyTiers).orderBy(loyaltyTiers.minSpend, loyaltyTiers.minStays);
+  }
+
+  async getLoyaltyTier(id: number): Promise<LoyaltyTier | undefined> {
+    const [tier] = await db.select().from(loyaltyTiers).where(eq(loyaltyTiers.id, id));
+    return tier;
+  }
+
+  async createLoyaltyTier(tier: LoyaltyTierInput): Promise<LoyaltyTier> {
+    const [created] = await db
+      .insert(loyaltyTiers)
+      .values({ ...tier, minSpend: tier.minSpend.toFixed(2) })
+      .returning();
+    return created;
+  }
+
+  async updateLoyaltyTier(id: number, tier: LoyaltyTierInput): Promise<LoyaltyTier> {
+    const [updated] = await db
+      .update(loyaltyTiers)
+      .set({ ...tier, minSpend: tier.minSpend.toFixed(2), updatedAt: new Date() })
+      .where(eq(loyaltyTiers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteLoyaltyTier(id: number): Promise<void> {
+    await db.delete(loyaltyTiers).where(eq(loyaltyTiers.id, id));
+  }
+
   // Travel Agent operations
   async getAllTravelAgents(): Promise<TravelAgent[]> {
     return await db.select().from(travelAgents).orderBy(desc(travelAgents.createdAt));
@@ -546,36 +1229,33 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createBooking(booking: InsertBooking): Promise<Booking> {
-    console.log('🔍 [STORAGE DEBUG] createBooking called with:', {
-      roomId: booking.roomId,
-      numberOfGuests: booking.numberOfGuests,
-      bedsBooked: booking.bedsBooked,
-      hasBedsBooked: 'bedsBooked' in booking,
-      bedsBookedType: typeof booking.bedsBooked
-    });
-    
-    // Auto-assign room if not provided
-    if (!booking.roomId && booking.propertyId) {
-      const availableRooms = await this.getAvailableRooms(booking.propertyId);
-      if (availableRooms.length > 0) {
-        booking.roomId = availableRooms[0].id;
-      }
-    }
+    // Room/bed availability is enforced inside the reservation transaction.
+    // If no room is provided, the first room free for these dates is assigned.
     // NOTE: Room status is NOT changed here - availability is determined by checking booking dates
     // Room status is only changed for operational purposes (check-in, check-out, cleaning, maintenance)
-
-    // Update guest's total stays
-    await db
-      .update(guests)
-      .set({ totalStays: sql`${guests.totalStays} + 1` })
-      .where(eq(guests.id, booking.guestId));
-
-    console.log('🔍 [STORAGE DEBUG] About to insert booking with bedsBooked:', booking.bedsBooked);
-    const [newBooking] = await db.insert(bookings).values(booking).returning();
-    console.log('🔍 [STORAGE DEBUG] Created booking:', {
-      id: newBooking.id,
-      bedsBooked: newBooking.bedsBooked,
-      numberOfGuests: newBooking.numberOfGuests
+    const newBooking = await ReservationService.reserve(booking, async (tx, assignedRoomId) => {
+      const values = assignedRoomId ? { ...booking, roomId: assignedRoomId } : booking;
+
+      // Update guest's total stays
+      await tx
+        .update(guests)
+        .set({ totalStays: sql`${guests.totalStays} + 1` })
+        .where(eq(guests.id, booking.guestId));
+
+      const [created] = await tx.insert(bookings).values(values).returning();
+
+      // An advance taken while booking opens the booking's deposits ledger
+      const advance = parseFloat(created.advanceAmount || "0");
+      if (advance > 0) {
+        await tx.insert(deposits).values({
+          bookingId: created.id,
+          entryType: "received",
+          amount: advance.toFixed(2),
+          notes: "Advance at booking",
+          recordedBy: created.createdBy,
+        });
+      }
+      return created;
     });
     
     // Publish event for automatic propagation
@@ -588,17 +1268,137 @@ export class DatabaseStorage implements IStorage {
     return newBooking;
   }
 
-  async updateBooking(id: number, booking: Partial<InsertBooking>): Promise<Booking> {
-    const [updated] = await db
-      .update(bookings)
-      .set({ ...booking, updatedAt: new Date() })
-      .where(eq(bookings.id, id))
-      .returning();
-    return updated;
+  async updateBooking(id: number, changes: Partial<InsertBooking>): Promise<Booking> {
+    const existing = await this.getBooking(id);
+    if (!existing) {
+      throw new Error("Booking not found");
+    }
+
+    const { advanceAmount, ...booking } = changes;
+    // A room picked on its own replaces the booking's previous room set, so the
+    // reservation below checks (and the booking then holds) only the new room
+    if (booking.roomId !== undefined && booking.roomIds === undefined && existing.roomIds?.length) {
+      booking.roomIds = null;
+    }
+
+    const touchesInventory =
+      booking.roomId !== undefined ||
+      booking.roomIds !== undefined ||
+      booking.bedsBooked !== undefined ||
+      booking.checkInDate !== undefined ||
+      booking.checkOutDate !== undefined ||
+      (booking.status !== undefined && NON_BLOCKING_BOOKING_STATUSES.includes(existing.status));
+
+    const write = async (tx: DbTransaction, assignedRoomId: number | null = null) => {
+      // The advance is derived from the deposits ledger; an edited amount is recorded
+      // as an adjustment, committed together with the rest of the edit
+      if (advanceAmount !== undefined && advanceAmount !== null) {
+        await tx.select({ id: bookings.id }).from(bookings).where(eq(bookings.id, id)).for("update");
+        await backfillLegacyDeposit(tx, { bookingId: id });
+        const [{ total }] = await tx
+          .select({ total: sql<string>`COALESCE(SUM(${deposits.amount}), 0)` })
+          .from(deposits)
+          .where(eq(deposits.bookingId, id));
+        const difference = parseFloat(advanceAmount) - parseFloat(total);
+        if (Math.abs(difference) >= 0.01) {
+          await tx.insert(deposits).values({
+            bookingId: id,
+            entryType: difference > 0 ? "received" : "adjustment",
+            amount: difference.toFixed(2),
+            notes: "Advance edited on booking",
+          });
+          await syncDepositTotals(tx, { bookingId: id });
+        }
+      }
+
+      const [updated] = await tx
+        .update(bookings)
+        .set({ ...booking, ...(assignedRoomId ? { roomId: assignedRoomId } : {}), updatedAt: new Date() })
+        .where(eq(bookings.id, id))
+        .returning();
+      return updated;
+    };
+
+    const merged = { ...existing, ...booking };
+    if (!touchesInventory || NON_BLOCKING_BOOKING_STATUSES.includes(merged.status)) {
+      return await db.transaction((tx) => write(tx));
+    }
+
+    return await ReservationService.reserve(
+      {
+        propertyId: merged.propertyId,
+        roomId: merged.roomId,
+        roomIds: merged.roomIds,
+        bedsBooked: merged.bedsBooked,
+        checkInDate: new Date(merged.checkInDate),
+        checkOutDate: new Date(merged.checkOutDate),
+        excludeBookingId: id,
+      },
+      (tx, assignedRoomId) => write(tx, assignedRoomId),
+    );
   }
 
   async updateBookingStatus(id: number, status: string): Promise<Booking> {
+    return await this.changeBookingStatus(id, status);
+  }
+
+  async completeCheckout(bookingId: number, checkout: CheckoutSettlement): Promise<{ booking: Booking; bill: Bill }> {
+    let bill: Bill | undefined;
+    const booking = await this.changeBookingStatus(bookingId, "checked-out", async (tx, current) => {
+      // A retried or double-submitted checkout must not collect the payments twice
+      if (current.status === "checked-out") {
+        throw new CheckoutError(`Booking #${bookingId} is already checked out`);
+      }
+      bill = await settleCheckout(tx, current, checkout);
+    });
+    return { booking, bill: bill! };
+  }
+
+  /**
+   * Status change, plus whatever must commit or fail with it (run in the same
+   * transaction), followed by the matching room status updates
+   */
+  private async changeBookingStatus(
+    id: number,
+    status: string,
+    alongside?: (tx: DbTransaction, current: Booking) => Promise<void>,
+  ): Promise<Booking> {
     const booking = await this.getBooking(id);
+
+    const write = async (tx: DbTransaction) => {
+      // Locked first, so what runs alongside sees the status being changed from
+      const [current] = await tx.select().from(bookings).where(eq(bookings.id, id)).for("update");
+      if (!current) {
+        throw new Error("Booking not found");
+      }
+      if (alongside) await alongside(tx, current);
+      const [updated] = await tx
+        .update(bookings)
+        .set({ status, updatedAt: new Date() })
+        .where(eq(bookings.id, id))
+        .returning();
+      return updated;
+    };
+
+    // Reactivating a cancelled/checked-out booking must reclaim its inventory
+    const isReactivating =
+      booking &&
+      NON_BLOCKING_BOOKING_STATUSES.includes(booking.status) &&
+      !NON_BLOCKING_BOOKING_STATUSES.includes(status);
+
+    const updated = isReactivating
+      ? await ReservationService.reserve(
+          {
+            roomId: booking.roomId,
+            roomIds: booking.roomIds,
+            bedsBooked: booking.bedsBooked,
+            checkInDate: new Date(booking.checkInDate),
+            checkOutDate: new Date(booking.checkOutDate),
+            excludeBookingId: id,
+          },
+          (tx) => write(tx),
+        )
+      : await db.transaction((tx) => write(tx));
     
     // Update room status based on booking status - handle both single and group bookings
     if (booking) {
@@ -623,11 +1423,6 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
-    const [updated] = await db
-      .update(bookings)
-      .set({ status, updatedAt: new Date() })
-      .where(eq(bookings.id, id))
-      .returning();
     return updated;
   }
 
@@ -659,9 +1454,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateMenuItem(id: number, menuItem: Partial<InsertMenuItem>): Promise<MenuItem> {
+    const { stockedOut: _stockedOut, hasModifiers: _hasModifiers, ...changes } = menuItem as Partial<MenuItem>;
     const [updated] = await db
       .update(menuItems)
-      .set({ ...menuItem, updatedAt: new Date() })
+      // Setting availability by hand takes the item out of inventory control until it runs out again
+      .set({ ...changes, ...("isAvailable" in changes ? { stockedOut: false } : {}), updatedAt: new Date() })
       .where(eq(menuItems.id, id))
       .returning();
     return updated;
@@ -787,6 +1584,254 @@ export class DatabaseStorage implements IStorage {
     await db.delete(menuItemAddOns).where(eq(menuItemAddOns.menuItemId, menuItemId));
   }
 
+  // Menu Item Modifier operations
+  async getModifierGroupsByMenuItem(menuItemId: number, availableOnly = false): Promise<MenuItemModifierGroupWithOptions[]> {
+    const groups = await db
+      .select()
+      .from(menuItemModifierGroups)
+      .where(eq(menuItemModifierGroups.menuItemId, menuItemId))
+      .orderBy(menuItemModifierGroups.displayOrder, menuItemModifierGroups.id);
+    if (groups.length === 0) return [];
+    const options = await db
+      .select()
+      .from(menuItemModifiers)
+      .where(inArray(menuItemModifiers.groupId, groups.map(g => g.id)))
+      .orderBy(menuItemModifiers.displayOrder, menuItemModifiers.id);
+    return groups.map(group => ({
+      ...group,
+      modifiers: options.filter(o => o.groupId === group.id && (!availableOnly || o.isAvailable)),
+    }));
+  }
+
+  async getModifierGroup(id: number): Promise<MenuItemModifierGroup | undefined> {
+    const [group] = await db.select().from(menuItemModifierGroups).where(eq(menuItemModifierGroups.id, id));
+    return group;
+  }
+
+  async createModifierGroup(menuItemId: number, group: ModifierGroupInput): Promise<MenuItemModifierGroupWithOptions> {
+    return await db.transaction(async (tx) => {
+      const { modifiers, ...fields } = group;
+      const [created] = await tx.insert(menuItemModifierGroups).values({ ...fields, menuItemId }).returning();
+      await tx.update(menuItems).set({ hasModifiers: true, updatedAt: new Date() }).where(eq(menuItems.id, menuItemId));
+      const options = await tx
+        .insert(menuItemModifiers)
+        .values(modifiers.map((m, index) => ({
+          groupId: created.id,
+          name: m.name,
+          price: m.price.toFixed(2),
+          isAvailable: m.isAvailable,
+          displayOrder: index,
+        })))
+        .returning();
+      return { ...created, modifiers: options };
+    });
+  }
+
+  async updateModifierGroup(id: number, group: ModifierGroupInput): Promise<MenuItemModifierGroupWithOptions> {
+    return await db.transaction(async (tx) => {
+      const { modifiers, ...fields } = group;
+      const [updated] = await tx
+        .update(menuItemModifierGroups)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(eq(menuItemModifierGroups.id, id))
+        .returning();
+      if (!updated) {
+        throw new Error("Modifier group not found");
+      }
+
+      // Options keep their ids so carts already holding them still price
+      const keptIds = modifiers.map(m => m.id).filter((optionId): optionId is number => optionId !== undefined);
+      await tx
+        .delete(menuItemModifiers)
+        .where(and(
+          eq(menuItemModifiers.groupId, id),
+          keptIds.length > 0 ? not(inArray(menuItemModifiers.id, keptIds)) : undefined,
+        ));
+      for (let index = 0; index < modifiers.length; index++) {
+        const m = modifiers[index];
+        const values = { name: m.name, price: m.price.toFixed(2), isAvailable: m.isAvailable, displayOrder: index };
+        if (m.id !== undefined) {
+          await tx
+            .update(menuItemModifiers)
+            .set({ ...values, updatedAt: new Date() })
+            .where(and(eq(menuItemModifiers.id, m.id), eq(menuItemModifiers.groupId, id)));
+        } else {
+          await tx.insert(menuItemModifiers).values({ ...values, groupId: id });
+        }
+      }
+
+      const options = await tx
+        .select()
+        .from(menuItemModifiers)
+        .where(eq(menuItemModifiers.groupId, id))
+        .orderBy(menuItemModifiers.displayOrder, menuItemModifiers.id);
+      return { ...updated, modifiers: options };
+    });
+  }
+
+  async deleteModifierGroup(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(menuItemModifierGroups)
+        .where(eq(menuItemModifierGroups.id, id))
+        .returning({ menuItemId: menuItemModifierGroups.menuItemId });
+      if (!deleted) return;
+      const [remaining] = await tx
+        .select({ id: menuItemModifierGroups.id })
+        .from(menuItemModifierGroups)
+        .where(eq(menuItemModifierGroups.menuItemId, deleted.menuItemId))
+        .limit(1);
+      if (!remaining) {
+        await tx.update(menuItems).set({ hasModifiers: false, updatedAt: new Date() }).where(eq(menuItems.id, deleted.menuItemId));
+      }
+    });
+  }
+
+  // Menu price rule operations
+  async getMenuPriceRules(): Promise<MenuPriceRule[]> {
+    return await db.select().from(menuPriceRules).orderBy(menuPriceRules.propertyId, menuPriceRules.startTime, menuPriceRules.name);
+  }
+
+  async getMenuPriceRule(id: number): Promise<MenuPriceRule | undefined> {
+    const [rule] = await db.select().from(menuPriceRules).where(eq(menuPriceRules.id, id));
+    return rule;
+  }
+
+  async createMenuPriceRule(rule: MenuPriceRuleInput): Promise<MenuPriceRule> {
+    const [created] = await db
+      .insert(menuPriceRules)
+      .values({ ...rule, value: rule.value.toFixed(2) })
+      .returning();
+    return created;
+  }
+
+  async updateMenuPriceRule(id: number, rule: MenuPriceRuleInput): Promise<MenuPriceRule> {
+    const [updated] = await db
+      .update(menuPriceRules)
+      .set({ ...rule, value: rule.value.toFixed(2), updatedAt: new Date() })
+      .where(eq(menuPriceRules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteMenuPriceRule(id: number): Promise<void> {
+    await db.delete(menuPriceRules).where(eq(menuPriceRules.id, id));
+  }
+
+  // Dining table operations
+  async getDiningTables(propertyId?: number): Promise<DiningTable[]> {
+    return await db
+      .select()
+      .from(diningTables)
+      .where(propertyId !== undefined ? eq(diningTables.propertyId, propertyId) : undefined)
+      .orderBy(diningTables.propertyId, diningTables.tableNumber);
+  }
+
+  async getDiningTable(id: number): Promise<DiningTable | undefined> {
+    const [table] = await db.select().from(diningTables).where(eq(diningTables.id, id));
+    return table;
+  }
+
+  async getDiningTableByNumber(propertyId: number, tableNumber: string): Promise<DiningTable | undefined> {
+    const [table] = await db
+      .select()
+      .from(diningTables)
+      .where(and(eq(diningTables.propertyId, propertyId), eq(diningTables.tableNumber, tableNumber)));
+    return table;
+  }
+
+  async createDiningTable(table: InsertDiningTable): Promise<DiningTable> {
+    const [created] = await db.insert(diningTables).values(table).returning();
+    return created;
+  }
+
+  async updateDiningTable(id: number, table: Partial<InsertDiningTable>): Promise<DiningTable> {
+    const [updated] = await db
+      .update(diningTables)
+      .set({ ...table, updatedAt: new Date() })
+      .where(eq(diningTables.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteDiningTable(id: number): Promise<void> {
+    // Tabs keep the table's order history; deactivate the table instead
+    const [tab] = await db.select({ id: tableTabs.id }).from(tableTabs).where(eq(tableTabs.tableId, id)).limit(1);
+    if (tab) {
+      throw new Error("Cannot delete table with existing tabs. Mark it inactive instead.");
+    }
+    await db.delete(diningTables).where(eq(diningTables.id, id));
+  }
+
+  // Kitchen printer operations
+  async getKitchenPrinters(propertyId?: number): Promise<KitchenPrinter[]> {
+    return await db
+      .select()
+      .from(kitchenPrinters)
+      .where(propertyId !== undefined ? eq(kitchenPrinters.propertyId, propertyId) : undefined)
+      .orderBy(kitchenPrinters.propertyId, kitchenPrinters.station);
+  }
+
+  async getKitchenPrinter(id: number): Promise<KitchenPrinter | undefined> {
+    const [printer] = await db.select().from(kitchenPrinters).where(eq(kitchenPrinters.id, id));
+    return printer;
+  }
+
+  async createKitchenPrinter(printer: InsertKitchenPrinter): Promise<KitchenPrinter> {
+    const [created] = await db.insert(kitchenPrinters).values(printer).returning();
+    return created;
+  }
+
+  async updateKitchenPrinter(id: number, printer: Partial<InsertKitchenPrinter>): Promise<KitchenPrinter> {
+    const [updated] = await db
+      .update(kitchenPrinters)
+      .set({ ...printer, updatedAt: new Date() })
+      .where(eq(kitchenPrinters.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteKitchenPrinter(id: number): Promise<void> {
+    await db.delete(kitchenPrinters).where(eq(kitchenPrinters.id, id));
+  }
+
+  // Stock item operations
+  async getStockItems(propertyId?: number): Promise<StockItem[]> {
+    return await db
+      .select()
+      .from(stockItems)
+      .where(propertyId !== undefined ? eq(stockItems.propertyId, propertyId) : undefined)
+      .orderBy(stockItems.propertyId, stockItems.name);
+  }
+
+  async getStockItem(id: number): Promise<StockItem | undefined> {
+    const [item] = await db.select().from(stockItems).where(eq(stockItems.id, id));
+    return item;
+  }
+
+  async createStockItem(item: InsertStockItem): Promise<StockItem> {
+    const [created] = await db.insert(stockItems).values(item).returning();
+    return created;
+  }
+
+  async updateStockItem(id: number, item: Partial<InsertStockItem>): Promise<StockItem> {
+    const [updated] = await db
+      .update(stockItems)
+      .set({ ...item, updatedAt: new Date() })
+      .where(eq(stockItems.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteStockItem(id: number): Promise<void> {
+    // The movement ledger is the stock history; deactivate the item instead
+    const [movement] = await db.select({ id: stockMovements.id }).from(stockMovements).where(eq(stockMovements.stockItemId, id)).limit(1);
+    if (movement) {
+      throw new Error("Cannot delete a stock item with stock movements. Mark it inactive instead.");
+    }
+    await db.delete(stockItems).where(eq(stockItems.id, id));
+  }
+
   // Order operations
   async getAllOrders(): Promise<any[]> {
     const ordersWithRoomStatus = await db
@@ -794,6 +1839,7 @@ export class DatabaseStorage implements IStorage {
         order: orders,
         roomStatus: rooms.status,
         roomNumber: rooms.roomNumber,
+        tableNumber: diningTables.tableNumber,
         // Check if there's an active checked-in booking for this room
         hasCheckedInBooking: sql<boolean>`EXISTS (
           SELECT 1 FROM ${bookings} 
@@ -803,12 +1849,14 @@ export class DatabaseStorage implements IStorage {
       })
       .from(orders)
       .leftJoin(rooms, eq(orders.roomId, rooms.id))
+      .leftJoin(diningTables, eq(orders.tableId, diningTables.id))
       .orderBy(desc(orders.createdAt));
     
     return ordersWithRoomStatus.map(row => ({
       ...row.order,
       roomStatus: row.roomStatus,
       roomNumber: row.roomNumber,
+      tableNumber: row.tableNumber,
       hasCheckedInBooking: row.hasCheckedInBooking,
     }));
   }
@@ -819,6 +1867,7 @@ export class DatabaseStorage implements IStorage {
         order: orders,
         roomStatus: rooms.status,
         roomNumber: rooms.roomNumber,
+        tableNumber: diningTables.tableNumber,
         // Check if there's an active checked-in booking for this room
         hasCheckedInBooking: sql<boolean>`EXISTS (
           SELECT 1 FROM ${bookings} 
@@ -828,6 +1877,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(orders)
       .leftJoin(rooms, eq(orders.roomId, rooms.id))
+      .leftJoin(diningTables, eq(orders.tableId, diningTables.id))
       .where(eq(orders.propertyId, propertyId))
       .orderBy(desc(orders.createdAt));
     
@@ -835,6 +1885,7 @@ export class DatabaseStorage implements IStorage {
       ...row.order,
       roomStatus: row.roomStatus,
       roomNumber: row.roomNumber,
+      tableNumber: row.tableNumber,
       hasCheckedInBooking: row.hasCheckedInBooking,
     }));
   }
@@ -852,33 +1903,257 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(orders.createdAt));
   }
 
-  async createOrder(order: InsertOrder): Promise<Order> {
-    const [newOrder] = await db.insert(orders).values(order).returning();
-    return newOrder;
+  async getOrderByTrackingToken(token: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.trackingToken, token));
+    return order;
+  }
+
+  // attach links the order to rows (e.g. a table tab) locked in the same transaction
+  async createOrder(order: InsertOrder, attach?: (tx: DbTransaction) => Promise<Partial<typeof orders.$inferInsert>>): Promise<Order> {
+    return await db.transaction(async (tx) => {
+      const links = attach ? await attach(tx) : {};
+      const [newOrder] = await tx
+        .insert(orders)
+        .values({ ...order, ...links, trackingToken: randomBytes(24).toString("hex") })
+        .returning();
+      await replaceOrderItems(tx, newOrder);
+      return newOrder;
+    });
   }
 
+  // Editing the items JSON rewrites the order's line items
   async updateOrder(id: number, order: Partial<InsertOrder>): Promise<Order> {
-    const [updated] = await db
-      .update(orders)
-      .set({ ...order, updatedAt: new Date() })
-      .where(eq(orders.id, id))
-      .returning();
-    return updated;
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(orders)
+        .set({ ...order, updatedAt: new Date() })
+        .where(eq(orders.id, id))
+        .returning();
+      if (updated && "items" in order) {
+        await replaceOrderItems(tx, updated);
+      }
+      return updated;
+    });
   }
 
-  async updateOrderStatus(id: number, status: string): Promise<Order> {
-    const [updated] = await db
-      .update(orders)
-      .set({ status, updatedAt: new Date() })
-      .where(eq(orders.id, id))
-      .returning();
-    return updated;
+  // Lines follow the order status; individually cancelled lines stay cancelled
+  async updateOrderStatus(
+    id: number,
+    status: OrderStatus,
+    options: { reason?: string | null; changedBy?: string | null } = {}
+  ): Promise<Order> {
+    const result = await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!order) {
+        throw new OrderStatusError("Order not found");
+      }
+      assertOrderTransition(order.status, status);
+
+      const now = new Date();
+      const changes: Partial<typeof orders.$inferInsert> = { status, updatedAt: now };
+      if (status === "preparing") {
+        // The kitchen's target is the slowest item, as lines are cooked in parallel
+        const [target] = await tx
+          .select({ minutes: sql<number | null>`max(${menuItems.preparationTime})` })
+          .from(orderItems)
+          .innerJoin(menuItems, eq(orderItems.menuItemId, menuItems.id))
+          .where(and(eq(orderItems.orderId, id), sql`${orderItems.status} <> 'cancelled'`));
+        changes.preparingAt = now;
+        changes.targetPrepMinutes = target?.minutes ?? null;
+      } else if (status === "ready") {
+        changes.readyAt = now;
+      } else if (status === "delivered") {
+        changes.deliveredAt = now;
+      } else {
+        changes.cancelledAt = now;
+        changes.statusReason = options.reason ?? null;
+      }
+
+      const [updated] = await tx
+        .update(orders)
+        .set(changes)
+        .where(eq(orders.id, id))
+        .returning();
+      await tx
+        .update(orderItems)
+        .set({ status, updatedAt: now })
+        .where(and(eq(orderItems.orderId, id), sql`${orderItems.status} <> 'cancelled'`));
+      await tx.insert(orderStatusHistory).values({
+        orderId: id,
+        fromStatus: order.status,
+        toStatus: status,
+        reason: options.reason ?? null,
+        changedBy: options.changedBy ?? null,
+        changedAt: now,
+      });
+      return updated;
+    });
+
+    // Staff screens and the guest's tracking page follow status changes live
+    eventBus.publish({
+      type: EventTypes.ORDER_UPDATED,
+      data: result,
+      propertyId: result.propertyId ?? undefined,
+    });
+
+    return result;
+  }
+
+  async getOrderStatusHistory(orderId: number): Promise<OrderStatusChange[]> {
+    return await db
+      .select()
+      .from(orderStatusHistory)
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(orderStatusHistory.changedAt, orderStatusHistory.id);
+  }
+
+  /**
+   * Kitchen times for orders that started preparation in the period: placed to
+   * preparing, preparing to ready, and whether that beat the target prep time
+   */
+  async getKitchenPerformance(filters: Pick<ItemSalesFilters, "from" | "to" | "propertyIds">): Promise<KitchenPerformanceReport> {
+    const conditions = [
+      gte(orders.preparingAt, new Date(`${filters.from}T00:00:00`)),
+      lt(orders.preparingAt, addDays(new Date(`${filters.to}T00:00:00`), 1)),
+      isNotNull(orders.readyAt),
+    ];
+    if (filters.propertyIds) {
+      conditions.push(filters.propertyIds.length > 0 ? inArray(orders.propertyId, filters.propertyIds) : sql`false`);
+    }
+    const timed = await db.select().from(orders).where(and(...conditions));
+    const lines = timed.length > 0
+      ? await db
+          .select({
+            orderId: orderItems.orderId,
+            menuItemId: orderItems.menuItemId,
+            itemName: sql<string>`coalesce(${menuItems.name}, ${orderItems.itemName})`,
+            preparationTime: menuItems.preparationTime,
+          })
+          .from(orderItems)
+          .leftJoin(menuItems, eq(orderItems.menuItemId, menuItems.id))
+          .where(and(inArray(orderItems.orderId, timed.map(o => o.id)), sql`${orderItems.status} <> 'cancelled'`))
+      : [];
+
+    const minutesBetween = (start: Date, end: Date) => (end.getTime() - start.getTime()) / 60000;
+    const average = (values: number[]) =>
+      values.length > 0 ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10 : 0;
+
+    const prepMinutes = new Map(timed.map(o => [o.id, minutesBetween(o.preparingAt!, o.readyAt!)]));
+    const isLate = (o: Order) => o.targetPrepMinutes !== null && prepMinutes.get(o.id)! > o.targetPrepMinutes;
+    const withTarget = timed.filter(o => o.targetPrepMinutes !== null);
+    const late = timed.filter(isLate);
+
+    const items = new Map<string, { row: KitchenItemPerformance; prep: number[] }>();
+    const counted = new Set<string>();
+    for (const line of lines) {
+      const key = line.menuItemId !== null ? `id:${line.menuItemId}` : `name:${line.itemName}`;
+      // Count each order once per item, even when the item is on several lines
+      if (counted.has(`${key}|${line.orderId}`)) continue;
+      counted.add(`${key}|${line.orderId}`);
+
+      const entry = items.get(key) ?? {
+        row: {
+          menuItemId: line.menuItemId,
+          itemName: line.itemName,
+          targetPrepMinutes: line.preparationTime,
+          orders: 0,
+          avgPrepMinutes: 0,
+          lateOrders: 0,
+        },
+        prep: [],
+      };
+      const minutes = prepMinutes.get(line.orderId)!;
+      entry.prep.push(minutes);
+      entry.row.orders++;
+      if (line.preparationTime !== null && minutes > line.preparationTime) entry.row.lateOrders++;
+      items.set(key, entry);
+    }
+
+    const byShift: KitchenShiftPerformance[] = KITCHEN_SHIFTS.map(shift => {
+      const inShift = timed.filter(o => kitchenShiftFor(o.preparingAt!) === shift.name);
+      return {
+        shift: shift.name,
+        orders: inShift.length,
+        avgPrepMinutes: average(inShift.map(o => prepMinutes.get(o.id)!)),
+        lateOrders: inShift.filter(isLate).length,
+      };
+    });
+
+    return {
+      summary: {
+        orders: timed.length,
+        avgAcceptMinutes: average(timed.map(o => minutesBetween(o.createdAt!, o.preparingAt!))),
+        avgPrepMinutes: average(Array.from(prepMinutes.values())),
+        lateOrders: late.length,
+        onTimeRate: withTarget.length > 0 ? Math.round(((withTarget.length - late.length) / withTarget.length) * 1000) / 10 : 100,
+      },
+      byItem: Array.from(items.values())
+        .map(({ row, prep }) => ({ ...row, avgPrepMinutes: average(prep) }))
+        .sort((a, b) => b.lateOrders - a.lateOrders || b.avgPrepMinutes - a.avgPrepMinutes),
+      byShift,
+    };
   }
 
   async deleteOrder(id: number): Promise<void> {
     await db.delete(orders).where(eq(orders.id, id));
   }
 
+  async getOrderItems(orderId: number): Promise<OrderItem[]> {
+    return await db
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId))
+      .orderBy(orderItems.id);
+  }
+
+  async getItemSales(filters: ItemSalesFilters): Promise<ItemSalesRow[]> {
+    const rows = await db
+      .select({
+        menuItemId: orderItems.menuItemId,
+        variantId: orderItems.variantId,
+        // Current menu names where the item still exists, else the name at order time
+        itemName: sql<string>`coalesce(${menuItems.name}, max(${orderItems.itemName}))`,
+        variantName: sql<string | null>`coalesce(${menuItemVariants.variantName}, max(${orderItems.variantName}))`,
+        quantity: sql<number>`sum(${orderItems.quantity})::int`,
+        revenue: sql<string>`sum(${orderItems.lineTotal})`,
+        orderCount: sql<number>`count(distinct ${orderItems.orderId})::int`,
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .leftJoin(menuItems, eq(orderItems.menuItemId, menuItems.id))
+      .leftJoin(menuItemVariants, eq(orderItems.variantId, menuItemVariants.id))
+      .where(itemSalesConditions(filters))
+      .groupBy(
+        orderItems.menuItemId,
+        orderItems.variantId,
+        menuItems.name,
+        menuItemVariants.variantName,
+        // Lines without a menu item are grouped by name
+        sql`case when ${orderItems.menuItemId} is null then ${orderItems.itemName} end`,
+      )
+      .orderBy(sql`sum(${orderItems.lineTotal}) desc`);
+
+    return rows.map(row => ({ ...row, revenue: parseFloat(row.revenue) }));
+  }
+
+  async getDailyItemSales(filters: ItemSalesFilters): Promise<DailyItemSales[]> {
+    const day = sql<string>`to_char(${orders.createdAt}, 'YYYY-MM-DD')`;
+    const rows = await db
+      .select({
+        date: day,
+        quantity: sql<number>`sum(${orderItems.quantity})::int`,
+        revenue: sql<string>`sum(${orderItems.lineTotal})`,
+        orderCount: sql<number>`count(distinct ${orderItems.orderId})::int`,
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(itemSalesConditions(filters))
+      .groupBy(day)
+      .orderBy(day);
+
+    return rows.map(row => ({ ...row, revenue: parseFloat(row.revenue) }));
+  }
+
   // Extra Service operations
   async getAllExtraServices(): Promise<ExtraService[]> {
     return await db.select().from(extraServices).orderBy(desc(extraServices.createdAt));
@@ -982,13 +2257,12 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Primary booking not found");
     }
 
-    // Calculate total room charges from all bookings
-    let totalRoomCharges = 0;
-    for (const booking of allBookings) {
-      if (booking) {
-        totalRoomCharges += parseFloat(booking.totalAmount || "0");
-      }
-    }
+    // Price the room nights of every merged booking (taxed by nightly tariff slab)
+    const quotes = await Promise.all(
+      allBookings.map(booking => RateService.quoteBooking(booking!))
+    );
+    const roomNights = quotes.flatMap(q => q.nightlyRates);
+    const totalRoomCharges = quotes.reduce((sum, q) => sum + q.roomCharges, 0);
 
     // Get all orders for these bookings
     const allOrders = await Promise.all(
@@ -1012,13 +2286,15 @@ export class DatabaseStorage implements IStorage {
       return sum + parseFloat(service.amount);
     }, 0);
 
-    // Calculate bill totals
+    // Calculate bill totals using the primary booking's property tax rules
     const subtotal = totalRoomCharges + totalFoodCharges + totalExtraCharges;
-    const gstRate = 18;
-    const serviceChargeRate = 10;
-    const gstAmount = (subtotal * gstRate) / 100;
-    const serviceChargeAmount = (subtotal * serviceChargeRate) / 100;
-    const totalAmount = subtotal + gstAmount + serviceChargeAmount;
+    const rules = await TaxService.getRules(primaryBooking.propertyId);
+    const taxes = calculateTaxes(
+      rules,
+      { roomNights, foodCharges: totalFoodCharges, extraCharges: totalExtraCharges },
+      { includeGst: true, includeServiceCharge: true },
+    );
+    const totalAmount = subtotal + taxes.gstAmount + taxes.serviceChargeAmount;
 
     // Create merged bill
     const mergedBill = await this.createBill({
@@ -1028,16 +2304,362 @@ export class DatabaseStorage implements IStorage {
       foodCharges: totalFoodCharges.toFixed(2),
       extraCharges: totalExtraCharges.toFixed(2),
       subtotal: subtotal.toFixed(2),
-      gstRate: gstRate.toFixed(2),
-      gstAmount: gstAmount.toFixed(2),
-      serviceChargeRate: serviceChargeRate.toFixed(2),
-      serviceChargeAmount: serviceChargeAmount.toFixed(2),
+      gstRate: taxes.gstRate.toFixed(2),
+      gstAmount: taxes.gstAmount.toFixed(2),
+      serviceChargeRate: taxes.serviceChargeRate.toFixed(2),
+      serviceChargeAmount: taxes.serviceChargeAmount.toFixed(2),
       totalAmount: totalAmount.toFixed(2),
       paymentStatus: "unpaid",
       mergedBookingIds: bookingIds,
     });
+    await this.replaceBillTaxLines(mergedBill.id, taxes.lines.map(line => ({
+      category: line.category,
+      component: line.component,
+      rate: line.rate.toString(),
+      taxableAmount: line.taxableAmount.toFixed(2),
+      taxAmount: line.taxAmount.toFixed(2),
+    })));
+
+    const mergedRoomIds = Array.from(new Set(roomNights.map(n => n.roomId)));
+    const mergedRooms = mergedRoomIds.length > 0
+      ? await db.select().from(rooms).where(inArray(rooms.id, mergedRoomIds))
+      : [];
+    await this.replaceBillLineItems(mergedBill.id, buildCheckoutLineItems({
+      nightlyRates: roomNights,
+      roomNumbers: new Map(mergedRooms.map(r => [r.id, r.roomNumber])),
+      orders: flatOrders,
+      extraServices: flatServices,
+      taxes,
+      discountAmount: 0,
+    }));
+
+    // Advances held on every merged booking count towards the consolidated bill
+    const advancePaid = await this.applyDepositsToBill(bookingIds, mergedBill.id);
+    await this.updateBill(mergedBill.id, { advancePaid: advancePaid.toFixed(2) });
+
+    await this.assignInvoiceNumber(mergedBill.id);
+    return await this.recalculateBillBalance(mergedBill.id);
+  }
+
+  async getBillTaxLines(billId: number): Promise<BillTaxLine[]> {
+    return await db
+      .select()
+      .from(billTaxLines)
+      .where(eq(billTaxLines.billId, billId))
+      .orderBy(billTaxLines.id);
+  }
+
+  async replaceBillTaxLines(billId: number, lines: Omit<InsertBillTaxLine, "billId">[]): Promise<BillTaxLine[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(billTaxLines).where(eq(billTaxLines.billId, billId));
+      if (lines.length === 0) return [];
+      return await tx
+        .insert(billTaxLines)
+        .values(lines.map(line => ({ ...line, billId })))
+        .returning();
+    });
+  }
+
+  async getBillLineItems(billId: number): Promise<BillLineItem[]> {
+    return await db
+      .select()
+      .from(billLineItems)
+      .where(eq(billLineItems.billId, billId))
+      .orderBy(billLineItems.id);
+  }
+
+  async replaceBillLineItems(billId: number, items: Omit<InsertBillLineItem, "billId">[]): Promise<BillLineItem[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(billLineItems).where(eq(billLineItems.billId, billId));
+      if (items.length === 0) return [];
+      return await tx
+        .insert(billLineItems)
+        .values(items.map(item => ({ ...item, billId })))
+        .returning();
+    });
+  }
+
+  async addBillAdjustment(
+    billId: number,
+    item: Omit<InsertBillLineItem, "billId">,
+  ): Promise<{ bill: Bill; lineItem: BillLineItem }> {
+    return await db.transaction(async (tx) => {
+      const [bill] = await tx.select().from(bills).where(eq(bills.id, billId)).for("update");
+      if (!bill) {
+        throw new Error("Bill not found");
+      }
+
+      await backfillLegacyPayment(tx, bill);
+      const [lineItem] = await tx.insert(billLineItems).values({ ...item, billId }).returning();
+
+      // Adjustments are signed (credit < 0, debit > 0); the balance follows from the payments ledger
+      const totalAmount = parseFloat(bill.totalAmount) + parseFloat(item.amount);
+      const updated = await syncBillBalance(tx, { ...bill, totalAmount: totalAmount.toFixed(2) });
+
+      return { bill: updated, lineItem };
+    });
+  }
+
+  async assignInvoiceNumber(billId: number): Promise<Bill> {
+    return await db.transaction((tx) => issueInvoiceNumber(tx, billId));
+  }
+
+  async getBillByInvoiceToken(token: string): Promise<Bill | undefined> {
+    const [bill] = await db.select().from(bills).where(eq(bills.invoiceAccessToken, token));
+    return bill;
+  }
+
+  // Bill payments ledger
+  async getBillPayments(billId: number): Promise<BillPayment[]> {
+    return await db
+      .select()
+      .from(billPayments)
+      .where(eq(billPayments.billId, billId))
+      .orderBy(billPayments.receivedAt, billPayments.id);
+  }
+
+  async recordBillPayment(
+    billId: number,
+    entry: Omit<InsertBillPayment, "billId">,
+    options: { withinBalance?: boolean } = {},
+  ): Promise<{ bill: Bill; payment: BillPayment }> {
+    return await db.transaction(async (tx) => {
+      const [bill] = await tx.select().from(bills).where(eq(bills.id, billId)).for("update");
+      if (!bill) {
+        throw new Error("Bill not found");
+      }
+      await backfillLegacyPayment(tx, bill);
+
+      // Desk payments and refunds may not overshoot the balance (checkout may collect more)
+      if (options.withinBalance) {
+        const payments = await tx.select().from(billPayments).where(eq(billPayments.billId, billId));
+        assertWithinBalance(
+          summarizeBillPayments(bill, payments),
+          entry.entryType === "refund" ? "refund" : "payment",
+          parseFloat(entry.amount),
+        );
+      }
+
+      const [payment] = await tx.insert(billPayments).values({ ...entry, billId }).returning();
+      const updated = await syncBillBalance(tx, bill);
+      return { bill: updated, payment };
+    });
+  }
+
+  async recalculateBillBalance(billId: number): Promise<Bill> {
+    return await db.transaction(async (tx) => {
+      const [bill] = await tx.select().from(bills).where(eq(bills.id, billId)).for("update");
+      if (!bill) {
+        throw new Error("Bill not found");
+      }
+      await backfillLegacyPayment(tx, bill);
+      return await syncBillBalance(tx, bill);
+    });
+  }
+
+  // Deposit (advance) ledger
+  async getDeposits(owner: DepositOwner): Promise<Deposit[]> {
+    await db.transaction(async (tx) => {
+      await backfillLegacyDeposit(tx, owner);
+    });
+    return await db
+      .select()
+      .from(deposits)
+      .where(depositOwnerFilter(owner))
+      .orderBy(deposits.receivedAt, deposits.id);
+  }
+
+  async getDepositBalance(owner: DepositOwner): Promise<number> {
+    const ledger = await this.getDeposits(owner);
+    return Math.round(ledger.reduce((sum, d) => sum + parseFloat(d.amount), 0) * 100) / 100;
+  }
+
+  async recordDeposit(entry: InsertDeposit, options: { withinHeld?: boolean } = {}): Promise<Deposit> {
+    const owner: DepositOwner = entry.bookingId
+      ? { bookingId: entry.bookingId }
+      : { enquiryId: entry.enquiryId! };
+    return await db.transaction(async (tx) => {
+      // Entries for one owner queue on its row, so each refund sees the ones before it
+      if (owner.bookingId !== undefined) {
+        await tx.select({ id: bookings.id }).from(bookings).where(eq(bookings.id, owner.bookingId)).for("update");
+      } else {
+        await tx.select({ id: enquiries.id }).from(enquiries).where(eq(enquiries.id, owner.enquiryId)).for("update");
+      }
+      await backfillLegacyDeposit(tx, owner);
+
+      // Refunds at the desk may not take out more than is held
+      if (options.withinHeld) {
+        const [{ total }] = await tx
+          .select({ total: sql<string>`COALESCE(SUM(${deposits.amount}), 0)` })
+          .from(deposits)
+          .where(depositOwnerFilter(owner));
+        assertWithinHeld(parseFloat(total), -parseFloat(entry.amount), "Refund");
+      }
+
+      const [deposit] = await tx.insert(deposits).values(entry).returning();
+      await syncDepositTotals(tx, owner);
+      return deposit;
+    });
+  }
+
+  async transferDeposit(
+    fromBookingId: number,
+    toBookingId: number,
+    amount: number,
+    details: { notes?: string | null; recordedBy?: string | null },
+  ): Promise<Deposit[]> {
+    return await db.transaction(async (tx) => {
+      // Lock both bookings in id order so concurrent transfers can't deadlock
+      await tx
+        .select({ id: bookings.id })
+        .from(bookings)
+        .where(inArray(bookings.id, [fromBookingId, toBookingId]))
+        .orderBy(bookings.id)
+        .for("update");
+      await backfillLegacyDeposit(tx, { bookingId: fromBookingId });
+      await backfillLegacyDeposit(tx, { bookingId: toBookingId });
+
+      const [{ total }] = await tx
+        .select({ total: sql<string>`COALESCE(SUM(${deposits.amount}), 0)` })
+        .from(deposits)
+        .where(eq(deposits.bookingId, fromBookingId));
+      assertWithinHeld(parseFloat(total), amount, "Transfer");
+
+      const entries = await tx
+        .insert(deposits)
+        .values([
+          { bookingId: fromBookingId, entryType: "transfer_out", amount: (-amount).toFixed(2), relatedBookingId: toBookingId, ...details },
+          { bookingId: toBookingId, entryType: "transfer_in", amount: amount.toFixed(2), relatedBookingId: fromBookingId, ...details },
+        ])
+        .returning();
+      await syncDepositTotals(tx, { bookingId: fromBookingId });
+      await syncDepositTotals(tx, { bookingId: toBookingId });
+      return entries;
+    });
+  }
+
+  async attachEnquiryDeposits(enquiryId: number, bookingId: number): Promise<Deposit[]> {
+    return await db.transaction(async (tx) => {
+      await backfillLegacyDeposit(tx, { enquiryId });
+      const moved = await tx
+        .update(deposits)
+        .set({ bookingId })
+        .where(and(eq(deposits.enquiryId, enquiryId), sql`${deposits.bookingId} IS NULL`))
+        .returning();
+      await syncDepositTotals(tx, { bookingId });
+      return moved;
+    });
+  }
+
+  async applyDepositsToBill(bookingIds: number[], billId: number): Promise<number> {
+    if (bookingIds.length === 0) return 0;
+    return await db.transaction(async (tx) => {
+      for (const bookingId of bookingIds) {
+        await backfillLegacyDeposit(tx, { bookingId });
+      }
+      const applied = await tx
+        .update(deposits)
+        .set({ billId })
+        .where(inArray(deposits.bookingId, bookingIds))
+        .returning();
+      return Math.round(applied.reduce((sum, d) => sum + parseFloat(d.amount), 0) * 100) / 100;
+    });
+  }
+
+  async cancelBooking(
+    booking: Booking,
+    status: CancellationKind,
+    quote: CancellationQuote,
+    options: { refundMethod?: string | null; recordedBy?: string | null },
+  ): Promise<{ booking: Booking; bill: Bill | null; refund: Deposit | null }> {
+    let settlement: { bill: Bill | null; refund: Deposit | null } = { bill: null, refund: null };
+    const cancelled = await this.changeBookingStatus(booking.id, status, async (tx) => {
+      settlement = await settleCancellation(tx, booking, quote, options);
+    });
+    return { booking: cancelled, ...settlement };
+  }
+
+  // Tax profile operations
+  async getTaxProfileByProperty(propertyId: number): Promise<TaxProfile | undefined> {
+    const [profile] = await db.select().from(taxProfiles).where(eq(taxProfiles.propertyId, propertyId));
+    return profile;
+  }
 
-    return mergedBill;
+  async getTaxSlabs(taxProfileId: number): Promise<TaxSlab[]> {
+    return await db
+      .select()
+      .from(taxSlabs)
+      .where(eq(taxSlabs.taxProfileId, taxProfileId))
+      .orderBy(taxSlabs.minTariff);
+  }
+
+  async saveTaxProfile(
+    profile: InsertTaxProfile,
+    slabs: Omit<InsertTaxSlab, "taxProfileId">[],
+  ): Promise<{ profile: TaxProfile; slabs: TaxSlab[] }> {
+    return await db.transaction(async (tx) => {
+      const [saved] = await tx
+        .insert(taxProfiles)
+        .values(profile)
+        .onConflictDoUpdate({
+          target: taxProfiles.propertyId,
+          set: { ...profile, updatedAt: new Date() },
+        })
+        .returning();
+
+      // Slabs are replaced as a set so ranges never overlap with stale rows
+      await tx.delete(taxSlabs).where(eq(taxSlabs.taxProfileId, saved.id));
+      const savedSlabs = slabs.length > 0
+        ? await tx.insert(taxSlabs).values(slabs.map(slab => ({ ...slab, taxProfileId: saved.id }))).returning()
+        : [];
+
+      return { profile: saved, slabs: savedSlabs };
+    });
+  }
+
+  // Night audit operations
+  async getDailyStats(propertyId: number, fromDate: string, toDate: string): Promise<DailyStat[]> {
+    return await db
+      .select()
+      .from(dailyStats)
+      .where(and(
+        eq(dailyStats.propertyId, propertyId),
+        gte(dailyStats.businessDate, fromDate),
+        lte(dailyStats.businessDate, toDate),
+      ))
+      .orderBy(desc(dailyStats.businessDate));
+  }
+
+  async getDailyStat(propertyId: number, businessDate: string): Promise<DailyStat | undefined> {
+    const [stat] = await db
+      .select()
+      .from(dailyStats)
+      .where(and(eq(dailyStats.propertyId, propertyId), eq(dailyStats.businessDate, businessDate)));
+    return stat;
+  }
+
+  // The latest business date audited for the property
+  async getLastDailyStat(propertyId: number): Promise<DailyStat | undefined> {
+    const [stat] = await db
+      .select()
+      .from(dailyStats)
+      .where(eq(dailyStats.propertyId, propertyId))
+      .orderBy(desc(dailyStats.businessDate))
+      .limit(1);
+    return stat;
+  }
+
+  // Re-running the audit for a date replaces its snapshot
+  async saveDailyStat(stat: InsertDailyStat): Promise<DailyStat> {
+    const [saved] = await db
+      .insert(dailyStats)
+      .values(stat)
+      .onConflictDoUpdate({
+        target: [dailyStats.propertyId, dailyStats.businessDate],
+        set: { ...stat, auditedAt: new Date() },
+      })
+      .returning();
+    return saved;
   }
 
   // Enquiry operations
@@ -1734,7 +3356,7 @@ export class DatabaseStorage implements IStorage {
     const [pendingResult] = await db
       .select({ total: sql<string>`COALESCE(SUM(balance_amount), 0)`, count: sql<number>`count(*)::int` })
       .from(bills)
-      .where(eq(bills.paymentStatus, "pending"));
+      .where(inArray(bills.paymentStatus, OUTSTANDING_PAYMENT_STATUSES));
 
     const [totalBillsCount] = await db
       .select({ count: sql<number>`count(*)::int` })
@@ -1750,7 +3372,7 @@ export class DatabaseStorage implements IStorage {
       .select({ total: sql<string>`COALESCE(SUM(balance_amount), 0)` })
       .from(bills)
       .where(and(
-        eq(bills.paymentStatus, "pending"),
+        inArray(bills.paymentStatus, OUTSTANDING_PAYMENT_STATUSES),
         sql`due_date IS NOT NULL AND due_date < CURRENT_DATE`
       ));
 
@@ -1759,7 +3381,7 @@ export class DatabaseStorage implements IStorage {
       .select({ total: sql<string>`COALESCE(SUM(balance_amount), 0)` })
       .from(bills)
       .where(and(
-        eq(bills.paymentStatus, "pending"),
+        inArray(bills.paymentStatus, OUTSTANDING_PAYMENT_STATUSES),
         sql`(due_date IS NULL OR due_date >= CURRENT_DATE)`
       ));
 
@@ -1767,7 +3389,7 @@ export class DatabaseStorage implements IStorage {
       .select({ total: sql<string>`COALESCE(SUM(balance_amount), 0)` })
       .from(bills)
       .where(and(
-        eq(bills.paymentStatus, "pending"),
+        inArray(bills.paymentStatus, OUTSTANDING_PAYMENT_STATUSES),
         sql`due_date IS NOT NULL AND due_date BETWEEN CURRENT_DATE - INTERVAL '7 days' AND CURRENT_DATE - INTERVAL '1 day'`
       ));
 
@@ -1775,7 +3397,7 @@ export class DatabaseStorage implements IStorage {
       .select({ total: sql<string>`COALESCE(SUM(balance_amount), 0)` })
       .from(bills)
       .where(and(
-        eq(bills.paymentStatus, "pending"),
+        inArray(bills.paymentStatus, OUTSTANDING_PAYMENT_STATUSES),
         sql`due_date IS NOT NULL AND due_date BETWEEN CURRENT_DATE - INTERVAL '30 days' AND CURRENT_DATE - INTERVAL '8 days'`
       ));
 
@@ -1783,7 +3405,7 @@ export class DatabaseStorage implements IStorage {
       .select({ total: sql<string>`COALESCE(SUM(balance_amount), 0)` })
       .from(bills)
       .where(and(
-        eq(bills.paymentStatus, "pending"),
+        inArray(bills.paymentStatus, OUTSTANDING_PAYMENT_STATUSES),
         sql`due_date IS NOT NULL AND due_date < CURRENT_DATE - INTERVAL '30 days'`
       ));
 
@@ -1792,9 +3414,9 @@ export class DatabaseStorage implements IStorage {
       .select({
         id: properties.id,
         name: properties.name,
-        pendingAmount: sql<string>`COALESCE(SUM(CASE WHEN ${bills.paymentStatus} = 'pending' THEN ${bills.balanceAmount} ELSE 0 END), 0)`,
-        overdueAmount: sql<string>`COALESCE(SUM(CASE WHEN ${bills.paymentStatus} = 'pending' AND ${bills.dueDate} IS NOT NULL AND ${bills.dueDate} < CURRENT_DATE THEN ${bills.balanceAmount} ELSE 0 END), 0)`,
-        count: sql<number>`COUNT(CASE WHEN ${bills.paymentStatus} = 'pending' THEN 1 END)::int`,
+        pendingAmount: sql<string>`COALESCE(SUM(CASE WHEN ${bills.paymentStatus} IN ('pending', 'partial') THEN ${bills.balanceAmount} ELSE 0 END), 0)`,
+        overdueAmount: sql<string>`COALESCE(SUM(CASE WHEN ${bills.paymentStatus} IN ('pending', 'partial') AND ${bills.dueDate} IS NOT NULL AND ${bills.dueDate} < CURRENT_DATE THEN ${bills.balanceAmount} ELSE 0 END), 0)`,
+        count: sql<number>`COUNT(CASE WHEN ${bills.paymentStatus} IN ('pending', 'partial') THEN 1 END)::int`,
       })
       .from(properties)
       .leftJoin(rooms, eq(rooms.propertyId, properties.id))
@@ -1807,9 +3429,9 @@ export class DatabaseStorage implements IStorage {
       .select({
         id: sql<number>`COALESCE(${bookings.travelAgentId}, 0)`,
         name: sql<string>`COALESCE((SELECT name FROM travel_agents ta WHERE ta.id = ${bookings.travelAgentId}), 'Direct/Walk-in')`,
-        pendingAmount: sql<string>`COALESCE(SUM(CASE WHEN ${bills.paymentStatus} = 'pending' THEN ${bills.balanceAmount} ELSE 0 END), 0)`,
-        overdueAmount: sql<string>`COALESCE(SUM(CASE WHEN ${bills.paymentStatus} = 'pending' AND ${bills.dueDate} IS NOT NULL AND ${bills.dueDate} < CURRENT_DATE THEN ${bills.balanceAmount} ELSE 0 END), 0)`,
-        count: sql<number>`COUNT(CASE WHEN ${bills.paymentStatus} = 'pending' THEN 1 END)::int`,
+        pendingAmount: sql<string>`COALESCE(SUM(CASE WHEN ${bills.paymentStatus} IN ('pending', 'partial') THEN ${bills.balanceAmount} ELSE 0 END), 0)`,
+        overdueAmount: sql<string>`COALESCE(SUM(CASE WHEN ${bills.paymentStatus} IN ('pending', 'partial') AND ${bills.dueDate} IS NOT NULL AND ${bills.dueDate} < CURRENT_DATE THEN ${bills.balanceAmount} ELSE 0 END), 0)`,
+        count: sql<number>`COUNT(CASE WHEN ${bills.paymentStatus} IN ('pending', 'partial') THEN 1 END)::int`,
       })
       .from(bills)
       .leftJoin(bookings, eq(bills.bookingId, bookings.id))
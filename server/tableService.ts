@@ -0,0 +1,260 @@
+import { db } from "./db";
+import {
+  bookings,
+  diningTables,
+  orders,
+  tableTabs,
+  type DiningTable,
+  type InsertOrder,
+  type Order,
+  type TableTab,
+} from "@shared/schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { TaxService } from "./taxService";
+import { splitTax, type TaxLine } from "./taxCalculation";
+import type { DbTransaction } from "./reservationService";
+import { storage } from "./storage";
+
+export const tabSettleInputSchema = z.object({
+  paymentMethod: z.string().min(1, "Payment method is required").max(50),
+  includeGst: z.boolean().default(true),
+});
+
+export const tabMergeInputSchema = z.object({
+  bookingId: z.coerce.number().int().positive(),
+});
+
+export type TabSettleInput = z.infer<typeof tabSettleInputSchema>;
+
+export class TableTabError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TableTabError";
+    Object.setPrototypeOf(this, TableTabError.prototype);
+  }
+}
+
+export interface TabSummary {
+  tab: TableTab;
+  table: DiningTable;
+  orders: Order[];
+  subtotal: number; // Billable orders (not rejected or cancelled)
+  taxLines: TaxLine[];
+  gstAmount: number;
+  total: number;
+}
+
+export interface TabListEntry extends TableTab {
+  tableNumber: string;
+  orderCount: number;
+  runningTotal: number;
+}
+
+const NON_BILLABLE_ORDER_STATUSES = ["rejected", "cancelled"];
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function billableOrders(tabOrders: Order[]): Order[] {
+  return tabOrders.filter(o => !NON_BILLABLE_ORDER_STATUSES.includes(o.status));
+}
+
+function sumOrders(tabOrders: Order[]): number {
+  return round2(billableOrders(tabOrders).reduce((sum, o) => sum + parseFloat(o.totalAmount), 0));
+}
+
+/**
+ * Dine-in tabs. Orders placed at a table (QR or staff) accumulate on the
+ * table's open tab; the tab is then either settled on its own, with food GST,
+ * or merged into an in-house guest's room bill the way café orders are.
+ */
+export class TableService {
+  /**
+   * Place a dine-in order on the table's open tab, opening one on the first
+   * order. The tab is found (and locked) or opened in the order's own
+   * transaction, so an order never lands on a tab settled in the meantime.
+   */
+  static async placeOrder(
+    table: DiningTable,
+    order: InsertOrder,
+    customer: { customerName?: string | null; customerPhone?: string | null } = {},
+  ): Promise<Order> {
+    const onTable: InsertOrder & Pick<typeof orders.$inferInsert, "propertyId" | "tableId"> = {
+      ...order,
+      propertyId: table.propertyId,
+      tableId: table.id,
+    };
+    return await storage.createOrder(onTable, async (tx) => {
+      const tab = await this.openTab(tx, table, customer);
+      return { tabId: tab.id };
+    });
+  }
+
+  private static async openTab(
+    tx: DbTransaction,
+    table: DiningTable,
+    customer: { customerName?: string | null; customerPhone?: string | null },
+  ): Promise<TableTab> {
+    // Serialise tab creation per table
+    await tx.select({ id: diningTables.id }).from(diningTables).where(eq(diningTables.id, table.id)).for("update");
+    const [open] = await tx
+      .select({ id: tableTabs.id })
+      .from(tableTabs)
+      .where(and(eq(tableTabs.tableId, table.id), eq(tableTabs.status, "open")));
+    if (open) return await this.lockOpenTab(tx, open.id);
+
+    const [created] = await tx
+      .insert(tableTabs)
+      .values({
+        propertyId: table.propertyId,
+        tableId: table.id,
+        customerName: customer.customerName || null,
+        customerPhone: customer.customerPhone || null,
+      })
+      .returning();
+    return created;
+  }
+
+  static async listTabs(propertyId: number, status?: string): Promise<TabListEntry[]> {
+    const conditions = [eq(tableTabs.propertyId, propertyId)];
+    if (status) conditions.push(eq(tableTabs.status, status));
+    const rows = await db
+      .select({ tab: tableTabs, tableNumber: diningTables.tableNumber })
+      .from(tableTabs)
+      .innerJoin(diningTables, eq(tableTabs.tableId, diningTables.id))
+      .where(and(...conditions))
+      .orderBy(desc(tableTabs.openedAt));
+
+    const tabIds = rows.map(r => r.tab.id);
+    const tabOrders = tabIds.length > 0
+      ? await db.select().from(orders).where(inArray(orders.tabId, tabIds))
+      : [];
+
+    return rows.map(({ tab, tableNumber }) => {
+      const forTab = tabOrders.filter(o => o.tabId === tab.id);
+      return {
+        ...tab,
+        tableNumber,
+        orderCount: billableOrders(forTab).length,
+        runningTotal: sumOrders(forTab),
+      };
+    });
+  }
+
+  static async getSummary(tabId: number, includeGst: boolean = true): Promise<TabSummary | undefined> {
+    const [row] = await db
+      .select({ tab: tableTabs, table: diningTables })
+      .from(tableTabs)
+      .innerJoin(diningTables, eq(tableTabs.tableId, diningTables.id))
+      .where(eq(tableTabs.id, tabId));
+    if (!row) return undefined;
+
+    const tabOrders = await db.select().from(orders).where(eq(orders.tabId, tabId)).orderBy(orders.createdAt);
+    // Closed tabs report the amounts they were closed at
+    if (row.tab.status !== "open" && row.tab.totalAmount !== null) {
+      return {
+        ...row,
+        orders: tabOrders,
+        subtotal: parseFloat(row.tab.subtotal ?? "0"),
+        taxLines: [],
+        gstAmount: parseFloat(row.tab.gstAmount ?? "0"),
+        total: parseFloat(row.tab.totalAmount),
+      };
+    }
+
+    const subtotal = sumOrders(tabOrders);
+    const rules = await TaxService.getRules(row.tab.propertyId);
+    const taxLines = includeGst && subtotal > 0 && rules.foodTaxRate > 0
+      ? splitTax(rules, "food", rules.foodTaxRate, subtotal)
+      : [];
+    const gstAmount = round2(taxLines.reduce((sum, l) => sum + l.taxAmount, 0));
+
+    return { ...row, orders: tabOrders, subtotal, taxLines, gstAmount, total: round2(subtotal + gstAmount) };
+  }
+
+  private static async lockOpenTab(tx: DbTransaction, tabId: number): Promise<TableTab> {
+    const [tab] = await tx.select().from(tableTabs).where(eq(tableTabs.id, tabId)).for("update");
+    if (!tab) {
+      throw new TableTabError("Tab not found");
+    }
+    if (tab.status !== "open") {
+      throw new TableTabError(`Tab is already ${tab.status}`);
+    }
+    return tab;
+  }
+
+  /**
+   * Close the tab against a payment at the table
+   */
+  static async settle(tabId: number, input: TabSettleInput, closedBy: string | null): Promise<TabSummary> {
+    await db.transaction(async (tx) => {
+      await this.lockOpenTab(tx, tabId);
+      const summary = await this.getSummary(tabId, input.includeGst);
+      if (!summary) {
+        throw new TableTabError("Tab not found");
+      }
+      await tx
+        .update(tableTabs)
+        .set({
+          status: "settled",
+          subtotal: summary.subtotal.toFixed(2),
+          gstAmount: summary.gstAmount.toFixed(2),
+          totalAmount: summary.total.toFixed(2),
+          paymentMethod: input.paymentMethod,
+          closedAt: new Date(),
+          closedBy,
+        })
+        .where(eq(tableTabs.id, tabId));
+    });
+    return (await this.getSummary(tabId))!;
+  }
+
+  /**
+   * Move the tab's orders onto a checked-in booking; GST is then charged on the room bill
+   */
+  static async mergeToBooking(tabId: number, bookingId: number, closedBy: string | null): Promise<TabSummary> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, bookingId));
+    if (!booking) {
+      throw new TableTabError("Booking not found");
+    }
+    if (booking.status !== "checked-in") {
+      throw new TableTabError("Tabs can only be merged into a checked-in booking");
+    }
+
+    await db.transaction(async (tx) => {
+      await this.lockOpenTab(tx, tabId);
+      const tabOrders = await tx.select().from(orders).where(eq(orders.tabId, tabId));
+      if (billableOrders(tabOrders).length === 0) {
+        throw new TableTabError("The tab has no orders to merge");
+      }
+
+      await tx
+        .update(orders)
+        .set({
+          bookingId: booking.id,
+          guestId: booking.guestId,
+          propertyId: booking.propertyId,
+          ...(booking.roomId !== null ? { roomId: booking.roomId } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(orders.tabId, tabId));
+
+      const subtotal = sumOrders(tabOrders);
+      await tx
+        .update(tableTabs)
+        .set({
+          status: "merged",
+          subtotal: subtotal.toFixed(2),
+          gstAmount: "0.00",
+          totalAmount: subtotal.toFixed(2),
+          bookingId: booking.id,
+          closedAt: new Date(),
+          closedBy,
+        })
+        .where(eq(tableTabs.id, tabId));
+    });
+    return (await this.getSummary(tabId))!;
+  }
+}
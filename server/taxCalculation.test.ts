@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { NightlyRate } from "./stayPricing";
+import { DEFAULT_ROOM_TAX_SLABS, calculateTaxes, getRoomTaxRate, type TaxRules } from "./taxCalculation";
+
+const rules: TaxRules = {
+  propertyId: 1,
+  isConfigured: false,
+  interState: false,
+  roomSlabs: DEFAULT_ROOM_TAX_SLABS,
+  foodTaxRate: 5,
+  extraServiceTaxRate: 18,
+  serviceChargeRate: 10,
+};
+
+function night(date: string, total: number): NightlyRate {
+  return { date, roomId: 1, baseRate: total, mealSupplement: 0, occupancySurcharge: 0, total, source: "room" };
+}
+
+test("room GST is 5% up to a 7500 tariff and 18% above it", () => {
+  assert.equal(getRoomTaxRate(DEFAULT_ROOM_TAX_SLABS, 1000), 5);
+  assert.equal(getRoomTaxRate(DEFAULT_ROOM_TAX_SLABS, 7500), 5);
+  assert.equal(getRoomTaxRate(DEFAULT_ROOM_TAX_SLABS, 7500.01), 18);
+  assert.equal(getRoomTaxRate(DEFAULT_ROOM_TAX_SLABS, 20000), 18);
+});
+
+test("a tariff in a gap between slabs takes the slab starting below it", () => {
+  const slabs = [
+    { minTariff: 0, maxTariff: 1000, rate: 0 },
+    { minTariff: 2000, maxTariff: null, rate: 12 },
+    { minTariff: 1000.01, maxTariff: 1500, rate: 5 },
+  ];
+  assert.equal(getRoomTaxRate(slabs, 7500.005), 12);
+  assert.equal(getRoomTaxRate(slabs, 1700), 5);
+  assert.equal(getRoomTaxRate([], 1700), 0);
+});
+
+test("each night is taxed at the slab of its own tariff, split into CGST and SGST", () => {
+  const taxes = calculateTaxes(
+    rules,
+    { roomNights: [night("2026-10-19", 7500), night("2026-10-20", 8000)], foodCharges: 1000, extraCharges: 0 },
+    { includeGst: true, includeServiceCharge: false },
+  );
+  assert.deepEqual(taxes.lines.map(l => [l.category, l.component, l.rate, l.taxableAmount, l.taxAmount]), [
+    ["room", "CGST", 2.5, 7500, 187.5],
+    ["room", "SGST", 2.5, 7500, 187.5],
+    ["room", "CGST", 9, 8000, 720],
+    ["room", "SGST", 9, 8000, 720],
+    ["food", "CGST", 2.5, 1000, 25],
+    ["food", "SGST", 2.5, 1000, 25],
+  ]);
+  assert.equal(taxes.gstAmount, 1865);
+  assert.equal(taxes.gstRate, 11.3);
+  assert.equal(taxes.serviceChargeAmount, 0);
+});
+
+test("inter-state bills carry IGST at the full rate", () => {
+  const taxes = calculateTaxes(
+    { ...rules, interState: true },
+    { roomNights: [night("2026-10-19", 5000)], foodCharges: 0, extraCharges: 500 },
+    { includeGst: true, includeServiceCharge: false },
+  );
+  assert.deepEqual(taxes.lines.map(l => [l.category, l.component, l.rate, l.taxAmount]), [
+    ["room", "IGST", 5, 250],
+    ["extra", "IGST", 18, 90],
+  ]);
+});
+
+test("service charge applies to room charges only, with or without GST", () => {
+  const taxes = calculateTaxes(
+    rules,
+    { roomNights: [night("2026-10-19", 4000)], foodCharges: 1000, extraCharges: 0 },
+    { includeGst: false, includeServiceCharge: true },
+  );
+  assert.deepEqual(taxes.lines, []);
+  assert.equal(taxes.gstAmount, 0);
+  assert.equal(taxes.serviceChargeAmount, 400);
+});
@@ -0,0 +1,135 @@
+import type { NightlyRate } from "./stayPricing";
+
+export type TaxCategory = "room" | "food" | "extra";
+export type TaxComponent = "CGST" | "SGST" | "IGST";
+
+export interface TaxLine {
+  category: TaxCategory;
+  component: TaxComponent;
+  rate: number; // Component rate (half the slab rate for CGST/SGST)
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface RoomTaxSlab {
+  minTariff: number;
+  maxTariff: number | null;
+  rate: number;
+}
+
+export interface TaxRules {
+  propertyId: number;
+  isConfigured: boolean; // false when the property has no tax profile and defaults are used
+  interState: boolean; // IGST instead of CGST + SGST
+  roomSlabs: RoomTaxSlab[];
+  foodTaxRate: number;
+  extraServiceTaxRate: number;
+  serviceChargeRate: number;
+}
+
+export interface TaxableCharges {
+  roomNights: NightlyRate[];
+  foodCharges: number;
+  extraCharges: number;
+}
+
+export interface TaxOptions {
+  includeGst: boolean;
+  includeServiceCharge: boolean;
+}
+
+export interface BillTaxes {
+  lines: TaxLine[];
+  gstAmount: number;
+  gstRate: number; // Effective GST % over the taxable charges (stored on the bill for display)
+  serviceChargeRate: number;
+  serviceChargeAmount: number;
+}
+
+// GST on hotel accommodation by per-room nightly tariff (rates effective 22 Sep 2025)
+export const DEFAULT_ROOM_TAX_SLABS: RoomTaxSlab[] = [
+  { minTariff: 0, maxTariff: 7500, rate: 5 },
+  { minTariff: 7500.01, maxTariff: null, rate: 18 },
+];
+export const DEFAULT_FOOD_TAX_RATE = 5;
+export const DEFAULT_EXTRA_SERVICE_TAX_RATE = 18;
+export const DEFAULT_SERVICE_CHARGE_RATE = 10;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Room GST rate for a nightly tariff. Falls back to the highest slab starting
+ * below the tariff when configured slabs leave a gap.
+ */
+export function getRoomTaxRate(slabs: RoomTaxSlab[], tariff: number): number {
+  const sorted = [...slabs].sort((a, b) => a.minTariff - b.minTariff);
+  const match = sorted.find(s => tariff >= s.minTariff && (s.maxTariff === null || tariff <= s.maxTariff));
+  if (match) return match.rate;
+  const below = sorted.filter(s => s.minTariff <= tariff);
+  return below.length > 0 ? below[below.length - 1].rate : 0;
+}
+
+/**
+ * Tax lines for one taxable amount at a GST rate: CGST + SGST halves, or IGST
+ */
+export function splitTax(rules: TaxRules, category: TaxCategory, rate: number, amount: number): TaxLine[] {
+  const taxableAmount = round2(amount);
+  if (rules.interState) {
+    return [{ category, component: "IGST", rate, taxableAmount, taxAmount: round2((taxableAmount * rate) / 100) }];
+  }
+  const halfRate = rate / 2;
+  const halfTax = round2((taxableAmount * halfRate) / 100);
+  return [
+    { category, component: "CGST", rate: halfRate, taxableAmount, taxAmount: halfTax },
+    { category, component: "SGST", rate: halfRate, taxableAmount, taxAmount: halfTax },
+  ];
+}
+
+/**
+ * GST and service charge for a bill. Room nights are taxed by the slab of
+ * their nightly tariff, F&B and extra services at their own rates, and each
+ * taxable group is split into CGST + SGST (intra-state) or IGST.
+ */
+export function calculateTaxes(rules: TaxRules, charges: TaxableCharges, options: TaxOptions): BillTaxes {
+  const roomCharges = charges.roomNights.reduce((sum, n) => sum + n.total, 0);
+  const serviceChargeAmount = options.includeServiceCharge
+    ? round2((roomCharges * rules.serviceChargeRate) / 100)
+    : 0;
+
+  if (!options.includeGst) {
+    return { lines: [], gstAmount: 0, gstRate: 0, serviceChargeRate: rules.serviceChargeRate, serviceChargeAmount };
+  }
+
+  // Group taxable amounts by category and GST rate
+  const groups = new Map<string, { category: TaxCategory; rate: number; taxableAmount: number }>();
+  const addTaxable = (category: TaxCategory, rate: number, amount: number) => {
+    if (amount <= 0 || rate <= 0) return;
+    const key = `${category}:${rate}`;
+    const group = groups.get(key) || { category, rate, taxableAmount: 0 };
+    group.taxableAmount += amount;
+    groups.set(key, group);
+  };
+
+  for (const night of charges.roomNights) {
+    addTaxable("room", getRoomTaxRate(rules.roomSlabs, night.total), night.total);
+  }
+  addTaxable("food", rules.foodTaxRate, charges.foodCharges);
+  addTaxable("extra", rules.extraServiceTaxRate, charges.extraCharges);
+
+  const lines = Array.from(groups.values()).flatMap(group =>
+    splitTax(rules, group.category, group.rate, group.taxableAmount)
+  );
+
+  const gstAmount = round2(lines.reduce((sum, l) => sum + l.taxAmount, 0));
+  const taxableBase = roomCharges + charges.foodCharges + charges.extraCharges;
+
+  return {
+    lines,
+    gstAmount,
+    gstRate: taxableBase > 0 ? round2((gstAmount / taxableBase) * 100) : 0,
+    serviceChargeRate: rules.serviceChargeRate,
+    serviceChargeAmount,
+  };
+}
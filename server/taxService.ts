@@ -0,0 +1,78 @@
+import { db } from "./db";
+import { taxProfiles, taxSlabs, type Booking } from "@shared/schema";
+import { asc, eq } from "drizzle-orm";
+import { RateService } from "./rateService";
+import type { NightlyRate } from "./stayPricing";
+import {
+  DEFAULT_EXTRA_SERVICE_TAX_RATE,
+  DEFAULT_FOOD_TAX_RATE,
+  DEFAULT_ROOM_TAX_SLABS,
+  DEFAULT_SERVICE_CHARGE_RATE,
+  calculateTaxes,
+  type BillTaxes,
+  type TaxOptions,
+  type TaxRules,
+} from "./taxCalculation";
+
+/**
+ * Loads each property's GST and service charge rules (see calculateTaxes for
+ * how a bill is taxed under them).
+ */
+export class TaxService {
+  /**
+   * Load the property's tax profile and slabs (defaults when not configured)
+   */
+  static async getRules(propertyId: number): Promise<TaxRules> {
+    const [profile] = await db.select().from(taxProfiles).where(eq(taxProfiles.propertyId, propertyId));
+    if (!profile) {
+      return {
+        propertyId,
+        isConfigured: false,
+        interState: false,
+        roomSlabs: DEFAULT_ROOM_TAX_SLABS,
+        foodTaxRate: DEFAULT_FOOD_TAX_RATE,
+        extraServiceTaxRate: DEFAULT_EXTRA_SERVICE_TAX_RATE,
+        serviceChargeRate: DEFAULT_SERVICE_CHARGE_RATE,
+      };
+    }
+
+    const slabs = await db
+      .select()
+      .from(taxSlabs)
+      .where(eq(taxSlabs.taxProfileId, profile.id))
+      .orderBy(asc(taxSlabs.minTariff));
+
+    return {
+      propertyId,
+      isConfigured: true,
+      // Supplier registered in a different state than the property → IGST
+      interState: !!profile.gstin && profile.gstin.slice(0, 2) !== profile.stateCode,
+      roomSlabs: slabs.length > 0
+        ? slabs.map(s => ({
+            minTariff: parseFloat(s.minTariff),
+            maxTariff: s.maxTariff !== null ? parseFloat(s.maxTariff) : null,
+            rate: parseFloat(s.rate),
+          }))
+        : DEFAULT_ROOM_TAX_SLABS,
+      foodTaxRate: parseFloat(profile.foodTaxRate),
+      extraServiceTaxRate: parseFloat(profile.extraServiceTaxRate),
+      serviceChargeRate: parseFloat(profile.serviceChargeRate),
+    };
+  }
+
+  /**
+   * Price the booking's room nights and compute taxes on them plus F&B and extras
+   */
+  static async calculateForBooking(
+    booking: Booking,
+    charges: { foodCharges: number; extraCharges: number },
+    options: TaxOptions,
+  ): Promise<BillTaxes & { roomCharges: number; nights: number; nightlyRates: NightlyRate[] }> {
+    const [quote, rules] = await Promise.all([
+      RateService.quoteBooking(booking),
+      this.getRules(booking.propertyId),
+    ]);
+    const taxes = calculateTaxes(rules, { roomNights: quote.nightlyRates, ...charges }, options);
+    return { ...taxes, roomCharges: quote.roomCharges, nights: quote.nights, nightlyRates: quote.nightlyRates };
+  }
+}
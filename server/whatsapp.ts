@@ -13,6 +13,12 @@
  * - AUTHKEY_WA_CHECKOUT_DETAILS: Template for checkout/billing (default: 18667)
  * - AUTHKEY_WA_PENDING_PAYMENT: Template for payment reminders (default: 18649)
  * - AUTHKEY_WA_ENQUIRY_CONFIRMATION: Template for enquiry confirmation (default: 18491)
+ * - AUTHKEY_WA_CHECKOUT_INVOICE: Checkout template with a document header (invoice PDF).
+ *   When unset, the checkout message is sent without the invoice attachment.
+ * - AUTHKEY_WA_ORDER_READY: Template telling a guest their food order is ready.
+ *   When unset, order-ready messages are not sent.
+ * - AUTHKEY_WA_PRE_CHECKIN: Template with the guest's online pre-check-in link.
+ *   When unset, pre-check-in links are not sent.
  * 
  * Template variables are passed in order: var1, var2, var3, etc.
  * Ensure your authkey templates match the variable order!
@@ -26,6 +32,12 @@ interface WhatsAppMessageParams {
   mobile: string;
   templateId: string;
   variables?: string[]; // Ordered array of variables
+  document?: WhatsAppDocument; // Header attachment (template must have a document header)
+}
+
+interface WhatsAppDocument {
+  url: string; // Publicly reachable URL of the file
+  filename: string;
 }
 
 interface WhatsAppResponse {
@@ -49,7 +61,7 @@ interface WhatsAppResponse {
  * "08700553523" -> "8700553523"
  * "8700553523" -> "8700553523"
  */
-function cleanIndianPhoneNumber(phone: string): string {
+export function cleanIndianPhoneNumber(phone: string): string {
   // Remove all non-digits
   let cleaned = phone.replace(/\D/g, "");
   
@@ -103,13 +115,19 @@ export async function sendWhatsAppMessage(params: WhatsAppMessageParams): Promis
     });
   }
 
-  const payload = {
+  const payload: Record<string, unknown> = {
     country_code: params.countryCode,
     mobile: params.mobile,
     wid: params.templateId,
-    type: "text",
+    type: params.document ? "media" : "text",
     bodyValues: bodyValues,
   };
+  if (params.document) {
+    payload.headerValues = {
+      headerFileName: params.document.filename,
+      headerData: params.document.url,
+    };
+  }
 
   try {
     console.log(`[WhatsApp] Sending message to +${params.countryCode}-${params.mobile} (template: ${params.templateId})`);
@@ -237,6 +255,8 @@ export async function sendCheckInNotification(
  * 3. Total Amount
  * 4. Checkout Date
  * 5. Room Numbers
+ *
+ * The invoice PDF is attached as the document header when AUTHKEY_WA_CHECKOUT_INVOICE is configured.
  */
 export async function sendCheckoutNotification(
   phoneNumber: string,
@@ -244,9 +264,12 @@ export async function sendCheckoutNotification(
   propertyName: string,
   totalAmount: string,
   checkoutDate: string,
-  roomNumbers: string
+  roomNumbers: string,
+  invoice?: WhatsAppDocument
 ): Promise<WhatsAppResponse> {
-  const templateId = process.env.AUTHKEY_WA_CHECKOUT_DETAILS || "18667";
+  const invoiceTemplateId = process.env.AUTHKEY_WA_CHECKOUT_INVOICE;
+  const attachInvoice = !!invoice && !!invoiceTemplateId;
+  const templateId = attachInvoice ? invoiceTemplateId! : (process.env.AUTHKEY_WA_CHECKOUT_DETAILS || "18667");
   const cleanedPhone = cleanIndianPhoneNumber(phoneNumber);
   const countryCode = "91";
 
@@ -255,6 +278,7 @@ export async function sendCheckoutNotification(
     mobile: cleanedPhone,
     templateId,
     variables: [guestName, propertyName, totalAmount, checkoutDate, roomNumbers],
+    document: attachInvoice ? invoice : undefined,
   });
 }
 
@@ -316,6 +340,70 @@ export async function sendEnquiryConfirmation(
   });
 }
 
+/**
+ * Send order ready WhatsApp message
+ *
+ * Template variables (in order):
+ * 1. Guest Name
+ * 2. Property Name
+ * 3. Order Number
+ * 4. Where to collect it or where it is being served (e.g., "Room 101")
+ * 5. Tracking Link
+ */
+export async function sendOrderReadyNotification(
+  phoneNumber: string,
+  guestName: string,
+  propertyName: string,
+  orderNumber: string,
+  location: string,
+  trackingUrl: string
+): Promise<WhatsAppResponse> {
+  const templateId = process.env.AUTHKEY_WA_ORDER_READY;
+  if (!templateId) {
+    return { success: false, error: "AUTHKEY_WA_ORDER_READY is not configured" };
+  }
+  const cleanedPhone = cleanIndianPhoneNumber(phoneNumber);
+  const countryCode = "91";
+
+  return sendWhatsAppMessage({
+    countryCode,
+    mobile: cleanedPhone,
+    templateId,
+    variables: [guestName, propertyName, orderNumber, location, trackingUrl],
+  });
+}
+
+/**
+ * Send online pre-check-in link WhatsApp message
+ *
+ * Template variables (in order):
+ * 1. Guest Name
+ * 2. Property Name
+ * 3. Check-in Date
+ * 4. Pre-check-in Link
+ */
+export async function sendPreCheckInLink(
+  phoneNumber: string,
+  guestName: string,
+  propertyName: string,
+  checkInDate: string,
+  preCheckInUrl: string
+): Promise<WhatsAppResponse> {
+  const templateId = process.env.AUTHKEY_WA_PRE_CHECKIN;
+  if (!templateId) {
+    return { success: false, error: "AUTHKEY_WA_PRE_CHECKIN is not configured" };
+  }
+  const cleanedPhone = cleanIndianPhoneNumber(phoneNumber);
+  const countryCode = "91";
+
+  return sendWhatsAppMessage({
+    countryCode,
+    mobile: cleanedPhone,
+    templateId,
+    variables: [guestName, propertyName, checkInDate, preCheckInUrl],
+  });
+}
+
 /**
  * Send custom WhatsApp message with custom template and variables
  * 
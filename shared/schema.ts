@@ -11,6 +11,8 @@ import {
   text,
   boolean,
   check,
+  date,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -59,6 +61,10 @@ export const properties = pgTable("properties", {
   totalRooms: integer("total_rooms").notNull().default(0),
   contactEmail: varchar("contact_email", { length: 255 }),
   contactPhone: varchar("contact_phone", { length: 50 }),
+  invoicePrefix: varchar("invoice_prefix", { length: 10 }), // e.g., "HTZ" → HTZ/24-25/000123 (defaults to name initials)
+  nightAuditTime: varchar("night_audit_time", { length: 5 }).notNull().default("03:00"), // Local time (HH:mm) after which the previous business date is closed
+  timezone: varchar("timezone", { length: 64 }).notNull().default("Asia/Kolkata"), // IANA zone menu schedules and happy hours are evaluated in
+  houseRules: text("house_rules"), // Shown on the guest pre-check-in page; guests must accept them to pre-check-in
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -70,15 +76,45 @@ export const insertPropertySchema = createInsertSchema(properties).omit({
   updatedAt: true,
 });
 
-export type InsertProperty = z.infer<typeof insertPropertySchema>;
+export type InsertProperty = Omit<typeof properties.$inferInsert, "id" | "createdAt" | "updatedAt">;
 export type Property = typeof properties.$inferSelect;
 
+// Room Types table - sellable inventory classes per property (e.g., Deluxe Valley View)
+export const roomTypes = pgTable("room_types", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  baseOccupancy: integer("base_occupancy").notNull().default(2), // Guests included in the nightly rate
+  maxOccupancy: integer("max_occupancy").notNull().default(3),
+  extraGuestCharge: decimal("extra_guest_charge", { precision: 10, scale: 2 }).notNull().default("0"), // Per extra guest per night above base occupancy
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_room_type_property").on(table.propertyId),
+]);
+
+export const insertRoomTypeSchema = z.object({
+  propertyId: z.number().int(),
+  name: z.string().min(1).max(100),
+  description: z.string().nullable().optional(),
+  baseOccupancy: z.number().int().optional(),
+  maxOccupancy: z.number().int().optional(),
+  extraGuestCharge: z.string().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type InsertRoomType = z.infer<typeof insertRoomTypeSchema>;
+export type RoomType = typeof roomTypes.$inferSelect;
+
 // Rooms table
 export const rooms = pgTable("rooms", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
   roomNumber: varchar("room_number", { length: 50 }).notNull(),
   roomType: varchar("room_type", { length: 100 }),
+  roomTypeId: integer("room_type_id").references(() => roomTypes.id, { onDelete: 'set null' }), // Rate plan inventory class (nullable - falls back to pricePerNight)
   roomCategory: varchar("room_category", { length: 50 }).notNull().default("standard"), // standard, deluxe, suite, dormitory
   totalBeds: integer("total_beds"), // Only for dormitory rooms - number of beds available
   status: varchar("status", { length: 20 }).notNull().default("available"),
@@ -99,6 +135,117 @@ export const insertRoomSchema = createInsertSchema(rooms).omit({
 export type InsertRoom = z.infer<typeof insertRoomSchema>;
 export type Room = typeof rooms.$inferSelect;
 
+// Rate Plans table - named pricing strategies per property (BAR, Corporate, Non-refundable)
+export const ratePlans = pgTable("rate_plans", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  code: varchar("code", { length: 20 }).notNull(), // e.g., BAR, CORP, NRF
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  isRefundable: boolean("is_refundable").notNull().default(true),
+  // Meal plan supplements per guest per night (EP is always room-only, no supplement)
+  cpSupplement: decimal("cp_supplement", { precision: 10, scale: 2 }).notNull().default("0"),
+  mapSupplement: decimal("map_supplement", { precision: 10, scale: 2 }).notNull().default("0"),
+  apSupplement: decimal("ap_supplement", { precision: 10, scale: 2 }).notNull().default("0"),
+  defaultMinStay: integer("default_min_stay").notNull().default(1),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_rate_plan_property").on(table.propertyId),
+  uniqueIndex("uq_rate_plan_property_code").on(table.propertyId, table.code),
+]);
+
+export const insertRatePlanSchema = z.object({
+  propertyId: z.number().int(),
+  code: z.string().min(1).max(20),
+  name: z.string().min(1).max(100),
+  description: z.string().nullable().optional(),
+  isRefundable: z.boolean().optional(),
+  cpSupplement: z.string().optional(),
+  mapSupplement: z.string().optional(),
+  apSupplement: z.string().optional(),
+  defaultMinStay: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type InsertRatePlan = z.infer<typeof insertRatePlanSchema>;
+export type RatePlan = typeof ratePlans.$inferSelect;
+
+// Rate Plan Rates table - per-date price and restrictions for a rate plan + room type
+export const ratePlanRates = pgTable("rate_plan_rates", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  ratePlanId: integer("rate_plan_id").notNull().references(() => ratePlans.id, { onDelete: 'cascade' }),
+  roomTypeId: integer("room_type_id").notNull().references(() => roomTypes.id, { onDelete: 'cascade' }),
+  stayDate: date("stay_date", { mode: "string" }).notNull(), // yyyy-MM-dd (night of stay)
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  minStay: integer("min_stay"), // Overrides rate plan default when set
+  closedToArrival: boolean("closed_to_arrival").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_rate_plan_rate_day").on(table.ratePlanId, table.roomTypeId, table.stayDate),
+]);
+
+export type InsertRatePlanRate = Omit<typeof ratePlanRates.$inferInsert, "id" | "createdAt">;
+export type RatePlanRate = typeof ratePlanRates.$inferSelect;
+
+// Cancellation Policies table - property default (ratePlanId null) or rate-plan specific
+export const cancellationPolicies = pgTable("cancellation_policies", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  ratePlanId: integer("rate_plan_id").references(() => ratePlans.id, { onDelete: 'cascade' }), // Overrides the property default for this rate plan
+  name: varchar("name", { length: 100 }).notNull(), // e.g., "Flexible", "Non-refundable"
+  freeCancellationDays: integer("free_cancellation_days").notNull().default(0), // Free when cancelled at least N days before check-in
+  retentionPercent: decimal("retention_percent", { precision: 5, scale: 2 }).notNull().default("0"), // % of room charges retained on late cancellation
+  noShowPercent: decimal("no_show_percent", { precision: 5, scale: 2 }).notNull().default("100"), // % of room charges charged on no-show
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_cancellation_policy_property").on(table.propertyId),
+]);
+
+export const insertCancellationPolicySchema = z.object({
+  propertyId: z.number().int(),
+  ratePlanId: z.number().int().nullable().optional(),
+  name: z.string().min(1).max(100),
+  freeCancellationDays: z.number().int().optional(),
+  retentionPercent: z.string().optional(),
+  noShowPercent: z.string().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type InsertCancellationPolicy = z.infer<typeof insertCancellationPolicySchema>;
+export type CancellationPolicy = typeof cancellationPolicies.$inferSelect;
+
+// Structured guest preferences, shown to staff when the guest books again
+const preferenceText = z.string().trim().max(255).optional();
+
+export const guestPreferencesSchema = z.object({
+  roomType: preferenceText,
+  bedType: preferenceText,
+  floor: preferenceText,
+  pillow: preferenceText,
+  dietary: preferenceText,
+  allergies: preferenceText,
+  beverages: preferenceText,
+  occasions: preferenceText, // e.g., "Anniversary 14 Feb"
+});
+
+export type GuestPreferences = z.infer<typeof guestPreferencesSchema>;
+
+export const GUEST_PREFERENCE_LABELS: Record<keyof GuestPreferences, string> = {
+  roomType: "Room type",
+  bedType: "Bed",
+  floor: "Floor",
+  pillow: "Pillow",
+  dietary: "Dietary",
+  allergies: "Allergies",
+  beverages: "Beverages",
+  occasions: "Occasions",
+};
+
 // Guests table
 export const guests = pgTable("guests", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -109,7 +256,27 @@ export const guests = pgTable("guests", {
   idProofNumber: varchar("id_proof_number", { length: 100 }),
   idProofImage: text("id_proof_image"),
   address: text("address"),
-  preferences: text("preferences"),
+  preferences: text("preferences"), // Free-text notes
+  preferenceProfile: jsonb("preference_profile").$type<GuestPreferences>(), // Structured preferences (room type, dietary, pillow, ...)
+  gstin: varchar("gstin", { length: 15 }), // For B2B (tax) invoices
+  companyName: varchar("company_name", { length: 255 }), // Legal name printed on B2B invoices
+  // Foreign nationals (Form C); address is the guest's address in their home country
+  nationality: varchar("nationality", { length: 100 }), // null or "Indian" for Indian citizens
+  dateOfBirth: date("date_of_birth", { mode: "string" }), // yyyy-MM-dd
+  gender: varchar("gender", { length: 10 }), // male, female, other
+  passportNumber: varchar("passport_number", { length: 50 }),
+  passportPlaceOfIssue: varchar("passport_place_of_issue", { length: 100 }),
+  passportIssueDate: date("passport_issue_date", { mode: "string" }),
+  passportExpiryDate: date("passport_expiry_date", { mode: "string" }),
+  visaNumber: varchar("visa_number", { length: 50 }), // Or OCI card number
+  visaType: varchar("visa_type", { length: 50 }), // e.g., Tourist, Business, e-Visa, OCI
+  visaPlaceOfIssue: varchar("visa_place_of_issue", { length: 100 }),
+  visaIssueDate: date("visa_issue_date", { mode: "string" }),
+  visaExpiryDate: date("visa_expiry_date", { mode: "string" }),
+  arrivedInIndiaOn: date("arrived_in_india_on", { mode: "string" }), // Current trip
+  arrivedFrom: varchar("arrived_from", { length: 255 }), // City/country the guest came from
+  nextDestination: varchar("next_destination", { length: 255 }),
+  purposeOfVisit: varchar("purpose_of_visit", { length: 100 }), // e.g., Tourism, Business, Medical
   totalStays: integer("total_stays").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -122,9 +289,141 @@ export const insertGuestSchema = createInsertSchema(guests).omit({
   updatedAt: true,
 });
 
-export type InsertGuest = z.infer<typeof insertGuestSchema>;
+export type InsertGuest = Omit<typeof guests.$inferInsert, "id" | "totalStays" | "createdAt" | "updatedAt">;
 export type Guest = typeof guests.$inferSelect;
 
+// "exact": same ID number, or same phone/email and a matching name; "likely": shared contact details worth a look
+export type GuestMatchConfidence = "exact" | "likely";
+
+export interface GuestDuplicateMatch {
+  guest: Guest;
+  confidence: GuestMatchConfidence;
+  reasons: string[]; // e.g. "Same phone", "Similar name"
+}
+
+export interface GuestDuplicateGroup {
+  confidence: GuestMatchConfidence; // Weakest link in the group
+  reasons: string[];
+  guests: Guest[]; // Most stays first
+}
+
+export const guestMergeInputSchema = z.object({
+  duplicateIds: z.array(z.coerce.number().int().positive()).min(1, "Pick at least one duplicate to merge"),
+});
+
+// Foreign-national details captured for Form C (dates are yyyy-MM-dd)
+const formCText = (max: number) => z.string().trim().max(max).nullable().optional().transform(value => value || null);
+const formCDate = z.union([
+  z.literal("").transform(() => null),
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use yyyy-MM-dd"),
+]).nullable().optional();
+
+export const foreignerDetailsSchema = z.object({
+  nationality: formCText(100),
+  dateOfBirth: formCDate,
+  gender: z.enum(["male", "female", "other"]).nullable().optional(),
+  passportNumber: formCText(50),
+  passportPlaceOfIssue: formCText(100),
+  passportIssueDate: formCDate,
+  passportExpiryDate: formCDate,
+  visaNumber: formCText(50),
+  visaType: formCText(50),
+  visaPlaceOfIssue: formCText(100),
+  visaIssueDate: formCDate,
+  visaExpiryDate: formCDate,
+  arrivedInIndiaOn: formCDate,
+  arrivedFrom: formCText(255),
+  nextDestination: formCText(255),
+  purposeOfVisit: formCText(100),
+  address: formCText(1000),
+});
+
+export type ForeignerDetails = z.infer<typeof foreignerDetailsSchema>;
+
+// What is reported on Form C: the foreigner details plus name, contact number in India and arrival at the hotel
+export type FormCDetails = ForeignerDetails & {
+  fullName: string;
+  phone: string;
+  arrivedAtHotelOn: string; // Property-local yyyy-MM-dd
+  arrivedAtHotelTime: string; // Property-local HH:mm
+};
+
+export const FORM_C_FIELD_LABELS: Record<keyof ForeignerDetails, string> = {
+  nationality: "Nationality",
+  dateOfBirth: "Date of birth",
+  gender: "Gender",
+  passportNumber: "Passport number",
+  passportPlaceOfIssue: "Passport place of issue",
+  passportIssueDate: "Passport issue date",
+  passportExpiryDate: "Passport expiry date",
+  visaNumber: "Visa number",
+  visaType: "Visa type",
+  visaPlaceOfIssue: "Visa place of issue",
+  visaIssueDate: "Visa issue date",
+  visaExpiryDate: "Visa expiry date",
+  arrivedInIndiaOn: "Date of arrival in India",
+  arrivedFrom: "Arrived from",
+  nextDestination: "Next destination",
+  purposeOfVisit: "Purpose of visit",
+  address: "Address in home country",
+};
+
+// Citizens of these countries need no visa (and may travel without a passport)
+export const VISA_EXEMPT_NATIONALITIES = ["nepal", "nepalese", "nepali", "bhutan", "bhutanese"];
+
+// Form C registrations - one per foreign guest per stay, due at the FRRO within 24 hours of check-in
+export const formCRegistrations = pgTable("form_c_registrations", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  bookingId: integer("booking_id").notNull().references(() => bookings.id, { onDelete: 'restrict' }), // Deleting a booking with a registration is refused
+  guestId: integer("guest_id").notNull().references(() => guests.id, { onDelete: 'restrict' }), // A registration is a legal record: never deleted with its guest
+  propertyId: integer("property_id").notNull().references(() => properties.id),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, submitted
+  checkedInAt: timestamp("checked_in_at").notNull(),
+  dueAt: timestamp("due_at").notNull(), // 24 hours after check-in
+  details: jsonb("details").$type<FormCDetails>().notNull(), // Guest's details as at check-in
+  referenceNumber: varchar("reference_number", { length: 100 }), // FRRO acknowledgement / application number
+  submittedAt: timestamp("submitted_at"),
+  submittedBy: varchar("submitted_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_form_c_booking_guest").on(table.bookingId, table.guestId),
+  index("idx_form_c_status").on(table.status),
+]);
+
+export type FormCRegistration = typeof formCRegistrations.$inferSelect;
+
+export const formCSubmitSchema = z.object({
+  referenceNumber: z.string().trim().min(1, "Enter the FRRO acknowledgement number").max(100),
+});
+
+// Loyalty Tiers table - a guest is in the highest tier whose thresholds they meet
+export const loyaltyTiers = pgTable("loyalty_tiers", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  name: varchar("name", { length: 50 }).notNull(), // e.g., Silver, Gold, Platinum
+  minStays: integer("min_stays").notNull().default(0), // Completed (checked-out) stays
+  minSpend: decimal("min_spend", { precision: 12, scale: 2 }).notNull().default("0"), // Lifetime billed amount
+  benefits: text("benefits"), // Shown to staff, e.g., "Free breakfast, late checkout"
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type LoyaltyTier = typeof loyaltyTiers.$inferSelect;
+
+export const loyaltyTierInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50),
+  minStays: z.coerce.number().int().min(0).default(0),
+  minSpend: z.coerce.number().min(0).default(0),
+  benefits: z.string().trim().max(1000).nullable().default(null),
+  isActive: z.boolean().default(true),
+}).refine(
+  (tier) => tier.minStays > 0 || tier.minSpend > 0,
+  { message: "Set a minimum number of stays or a minimum spend", path: ["minStays"] },
+);
+
+export type LoyaltyTierInput = z.infer<typeof loyaltyTierInputSchema>;
+
 // Travel Agents table
 export const travelAgents = pgTable("travel_agents", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -165,11 +464,16 @@ export const bookings = pgTable("bookings", {
   numberOfGuests: integer("number_of_guests").notNull().default(1),
   specialRequests: text("special_requests"),
   customPrice: decimal("custom_price", { precision: 10, scale: 2 }), // Custom price per night (overrides room price if set)
-  advanceAmount: decimal("advance_amount", { precision: 10, scale: 2 }).notNull().default("0"), // Advance payment received
+  advanceAmount: decimal("advance_amount", { precision: 10, scale: 2 }).notNull().default("0"), // Net of the deposits ledger (kept in sync by storage)
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }),
   source: varchar("source", { length: 50 }).notNull().default("Walk-in"), // Walk-in, Online, Booking.com, MMT, Airbnb, OTA, Travel Agent, Others
   travelAgentId: integer("travel_agent_id").references(() => travelAgents.id), // Only used when source is "Travel Agent"
   mealPlan: varchar("meal_plan", { length: 10 }).notNull().default("EP"), // EP, CP, MAP, AP
+  ratePlanId: integer("rate_plan_id").references(() => ratePlans.id, { onDelete: 'set null' }), // Priced from rate plan when set (customPrice still overrides)
+  roomChargeLimit: decimal("room_charge_limit", { precision: 10, scale: 2 }), // Cap on guest-placed room-service charges; null = no cap, 0 = no charging to the room
+  preCheckedInAt: timestamp("pre_checked_in_at"), // Guest completed the online pre-check-in (details, ID proof, house rules)
+  expectedArrivalTime: varchar("expected_arrival_time", { length: 5 }), // Guest's ETA from pre-check-in (HH:mm, property-local)
+  houseRulesAcceptedAt: timestamp("house_rules_accepted_at"),
   createdBy: varchar("created_by"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -177,6 +481,8 @@ export const bookings = pgTable("bookings", {
 
 export const insertBookingSchema = createInsertSchema(bookings).omit({
   id: true,
+  preCheckedInAt: true,
+  houseRulesAcceptedAt: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -184,9 +490,103 @@ export const insertBookingSchema = createInsertSchema(bookings).omit({
   checkOutDate: z.coerce.date(),
 });
 
-export type InsertBooking = z.infer<typeof insertBookingSchema>;
+// Spelled out from the table: the drizzle-zod inferred type only keeps the extended date fields
+export type InsertBooking = Omit<typeof bookings.$inferInsert, "id" | "preCheckedInAt" | "houseRulesAcceptedAt" | "createdAt" | "updatedAt">;
 export type Booking = typeof bookings.$inferSelect;
 
+// What the guest fills in on the online pre-check-in page
+export const preCheckInSchema = z.object({
+  fullName: z.string().trim().min(1, "Name is required").max(255),
+  email: z.union([z.literal(""), z.string().trim().email().max(255)]).nullable().optional().transform(value => value || null),
+  address: z.string().trim().max(1000).nullable().optional().transform(value => value || null),
+  nationality: z.string().trim().max(100).nullable().optional().transform(value => value || null),
+  idProofType: z.string().trim().min(1, "ID proof type is required").max(50),
+  idProofNumber: z.string().trim().min(1, "ID proof number is required").max(100),
+  idProofUrl: z.string().nullable().optional(), // Upload URL from the pre-check-in upload endpoint; omit to keep the ID on file
+  expectedArrivalTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm"),
+  acceptHouseRules: z.literal(true, { errorMap: () => ({ message: "Please accept the house rules" }) }),
+});
+
+export type PreCheckInInput = z.infer<typeof preCheckInSchema>;
+
+// What the guest pre-check-in page sees of a booking - no ids beyond the booking number
+export interface PublicPreCheckIn {
+  bookingNumber: number;
+  propertyName: string | null;
+  checkInDate: string;
+  checkOutDate: string;
+  numberOfGuests: number;
+  houseRules: string | null;
+  isOpen: boolean; // False once the guest has checked in or the booking is cancelled
+  preCheckedInAt: string | null;
+  expectedArrivalTime: string | null;
+  guest: {
+    fullName: string;
+    email: string | null;
+    address: string | null;
+    nationality: string | null;
+    idProofType: string | null;
+    idProofNumber: string | null;
+    hasIdProof: boolean;
+  };
+}
+
+// Stay Segments table - room and rate per date range once a stay is modified mid-stay (room move, extension, shortening)
+// A booking without segments occupies its rooms for the whole stay at its own price
+export const staySegments = pgTable("stay_segments", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  bookingId: integer("booking_id").notNull().references(() => bookings.id, { onDelete: 'cascade' }),
+  roomId: integer("room_id").notNull().references(() => rooms.id),
+  fromDate: date("from_date").notNull(), // First night in this room (yyyy-MM-dd)
+  toDate: date("to_date").notNull(), // Exclusive: the move-out / checkout date
+  nightlyRate: decimal("nightly_rate", { precision: 10, scale: 2 }), // Fixed price per night; null = room / rate plan price
+  notes: text("notes"), // e.g., reason for the room move
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_stay_segment_booking").on(table.bookingId),
+]);
+
+export type InsertStaySegment = typeof staySegments.$inferInsert;
+export type StaySegment = typeof staySegments.$inferSelect;
+
+// Booking Guests table - everyone staying on a booking besides the booking's own guest
+export const bookingGuests = pgTable("booking_guests", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  bookingId: integer("booking_id").notNull().references(() => bookings.id, { onDelete: 'cascade' }),
+  fullName: varchar("full_name", { length: 255 }).notNull(),
+  age: integer("age"),
+  gender: varchar("gender", { length: 10 }), // male, female, other
+  nationality: varchar("nationality", { length: 100 }), // null or "Indian" for Indian citizens
+  idProofType: varchar("id_proof_type", { length: 50 }),
+  idProofNumber: varchar("id_proof_number", { length: 100 }),
+  idProofImage: text("id_proof_image"), // Private object path from /api/guest-id-proofs
+  roomId: integer("room_id").references(() => rooms.id, { onDelete: 'set null' }), // Room within a group booking; null = the booking's room
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_booking_guest_booking").on(table.bookingId),
+]);
+
+export type BookingGuest = typeof bookingGuests.$inferSelect;
+
+export const bookingGuestInputSchema = z.object({
+  fullName: z.string().trim().min(1, "Name is required").max(255),
+  age: z.coerce.number().int().min(0).max(120).nullable().default(null),
+  gender: z.enum(["male", "female", "other"]).nullable().default(null),
+  nationality: z.string().trim().max(100).nullable().default(null).transform(value => value || null),
+  idProofType: z.string().trim().max(50).nullable().default(null).transform(value => value || null),
+  idProofNumber: z.string().trim().max(100).nullable().default(null).transform(value => value || null),
+  idProofImage: z.string().nullable().default(null),
+  roomId: z.coerce.number().int().positive().nullable().default(null),
+});
+
+export type BookingGuestInput = z.infer<typeof bookingGuestInputSchema>;
+
+// Kitchen stations a menu category's KOTs can be routed to
+export const KITCHEN_STATIONS = ["kitchen", "tandoor", "bar", "beverages", "desserts"] as const;
+
 // Menu Categories table (for organizing menu items with images and time slots)
 export const menuCategories = pgTable("menu_categories", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -195,6 +595,8 @@ export const menuCategories = pgTable("menu_categories", {
   imageUrl: text("image_url"), // Category image
   startTime: varchar("start_time", { length: 10 }), // e.g., "09:00"
   endTime: varchar("end_time", { length: 10 }), // e.g., "11:30"
+  daysOfWeek: jsonb("days_of_week").$type<number[]>(), // Days served (0 = Sunday); null means every day
+  station: varchar("station", { length: 50 }).notNull().default("kitchen"), // Kitchen station its KOTs go to
   displayOrder: integer("display_order").notNull().default(0), // For reordering categories
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
@@ -223,8 +625,13 @@ export const menuItems = pgTable("menu_items", {
   discountedPrice: decimal("discounted_price", { precision: 10, scale: 2 }), // Discounted price (if applicable)
   price: decimal("price", { precision: 10, scale: 2 }).notNull(), // Current selling price (for backward compatibility)
   isAvailable: boolean("is_available").notNull().default(true), // Availability toggle
+  stockedOut: boolean("stocked_out").notNull().default(false), // Made unavailable because an ingredient ran out
   hasVariants: boolean("has_variants").notNull().default(false), // True if item has variants
   hasAddOns: boolean("has_add_ons").notNull().default(false), // True if item has add-ons
+  hasModifiers: boolean("has_modifiers").notNull().default(false), // Kept in step with its modifier groups
+  startTime: varchar("start_time", { length: 5 }), // Optional serving window inside the category's, e.g., "12:00"
+  endTime: varchar("end_time", { length: 5 }),
+  daysOfWeek: jsonb("days_of_week").$type<number[]>(), // Days served (0 = Sunday); null means every day
   preparationTime: integer("preparation_time"), // In minutes
   imageUrl: text("image_url"), // Item image
   displayOrder: integer("display_order").notNull().default(0), // For reordering items within category
@@ -234,6 +641,8 @@ export const menuItems = pgTable("menu_items", {
 
 export const insertMenuItemSchema = createInsertSchema(menuItems).omit({
   id: true,
+  stockedOut: true,
+  hasModifiers: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -282,6 +691,175 @@ export const insertMenuItemAddOnSchema = createInsertSchema(menuItemAddOns).omit
 export type InsertMenuItemAddOn = z.infer<typeof insertMenuItemAddOnSchema>;
 export type MenuItemAddOn = typeof menuItemAddOns.$inferSelect;
 
+// Menu Item Modifier Groups table - choice groups like "Choose your bread" or "Spice level", with selection limits
+export const menuItemModifierGroups = pgTable("menu_item_modifier_groups", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  menuItemId: integer("menu_item_id").notNull().references(() => menuItems.id, { onDelete: 'cascade' }),
+  name: varchar("name", { length: 255 }).notNull(), // e.g., "Choose your bread", "Toppings"
+  minSelections: integer("min_selections").notNull().default(0), // 1 or more makes the group required
+  maxSelections: integer("max_selections").notNull().default(1),
+  displayOrder: integer("display_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_modifier_group_menu_item").on(table.menuItemId),
+]);
+
+export type MenuItemModifierGroup = typeof menuItemModifierGroups.$inferSelect;
+
+// Menu Item Modifiers table - the options of a modifier group; the price is added to every unit ordered
+export const menuItemModifiers = pgTable("menu_item_modifiers", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  groupId: integer("group_id").notNull().references(() => menuItemModifierGroups.id, { onDelete: 'cascade' }),
+  name: varchar("name", { length: 255 }).notNull(), // e.g., "Butter Naan", "Extra Spicy"
+  price: decimal("price", { precision: 10, scale: 2 }).notNull().default("0"),
+  isAvailable: boolean("is_available").notNull().default(true),
+  displayOrder: integer("display_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_modifier_group").on(table.groupId),
+]);
+
+export type MenuItemModifier = typeof menuItemModifiers.$inferSelect;
+
+export interface MenuItemModifierGroupWithOptions extends MenuItemModifierGroup {
+  modifiers: MenuItemModifier[];
+}
+
+// A modifier group with its options, as edited on the menu screen; options without an id are new
+export const modifierGroupInputSchema = z.object({
+  name: z.string().trim().min(1, "Group name is required").max(255),
+  minSelections: z.coerce.number().int().min(0).default(0),
+  maxSelections: z.coerce.number().int().min(1).default(1),
+  displayOrder: z.coerce.number().int().min(0).default(0),
+  modifiers: z.array(z.object({
+    id: z.coerce.number().int().positive().optional(),
+    name: z.string().trim().min(1, "Option name is required").max(255),
+    price: z.coerce.number().min(0).default(0),
+    isAvailable: z.boolean().default(true),
+  })).min(1, "Add at least one option"),
+}).refine(
+  (group) => group.minSelections <= group.maxSelections,
+  { message: "Minimum selections can't exceed the maximum", path: ["minSelections"] },
+).refine(
+  (group) => group.minSelections <= group.modifiers.length,
+  { message: "A required group needs at least as many options as it requires", path: ["modifiers"] },
+);
+
+export type ModifierGroupInput = z.infer<typeof modifierGroupInputSchema>;
+
+export const PRICE_RULE_TYPES = ["percent_off", "amount_off", "fixed_price"] as const;
+
+// Menu Price Rules table - time-limited prices such as happy hour or a breakfast combo
+export const menuPriceRules = pgTable("menu_price_rules", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").references(() => properties.id, { onDelete: 'cascade' }), // Nullable - null means "all properties"
+  name: varchar("name", { length: 255 }).notNull(), // Shown to guests, e.g., "Happy Hour"
+  categoryId: integer("category_id").references(() => menuCategories.id, { onDelete: 'cascade' }), // Scope; neither category nor item means the whole menu
+  menuItemId: integer("menu_item_id").references(() => menuItems.id, { onDelete: 'cascade' }),
+  ruleType: varchar("rule_type", { length: 20 }).notNull(), // percent_off, amount_off, fixed_price
+  value: decimal("value", { precision: 10, scale: 2 }).notNull(),
+  startTime: varchar("start_time", { length: 5 }).notNull(), // Local time, may run past midnight
+  endTime: varchar("end_time", { length: 5 }).notNull(),
+  daysOfWeek: jsonb("days_of_week").$type<number[]>(), // 0 = Sunday; null means every day
+  startDate: date("start_date"), // Optional campaign dates, inclusive
+  endDate: date("end_date"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_menu_price_rule_property").on(table.propertyId),
+]);
+
+export type MenuPriceRule = typeof menuPriceRules.$inferSelect;
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm");
+const daysOfWeek = z.array(z.number().int().min(0).max(6)).min(1, "Pick at least one day").nullable().default(null);
+
+export const menuPriceRuleInputSchema = z.object({
+  propertyId: z.coerce.number().int().positive().nullable().default(null),
+  name: z.string().trim().min(1, "Name is required").max(255),
+  categoryId: z.coerce.number().int().positive().nullable().default(null),
+  menuItemId: z.coerce.number().int().positive().nullable().default(null),
+  ruleType: z.enum(PRICE_RULE_TYPES),
+  value: z.coerce.number().positive(),
+  startTime: timeOfDay,
+  endTime: timeOfDay,
+  daysOfWeek,
+  startDate: z.string().date().nullable().default(null),
+  endDate: z.string().date().nullable().default(null),
+  isActive: z.boolean().default(true),
+}).refine(
+  (rule) => rule.startTime !== rule.endTime,
+  { message: "Start and end time can't be the same", path: ["endTime"] },
+).refine(
+  (rule) => rule.ruleType !== "percent_off" || rule.value <= 100,
+  { message: "A percentage can't exceed 100", path: ["value"] },
+).refine(
+  (rule) => !rule.startDate || !rule.endDate || rule.startDate <= rule.endDate,
+  { message: "End date must be on or after the start date", path: ["endDate"] },
+);
+
+export type MenuPriceRuleInput = z.infer<typeof menuPriceRuleInputSchema>;
+
+// The price rule behind a public menu price, so guests can see the offer and when it ends
+export interface AppliedPriceRule {
+  id: number;
+  name: string;
+  endTime: string;
+}
+
+// Dining Tables table - café / restaurant tables per property (each gets its own ordering QR code)
+export const diningTables = pgTable("dining_tables", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  tableNumber: varchar("table_number", { length: 20 }).notNull(), // e.g., "T1", "Patio 3"
+  seats: integer("seats").notNull().default(4),
+  area: varchar("area", { length: 100 }), // e.g., "Indoor", "Terrace"
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_dining_table_property_number").on(table.propertyId, table.tableNumber),
+]);
+
+export const insertDiningTableSchema = z.object({
+  propertyId: z.number().int(),
+  tableNumber: z.string().min(1).max(20),
+  seats: z.number().int().optional(),
+  area: z.string().max(100).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type InsertDiningTable = z.infer<typeof insertDiningTableSchema>;
+export type DiningTable = typeof diningTables.$inferSelect;
+
+// Table Tabs table - running tab of a seated party; orders accumulate until it is settled or merged into a room bill
+export const tableTabs = pgTable("table_tabs", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull().references(() => properties.id),
+  tableId: integer("table_id").notNull().references(() => diningTables.id),
+  status: varchar("status", { length: 20 }).notNull().default("open"), // open, settled, merged
+  customerName: varchar("customer_name", { length: 255 }),
+  customerPhone: varchar("customer_phone", { length: 50 }),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }), // Set when the tab is closed
+  gstAmount: decimal("gst_amount", { precision: 10, scale: 2 }),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }),
+  paymentMethod: varchar("payment_method", { length: 50 }), // Settled tabs
+  bookingId: integer("booking_id").references(() => bookings.id), // Merged tabs: the room bill that carries the orders
+  openedAt: timestamp("opened_at").defaultNow(),
+  closedAt: timestamp("closed_at"),
+  closedBy: varchar("closed_by"),
+}, (table) => [
+  index("idx_table_tab_property").on(table.propertyId),
+  // At most one open tab per table
+  uniqueIndex("uq_table_tab_open").on(table.tableId).where(sql`status = 'open'`),
+]);
+
+export type InsertTableTab = typeof tableTabs.$inferInsert;
+export type TableTab = typeof tableTabs.$inferSelect;
+
 // Orders table
 export const orders = pgTable("orders", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -289,6 +867,8 @@ export const orders = pgTable("orders", {
   roomId: integer("room_id").references(() => rooms.id),
   bookingId: integer("booking_id").references(() => bookings.id),
   guestId: integer("guest_id").references(() => guests.id),
+  tableId: integer("table_id").references(() => diningTables.id), // Dine-in orders
+  tabId: integer("tab_id").references(() => tableTabs.id), // The table tab the order is billed on
   items: jsonb("items").notNull(),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   status: varchar("status", { length: 20 }).notNull().default("pending"),
@@ -297,12 +877,27 @@ export const orders = pgTable("orders", {
   customerName: varchar("customer_name", { length: 255 }),
   customerPhone: varchar("customer_phone", { length: 50 }),
   specialInstructions: text("special_instructions"),
+  preparingAt: timestamp("preparing_at"), // Kitchen accepted the order
+  readyAt: timestamp("ready_at"),
+  deliveredAt: timestamp("delivered_at"),
+  cancelledAt: timestamp("cancelled_at"), // Rejected or cancelled
+  statusReason: text("status_reason"), // Why the order was rejected or cancelled
+  targetPrepMinutes: integer("target_prep_minutes"), // Slowest item's preparationTime when preparation started
+  trackingToken: varchar("tracking_token", { length: 64 }).unique(), // Unguessable token for the guest's public tracking page
+  notifyWhenReady: boolean("notify_when_ready").notNull().default(false), // Guest asked for a WhatsApp message once the order is ready
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
+  preparingAt: true,
+  readyAt: true,
+  deliveredAt: true,
+  cancelledAt: true,
+  statusReason: true,
+  targetPrepMinutes: true,
+  trackingToken: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -315,6 +910,155 @@ export const insertOrderSchema = createInsertSchema(orders).omit({
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
 
+// What the guest tracking page sees of an order - no contact details or internal ids
+export interface PublicOrderStatus {
+  orderNumber: number;
+  status: string;
+  orderType: string | null;
+  propertyName: string | null;
+  location: string | null; // "Room 101", "Table T4" or null for café pickup
+  items: { name: string; quantity: number; cancelled: boolean }[];
+  totalAmount: string;
+  statusReason: string | null;
+  targetPrepMinutes: number | null;
+  notifyWhenReady: boolean;
+  createdAt: string | null;
+  preparingAt: string | null;
+  readyAt: string | null;
+  deliveredAt: string | null;
+  cancelledAt: string | null;
+}
+
+export interface OrderItemAddOn {
+  addOnId: number | null; // null for lines backfilled from orders that only stored a name
+  name: string;
+  price: number;
+  quantity: number; // Portions across the whole line
+}
+
+export interface OrderItemModifier {
+  modifierId: number | null;
+  groupName: string;
+  name: string;
+  price: number; // Per unit
+}
+
+// Order Items table - one row per order line, kept in step with orders.items for item-level reporting
+export const orderItems = pgTable("order_items", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  menuItemId: integer("menu_item_id").references(() => menuItems.id, { onDelete: 'set null' }), // Null for custom lines or deleted items
+  variantId: integer("variant_id").references(() => menuItemVariants.id, { onDelete: 'set null' }),
+  itemName: varchar("item_name", { length: 255 }).notNull(), // Snapshot at order time
+  variantName: varchar("variant_name", { length: 255 }),
+  addOns: jsonb("add_ons").$type<OrderItemAddOn[]>().notNull().default([]),
+  modifiers: jsonb("modifiers").$type<OrderItemModifier[]>().notNull().default([]), // Chosen on every unit of the line
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(), // Per unit including modifiers and add-ons
+  lineTotal: decimal("line_total", { precision: 10, scale: 2 }).notNull(),
+  notes: text("notes"),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // Follows the order status unless the line is cancelled
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_order_item_order").on(table.orderId),
+  index("idx_order_item_menu_item").on(table.menuItemId),
+]);
+
+export type InsertOrderItem = typeof orderItems.$inferInsert;
+export type OrderItem = typeof orderItems.$inferSelect;
+
+// Order Status History table - every status change of an order with who made it
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  fromStatus: varchar("from_status", { length: 20 }).notNull(),
+  toStatus: varchar("to_status", { length: 20 }).notNull(),
+  reason: text("reason"),
+  changedBy: varchar("changed_by"),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_order_status_history_order").on(table.orderId),
+]);
+
+export type OrderStatusChange = typeof orderStatusHistory.$inferSelect;
+
+// Kitchen Printers table - network ESC/POS printers that receive the KOTs of one station
+export const kitchenPrinters = pgTable("kitchen_printers", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  station: varchar("station", { length: 50 }).notNull(), // One of KITCHEN_STATIONS
+  name: varchar("name", { length: 100 }).notNull(), // e.g., "Tandoor Printer"
+  host: varchar("host", { length: 255 }).notNull(), // IP address or hostname on the property network
+  port: integer("port").notNull().default(9100), // Raw TCP printing port
+  charsPerLine: integer("chars_per_line").notNull().default(42), // 42 for 80mm paper, 32 for 58mm
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_kitchen_printer_property_station").on(table.propertyId, table.station),
+]);
+
+export const insertKitchenPrinterSchema = z.object({
+  propertyId: z.number().int(),
+  station: z.string().min(1).max(50),
+  name: z.string().min(1).max(100),
+  host: z.string().min(1).max(255),
+  port: z.number().int().optional(),
+  charsPerLine: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type InsertKitchenPrinter = z.infer<typeof insertKitchenPrinterSchema>;
+export type KitchenPrinter = typeof kitchenPrinters.$inferSelect;
+
+// KOT Sequences table - daily KOT counters per property
+export const kotSequences = pgTable("kot_sequences", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  businessDate: varchar("business_date", { length: 10 }).notNull(), // yyyy-MM-dd
+  lastNumber: integer("last_number").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_kot_sequence_property_date").on(table.propertyId, table.businessDate),
+]);
+
+export interface KotLine {
+  orderItemId: number | null;
+  name: string;
+  variantName: string | null;
+  addOns: string[]; // e.g., "2x Extra Cheese"
+  modifiers?: string[]; // e.g., "Bread: Butter Naan"; missing on KOTs issued before modifiers
+  quantity: number;
+  notes: string | null;
+}
+
+// KOTs table - kitchen order tickets, one per order and station
+export const kots = pgTable("kots", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  station: varchar("station", { length: 50 }).notNull(),
+  businessDate: varchar("business_date", { length: 10 }).notNull(), // yyyy-MM-dd
+  kotNumber: integer("kot_number").notNull(), // Restarts at 1 every day per property
+  lines: jsonb("lines").$type<KotLine[]>().notNull().default([]),
+  status: varchar("status", { length: 20 }).notNull().default("active"), // active, voided
+  printCount: integer("print_count").notNull().default(0), // More than 1 means reprinted
+  lastPrintedAt: timestamp("last_printed_at"),
+  lastPrintedBy: varchar("last_printed_by"),
+  voidedAt: timestamp("voided_at"),
+  voidedBy: varchar("voided_by"),
+  voidReason: text("void_reason"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_kot_order").on(table.orderId),
+  uniqueIndex("uq_kot_property_date_number").on(table.propertyId, table.businessDate, table.kotNumber),
+]);
+
+export type Kot = typeof kots.$inferSelect;
+
 // Extra Services table
 export const extraServices = pgTable("extra_services", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -359,14 +1103,19 @@ export const bills = pgTable("bills", {
   discountValue: decimal("discount_value", { precision: 10, scale: 2 }), // The % or fixed amount entered
   discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default("0"), // The calculated discount amount
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
-  advancePaid: decimal("advance_paid", { precision: 10, scale: 2 }).notNull().default("0"), // Advance amount received at booking
+  advancePaid: decimal("advance_paid", { precision: 10, scale: 2 }).notNull().default("0"), // Deposits applied from the booking(s) at checkout
   balanceAmount: decimal("balance_amount", { precision: 10, scale: 2 }).notNull().default("0"), // Remaining amount to be paid
-  paymentStatus: varchar("payment_status", { length: 20 }).notNull().default("unpaid"),
-  paymentMethod: varchar("payment_method", { length: 50 }),
-  paidAt: timestamp("paid_at"),
+  paymentStatus: varchar("payment_status", { length: 20 }).notNull().default("unpaid"), // unpaid, pending, partial, paid (derived from bill_payments)
+  paymentMethod: varchar("payment_method", { length: 50 }), // Method of the payments received, or "Split" when several were used
+  paidAt: timestamp("paid_at"), // When the balance reached zero
   dueDate: timestamp("due_date"), // Optional due date for pending payments
   pendingReason: text("pending_reason"), // Optional note for why payment is pending (e.g., "Corporate client - monthly billing")
   mergedBookingIds: integer("merged_booking_ids").array(),
+  invoiceNumber: varchar("invoice_number", { length: 30 }).unique(), // Per-property, per-financial-year sequence (e.g., HTZ/24-25/000123)
+  invoiceDate: timestamp("invoice_date"),
+  guestGstin: varchar("guest_gstin", { length: 15 }), // Frozen from the guest at checkout for B2B invoices
+  guestCompanyName: varchar("guest_company_name", { length: 255 }),
+  invoiceAccessToken: varchar("invoice_access_token", { length: 64 }), // Unguessable token for the public PDF link (WhatsApp)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -380,6 +1129,107 @@ export const insertBillSchema = createInsertSchema(bills).omit({
 export type InsertBill = z.infer<typeof insertBillSchema>;
 export type Bill = typeof bills.$inferSelect;
 
+// Invoice Sequences table - gap-free invoice counters per property and financial year
+export const invoiceSequences = pgTable("invoice_sequences", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  financialYear: varchar("financial_year", { length: 5 }).notNull(), // e.g., "24-25" (April to March)
+  lastNumber: integer("last_number").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_invoice_sequence_property_fy").on(table.propertyId, table.financialYear),
+]);
+
+export type InvoiceSequence = typeof invoiceSequences.$inferSelect;
+
+// Tax Profiles table - per-property GST configuration used at checkout
+export const taxProfiles = pgTable("tax_profiles", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }).unique(),
+  gstin: varchar("gstin", { length: 15 }), // Supplier GSTIN (first 2 digits = registered state code)
+  stateCode: varchar("state_code", { length: 2 }).notNull(), // GST state code where the property is located (e.g., "02" Himachal Pradesh)
+  foodTaxRate: decimal("food_tax_rate", { precision: 5, scale: 2 }).notNull().default("5"), // Restaurant F&B GST %
+  extraServiceTaxRate: decimal("extra_service_tax_rate", { precision: 5, scale: 2 }).notNull().default("18"), // Extra services (taxi, tours, laundry) GST %
+  serviceChargeRate: decimal("service_charge_rate", { precision: 5, scale: 2 }).notNull().default("10"), // Applied to room charges
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type InsertTaxProfile = Omit<typeof taxProfiles.$inferInsert, "id" | "createdAt">;
+export type TaxProfile = typeof taxProfiles.$inferSelect;
+
+// Tax Slabs table - room GST rate by nightly tariff per room (e.g., up to 7500 → 5%, above → 18%)
+export const taxSlabs = pgTable("tax_slabs", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  taxProfileId: integer("tax_profile_id").notNull().references(() => taxProfiles.id, { onDelete: 'cascade' }),
+  minTariff: decimal("min_tariff", { precision: 10, scale: 2 }).notNull().default("0"), // Inclusive lower bound of nightly tariff
+  maxTariff: decimal("max_tariff", { precision: 10, scale: 2 }), // Inclusive upper bound (null = no upper limit)
+  rate: decimal("rate", { precision: 5, scale: 2 }).notNull(), // Total GST % (split into CGST/SGST or charged as IGST)
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_tax_slab_profile").on(table.taxProfileId),
+]);
+
+export type InsertTaxSlab = Omit<typeof taxSlabs.$inferInsert, "id" | "createdAt">;
+export type TaxSlab = typeof taxSlabs.$inferSelect;
+
+// Bill Tax Lines table - GST breakdown persisted on each bill at checkout
+export const billTaxLines = pgTable("bill_tax_lines", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  billId: integer("bill_id").notNull().references(() => bills.id, { onDelete: 'cascade' }),
+  category: varchar("category", { length: 20 }).notNull(), // room, food, extra
+  component: varchar("component", { length: 10 }).notNull(), // CGST, SGST, IGST
+  rate: decimal("rate", { precision: 5, scale: 2 }).notNull(), // Component rate (e.g., 2.5 for CGST on a 5% slab)
+  taxableAmount: decimal("taxable_amount", { precision: 10, scale: 2 }).notNull(),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_bill_tax_line_bill").on(table.billId),
+]);
+
+export type InsertBillTaxLine = Omit<typeof billTaxLines.$inferInsert, "id" | "createdAt">;
+export type BillTaxLine = typeof billTaxLines.$inferSelect;
+
+// Bill Line Items table - itemised invoice frozen at checkout, plus post-checkout adjustments
+export const billLineItems = pgTable("bill_line_items", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  billId: integer("bill_id").notNull().references(() => bills.id, { onDelete: 'cascade' }),
+  lineType: varchar("line_type", { length: 20 }).notNull(), // room_night, food, extra_service, service_charge, tax, discount, credit, debit, cancellation_fee
+  description: text("description").notNull(),
+  referenceId: integer("reference_id"), // Room, order, or extra service ID depending on lineType
+  serviceDate: date("service_date", { mode: "string" }), // yyyy-MM-dd (night of stay / order date)
+  quantity: integer("quantity").notNull().default(1),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Signed: negative for discounts and credits
+  reason: text("reason"), // Required for credit/debit adjustments
+  createdBy: varchar("created_by"), // User who added an adjustment
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_bill_line_item_bill").on(table.billId),
+]);
+
+export type InsertBillLineItem = Omit<typeof billLineItems.$inferInsert, "id" | "createdAt">;
+export type BillLineItem = typeof billLineItems.$inferSelect;
+
+// Bill Payments table - ledger of instalments and refunds; the bill balance is derived from it
+export const billPayments = pgTable("bill_payments", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  billId: integer("bill_id").notNull().references(() => bills.id, { onDelete: 'cascade' }),
+  entryType: varchar("entry_type", { length: 20 }).notNull().default("payment"), // payment, refund
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Always positive; entryType gives the direction
+  paymentMethod: varchar("payment_method", { length: 50 }).notNull(), // Cash, UPI, Card, Bank Transfer, Cheque
+  reference: varchar("reference", { length: 100 }), // UPI transaction ID, cheque number, card approval code
+  notes: text("notes"), // Reason for refunds
+  receivedBy: varchar("received_by"), // User who recorded the entry
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_bill_payment_bill").on(table.billId),
+]);
+
+export type InsertBillPayment = Omit<typeof billPayments.$inferInsert, "id" | "createdAt">;
+export type BillPayment = typeof billPayments.$inferSelect;
+
 // Enquiries table
 export const enquiries = pgTable("enquiries", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -398,7 +1248,7 @@ export const enquiries = pgTable("enquiries", {
   source: varchar("source", { length: 50 }).notNull().default("Walk-in"), // Walk-in, Online, Booking.com, MMT, Airbnb, OTA, Travel Agent, Others
   travelAgentId: integer("travel_agent_id").references(() => travelAgents.id), // Only used when source is "Travel Agent"
   priceQuoted: decimal("price_quoted", { precision: 10, scale: 2 }),
-  advanceAmount: decimal("advance_amount", { precision: 10, scale: 2 }),
+  advanceAmount: decimal("advance_amount", { precision: 10, scale: 2 }), // Advance requested; net of the deposits ledger once money is received
   paymentStatus: varchar("payment_status", { length: 20 }).notNull().default("pending"), // pending, received, refunded
   status: varchar("status", { length: 20 }).notNull().default("new"),
   stripePaymentIntentId: varchar("stripe_payment_intent_id", { length: 255 }),
@@ -426,6 +1276,54 @@ export const insertEnquirySchema = createInsertSchema(enquiries).omit({
 export type InsertEnquiry = z.infer<typeof insertEnquirySchema>;
 export type Enquiry = typeof enquiries.$inferSelect;
 
+// Deposits table - ledger of advances held against an enquiry and, once confirmed, its booking
+export const deposits = pgTable("deposits", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  enquiryId: integer("enquiry_id").references(() => enquiries.id, { onDelete: 'set null' }),
+  bookingId: integer("booking_id").references(() => bookings.id, { onDelete: 'cascade' }), // Set when the enquiry is confirmed
+  billId: integer("bill_id").references(() => bills.id, { onDelete: 'set null' }), // Set when applied to the bill at checkout
+  entryType: varchar("entry_type", { length: 20 }).notNull(), // received, refunded, transfer_in, transfer_out, adjustment
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Signed: negative for refunds and transfers out
+  paymentMethod: varchar("payment_method", { length: 50 }),
+  reference: varchar("reference", { length: 100 }),
+  notes: text("notes"),
+  relatedBookingId: integer("related_booking_id"), // Other booking of a transfer
+  recordedBy: varchar("recorded_by"),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_deposit_booking").on(table.bookingId),
+  index("idx_deposit_enquiry").on(table.enquiryId),
+]);
+
+export type InsertDeposit = Omit<typeof deposits.$inferInsert, "id" | "createdAt">;
+export type Deposit = typeof deposits.$inferSelect;
+
+// Daily Stats table - night audit snapshot of one business date per property
+export const dailyStats = pgTable("daily_stats", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  businessDate: date("business_date").notNull(), // yyyy-MM-dd closed by the audit
+  totalRooms: integer("total_rooms").notNull().default(0),
+  roomsSold: integer("rooms_sold").notNull().default(0), // Rooms with a posted room night
+  occupancyRate: decimal("occupancy_rate", { precision: 5, scale: 2 }).notNull().default("0"), // %
+  roomRevenue: decimal("room_revenue", { precision: 12, scale: 2 }).notNull().default("0"), // Before tax
+  adr: decimal("adr", { precision: 10, scale: 2 }).notNull().default("0"), // Room revenue / rooms sold
+  revpar: decimal("revpar", { precision: 10, scale: 2 }).notNull().default("0"), // Room revenue / total rooms
+  arrivals: integer("arrivals").notNull().default(0),
+  departures: integer("departures").notNull().default(0),
+  noShows: integer("no_shows").notNull().default(0),
+  overstays: integer("overstays").notNull().default(0),
+  report: jsonb("report").$type<NightAuditReport>().notNull(), // Postings, no-shows and overstays behind the numbers
+  auditedBy: varchar("audited_by"), // Null when run by the scheduler
+  auditedAt: timestamp("audited_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_daily_stats_property_date").on(table.propertyId, table.businessDate),
+]);
+
+export type DailyStat = typeof dailyStats.$inferSelect;
+export type InsertDailyStat = typeof dailyStats.$inferInsert;
+
 // Message Templates table
 export const messageTemplates = pgTable("message_templates", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -573,6 +1471,73 @@ export const insertPropertyExpenseSchema = createInsertSchema(propertyExpenses).
 export type InsertPropertyExpense = z.infer<typeof insertPropertyExpenseSchema>;
 export type PropertyExpense = typeof propertyExpenses.$inferSelect;
 
+export const STOCK_UNITS = ["kg", "g", "l", "ml", "pcs"] as const;
+
+// Stock Items table - kitchen ingredients and supplies tracked per property
+export const stockItems = pgTable("stock_items", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  name: varchar("name", { length: 255 }).notNull(),
+  unit: varchar("unit", { length: 10 }).notNull(), // One of STOCK_UNITS
+  currentQuantity: decimal("current_quantity", { precision: 12, scale: 3 }).notNull().default("0"), // Only changed through stock movements
+  reorderLevel: decimal("reorder_level", { precision: 12, scale: 3 }).notNull().default("0"), // Low-stock alert at or below this
+  costPerUnit: decimal("cost_per_unit", { precision: 10, scale: 2 }), // Last purchase price
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_stock_item_property_name").on(table.propertyId, table.name),
+]);
+
+export const insertStockItemSchema = z.object({
+  propertyId: z.number().int(),
+  name: z.string().min(1).max(255),
+  unit: z.string().min(1).max(10),
+  reorderLevel: z.string().optional(),
+  costPerUnit: z.string().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type InsertStockItem = z.infer<typeof insertStockItemSchema>;
+export type StockItem = typeof stockItems.$inferSelect;
+
+// Recipe Ingredients table - stock used per portion of a menu item; variant rows replace the item's base recipe
+export const recipeIngredients = pgTable("recipe_ingredients", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  menuItemId: integer("menu_item_id").notNull().references(() => menuItems.id, { onDelete: 'cascade' }),
+  variantId: integer("variant_id").references(() => menuItemVariants.id, { onDelete: 'cascade' }), // Null for the base recipe
+  stockItemId: integer("stock_item_id").notNull().references(() => stockItems.id, { onDelete: 'cascade' }),
+  quantity: decimal("quantity", { precision: 12, scale: 3 }).notNull(), // In the stock item's unit
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_recipe_ingredient_menu_item").on(table.menuItemId),
+  index("idx_recipe_ingredient_stock_item").on(table.stockItemId),
+]);
+
+export type RecipeIngredient = typeof recipeIngredients.$inferSelect;
+
+// Stock Movements table - append-only ledger behind stock_items.current_quantity
+export const stockMovements = pgTable("stock_movements", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  stockItemId: integer("stock_item_id").notNull().references(() => stockItems.id, { onDelete: 'cascade' }),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  movementType: varchar("movement_type", { length: 20 }).notNull(), // purchase, consumption, adjustment, wastage
+  quantity: decimal("quantity", { precision: 12, scale: 3 }).notNull(), // Positive in, negative out
+  balanceAfter: decimal("balance_after", { precision: 12, scale: 3 }).notNull(),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }),
+  orderId: integer("order_id").references(() => orders.id, { onDelete: 'set null' }), // Consumption by a delivered order
+  expenseId: integer("expense_id").references(() => propertyExpenses.id, { onDelete: 'set null' }), // Purchase posted to expenses
+  vendorName: varchar("vendor_name", { length: 255 }),
+  notes: text("notes"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_stock_movement_item").on(table.stockItemId),
+  index("idx_stock_movement_order").on(table.orderId),
+]);
+
+export type StockMovement = typeof stockMovements.$inferSelect;
+
 // Bank Transactions table (for imported transactions from bank statements)
 export const bankTransactions = pgTable("bank_transactions", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -605,8 +1570,13 @@ export type InsertBankTransaction = z.infer<typeof insertBankTransactionSchema>;
 export type BankTransaction = typeof bankTransactions.$inferSelect;
 
 // Relations
-export const propertiesRelations = relations(properties, ({ many }) => ({
+export const propertiesRelations = relations(properties, ({ one, many }) => ({
   rooms: many(rooms),
+  roomTypes: many(roomTypes),
+  ratePlans: many(ratePlans),
+  taxProfile: one(taxProfiles),
+  cancellationPolicies: many(cancellationPolicies),
+  dailyStats: many(dailyStats),
   bookings: many(bookings),
   menuItems: many(menuItems),
   orders: many(orders),
@@ -675,15 +1645,77 @@ export const roomsRelations = relations(rooms, ({ one, many }) => ({
     fields: [rooms.propertyId],
     references: [properties.id],
   }),
+  roomTypeRef: one(roomTypes, {
+    fields: [rooms.roomTypeId],
+    references: [roomTypes.id],
+  }),
   bookings: many(bookings),
+  staySegments: many(staySegments),
   orders: many(orders),
   enquiries: many(enquiries),
 }));
 
+export const roomTypesRelations = relations(roomTypes, ({ one, many }) => ({
+  property: one(properties, {
+    fields: [roomTypes.propertyId],
+    references: [properties.id],
+  }),
+  rooms: many(rooms),
+  rates: many(ratePlanRates),
+}));
+
+export const ratePlansRelations = relations(ratePlans, ({ one, many }) => ({
+  property: one(properties, {
+    fields: [ratePlans.propertyId],
+    references: [properties.id],
+  }),
+  rates: many(ratePlanRates),
+  bookings: many(bookings),
+  cancellationPolicies: many(cancellationPolicies),
+}));
+
+export const cancellationPoliciesRelations = relations(cancellationPolicies, ({ one }) => ({
+  property: one(properties, {
+    fields: [cancellationPolicies.propertyId],
+    references: [properties.id],
+  }),
+  ratePlan: one(ratePlans, {
+    fields: [cancellationPolicies.ratePlanId],
+    references: [ratePlans.id],
+  }),
+}));
+
+export const ratePlanRatesRelations = relations(ratePlanRates, ({ one }) => ({
+  ratePlan: one(ratePlans, {
+    fields: [ratePlanRates.ratePlanId],
+    references: [ratePlans.id],
+  }),
+  roomType: one(roomTypes, {
+    fields: [ratePlanRates.roomTypeId],
+    references: [roomTypes.id],
+  }),
+}));
+
 export const guestsRelations = relations(guests, ({ many }) => ({
   bookings: many(bookings),
   orders: many(orders),
   bills: many(bills),
+  formCRegistrations: many(formCRegistrations),
+}));
+
+export const formCRegistrationsRelations = relations(formCRegistrations, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [formCRegistrations.bookingId],
+    references: [bookings.id],
+  }),
+  guest: one(guests, {
+    fields: [formCRegistrations.guestId],
+    references: [guests.id],
+  }),
+  property: one(properties, {
+    fields: [formCRegistrations.propertyId],
+    references: [properties.id],
+  }),
 }));
 
 export const bookingsRelations = relations(bookings, ({ one, many }) => ({
@@ -699,10 +1731,39 @@ export const bookingsRelations = relations(bookings, ({ one, many }) => ({
     fields: [bookings.guestId],
     references: [guests.id],
   }),
+  ratePlan: one(ratePlans, {
+    fields: [bookings.ratePlanId],
+    references: [ratePlans.id],
+  }),
   orders: many(orders),
   extraServices: many(extraServices),
   bills: many(bills),
   communications: many(communications),
+  deposits: many(deposits),
+  staySegments: many(staySegments),
+  bookingGuests: many(bookingGuests),
+}));
+
+export const staySegmentsRelations = relations(staySegments, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [staySegments.bookingId],
+    references: [bookings.id],
+  }),
+  room: one(rooms, {
+    fields: [staySegments.roomId],
+    references: [rooms.id],
+  }),
+}));
+
+export const bookingGuestsRelations = relations(bookingGuests, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [bookingGuests.bookingId],
+    references: [bookings.id],
+  }),
+  room: one(rooms, {
+    fields: [bookingGuests.roomId],
+    references: [rooms.id],
+  }),
 }));
 
 export const menuItemsRelations = relations(menuItems, ({ one }) => ({
@@ -712,7 +1773,37 @@ export const menuItemsRelations = relations(menuItems, ({ one }) => ({
   }),
 }));
 
-export const ordersRelations = relations(orders, ({ one }) => ({
+export const menuItemModifierGroupsRelations = relations(menuItemModifierGroups, ({ one, many }) => ({
+  menuItem: one(menuItems, {
+    fields: [menuItemModifierGroups.menuItemId],
+    references: [menuItems.id],
+  }),
+  modifiers: many(menuItemModifiers),
+}));
+
+export const menuItemModifiersRelations = relations(menuItemModifiers, ({ one }) => ({
+  group: one(menuItemModifierGroups, {
+    fields: [menuItemModifiers.groupId],
+    references: [menuItemModifierGroups.id],
+  }),
+}));
+
+export const menuPriceRulesRelations = relations(menuPriceRules, ({ one }) => ({
+  property: one(properties, {
+    fields: [menuPriceRules.propertyId],
+    references: [properties.id],
+  }),
+  category: one(menuCategories, {
+    fields: [menuPriceRules.categoryId],
+    references: [menuCategories.id],
+  }),
+  menuItem: one(menuItems, {
+    fields: [menuPriceRules.menuItemId],
+    references: [menuItems.id],
+  }),
+}));
+
+export const ordersRelations = relations(orders, ({ one, many }) => ({
   property: one(properties, {
     fields: [orders.propertyId],
     references: [properties.id],
@@ -729,6 +1820,120 @@ export const ordersRelations = relations(orders, ({ one }) => ({
     fields: [orders.guestId],
     references: [guests.id],
   }),
+  table: one(diningTables, {
+    fields: [orders.tableId],
+    references: [diningTables.id],
+  }),
+  tab: one(tableTabs, {
+    fields: [orders.tabId],
+    references: [tableTabs.id],
+  }),
+  lineItems: many(orderItems),
+  kots: many(kots),
+  statusHistory: many(orderStatusHistory),
+}));
+
+export const diningTablesRelations = relations(diningTables, ({ one, many }) => ({
+  property: one(properties, {
+    fields: [diningTables.propertyId],
+    references: [properties.id],
+  }),
+  tabs: many(tableTabs),
+}));
+
+export const tableTabsRelations = relations(tableTabs, ({ one, many }) => ({
+  property: one(properties, {
+    fields: [tableTabs.propertyId],
+    references: [properties.id],
+  }),
+  table: one(diningTables, {
+    fields: [tableTabs.tableId],
+    references: [diningTables.id],
+  }),
+  booking: one(bookings, {
+    fields: [tableTabs.bookingId],
+    references: [bookings.id],
+  }),
+  orders: many(orders),
+}));
+
+export const stockItemsRelations = relations(stockItems, ({ one, many }) => ({
+  property: one(properties, {
+    fields: [stockItems.propertyId],
+    references: [properties.id],
+  }),
+  recipeIngredients: many(recipeIngredients),
+  movements: many(stockMovements),
+}));
+
+export const recipeIngredientsRelations = relations(recipeIngredients, ({ one }) => ({
+  menuItem: one(menuItems, {
+    fields: [recipeIngredients.menuItemId],
+    references: [menuItems.id],
+  }),
+  variant: one(menuItemVariants, {
+    fields: [recipeIngredients.variantId],
+    references: [menuItemVariants.id],
+  }),
+  stockItem: one(stockItems, {
+    fields: [recipeIngredients.stockItemId],
+    references: [stockItems.id],
+  }),
+}));
+
+export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
+  stockItem: one(stockItems, {
+    fields: [stockMovements.stockItemId],
+    references: [stockItems.id],
+  }),
+  order: one(orders, {
+    fields: [stockMovements.orderId],
+    references: [orders.id],
+  }),
+  expense: one(propertyExpenses, {
+    fields: [stockMovements.expenseId],
+    references: [propertyExpenses.id],
+  }),
+}));
+
+export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderStatusHistory.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const kitchenPrintersRelations = relations(kitchenPrinters, ({ one }) => ({
+  property: one(properties, {
+    fields: [kitchenPrinters.propertyId],
+    references: [properties.id],
+  }),
+}));
+
+export const kotsRelations = relations(kots, ({ one }) => ({
+  property: one(properties, {
+    fields: [kots.propertyId],
+    references: [properties.id],
+  }),
+  order: one(orders, {
+    fields: [kots.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderItems.orderId],
+    references: [orders.id],
+  }),
+  menuItem: one(menuItems, {
+    fields: [orderItems.menuItemId],
+    references: [menuItems.id],
+  }),
+  variant: one(menuItemVariants, {
+    fields: [orderItems.variantId],
+    references: [menuItemVariants.id],
+  }),
 }));
 
 // Audit Log table - immutable append-only audit trail
@@ -908,7 +2113,7 @@ export const extraServicesRelations = relations(extraServices, ({ one }) => ({
   }),
 }));
 
-export const billsRelations = relations(bills, ({ one }) => ({
+export const billsRelations = relations(bills, ({ one, many }) => ({
   booking: one(bookings, {
     fields: [bills.bookingId],
     references: [bookings.id],
@@ -917,6 +2122,67 @@ export const billsRelations = relations(bills, ({ one }) => ({
     fields: [bills.guestId],
     references: [guests.id],
   }),
+  taxLines: many(billTaxLines),
+  lineItems: many(billLineItems),
+  payments: many(billPayments),
+}));
+
+export const depositsRelations = relations(deposits, ({ one }) => ({
+  enquiry: one(enquiries, {
+    fields: [deposits.enquiryId],
+    references: [enquiries.id],
+  }),
+  booking: one(bookings, {
+    fields: [deposits.bookingId],
+    references: [bookings.id],
+  }),
+  bill: one(bills, {
+    fields: [deposits.billId],
+    references: [bills.id],
+  }),
+}));
+
+export const dailyStatsRelations = relations(dailyStats, ({ one }) => ({
+  property: one(properties, {
+    fields: [dailyStats.propertyId],
+    references: [properties.id],
+  }),
+}));
+
+export const billPaymentsRelations = relations(billPayments, ({ one }) => ({
+  bill: one(bills, {
+    fields: [billPayments.billId],
+    references: [bills.id],
+  }),
+}));
+
+export const billLineItemsRelations = relations(billLineItems, ({ one }) => ({
+  bill: one(bills, {
+    fields: [billLineItems.billId],
+    references: [bills.id],
+  }),
+}));
+
+export const billTaxLinesRelations = relations(billTaxLines, ({ one }) => ({
+  bill: one(bills, {
+    fields: [billTaxLines.billId],
+    references: [bills.id],
+  }),
+}));
+
+export const taxProfilesRelations = relations(taxProfiles, ({ one, many }) => ({
+  property: one(properties, {
+    fields: [taxProfiles.propertyId],
+    references: [properties.id],
+  }),
+  slabs: many(taxSlabs),
+}));
+
+export const taxSlabsRelations = relations(taxSlabs, ({ one }) => ({
+  taxProfile: one(taxProfiles, {
+    fields: [taxSlabs.taxProfileId],
+    references: [taxProfiles.id],
+  }),
 }));
 
 export const enquiriesRelations = relations(enquiries, ({ one, many }) => ({
@@ -929,6 +2195,7 @@ export const enquiriesRelations = relations(enquiries, ({ one, many }) => ({
     references: [rooms.id],
   }),
   communications: many(communications),
+  deposits: many(deposits),
 }));
 
 export const messageTemplatesRelations = relations(messageTemplates, ({ many }) => ({
@@ -950,6 +2217,153 @@ export const communicationsRelations = relations(communications, ({ one }) => ({
   }),
 }));
 
+// Night Audit Report (stored on daily_stats.report)
+export interface NightAuditReport {
+  postings: Array<{
+    bookingId: number;
+    guestName: string;
+    rooms: string;
+    amount: number; // Room revenue of the business date
+  }>;
+  noShows: Array<{
+    bookingId: number;
+    guestName: string;
+    checkInDate: string;
+    charge: number; // Fee + GST billed under the cancellation policy
+    refund: number;
+  }>;
+  overstays: Array<{
+    bookingId: number;
+    guestName: string;
+    rooms: string;
+    checkOutDate: string;
+    daysOverdue: number;
+  }>;
+  errors: string[]; // Bookings the audit could not process
+}
+
+// Guest 360: history and value across all stays
+export interface GuestStats {
+  completedStays: number; // Checked-out bookings
+  upcomingStays: number; // Pending, confirmed or checked-in
+  cancelledStays: number; // Cancelled or no-show
+  nights: number; // Nights on the guest's bills
+  lifetimeSpend: number; // Total of the guest's bills
+  averageNightlyRate: number | null; // Room charges per billed night
+  firstStayAt: string | null;
+  lastStayAt: string | null; // Latest checkout
+}
+
+export interface GuestProfileBooking extends Booking {
+  propertyName: string | null;
+  roomNumbers: string[];
+}
+
+export interface GuestProfile {
+  guest: Guest;
+  stats: GuestStats;
+  tier: LoyaltyTier | null;
+  nextTier: LoyaltyTier | null; // Next tier up, to show progress
+  bookings: GuestProfileBooking[];
+  bills: Bill[];
+  orders: Order[];
+  communications: Communication[];
+}
+
+export interface GuestLoyaltySummary {
+  guestId: number;
+  completedStays: number;
+  lifetimeSpend: number;
+  tierId: number | null;
+  tierName: string | null;
+}
+
+// One person in the property on a given night (the booking's guest or a co-guest)
+export interface GuestRegisterRow {
+  bookingId: number;
+  bookingGuestId: number | null; // null for the booking's own guest
+  isPrimary: boolean;
+  fullName: string;
+  age: number | null;
+  gender: string | null;
+  nationality: string | null;
+  phone: string | null; // The booking guest's phone
+  idProofType: string | null;
+  idProofNumber: string | null;
+  hasIdProof: boolean;
+  roomNumbers: string[]; // Room(s) the person is in that night
+  checkInDate: Date;
+  checkOutDate: Date;
+  status: string;
+}
+
+export interface FormCRegistrationRow extends FormCRegistration {
+  propertyName: string | null;
+  checkInDate: Date; // Booked dates of the stay
+  checkOutDate: Date;
+  isOverdue: boolean; // Still pending after the 24-hour deadline
+}
+
+// What staff should know when a returning guest books again
+export interface GuestBookingAlert {
+  guestId: number;
+  fullName: string;
+  completedStays: number;
+  lastStayAt: string | null;
+  tierName: string | null;
+  tierBenefits: string | null;
+  preferences: string[]; // e.g., "Dietary: Jain"
+  notes: string | null; // Free-text preferences
+}
+
+// Item-level food sales (aggregated from order_items; rejected/cancelled orders and lines excluded)
+export interface ItemSalesRow {
+  menuItemId: number | null;
+  variantId: number | null;
+  itemName: string;
+  variantName: string | null;
+  quantity: number;
+  revenue: number;
+  orderCount: number;
+}
+
+export interface DailyItemSales {
+  date: string; // yyyy-MM-dd
+  quantity: number;
+  revenue: number;
+  orderCount: number;
+}
+
+export interface KitchenPerformanceSummary {
+  orders: number; // Orders that reached ready in the period
+  avgAcceptMinutes: number; // Placed to preparing
+  avgPrepMinutes: number; // Preparing to ready
+  lateOrders: number; // Took longer than their target prep time
+  onTimeRate: number; // Percent of orders with a target that met it
+}
+
+export interface KitchenItemPerformance {
+  menuItemId: number | null;
+  itemName: string;
+  targetPrepMinutes: number | null; // The item's preparationTime
+  orders: number;
+  avgPrepMinutes: number; // Of the orders the item was in
+  lateOrders: number; // Orders that took longer than this item's preparationTime
+}
+
+export interface KitchenShiftPerformance {
+  shift: string;
+  orders: number;
+  avgPrepMinutes: number;
+  lateOrders: number;
+}
+
+export interface KitchenPerformanceReport {
+  summary: KitchenPerformanceSummary;
+  byItem: KitchenItemPerformance[];
+  byShift: KitchenShiftPerformance[];
+}
+
 // Analytics Response Types
 export interface AgingBuckets {
   current: number;         // 0 days overdue (not due yet or due today)